@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { parseArgs, parseDuration, UsageError } from "./args.js";
+
+describe("parseArgs", () => {
+  it("splits words and flags", () => {
+    const isBoolean = (name: string) => name === "wait";
+
+    expect(parseArgs(["deploy", "create", "--app", "payments", "--wait", "-o=json", "--", "--x"], isBoolean)).toEqual({
+      words: ["deploy", "create", "--x"],
+      flags: [
+        { name: "app", value: "payments" },
+        { name: "wait", value: true },
+        { name: "output", value: "json" },
+      ],
+    });
+    expect(parseArgs(["--wait=false", "--count", "-1"], isBoolean).flags).toEqual([
+      { name: "wait", value: "false" },
+      { name: "count", value: "-1" },
+    ]);
+  });
+
+  it("rejects missing values and unknown short flags", () => {
+    expect(() => parseArgs(["--app", "--wait"], () => false)).toThrow(/--app requires a value/);
+    expect(() => parseArgs(["-x"], () => false)).toThrow(UsageError);
+  });
+});
+
+describe("parseDuration", () => {
+  it("parses units and plain milliseconds", () => {
+    expect(parseDuration("1h30m", "timeout")).toBe(5_400_000);
+    expect(parseDuration("1500", "timeout")).toBe(1500);
+    expect(() => parseDuration("10 minutes", "timeout")).toThrow(/--timeout/);
+  });
+});
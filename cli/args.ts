@@ -0,0 +1,108 @@
+/**
+ * Error for invalid command lines: unknown commands or flags, missing
+ * arguments and malformed values.
+ */
+export class UsageError extends Error {
+  override readonly name = "UsageError";
+}
+
+/** A flag from the command line. Boolean flags have the value `true`. */
+export interface Flag {
+  name: string;
+  value: string | true;
+}
+
+/**
+ * A tokenized command line.
+ */
+export interface ParsedArgs {
+  /** Arguments that aren't flags or flag values, in order */
+  words: string[];
+  /** Flags in order; repeated flags appear once per occurrence */
+  flags: Flag[];
+}
+
+/** Short flags and the long flags they stand for. */
+const SHORT_FLAGS: Record<string, string> = { o: "output", h: "help" };
+
+/**
+ * Splits a command line into words and flags.
+ *
+ * Accepts `--name value`, `--name=value` and the short forms `-o value` and
+ * `-h`. Flags for which `isBoolean` returns true never consume the next
+ * argument; `--name=false` turns them off. Everything after `--` is a word.
+ */
+export function parseArgs(argv: readonly string[], isBoolean: (name: string) => boolean): ParsedArgs {
+  const words: string[] = [];
+  const flags: Flag[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "--") {
+      words.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("-") || arg === "-") {
+      words.push(arg);
+      continue;
+    }
+
+    const long = arg.startsWith("--");
+    const eq = arg.indexOf("=");
+    let name = arg.slice(long ? 2 : 1, eq === -1 ? undefined : eq);
+    if (!long) {
+      const expanded = SHORT_FLAGS[name];
+      if (!expanded) {
+        throw new UsageError(`unknown flag: ${arg}`);
+      }
+      name = expanded;
+    }
+    if (!name) {
+      throw new UsageError(`invalid flag: ${arg}`);
+    }
+
+    if (eq !== -1) {
+      flags.push({ name, value: arg.slice(eq + 1) });
+    } else if (isBoolean(name)) {
+      flags.push({ name, value: true });
+    } else {
+      const value = argv[i + 1];
+      if (value === undefined || (value.startsWith("-") && value !== "-" && !/^-\d/.test(value))) {
+        throw new UsageError(`flag --${name} requires a value`);
+      }
+      flags.push({ name, value });
+      i++;
+    }
+  }
+
+  return { words, flags };
+}
+
+/**
+ * Reads a boolean flag value, accepting `true`/`false` as well as a bare flag.
+ */
+export function parseBoolean(flag: Flag): boolean {
+  if (flag.value === true || flag.value === "true") {
+    return true;
+  }
+  if (flag.value === "false") {
+    return false;
+  }
+  throw new UsageError(`flag --${flag.name} must be true or false, got "${flag.value}"`);
+}
+
+/**
+ * Parses a duration such as `90s`, `10m` or `1h30m`, or a plain number of
+ * milliseconds.
+ */
+export function parseDuration(value: string, flag: string): number {
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)];
+  if (parts.length === 0 || parts.map((p) => p[0]).join("") !== value) {
+    throw new UsageError(`flag --${flag} must be a duration like 90s or 10m, got "${value}"`);
+  }
+  return parts.reduce((total, [, amount, unit]) => total + Number(amount) * units[unit!]!, 0);
+}
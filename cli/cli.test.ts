@@ -0,0 +1,228 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError, createClient, createRouterTransport } from "@connectrpc/connect";
+import { EXIT_CODES, runCLI } from "./cli.js";
+import { SERVICES, type CLIClient } from "./commands.js";
+import { createFakeAdmiral } from "../testing/lib/fake.js";
+import { ApplicationAPI } from "../proto/admiral/api/application/v1/application_pb.js";
+import { DeploymentAPI, DeploymentStatus } from "../proto/admiral/api/deployment/v1/deployment_pb.js";
+import { EnvironmentAPI, RuntimeType } from "../proto/admiral/api/environment/v1/environment_pb.js";
+import { RunnerAPI } from "../proto/admiral/api/runner/v1/runner_pb.js";
+import { VariableAPI } from "../proto/admiral/api/variable/v1/variable_pb.js";
+
+const ENV = { ADMIRAL_URL: "http://admiral.test", ADMIRAL_CONFIG: "/nonexistent/admiral/config" };
+
+// Helper to run the CLI against in-memory services; `requests` records every call
+function createCLI(deploymentStatus = DeploymentStatus.SUCCEEDED) {
+  const requests: string[] = [];
+  const transport = createRouterTransport((router) => {
+    router.service(ApplicationAPI, {
+      listApplications(req) {
+        requests.push(`listApplications ${req.filter}`);
+        return { applications: req.filter.includes("'payments'") ? [{ id: "app-1", name: "payments" }] : [] };
+      },
+      getApplication(req) {
+        throw new ConnectError(`application ${req.applicationId} not found`, Code.NotFound);
+      },
+      updateApplication(req) {
+        requests.push(`updateApplication ${req.application?.id} ${req.updateMask?.paths.join(",")}`);
+        return { application: req.application };
+      },
+    });
+    router.service(EnvironmentAPI, {
+      listEnvironments(req) {
+        requests.push(`listEnvironments ${req.filter}`);
+        return {
+          environments: [
+            { id: "env-1", name: "prod", applicationId: "app-1", runtimeType: RuntimeType.KUBERNETES },
+            { id: "env-2", name: "staging", applicationId: "app-1", runtimeType: RuntimeType.KUBERNETES },
+          ].slice(0, req.filter.includes("'prod'") ? 1 : 2),
+        };
+      },
+    });
+    router.service(DeploymentAPI, {
+      createDeployment(req) {
+        requests.push(`createDeployment ${req.applicationId} ${req.environmentId} ${req.destroy}`);
+        return { deployment: { id: "dep-1", applicationId: req.applicationId, status: DeploymentStatus.QUEUED } };
+      },
+      getDeployment: (req) => ({ deployment: { id: req.deploymentId, status: deploymentStatus } }),
+      listRevisions: () => ({ revisions: [] }),
+    });
+    router.service(RunnerAPI, {
+      listRunners: () => ({ runners: [{ id: "run-1", name: "ci" }] }),
+      createRunnerToken(req) {
+        requests.push(`createRunnerToken ${req.runnerId} ${req.name}`);
+        return { accessToken: { id: "tok-1", name: req.name }, plainTextToken: "adm_secret" };
+      },
+    });
+    router.service(VariableAPI, {
+      listVariables(req) {
+        requests.push(`listVariables ${req.filter}`);
+        return { variables: req.filter.includes("'LOG_LEVEL'") ? [{ id: "var-1", key: "LOG_LEVEL" }] : [] };
+      },
+      createVariable(req) {
+        requests.push(`createVariable ${req.key}=${req.value}`);
+        return { variable: { id: "var-2", key: req.key, value: req.value } };
+      },
+      updateVariable(req) {
+        requests.push(`updateVariable ${req.variable?.id} ${req.updateMask?.paths.join(",")}`);
+        return { variable: req.variable };
+      },
+    });
+  });
+  const client = Object.fromEntries(
+    Object.entries(SERVICES).map(([name, service]) => [name, createClient(service, transport)]),
+  ) as unknown as CLIClient;
+  return { run: runWith(client), requests };
+}
+
+// Helper to run the CLI against a fake Admiral with request validation on and one application
+async function createFakeCLI() {
+  const fake = createFakeAdmiral();
+  const client = fake.createClient();
+  const { application } = await client.application.createApplication({
+    name: "payments",
+    description: "old",
+    labels: { tier: "1" },
+  });
+  return { run: runWith(client), fake, application: application! };
+}
+
+function runWith(client: CLIClient) {
+  return async (...argv: string[]) => {
+    let stdout = "";
+    let stderr = "";
+    const code = await runCLI(argv, {
+      stdout: { write: (chunk: string) => (stdout += chunk) },
+      stderr: { write: (chunk: string) => (stderr += chunk) },
+      env: ENV,
+      connect: () => client,
+    });
+    return { code, stdout, stderr };
+  };
+}
+
+describe("runCLI", () => {
+  it("lists resources as a table, scoped by name and filtered", async () => {
+    const { run, requests } = createCLI();
+
+    const result = await run("env", "list", "--app", "payments", "--filter", "field['runtime_type'] = 'KUBERNETES'");
+
+    expect(result).toEqual({
+      code: EXIT_CODES.ok,
+      stdout:
+        "ID      NAME      RUNTIME TYPE   CREATED AT\nenv-1   prod      KUBERNETES\nenv-2   staging   KUBERNETES\n",
+      stderr: "",
+    });
+    expect(requests).toEqual([
+      `listApplications field['name'] = 'payments'`,
+      `listEnvironments field['runtime_type'] = 'KUBERNETES' AND field['application_id'] = 'app-1'`,
+    ]);
+  });
+
+  it("prints JSON and YAML", async () => {
+    const { run } = createCLI();
+
+    const json = await run("runner", "tokens", "create", "ci", "--name", "deploy", "-o", "json");
+    expect(JSON.parse(json.stdout)).toMatchObject({ accessToken: { id: "tok-1" }, plainTextToken: "adm_secret" });
+
+    const yaml = await run("runner", "tokens", "create", "ci", "--name=deploy", "--output", "yaml");
+    expect(yaml.stdout).toContain("plainTextToken: adm_secret\n");
+  });
+
+  it("creates a deployment by name and waits for it", async () => {
+    const { run, requests } = createCLI();
+
+    const result = await run("deploy", "create", "--app", "payments", "--env", "prod", "--wait", "--destroy=false");
+
+    expect(result.code).toBe(EXIT_CODES.ok);
+    expect(result.stdout).toMatch(/^ID\s+STATUS\s+CREATED AT\ndep-1\s+SUCCEEDED\n$/);
+    expect(result.stderr).toBe("deployment dep-1: SUCCEEDED\n");
+    expect(requests).toContain("createDeployment app-1 env-1 false");
+
+    const failed = await createCLI(DeploymentStatus.FAILED).run(
+      "deploy",
+      "create",
+      "--app=payments",
+      "--env=prod",
+      "--wait",
+    );
+    expect(failed.code).toBe(EXIT_CODES.deploymentFailed);
+  });
+
+  it("sets variables by updating or creating them in the exact scope", async () => {
+    const { run, fake, application } = await createFakeCLI();
+    const global = (await fake.createClient().variable.createVariable({ key: "LOG_LEVEL", value: "info" })).variable!;
+
+    expect((await run("var", "set", "LOG_LEVEL", "debug", "--app", "payments", "--sensitive")).code).toBe(0);
+    expect((await run("var", "set", "LOG_LEVEL", "trace", "--app", "payments")).code).toBe(0);
+    expect((await run("var", "set", "REPLICAS", "3")).code).toBe(0);
+
+    const variables = [...fake.store.variables.values()].map((v) => [v.key, v.value, v.applicationId, v.sensitive]);
+    expect(variables).toEqual([
+      ["LOG_LEVEL", "info", undefined, false],
+      ["LOG_LEVEL", "trace", application.id, true],
+      ["REPLICAS", "3", undefined, false],
+    ]);
+    expect(fake.store.variables.get(global.id)?.value).toBe("info");
+  });
+
+  it("updates only the flags given", async () => {
+    const { run, fake, application } = await createFakeCLI();
+
+    const result = await run("app", "update", "payments", "--description", "Payments", "--labels", "team=pay");
+
+    expect(result.code).toBe(EXIT_CODES.ok);
+    expect(fake.store.applications.get(application.id)).toMatchObject({ name: "payments", description: "Payments" });
+    expect(fake.store.applications.get(application.id)?.labels).toEqual({ team: "pay", tier: "1" });
+  });
+
+  it("keeps the fields next to a nested flag", async () => {
+    const { run, fake, application } = await createFakeCLI();
+    const client = fake.createClient();
+    const { cluster } = await client.cluster.createCluster({ name: "eu-1" });
+    const { environment } = await client.environment.createEnvironment({
+      applicationId: application.id,
+      name: "prod",
+      runtimeType: RuntimeType.KUBERNETES,
+      runtimeConfig: { case: "kubernetes", value: { clusterId: cluster!.id, namespace: "a" } },
+    });
+
+    const result = await run("env", "update", environment!.id, "--kubernetes.namespace", "b");
+
+    expect(result.code).toBe(EXIT_CODES.ok);
+    expect(fake.store.environments.get(environment!.id)?.runtimeConfig).toEqual({
+      case: "kubernetes",
+      value: expect.objectContaining({ clusterId: cluster!.id, namespace: "b" }),
+    });
+  });
+
+  it("maps errors to exit codes", async () => {
+    const { run } = createCLI();
+
+    expect(await run("app", "get", "a3f0c1d2-0000-4000-8000-000000000001")).toEqual({
+      code: EXIT_CODES.notFound,
+      stdout: "",
+      stderr: "admiral: application a3f0c1d2-0000-4000-8000-000000000001 not found\n",
+    });
+    expect((await run("app", "get", "billing")).code).toBe(EXIT_CODES.notFound);
+    expect((await run("env", "list", "--filter", "colour = 1")).stderr).toMatch(/invalid --filter/);
+    expect((await run("app", "list", "--bogus", "1")).code).toBe(EXIT_CODES.usage);
+    expect((await run("app", "update", "payments")).code).toBe(EXIT_CODES.usage);
+    expect((await run("app", "frobnicate")).code).toBe(EXIT_CODES.usage);
+    expect((await run("app", "list", "-o", "xml")).code).toBe(EXIT_CODES.usage);
+  });
+
+  it("prints help for commands", async () => {
+    const { run } = createCLI();
+
+    const help = await run("env", "create", "--help");
+    expect(help.code).toBe(EXIT_CODES.ok);
+    expect(help.stdout).toContain("Usage: admiral env create [flags]");
+    expect(help.stdout).toMatch(/--app\s+name or ID/);
+    expect(help.stdout).toMatch(/--runtime-type\s+KUBERNETES/);
+
+    const group = await run("runner", "tokens");
+    expect(group.code).toBe(EXIT_CODES.usage);
+    expect(group.stderr).toContain("runner tokens create <runner>");
+  });
+});
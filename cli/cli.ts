@@ -0,0 +1,289 @@
+import type { Message } from "@bufbuild/protobuf";
+import { Code, ConnectError } from "@connectrpc/connect";
+import { createClient } from "../client/client.js";
+import type { ClientConfig } from "../client/lib/config.js";
+import { DeploymentFailedError } from "../client/lib/deployment.js";
+import { AdmiralError, ValidationError } from "../client/lib/errors.js";
+import { loadConfig } from "../client/lib/loader.js";
+import { paginate } from "../client/lib/pagination.js";
+import { parseArgs, UsageError, type Flag } from "./args.js";
+import {
+  COMMANDS,
+  SERVICES,
+  type CLIClient,
+  type Command,
+  type CommandContext,
+  type CommandResult,
+} from "./commands.js";
+import { formatOutput, OUTPUT_FORMATS, type OutputFormat } from "./output.js";
+import { buildRequest, flagFields, flagHint, flagName, isBooleanField, kebabCase, scopeFields } from "./request.js";
+
+/**
+ * Process exit codes. API errors map to a code by their Connect code.
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  error: 1,
+  usage: 2,
+  invalidArgument: 3,
+  notFound: 4,
+  conflict: 5,
+  unauthenticated: 6,
+  permissionDenied: 7,
+  rateLimited: 8,
+  unavailable: 9,
+  deploymentFailed: 10,
+  canceled: 130,
+} as const;
+
+const CODE_EXIT: Partial<Record<Code, number>> = {
+  [Code.InvalidArgument]: EXIT_CODES.invalidArgument,
+  [Code.OutOfRange]: EXIT_CODES.invalidArgument,
+  [Code.NotFound]: EXIT_CODES.notFound,
+  [Code.AlreadyExists]: EXIT_CODES.conflict,
+  [Code.Aborted]: EXIT_CODES.conflict,
+  [Code.FailedPrecondition]: EXIT_CODES.conflict,
+  [Code.Unauthenticated]: EXIT_CODES.unauthenticated,
+  [Code.PermissionDenied]: EXIT_CODES.permissionDenied,
+  [Code.ResourceExhausted]: EXIT_CODES.rateLimited,
+  [Code.Unavailable]: EXIT_CODES.unavailable,
+  [Code.DeadlineExceeded]: EXIT_CODES.unavailable,
+  [Code.Canceled]: EXIT_CODES.canceled,
+};
+
+/**
+ * Returns the exit code for an error.
+ */
+export function exitCodeFor(err: unknown): number {
+  if (err instanceof UsageError) {
+    return EXIT_CODES.usage;
+  }
+  if (err instanceof DeploymentFailedError) {
+    return EXIT_CODES.deploymentFailed;
+  }
+  if (err instanceof ConnectError) {
+    return CODE_EXIT[err.code] ?? EXIT_CODES.error;
+  }
+  return EXIT_CODES.error;
+}
+
+/** Flags accepted by every command. */
+const GLOBAL_FLAGS: Record<string, { value?: string; description: string }> = {
+  output: { value: "format", description: "Output format: table, json or yaml (default table)" },
+  profile: { value: "name", description: "Profile from the config file (default $ADMIRAL_PROFILE or default)" },
+  config: { value: "path", description: "Config file (default ~/.config/admiral/config)" },
+  url: { value: "url", description: "API base URL, overriding the profile and $ADMIRAL_URL" },
+  token: { value: "token", description: "Auth token, overriding the profile and $ADMIRAL_TOKEN" },
+  help: { description: "Show help" },
+};
+
+/** Flags accepted by List commands. */
+const LIST_FLAGS: Record<string, { value?: string; description: string }> = {
+  limit: { value: "n", description: "Show at most n items" },
+};
+
+const FILTER_FLAG = { value: "expr", description: "Filter expression, e.g. \"field['name'] STARTS_WITH 'web'\"" };
+
+/**
+ * Options for running the CLI.
+ */
+export interface CLIOptions {
+  /** @default process.stdout */
+  stdout?: { write(chunk: string): unknown };
+  /** @default process.stderr */
+  stderr?: { write(chunk: string): unknown };
+  /** @default process.env */
+  env?: Record<string, string | undefined>;
+  /** Creates the API client. Defaults to `createClient`. */
+  connect?: (config: ClientConfig) => CLIClient;
+}
+
+/** Whether a method pages through results. */
+function isList(command: Command): boolean {
+  return command.method.input.fields.some((f) => f.localName === "pageToken");
+}
+
+/** Finds the command selected by the leading words, if any. */
+function findCommand(words: string[]): Command | undefined {
+  return COMMANDS.find((c) => c.path.every((word, i) => words[i] === word));
+}
+
+/**
+ * Calls the command's RPC and picks what to print: the items of a List
+ * response, the only message field of a response such as
+ * `GetApplicationResponse.application`, or the whole response.
+ */
+async function execute(ctx: CommandContext, command: Command, limit: number | undefined): Promise<CommandResult> {
+  const service = (Object.keys(SERVICES) as (keyof CLIClient)[]).find((k) => SERVICES[k] === command.method.parent)!;
+  const rpc = (ctx.client[service] as unknown as Record<string, (req: Message) => Promise<Message>>)[
+    command.method.localName
+  ]!;
+  const output = command.method.output;
+
+  if (isList(command)) {
+    const items = output.fields.find((f) => f.fieldKind === "list" && f.listKind === "message");
+    const list = rpc as (req: Message) => Promise<Message & { nextPageToken: string }>;
+    const value = (await paginate(list, ctx.request, { maxItems: limit }).collect()) as Message[];
+    return { schema: items?.message ?? output, value };
+  }
+
+  const response = await rpc(ctx.request);
+  const [only] = output.fields;
+  if (output.fields.length === 1 && only?.fieldKind === "message") {
+    const value = (response as unknown as Record<string, Message | undefined>)[only.localName];
+    if (value) {
+      return { schema: only.message, value };
+    }
+  }
+  return { schema: output, value: response };
+}
+
+function formatFlags(flags: [string, string][]): string {
+  const width = Math.max(...flags.map(([flag]) => flag.length));
+  return flags.map(([flag, description]) => `  ${flag.padEnd(width)}   ${description}\n`).join("");
+}
+
+function commandHelp(command: Command): string {
+  const usage = `Usage: admiral ${[...command.path, ...command.args].join(" ")} [flags]\n\n${command.summary}\n`;
+  const placeholders = new Set(command.args.map((a) => a.slice(1, -1)));
+  const flags: [string, string][] = flagFields(command)
+    .filter((f) => !placeholders.has(flagName(f.jsonName)))
+    .map((f) => [`--${flagName(f.jsonName)}`, flagHint(f)]);
+  for (const key of scopeFields(command).keys()) {
+    flags.push([`--${flagName(key)}`, `Only show items with this ${kebabCase(key).replace(/-id$/, "")}`]);
+  }
+  if (command.filter) {
+    flags.push([`--filter ${FILTER_FLAG.value}`, FILTER_FLAG.description]);
+  }
+  const own = { ...(isList(command) ? LIST_FLAGS : {}), ...command.options };
+  for (const [name, option] of Object.entries(own)) {
+    flags.push([`--${name}${option.value ? ` ${option.value}` : ""}`, option.description]);
+  }
+  const global = Object.entries(GLOBAL_FLAGS).map(([name, f]): [string, string] => [
+    `--${name}${f.value ? ` ${f.value}` : ""}`,
+    f.description,
+  ]);
+  return `${usage}${flags.length > 0 ? `\nFlags:\n${formatFlags(flags)}` : ""}\nGlobal flags:\n${formatFlags(global)}`;
+}
+
+function overviewHelp(prefix: string[]): string {
+  const commands = COMMANDS.filter((c) => prefix.every((word, i) => c.path[i] === word));
+  const rows = commands.map((c): [string, string] => [[...c.path, ...c.args].join(" "), c.summary]);
+  const global = Object.entries(GLOBAL_FLAGS).map(([name, f]): [string, string] => [
+    `--${name}${f.value ? ` ${f.value}` : ""}`,
+    f.description,
+  ]);
+  return (
+    "Usage: admiral <command> [flags]\n\nCommands:\n" +
+    formatFlags(rows) +
+    "\nGlobal flags:\n" +
+    formatFlags(global) +
+    "\nRun 'admiral <command> --help' for the flags of a command.\n"
+  );
+}
+
+/** Formats an error for stderr, with the request id and field violations when known. */
+function formatError(err: unknown): string {
+  const lines = [`admiral: ${err instanceof ConnectError ? err.rawMessage : ((err as Error).message ?? String(err))}`];
+  if (err instanceof ValidationError) {
+    lines.push(...err.violations.map((v) => `  ${v.field}: ${v.message}`));
+  }
+  if (err instanceof DeploymentFailedError) {
+    lines.push(...err.failedRevisions.map((r) => `  ${r.componentName}: ${r.errorMessage}`));
+  }
+  if (err instanceof AdmiralError && err.requestId) {
+    lines.push(`  request id: ${err.requestId}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Runs the `admiral` command line.
+ *
+ * @param argv - Arguments after the program name
+ * @param options - Output streams, environment and client factory
+ * @returns The process exit code, see `EXIT_CODES`
+ */
+export async function runCLI(argv: string[], options: CLIOptions = {}): Promise<number> {
+  const stdout = options.stdout ?? process.stdout;
+  const stderr = options.stderr ?? process.stderr;
+  const connect = options.connect ?? createClient;
+
+  try {
+    // The command is selected by the leading words; its flags are only known after that
+    const words = parseArgs(argv, (name) => !GLOBAL_FLAGS[name]?.value).words;
+    const command = findCommand(words);
+    const isBoolean = (name: string) =>
+      name === "help" ||
+      (command?.options?.[name] !== undefined && !command.options[name]!.value) ||
+      (command !== undefined && isBooleanField(command, name));
+    const { words: positional, flags } = parseArgs(argv, isBoolean);
+
+    const global = new Map<string, string>();
+    let help = false;
+    const own = new Map<string, string | true>();
+    const request: Flag[] = [];
+    let filter: string | undefined;
+    for (const flag of flags) {
+      if (flag.name === "help") {
+        help = flag.value !== "false";
+      } else if (GLOBAL_FLAGS[flag.name] && typeof flag.value === "string") {
+        global.set(flag.name, flag.value);
+      } else if (command?.options?.[flag.name] || (command && isList(command) && LIST_FLAGS[flag.name])) {
+        own.set(flag.name, flag.value);
+      } else if (flag.name === "filter" && typeof flag.value === "string") {
+        filter = flag.value;
+      } else {
+        request.push(flag);
+      }
+    }
+
+    if (!command) {
+      if (!COMMANDS.some((c) => words.every((word, i) => c.path[i] === word))) {
+        throw new UsageError(`unknown command "${words.join(" ")}"; run 'admiral --help' for a list of commands`);
+      }
+      (help ? stdout : stderr).write(overviewHelp(words));
+      return help ? EXIT_CODES.ok : EXIT_CODES.usage;
+    }
+    if (help) {
+      stdout.write(commandHelp(command));
+      return EXIT_CODES.ok;
+    }
+
+    const output = global.get("output") ?? "table";
+    if (!OUTPUT_FORMATS.includes(output as OutputFormat)) {
+      throw new UsageError(`--output must be one of ${OUTPUT_FORMATS.join(", ")}`);
+    }
+    const limit = own.get("limit");
+    if (limit !== undefined && !/^[1-9]\d*$/.test(String(limit))) {
+      throw new UsageError("--limit must be a positive integer");
+    }
+
+    const config = loadConfig(
+      { baseUrl: global.get("url"), authToken: global.get("token") },
+      { profile: global.get("profile"), configFile: global.get("config"), env: options.env },
+    );
+    const client = connect(config);
+
+    const built = await buildRequest(client, command, positional.slice(command.path.length), request, filter);
+    const ctx: CommandContext = {
+      client,
+      ...built,
+      options: own,
+      progress: (line) => stderr.write(line + "\n"),
+    };
+    const result = command.run
+      ? await command.run(ctx)
+      : await execute(ctx, command, limit === undefined ? undefined : Number(limit));
+
+    if (output === "table" && Array.isArray(result.value) && result.value.length === 0) {
+      stderr.write("No resources found.\n");
+    } else {
+      stdout.write(formatOutput(result.schema, result.value, output as OutputFormat, command.columns));
+    }
+    return EXIT_CODES.ok;
+  } catch (err) {
+    stderr.write(formatError(err));
+    return exitCodeFor(err);
+  }
+}
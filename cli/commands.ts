@@ -0,0 +1,343 @@
+import type { DescMessage, DescMethodUnary, Message } from "@bufbuild/protobuf";
+import type { Client as ConnectClient } from "@connectrpc/connect";
+import { waitForDeployment, type DeploymentEvent } from "../client/lib/deployment.js";
+import { paginate } from "../client/lib/pagination.js";
+import { renderFilter, type FilterExpr, type FilterResource } from "../client/lib/filter.js";
+import { parseDuration } from "./args.js";
+import { ApplicationAPI } from "../proto/admiral/api/application/v1/application_pb.js";
+import { ClusterAPI } from "../proto/admiral/api/cluster/v1/cluster_pb.js";
+import { ComponentAPI } from "../proto/admiral/api/component/v1/component_pb.js";
+import { ConnectionAPI } from "../proto/admiral/api/connection/v1/connection_pb.js";
+import {
+  DeploymentAPI,
+  DeploymentSchema,
+  DeploymentStatus,
+  RevisionStatus,
+  type CreateDeploymentRequest,
+} from "../proto/admiral/api/deployment/v1/deployment_pb.js";
+import { EnvironmentAPI } from "../proto/admiral/api/environment/v1/environment_pb.js";
+import { HealthcheckAPI } from "../proto/admiral/api/healthcheck/v1/healthcheck_pb.js";
+import { RunnerAPI } from "../proto/admiral/api/runner/v1/runner_pb.js";
+import { SourceAPI } from "../proto/admiral/api/source/v1/source_pb.js";
+import { StateAPI } from "../proto/admiral/api/state/v1/state_pb.js";
+import { UserAPI } from "../proto/admiral/api/user/v1/user_pb.js";
+import {
+  VariableAPI,
+  VariableSchema,
+  type CreateVariableRequest,
+} from "../proto/admiral/api/variable/v1/variable_pb.js";
+
+/** Services reachable from the CLI, keyed like the accessors of `Client`. */
+export const SERVICES = {
+  application: ApplicationAPI,
+  cluster: ClusterAPI,
+  component: ComponentAPI,
+  connection: ConnectionAPI,
+  deployment: DeploymentAPI,
+  environment: EnvironmentAPI,
+  healthcheck: HealthcheckAPI,
+  runner: RunnerAPI,
+  source: SourceAPI,
+  state: StateAPI,
+  user: UserAPI,
+  variable: VariableAPI,
+} as const;
+
+/** The service clients the CLI calls. A `Client` satisfies this. */
+export type CLIClient = { [K in keyof typeof SERVICES]: ConnectClient<(typeof SERVICES)[K]> };
+
+/** Output of a command: a message, or the items of a List response. */
+export interface CommandResult {
+  schema: DescMessage;
+  value: Message | Message[];
+}
+
+/**
+ * State passed to a command's `run`.
+ */
+export interface CommandContext {
+  client: CLIClient;
+  /** The request built from the arguments and flags */
+  request: Message;
+  /** JSON names of the request fields set on the command line */
+  fields: string[];
+  /** Values of the command's own `options` */
+  options: Map<string, string | true>;
+  /** Writes a progress line to stderr */
+  progress(line: string): void;
+}
+
+/**
+ * A flag handled by the command itself rather than mapped onto the request.
+ */
+export interface CommandOption {
+  /** Placeholder for the value; boolean options have none */
+  value?: string;
+  description: string;
+}
+
+/**
+ * A CLI command calling one RPC.
+ */
+export interface Command {
+  /** Words selecting the command, e.g. `["runner", "tokens", "create"]` */
+  path: string[];
+  /**
+   * Positional arguments, e.g. `["<app>"]`. Each is set like the flag of the
+   * same name, except the first argument of an update, which is the resource ID.
+   */
+  args: string[];
+  summary: string;
+  method: DescMethodUnary;
+  /** Request field holding the resource of an Update RPC; flags then address its fields */
+  resource?: string;
+  /** Filter fields of a List RPC, enabling `--filter` and scope flags like `--app` */
+  filter?: FilterResource;
+  /** Table columns as dotted field paths */
+  columns?: string[];
+  options?: Record<string, CommandOption>;
+  /** Custom implementation; by default the RPC is called with the request */
+  run?: (ctx: CommandContext) => Promise<CommandResult>;
+}
+
+/**
+ * Declares a command from its usage, e.g. `"runner tokens create <runner>"`.
+ */
+function command(
+  usage: string,
+  summary: string,
+  method: DescMethodUnary,
+  extra: Omit<Command, "path" | "args" | "summary" | "method"> = {},
+): Command {
+  const words = usage.split(" ");
+  return {
+    path: words.filter((w) => !w.startsWith("<")),
+    args: words.filter((w) => w.startsWith("<")),
+    summary,
+    method,
+    ...extra,
+  };
+}
+
+const TOKEN_COLUMNS = ["accessToken.id", "accessToken.name", "accessToken.expiresAt", "plainTextToken"];
+
+/**
+ * Creates a deployment, optionally waiting for it to finish.
+ */
+async function createDeployment({ client, request, options, progress }: CommandContext): Promise<CommandResult> {
+  const { deployment } = await client.deployment.createDeployment(request as CreateDeploymentRequest);
+  if (!deployment || !options.has("wait")) {
+    return { schema: DeploymentSchema, value: deployment! };
+  }
+
+  const timeout = options.get("timeout");
+  const onEvent = (event: DeploymentEvent) => {
+    if (event.type === "status") {
+      progress(`deployment ${event.deployment.id}: ${DeploymentStatus[event.status]}`);
+    } else if (event.type === "revision") {
+      progress(`  ${event.revision.componentName}: ${RevisionStatus[event.status]}`);
+    }
+  };
+  const final = await waitForDeployment(client.deployment, deployment.id, {
+    timeout: typeof timeout === "string" ? parseDuration(timeout, "timeout") : undefined,
+    onEvent,
+  });
+  return { schema: DeploymentSchema, value: final };
+}
+
+/**
+ * Sets a variable: updates the variable with the same key and scope, or
+ * creates it.
+ */
+async function setVariable({ client, request, fields }: CommandContext): Promise<CommandResult> {
+  const req = request as CreateVariableRequest;
+  const scope = (field: string, value: string | undefined): FilterExpr =>
+    value ? { kind: "compare", field, op: "=", value } : { kind: "null", field, negated: false };
+  const filter = renderFilter({
+    kind: "and",
+    operands: [
+      { kind: "compare", field: "key", op: "=", value: req.key },
+      scope("application_id", req.applicationId),
+      scope("environment_id", req.environmentId),
+    ],
+  });
+
+  // The API also returns the variables of broader scopes, which must not be overwritten
+  const existing = (await paginate(client.variable.listVariables, { filter }).collect()).find(
+    (v) => v.applicationId === req.applicationId && v.environmentId === req.environmentId,
+  );
+  if (!existing) {
+    const { variable } = await client.variable.createVariable(req);
+    return { schema: VariableSchema, value: variable! };
+  }
+
+  // Requests are validated as a whole, so send the existing variable with the flags applied
+  const mutable = ["value", "sensitive", "type", "description"] as const;
+  const paths = mutable.filter((f) => f === "value" || fields.includes(f));
+  const variable = { ...existing, ...Object.fromEntries(paths.map((path) => [path, req[path]])) };
+  const { variable: updated } = await client.variable.updateVariable({ variable, updateMask: { paths } });
+  return { schema: VariableSchema, value: updated! };
+}
+
+/**
+ * All commands, in help order.
+ */
+export const COMMANDS: Command[] = [
+  command("app list", "List applications", ApplicationAPI.method.listApplications, { filter: "application" }),
+  command("app get <app>", "Show an application", ApplicationAPI.method.getApplication),
+  command("app create", "Create an application", ApplicationAPI.method.createApplication),
+  command("app update <app>", "Update an application", ApplicationAPI.method.updateApplication, {
+    resource: "application",
+  }),
+  command("app delete <app>", "Delete an application", ApplicationAPI.method.deleteApplication),
+
+  command("cluster list", "List clusters", ClusterAPI.method.listClusters, { filter: "cluster" }),
+  command("cluster get <cluster>", "Show a cluster", ClusterAPI.method.getCluster),
+  command("cluster status <cluster>", "Show the health reported by a cluster", ClusterAPI.method.getClusterStatus),
+  command("cluster create", "Create a cluster", ClusterAPI.method.createCluster),
+  command("cluster update <cluster>", "Update a cluster", ClusterAPI.method.updateCluster, { resource: "cluster" }),
+  command("cluster delete <cluster>", "Delete a cluster", ClusterAPI.method.deleteCluster),
+  command("cluster workloads <cluster>", "List the workloads of a cluster", ClusterAPI.method.listWorkloads, {
+    filter: "workload",
+  }),
+  command("cluster tokens list <cluster>", "List cluster agent tokens", ClusterAPI.method.listClusterTokens, {
+    filter: "clusterToken",
+  }),
+  command("cluster tokens create <cluster>", "Create a cluster agent token", ClusterAPI.method.createClusterToken, {
+    columns: TOKEN_COLUMNS,
+  }),
+  command("cluster tokens get <cluster> <token-id>", "Show a cluster agent token", ClusterAPI.method.getClusterToken),
+  command(
+    "cluster tokens revoke <cluster> <token-id>",
+    "Revoke a cluster agent token",
+    ClusterAPI.method.revokeClusterToken,
+  ),
+
+  command("component list", "List components", ComponentAPI.method.listComponents, { filter: "component" }),
+  command("component get <component>", "Show a component", ComponentAPI.method.getComponent),
+  command("component create", "Create a component", ComponentAPI.method.createComponent),
+  command("component update <component>", "Update a component", ComponentAPI.method.updateComponent, {
+    resource: "component",
+  }),
+  command("component delete <component>", "Delete a component", ComponentAPI.method.deleteComponent),
+  command(
+    "component overrides list <component>",
+    "List the environment overrides of a component",
+    ComponentAPI.method.listComponentOverrides,
+    { columns: ["componentId", "environmentId", "disabled", "version", "sourceId"] },
+  ),
+  command(
+    "component overrides get <component> <env>",
+    "Show the override of a component in an environment",
+    ComponentAPI.method.getComponentOverride,
+    { columns: ["componentId", "environmentId", "disabled", "version", "sourceId"] },
+  ),
+  command(
+    "component overrides set <component> <env>",
+    "Replace the override of a component in an environment",
+    ComponentAPI.method.setComponentOverride,
+    { columns: ["componentId", "environmentId", "disabled", "version", "sourceId"] },
+  ),
+  command(
+    "component overrides delete <component> <env>",
+    "Delete the override of a component in an environment",
+    ComponentAPI.method.deleteComponentOverride,
+  ),
+
+  command("connection list", "List connections", ConnectionAPI.method.listConnections, { filter: "connection" }),
+  command("connection get <connection>", "Show a connection", ConnectionAPI.method.getConnection),
+  command("connection create", "Create a connection", ConnectionAPI.method.createConnection),
+  command("connection update <connection>", "Update a connection", ConnectionAPI.method.updateConnection, {
+    resource: "connection",
+  }),
+  command("connection delete <connection>", "Delete a connection", ConnectionAPI.method.deleteConnection),
+  command("connection test <connection>", "Test the credentials of a connection", ConnectionAPI.method.testConnection),
+
+  command("deploy list", "List deployments", DeploymentAPI.method.listDeployments, { filter: "deployment" }),
+  command("deploy get <deployment-id>", "Show a deployment", DeploymentAPI.method.getDeployment),
+  command("deploy create", "Deploy an application to an environment", DeploymentAPI.method.createDeployment, {
+    options: {
+      wait: { description: "Wait for the deployment to finish, printing progress to stderr" },
+      timeout: { value: "duration", description: "Give up waiting after this long, e.g. 30m" },
+    },
+    run: createDeployment,
+  }),
+  command("deploy cancel <deployment-id>", "Cancel a deployment", DeploymentAPI.method.cancelDeployment),
+
+  command("revision list <deployment-id>", "List the revisions of a deployment", DeploymentAPI.method.listRevisions),
+  command("revision get <deployment-id> <revision-id>", "Show a revision", DeploymentAPI.method.getRevision),
+  command(
+    "revision retry <deployment-id> <revision-id>",
+    "Retry a failed revision",
+    DeploymentAPI.method.retryRevision,
+  ),
+
+  command("env list", "List environments", EnvironmentAPI.method.listEnvironments, { filter: "environment" }),
+  command("env get <env>", "Show an environment", EnvironmentAPI.method.getEnvironment),
+  command("env create", "Create an environment", EnvironmentAPI.method.createEnvironment),
+  command("env update <env>", "Update an environment", EnvironmentAPI.method.updateEnvironment, {
+    resource: "environment",
+  }),
+  command("env delete <env>", "Delete an environment", EnvironmentAPI.method.deleteEnvironment),
+
+  command("health", "Check that the API is reachable", HealthcheckAPI.method.healthcheck),
+
+  command("runner list", "List runners", RunnerAPI.method.listRunners, { filter: "runner" }),
+  command("runner get <runner>", "Show a runner", RunnerAPI.method.getRunner),
+  command("runner status <runner>", "Show the health reported by a runner", RunnerAPI.method.getRunnerStatus),
+  command("runner create", "Create a runner", RunnerAPI.method.createRunner),
+  command("runner update <runner>", "Update a runner", RunnerAPI.method.updateRunner, { resource: "runner" }),
+  command("runner delete <runner>", "Delete a runner", RunnerAPI.method.deleteRunner),
+  command("runner jobs <runner>", "List the jobs of a runner", RunnerAPI.method.listRunnerJobs, {
+    filter: "runnerJob",
+  }),
+  command("runner tokens list <runner>", "List runner tokens", RunnerAPI.method.listRunnerTokens, {
+    filter: "runnerToken",
+  }),
+  command("runner tokens create <runner>", "Create a runner token", RunnerAPI.method.createRunnerToken, {
+    columns: TOKEN_COLUMNS,
+  }),
+  command("runner tokens get <runner> <token-id>", "Show a runner token", RunnerAPI.method.getRunnerToken),
+  command("runner tokens revoke <runner> <token-id>", "Revoke a runner token", RunnerAPI.method.revokeRunnerToken),
+
+  command("source list", "List sources", SourceAPI.method.listSources, { filter: "source" }),
+  command("source get <source>", "Show a source", SourceAPI.method.getSource),
+  command("source create", "Create a source", SourceAPI.method.createSource),
+  command("source update <source>", "Update a source", SourceAPI.method.updateSource, { resource: "source" }),
+  command("source delete <source>", "Delete a source", SourceAPI.method.deleteSource),
+  command("source versions <source>", "List the versions of a source", SourceAPI.method.listSourceVersions),
+  command("source inputs <source> <version>", "Show the inputs of a source version", SourceAPI.method.getSourceInputs),
+  command(
+    "source outputs <source> <version>",
+    "Show the outputs of a source version",
+    SourceAPI.method.getSourceOutputs,
+  ),
+  command("source sync <source>", "Fetch new versions of a source", SourceAPI.method.syncSource),
+
+  command("state list", "List Terraform states", StateAPI.method.listStates, { filter: "state" }),
+  command("state get <state-id>", "Show the current version of a state", StateAPI.method.getCurrentState),
+  command("state versions <state-id>", "List the versions of a state", StateAPI.method.listStateVersions),
+  command("state unlock <state-id>", "Release a stuck state lock", StateAPI.method.forceUnlockState),
+  command("state delete <state-id>", "Delete a state and its versions", StateAPI.method.deleteState),
+
+  command("user get", "Show the authenticated user", UserAPI.method.getUser),
+  command("user tokens list", "List personal access tokens", UserAPI.method.listPersonalAccessTokens, {
+    filter: "personalAccessToken",
+  }),
+  command("user tokens create", "Create a personal access token", UserAPI.method.createPersonalAccessToken, {
+    columns: TOKEN_COLUMNS,
+  }),
+  command("user tokens get <token-id>", "Show a personal access token", UserAPI.method.getPersonalAccessToken),
+  command("user tokens revoke <token-id>", "Revoke a personal access token", UserAPI.method.revokePersonalAccessToken),
+
+  command("var list", "List variables", VariableAPI.method.listVariables, { filter: "variable" }),
+  command("var get <variable-id>", "Show a variable", VariableAPI.method.getVariable),
+  command("var set <key> <value>", "Create or update a variable", VariableAPI.method.createVariable, {
+    run: setVariable,
+  }),
+  command("var create", "Create a variable", VariableAPI.method.createVariable),
+  command("var update <variable-id>", "Update a variable", VariableAPI.method.updateVariable, {
+    resource: "variable",
+  }),
+  command("var delete <variable-id>", "Delete a variable", VariableAPI.method.deleteVariable),
+];
@@ -0,0 +1,139 @@
+import { toJson, type DescField, type DescMessage, type Message } from "@bufbuild/protobuf";
+import { timestampDate, type Timestamp } from "@bufbuild/protobuf/wkt";
+import { stringifyYAML } from "../client/lib/yaml.js";
+
+/** Output formats accepted by `--output`. */
+export const OUTPUT_FORMATS = ["table", "json", "yaml"] as const;
+
+/** Output format. */
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Fields shown in tables when a command doesn't choose its own columns, in
+ * display order. Fields a message doesn't have are skipped.
+ */
+const DEFAULT_COLUMNS = [
+  "id",
+  "name",
+  "key",
+  "value",
+  "componentName",
+  "type",
+  "kind",
+  "status",
+  "healthStatus",
+  "runtimeType",
+  "version",
+  "serial",
+  "createdAt",
+];
+
+/**
+ * Formats a response message, or the items of a List response, for stdout.
+ *
+ * Tables show `columns` (dotted field paths) or a default selection; JSON and
+ * YAML use the proto JSON mapping with all fields emitted.
+ */
+export function formatOutput(
+  schema: DescMessage,
+  value: Message | Message[],
+  format: OutputFormat,
+  columns?: string[],
+): string {
+  const rows = Array.isArray(value) ? value : [value];
+  if (format !== "table") {
+    const json = rows.map((row) => toJson(schema, row, { alwaysEmitImplicit: true }));
+    const out = Array.isArray(value) ? json : json[0];
+    return format === "json" ? JSON.stringify(out, null, 2) + "\n" : stringifyYAML(out);
+  }
+
+  const paths = columns ?? defaultColumns(schema);
+  if (paths.length === 0 || rows.length === 0) {
+    return "";
+  }
+  const table = [
+    paths.map(header),
+    ...rows.map((row) => paths.map((path) => formatCell(schema, row, path.split(".")))),
+  ];
+  const widths = paths.map((_, i) => Math.max(...table.map((cells) => cells[i]!.length)));
+  return table
+    .map(
+      (cells) =>
+        cells
+          .map((c, i) => c.padEnd(widths[i]!))
+          .join("   ")
+          .trimEnd() + "\n",
+    )
+    .join("");
+}
+
+/**
+ * Picks table columns for a message: the default columns it has, otherwise all
+ * of its scalar and enum fields.
+ */
+function defaultColumns(schema: DescMessage): string[] {
+  const known = DEFAULT_COLUMNS.filter((name) => {
+    const field = schema.fields.find((f) => f.localName === name);
+    return field && isCellField(field);
+  });
+  return known.length > 0 ? known : schema.fields.filter(isCellField).map((f) => f.localName);
+}
+
+/** Whether a field fits in a table cell: a scalar, an enum or a timestamp. */
+function isCellField(field: DescField): boolean {
+  return (
+    field.fieldKind === "scalar" ||
+    field.fieldKind === "enum" ||
+    (field.fieldKind === "message" && field.message.typeName === "google.protobuf.Timestamp")
+  );
+}
+
+/** Turns a field path into a column header, e.g. "accessToken.createdAt" into "CREATED AT". */
+function header(path: string): string {
+  const name = path.slice(path.lastIndexOf(".") + 1);
+  return name.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toUpperCase();
+}
+
+/**
+ * Renders the value at a field path. Enums are shown by their short name,
+ * timestamps as ISO 8601, lists and maps comma-separated.
+ */
+function formatCell(schema: DescMessage, message: Message, path: string[]): string {
+  const [name, ...rest] = path;
+  const field = schema.fields.find((f) => f.localName === name);
+  if (!field) {
+    return "";
+  }
+  const record = message as unknown as Record<string, unknown>;
+  let value = record[field.localName];
+  if (field.oneof) {
+    const oneof = record[field.oneof.localName] as { case?: string; value?: unknown } | undefined;
+    value = oneof?.case === field.localName ? oneof.value : undefined;
+  }
+  if (value === undefined) {
+    return "";
+  }
+
+  switch (field.fieldKind) {
+    case "enum": {
+      const number = value as number;
+      const entry = field.enum.values.find((v) => v.number === number);
+      return entry ? entry.name.slice(field.enum.sharedPrefix?.length ?? 0) : String(number);
+    }
+    case "message":
+      if (field.message.typeName === "google.protobuf.Timestamp") {
+        return timestampDate(value as Timestamp).toISOString();
+      }
+      return rest.length > 0
+        ? formatCell(field.message, value as Message, rest)
+        : JSON.stringify(toJson(field.message, value as Message));
+    case "list":
+      return (value as unknown[]).map(String).join(",");
+    case "map":
+      return Object.entries(value as Record<string, unknown>)
+        .map(([k, v]) => `${k}=${String(v)}`)
+        .join(",");
+    default:
+      return String(value);
+  }
+}
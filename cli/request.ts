@@ -0,0 +1,470 @@
+import {
+  fromJson,
+  toJson,
+  ScalarType,
+  type DescEnum,
+  type DescField,
+  type DescMessage,
+  type JsonObject,
+  type JsonValue,
+  type Message,
+} from "@bufbuild/protobuf";
+import { Code, ConnectError } from "@connectrpc/connect";
+import { FILTER_FIELDS, parseFilter, renderFilter, validateFilter, type FilterExpr } from "../client/lib/filter.js";
+import { parseBoolean, UsageError, type Flag } from "./args.js";
+import { SERVICES, type CLIClient, type Command } from "./commands.js";
+
+/**
+ * A request field naming another resource. Its flag and positional
+ * placeholder use the short alias and accept either an ID or a name.
+ */
+interface Reference {
+  /** Flag and placeholder name, e.g. "app" for `--app` and `<app>` */
+  alias: string;
+  label: string;
+  /** Names are unique per application rather than globally */
+  perApplication?: boolean;
+  /** Lists resources matching a filter, at most two */
+  lookup(client: CLIClient, filter: string): Promise<{ id: string }[]>;
+}
+
+/**
+ * Reference fields by JSON name. applicationId comes first so that names
+ * unique per application can be looked up within it.
+ */
+const REFERENCES: Record<string, Reference> = {
+  applicationId: {
+    alias: "app",
+    label: "application",
+    lookup: async (c, filter) => (await c.application.listApplications({ filter, pageSize: 2 })).applications,
+  },
+  environmentId: {
+    alias: "env",
+    label: "environment",
+    perApplication: true,
+    lookup: async (c, filter) => (await c.environment.listEnvironments({ filter, pageSize: 2 })).environments,
+  },
+  componentId: {
+    alias: "component",
+    label: "component",
+    perApplication: true,
+    lookup: async (c, filter) => (await c.component.listComponents({ filter, pageSize: 2 })).components,
+  },
+  clusterId: {
+    alias: "cluster",
+    label: "cluster",
+    lookup: async (c, filter) => (await c.cluster.listClusters({ filter, pageSize: 2 })).clusters,
+  },
+  runnerId: {
+    alias: "runner",
+    label: "runner",
+    lookup: async (c, filter) => (await c.runner.listRunners({ filter, pageSize: 2 })).runners,
+  },
+  sourceId: {
+    alias: "source",
+    label: "source",
+    lookup: async (c, filter) => (await c.source.listSources({ filter, pageSize: 2 })).sources,
+  },
+  connectionId: {
+    alias: "connection",
+    label: "connection",
+    lookup: async (c, filter) => (await c.connection.listConnections({ filter, pageSize: 2 })).connections,
+  },
+};
+
+/** Request fields managed by the CLI itself. */
+const HIDDEN_FIELDS = new Set(["filter", "pageSize", "pageToken", "updateMask"]);
+
+/** Resource fields set by the server, which updates can't change. */
+const SERVER_FIELDS = new Set(["id", "tenantId", "createdBy", "updatedBy", "createdAt", "updatedAt"]);
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * A request built from the command line.
+ */
+export interface BuiltRequest {
+  request: Message;
+  /** JSON names of the fields set on the command line */
+  fields: string[];
+}
+
+/** Converts a flag name segment to a JSON field name, e.g. "cluster-id" to "clusterId". */
+function camelCase(name: string): string {
+  return name.replace(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+/** Converts a JSON field name to a flag name, e.g. "clusterId" to "cluster-id". */
+export function kebabCase(name: string): string {
+  return name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+/** Returns the flag name for a request field, given its JSON name. */
+export function flagName(jsonName: string): string {
+  return REFERENCES[jsonName]?.alias ?? kebabCase(jsonName);
+}
+
+/** Finds the JSON name a flag segment or placeholder refers to. */
+function fieldKey(name: string): string {
+  const ref = Object.entries(REFERENCES).find(([, r]) => r.alias === name);
+  return ref ? ref[0] : camelCase(name);
+}
+
+function findField(schema: DescMessage, key: string): DescField | undefined {
+  return schema.fields.find((f) => f.jsonName === key || f.localName === key);
+}
+
+/**
+ * The message whose fields a command's flags address: the request, or the
+ * resource of an update.
+ */
+export function targetSchema(command: Command): DescMessage {
+  if (!command.resource) {
+    return command.method.input;
+  }
+  const field = findField(command.method.input, command.resource);
+  if (field?.fieldKind !== "message") {
+    throw new Error(`${command.method.name} has no resource field "${command.resource}"`);
+  }
+  return field.message;
+}
+
+/**
+ * Returns the top-level fields a command's flags can set.
+ */
+export function flagFields(command: Command): DescField[] {
+  const hidden = command.resource ? SERVER_FIELDS : HIDDEN_FIELDS;
+  return targetSchema(command).fields.filter((f) => !hidden.has(f.jsonName));
+}
+
+/**
+ * Describes the value a flag takes for help output.
+ */
+export function flagHint(field: DescField): string {
+  const kind = field.fieldKind === "list" ? field.listKind : field.fieldKind;
+  let hint: string;
+  if (REFERENCES[field.jsonName]) {
+    hint = "name or ID";
+  } else if (field.fieldKind === "map") {
+    hint = "key=value";
+  } else if (kind === "enum" && field.enum) {
+    const prefix = field.enum.sharedPrefix?.length ?? 0;
+    hint = field.enum.values
+      .filter((v) => v.number !== 0)
+      .map((v) => v.name.slice(prefix))
+      .join("|");
+  } else if (kind === "message" && field.message) {
+    hint = STRING_MESSAGES.has(field.message.typeName) ? "time" : `json, or --${flagName(field.jsonName)}.<field>`;
+  } else if (kind === "scalar" && field.scalar === ScalarType.BOOL) {
+    hint = "";
+  } else {
+    hint = "value";
+  }
+  return field.fieldKind === "list" ? `${hint} (repeatable)` : hint;
+}
+
+/**
+ * Returns the filter fields a List command can be scoped by with reference
+ * flags, e.g. `application_id` for `--app`, keyed by JSON name.
+ */
+export function scopeFields(command: Command): Map<string, string> {
+  const scopes = new Map<string, string>();
+  for (const name of Object.keys(command.filter ? FILTER_FIELDS[command.filter] : {})) {
+    const key = camelCase(name.replace(/_/g, "-"));
+    if (name.endsWith("_id") && !findField(command.method.input, key)) {
+      scopes.set(key, name);
+    }
+  }
+  return scopes;
+}
+
+/** Whether a flag of the command is a boolean request field. */
+export function isBooleanField(command: Command, name: string): boolean {
+  let schema: DescMessage | undefined = targetSchema(command);
+  let field: DescField | undefined;
+  for (const segment of name.split(".")) {
+    field = schema ? findField(schema, fieldKey(segment)) : undefined;
+    schema = field?.fieldKind === "message" ? field.message : undefined;
+  }
+  return field?.fieldKind === "scalar" && field.scalar === ScalarType.BOOL;
+}
+
+/** Resolves a short or full enum value name, e.g. "kubernetes" for RUNTIME_TYPE_KUBERNETES. */
+function enumValue(desc: DescEnum, raw: string, flag: string): string {
+  const upper = raw.toUpperCase();
+  const value =
+    desc.values.find((v) => v.name === upper) ??
+    desc.values.find((v) => v.name === `${desc.sharedPrefix?.toUpperCase() ?? ""}${upper}`);
+  if (!value) {
+    const names = desc.values.map((v) => v.name.slice(desc.sharedPrefix?.length ?? 0));
+    throw new UsageError(`flag --${flag} must be one of ${names.join(", ")}, got "${raw}"`);
+  }
+  return value.name;
+}
+
+function scalarValue(type: ScalarType, raw: string, flag: string): JsonValue {
+  switch (type) {
+    case ScalarType.STRING:
+    case ScalarType.BYTES:
+      return raw;
+    case ScalarType.BOOL:
+      return parseBoolean({ name: flag, value: raw });
+    case ScalarType.INT64:
+    case ScalarType.UINT64:
+    case ScalarType.SINT64:
+    case ScalarType.FIXED64:
+    case ScalarType.SFIXED64:
+      if (!/^-?\d+$/.test(raw)) {
+        throw new UsageError(`flag --${flag} must be an integer, got "${raw}"`);
+      }
+      return raw;
+    default: {
+      const number = Number(raw);
+      if (raw.trim() === "" || !Number.isFinite(number)) {
+        throw new UsageError(`flag --${flag} must be a number, got "${raw}"`);
+      }
+      return number;
+    }
+  }
+}
+
+/** Messages written as a single string in JSON, e.g. timestamps as RFC 3339. */
+const STRING_MESSAGES = new Set(["google.protobuf.Timestamp", "google.protobuf.Duration", "google.protobuf.FieldMask"]);
+
+function messageValue(desc: DescMessage, raw: string, flag: string): JsonValue {
+  if (STRING_MESSAGES.has(desc.typeName)) {
+    return raw;
+  }
+  try {
+    return JSON.parse(raw) as JsonValue;
+  } catch {
+    throw new UsageError(`flag --${flag} must be a JSON object`);
+  }
+}
+
+/** Converts a single flag value for a singular or list field. */
+function elementValue(field: DescField, raw: string, flag: string): JsonValue {
+  const kind = field.fieldKind === "list" ? field.listKind : field.fieldKind;
+  if (kind === "enum" && field.enum) {
+    return enumValue(field.enum, raw, flag);
+  }
+  if (kind === "message" && field.message) {
+    return messageValue(field.message, raw, flag);
+  }
+  return scalarValue(field.scalar ?? ScalarType.STRING, raw, flag);
+}
+
+/**
+ * Sets a flag on a JSON request. Dotted flags such as `--kubernetes.namespace`
+ * set fields of nested messages; list flags append, and map flags take
+ * `key=value`.
+ */
+function setFlag(command: Command, json: JsonObject, flag: Flag): string {
+  const segments = flag.name.split(".");
+  const top = flagFields(command);
+  let schema = targetSchema(command);
+  let target = json;
+  const fields: DescField[] = [];
+  for (const [i, segment] of segments.entries()) {
+    const field = findField(schema, fieldKey(segment));
+    if (!field || (i === 0 && !top.includes(field))) {
+      throw new UsageError(`unknown flag: --${flag.name}`);
+    }
+    fields.push(field);
+    if (i < segments.length - 1) {
+      if (field.fieldKind !== "message") {
+        throw new UsageError(`unknown flag: --${flag.name}`);
+      }
+      const next = target[field.jsonName];
+      target = (target[field.jsonName] = typeof next === "object" && next !== null ? next : {}) as JsonObject;
+      schema = field.message;
+    }
+  }
+  const field = fields.at(-1)!;
+
+  if (flag.value === true) {
+    if (field.fieldKind !== "scalar" || field.scalar !== ScalarType.BOOL) {
+      throw new UsageError(`flag --${flag.name} requires a value`);
+    }
+    target[field.jsonName] = true;
+  } else if (field.fieldKind === "list") {
+    const list = (target[field.jsonName] ??= []) as JsonValue[];
+    list.push(elementValue(field, flag.value, flag.name));
+  } else if (field.fieldKind === "map") {
+    const eq = flag.value.indexOf("=");
+    if (eq === -1) {
+      throw new UsageError(`flag --${flag.name} must be key=value, got "${flag.value}"`);
+    }
+    const map = (target[field.jsonName] ??= {}) as JsonObject;
+    const value = flag.value.slice(eq + 1);
+    map[flag.value.slice(0, eq)] =
+      field.mapKind === "enum"
+        ? enumValue(field.enum, value, flag.name)
+        : field.mapKind === "message"
+          ? messageValue(field.message, value, flag.name)
+          : scalarValue(field.scalar, value, flag.name);
+  } else {
+    target[field.jsonName] = elementValue(field, flag.value, flag.name);
+  }
+  return fields[0]!.jsonName;
+}
+
+/**
+ * Looks up the ID of a resource given by name. IDs are returned unchanged.
+ */
+async function resolveReference(
+  client: CLIClient,
+  ref: Reference,
+  value: string,
+  applicationId: string | undefined,
+): Promise<string> {
+  if (UUID.test(value)) {
+    return value;
+  }
+  const operands: FilterExpr[] = [{ kind: "compare", field: "name", op: "=", value }];
+  if (ref.perApplication && applicationId) {
+    operands.push({ kind: "compare", field: "application_id", op: "=", value: applicationId });
+  }
+  const matches = await ref.lookup(client, renderFilter({ kind: "and", operands }));
+  if (matches.length === 0) {
+    throw new ConnectError(`${ref.label} "${value}" not found`, Code.NotFound);
+  }
+  if (matches.length > 1) {
+    throw new ConnectError(
+      `${ref.label} name "${value}" is ambiguous; pass --app or use the ${ref.label} ID`,
+      Code.InvalidArgument,
+    );
+  }
+  return matches[0]!.id;
+}
+
+/**
+ * Fetches the resource an update command changes with the service's Get RPC,
+ * e.g. GetApplication for `app update`.
+ */
+async function currentResource(client: CLIClient, command: Command, id: string): Promise<JsonObject> {
+  const resource = command.resource!;
+  const service = (Object.keys(SERVICES) as (keyof CLIClient)[]).find((k) => SERVICES[k] === command.method.parent)!;
+  const get = command.method.parent.methods.find(
+    (m) => m.localName === `get${resource[0]!.toUpperCase()}${resource.slice(1)}`,
+  )!;
+  const rpc = (client[service] as unknown as Record<string, (req: object) => Promise<Record<string, unknown>>>)[
+    get.localName
+  ]!;
+  const response = await rpc({ [`${resource}Id`]: id });
+  const field = get.output.fields.find((f) => f.localName === resource)!;
+  return toJson(field.message!, response[resource] as Message) as JsonObject;
+}
+
+/** Merges flag values into a resource, recursing into nested messages and maps. */
+function mergeFlags(resource: JsonObject, flags: JsonObject): JsonObject {
+  const isObject = (value: JsonValue | undefined): value is JsonObject =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  const merged = { ...resource };
+  for (const [key, value] of Object.entries(flags)) {
+    const current = merged[key];
+    merged[key] = isObject(value) && isObject(current) ? mergeFlags(current, value) : value;
+  }
+  return merged;
+}
+
+/** Replaces names in the reference fields of a JSON object with IDs. */
+async function resolveReferences(client: CLIClient, json: JsonObject): Promise<void> {
+  for (const [key, ref] of Object.entries(REFERENCES)) {
+    const value = json[key];
+    if (typeof value === "string") {
+      const app = typeof json.applicationId === "string" ? json.applicationId : undefined;
+      json[key] = await resolveReference(client, ref, value, app);
+    }
+  }
+}
+
+/**
+ * Builds the request of a command from its positional arguments and flags,
+ * resolving resource names to IDs.
+ *
+ * Update requests carry the current resource, fetched with its Get RPC, with
+ * the flags merged in and a field mask of the top-level fields that were set;
+ * nested messages and maps keep the entries no flag set. List requests get a
+ * filter combining `--filter` with scope flags such as `--app`.
+ */
+export async function buildRequest(
+  client: CLIClient,
+  command: Command,
+  args: string[],
+  flags: Flag[],
+  filter?: string,
+): Promise<BuiltRequest> {
+  if (args.length !== command.args.length) {
+    throw new UsageError(`usage: admiral ${[...command.path, ...command.args].join(" ")}`);
+  }
+
+  const schema = targetSchema(command);
+  const root: JsonObject = {};
+  const target: JsonObject = command.resource ? (root[command.resource] = {}) : root;
+  const scopes = scopeFields(command);
+  const scope: JsonObject = {};
+  const fields = new Set<string>();
+
+  const flagArgs = command.args.map((placeholder, i) => ({ name: placeholder.slice(1, -1), value: args[i]! }));
+  let idRef: Reference | undefined;
+  if (command.resource) {
+    const [first] = flagArgs.splice(0, 1);
+    target.id = first!.value;
+    idRef = REFERENCES[fieldKey(first!.name)];
+  }
+
+  for (const flag of [...flagArgs, ...flags]) {
+    const key = fieldKey(flag.name);
+    if (scopes.has(key) && typeof flag.value === "string") {
+      scope[key] = flag.value;
+    } else {
+      fields.add(setFlag(command, target, flag));
+    }
+  }
+
+  await resolveReferences(client, target);
+  await resolveReferences(client, scope);
+  if (idRef && typeof target.id === "string") {
+    const app = typeof target.applicationId === "string" ? target.applicationId : undefined;
+    target.id = await resolveReference(client, idRef, target.id, app);
+  }
+
+  if (command.resource) {
+    if (fields.size === 0) {
+      throw new UsageError("nothing to update; pass the fields to change as flags");
+    }
+    // Requests are validated as a whole, so send the current resource with the flags applied
+    root[command.resource] = mergeFlags(await currentResource(client, command, String(target.id)), target);
+    root.updateMask = [...fields].join(",");
+  }
+
+  if (command.filter) {
+    const operands: FilterExpr[] = [];
+    if (filter) {
+      try {
+        operands.push(parseFilter(filter));
+      } catch (err) {
+        throw new UsageError(`invalid --filter: ${(err as Error).message}`);
+      }
+      const problems = validateFilter(filter, FILTER_FIELDS[command.filter]);
+      if (problems.length > 0) {
+        throw new UsageError(`invalid --filter: ${problems.join("; ")}`);
+      }
+    }
+    for (const [key, value] of Object.entries(scope)) {
+      operands.push({ kind: "compare", field: scopes.get(key)!, op: "=", value: value as string });
+    }
+    if (operands.length > 0) {
+      root.filter = renderFilter(operands.length === 1 ? operands[0]! : { kind: "and", operands });
+    }
+  } else if (filter !== undefined) {
+    throw new UsageError(`admiral ${command.path.join(" ")} does not support --filter`);
+  }
+
+  try {
+    return { request: fromJson(command.method.input, root), fields: [...fields] };
+  } catch (err) {
+    throw new UsageError((err as Error).message);
+  }
+}
@@ -85,4 +85,24 @@ describe("createClient", () => {
 
     expect(info).toBeNull();
   });
+
+  it("validateToken reports a pending token provider", () => {
+    const client = createClient({ tokenProvider: async () => "opaque-token-12345" });
+    const result = client.validateToken();
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("token provider");
+  });
+
+  it("getTokenInfo uses the initial token when a provider is configured", () => {
+    const token = createTestJWT({
+      sub: "user-123",
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    });
+
+    const client = createClient({ authToken: token, tokenProvider: async () => token });
+    const info = client.getTokenInfo();
+
+    expect(info?.claims.sub).toBe("user-123");
+  });
 });
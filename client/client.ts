@@ -3,6 +3,16 @@ import { createClient as createConnectClient } from "@connectrpc/connect";
 import type { ClientConfig } from "./lib/config.js";
 import { resolveConfig } from "./lib/config.js";
 import { createTransport } from "./lib/transport.js";
+import { loadConfig, type LoadConfigOptions } from "./lib/loader.js";
+import { withListAll, type WithListAll } from "./lib/pagination.js";
+import { withDeploymentWatch, type WithDeploymentWatch } from "./lib/deployment.js";
+import { withComponentGraph, type WithComponentGraph } from "./lib/graph.js";
+import { withEffectiveComponent, type WithEffectiveComponent } from "./lib/override.js";
+import { withVariableResolution, type WithVariableResolution } from "./lib/variables.js";
+import { withVariableFiles, type WithVariableFiles } from "./lib/varfile.js";
+import { withStateDiff, type WithStateDiff } from "./lib/tfstate.js";
+import { createTokenSource, type TokenSource } from "./lib/token.js";
+import { createCircuitBreaker, type CircuitBreaker, type CircuitSnapshot } from "./lib/circuit.js";
 import { validateAuthToken, getTokenInfo, type JWTClaims } from "./lib/auth.js";
 import { ApplicationAPI } from "../proto/admiral/api/application/v1/application_pb.js";
 import { ClusterAPI } from "../proto/admiral/api/cluster/v1/cluster_pb.js";
@@ -17,19 +27,25 @@ import { StateAPI } from "../proto/admiral/api/state/v1/state_pb.js";
 import { UserAPI } from "../proto/admiral/api/user/v1/user_pb.js";
 import { VariableAPI } from "../proto/admiral/api/variable/v1/variable_pb.js";
 
-// Service client types
-type ApplicationClient = ConnectClient<typeof ApplicationAPI>;
-type ClusterClient = ConnectClient<typeof ClusterAPI>;
-type ComponentClient = ConnectClient<typeof ComponentAPI>;
-type ConnectionClient = ConnectClient<typeof ConnectionAPI>;
-type DeploymentClient = ConnectClient<typeof DeploymentAPI>;
-type EnvironmentClient = ConnectClient<typeof EnvironmentAPI>;
+// Service client types, with listAll() for each service's primary List RPC,
+// the dependency graph and effective configuration of components, rollout
+// helpers for deployments, and variable resolution and import/export
+type ApplicationClient = WithListAll<ConnectClient<typeof ApplicationAPI>, "listApplications">;
+type ClusterClient = WithListAll<ConnectClient<typeof ClusterAPI>, "listClusters">;
+type ComponentClient = WithEffectiveComponent<
+  WithComponentGraph<WithListAll<ConnectClient<typeof ComponentAPI>, "listComponents">>
+>;
+type ConnectionClient = WithListAll<ConnectClient<typeof ConnectionAPI>, "listConnections">;
+type DeploymentClient = WithDeploymentWatch<WithListAll<ConnectClient<typeof DeploymentAPI>, "listDeployments">>;
+type EnvironmentClient = WithListAll<ConnectClient<typeof EnvironmentAPI>, "listEnvironments">;
 type HealthcheckClient = ConnectClient<typeof HealthcheckAPI>;
-type RunnerClient = ConnectClient<typeof RunnerAPI>;
-type SourceClient = ConnectClient<typeof SourceAPI>;
-type StateClient = ConnectClient<typeof StateAPI>;
-type UserClient = ConnectClient<typeof UserAPI>;
-type VariableClient = ConnectClient<typeof VariableAPI>;
+type RunnerClient = WithListAll<ConnectClient<typeof RunnerAPI>, "listRunners">;
+type SourceClient = WithListAll<ConnectClient<typeof SourceAPI>, "listSources">;
+type StateClient = WithStateDiff<WithListAll<ConnectClient<typeof StateAPI>, "listStates">>;
+type UserClient = WithListAll<ConnectClient<typeof UserAPI>, "listPersonalAccessTokens">;
+type VariableClient = WithVariableFiles<
+  WithVariableResolution<WithListAll<ConnectClient<typeof VariableAPI>, "listVariables">>
+>;
 
 /**
  * Admiral client interface.
@@ -75,16 +91,24 @@ export interface Client {
   readonly variable: VariableClient;
 
   /**
-   * Validates the current auth token.
+   * Validates the currently active auth token. With a token provider this is
+   * the most recently fetched token.
    * @returns Token validation result
    */
   validateToken(): { valid: boolean; error?: string; claims?: JWTClaims };
 
   /**
-   * Gets information about the current auth token.
+   * Gets information about the currently active auth token.
    * @returns Token claims and expiration info
    */
   getTokenInfo(): { claims: JWTClaims; isExpired: boolean; expiresIn: number } | null;
+
+  /**
+   * Reports the circuit breaker state of each service called so far.
+   * @returns Circuit snapshots keyed by fully-qualified service name; empty
+   * unless `circuitBreaker` is configured
+   */
+  health(): Record<string, CircuitSnapshot>;
 }
 
 /**
@@ -107,8 +131,22 @@ export interface Client {
  * ```
  */
 export function createClient(config: ClientConfig): Client {
+  return createClientWithTransport(config, (tokens, breaker) => createTransport(config, tokens, breaker));
+}
+
+/**
+ * Creates a client over a transport built by `connect`, which receives the
+ * client's token source and circuit breaker. Used by `@admiral-io/sdk/testing` to run the full
+ * client against in-memory services.
+ */
+export function createClientWithTransport(
+  config: ClientConfig,
+  connect: (tokens: TokenSource, breaker?: CircuitBreaker) => Transport,
+): Client {
   const resolved = resolveConfig(config);
-  const transport = createTransport(config);
+  const tokens = createTokenSource(resolved);
+  const breaker = resolved.circuitBreaker ? createCircuitBreaker(resolved.circuitBreaker, resolved.logger) : undefined;
+  const transport = connect(tokens, breaker);
 
   resolved.logger.debug("connected to Admiral API", resolved.baseUrl);
 
@@ -131,42 +169,46 @@ export function createClient(config: ClientConfig): Client {
 
     get application() {
       if (!_application) {
-        _application = createConnectClient(ApplicationAPI, transport);
+        _application = withListAll(createConnectClient(ApplicationAPI, transport), "listApplications");
       }
       return _application;
     },
 
     get cluster() {
       if (!_cluster) {
-        _cluster = createConnectClient(ClusterAPI, transport);
+        _cluster = withListAll(createConnectClient(ClusterAPI, transport), "listClusters");
       }
       return _cluster;
     },
 
     get component() {
       if (!_component) {
-        _component = createConnectClient(ComponentAPI, transport);
+        _component = withEffectiveComponent(
+          withComponentGraph(withListAll(createConnectClient(ComponentAPI, transport), "listComponents")),
+        );
       }
       return _component;
     },
 
     get connection() {
       if (!_connection) {
-        _connection = createConnectClient(ConnectionAPI, transport);
+        _connection = withListAll(createConnectClient(ConnectionAPI, transport), "listConnections");
       }
       return _connection;
     },
 
     get deployment() {
       if (!_deployment) {
-        _deployment = createConnectClient(DeploymentAPI, transport);
+        _deployment = withDeploymentWatch(
+          withListAll(createConnectClient(DeploymentAPI, transport), "listDeployments"),
+        );
       }
       return _deployment;
     },
 
     get environment() {
       if (!_environment) {
-        _environment = createConnectClient(EnvironmentAPI, transport);
+        _environment = withListAll(createConnectClient(EnvironmentAPI, transport), "listEnvironments");
       }
       return _environment;
     },
@@ -180,55 +222,86 @@ export function createClient(config: ClientConfig): Client {
 
     get runner() {
       if (!_runner) {
-        _runner = createConnectClient(RunnerAPI, transport);
+        _runner = withListAll(createConnectClient(RunnerAPI, transport), "listRunners");
       }
       return _runner;
     },
 
     get source() {
       if (!_source) {
-        _source = createConnectClient(SourceAPI, transport);
+        _source = withListAll(createConnectClient(SourceAPI, transport), "listSources");
       }
       return _source;
     },
 
     get state() {
       if (!_state) {
-        _state = createConnectClient(StateAPI, transport);
+        _state = withStateDiff(withListAll(createConnectClient(StateAPI, transport), "listStates"));
       }
       return _state;
     },
 
     get user() {
       if (!_user) {
-        _user = createConnectClient(UserAPI, transport);
+        _user = withListAll(createConnectClient(UserAPI, transport), "listPersonalAccessTokens");
       }
       return _user;
     },
 
     get variable() {
       if (!_variable) {
-        _variable = createConnectClient(VariableAPI, transport);
+        _variable = withVariableFiles(
+          withVariableResolution(withListAll(createConnectClient(VariableAPI, transport), "listVariables")),
+        );
       }
       return _variable;
     },
 
     validateToken() {
-      if (!config.authToken) {
-        return { valid: false, error: "No auth token configured" };
+      const token = tokens.current();
+      if (!token) {
+        return {
+          valid: false,
+          error: tokens.refreshable ? "No auth token fetched from token provider yet" : "No auth token configured",
+        };
       }
-      return validateAuthToken(config.authToken);
+      return validateAuthToken(token);
     },
 
     getTokenInfo() {
-      if (!config.authToken) {
+      const token = tokens.current();
+      if (!token) {
         return null;
       }
       try {
-        return getTokenInfo(config.authToken);
+        return getTokenInfo(token);
       } catch {
         return null;
       }
     },
+
+    health() {
+      return breaker?.snapshot() ?? {};
+    },
   };
 }
+
+/**
+ * Creates a new Admiral API client from environment variables and the
+ * profile file. See `loadConfig` for the precedence rules.
+ *
+ * @param overrides - Explicit configuration that wins over all other sources
+ * @param options - Profile, config file and environment selection
+ * @returns Client instance with service accessors
+ *
+ * @example
+ * ```typescript
+ * import { createClientFromEnv } from "@admiral-io/sdk";
+ *
+ * // Reads ADMIRAL_URL, ADMIRAL_TOKEN, ADMIRAL_PROFILE, ...
+ * const client = createClientFromEnv();
+ * ```
+ */
+export function createClientFromEnv(overrides: ClientConfig = {}, options: LoadConfigOptions = {}): Client {
+  return createClient(loadConfig(overrides, options));
+}
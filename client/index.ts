@@ -1,11 +1,335 @@
 // Client
-export { createClient, type Client } from "./client.js";
+export { createClient, createClientFromEnv, type Client } from "./client.js";
 
 // Configuration
-export { type ClientConfig, type AuthScheme, DEFAULT_CONFIG, resolveConfig } from "./lib/config.js";
+export {
+  type ClientConfig,
+  type ResolvedConfig,
+  type AuthScheme,
+  DEFAULT_CONFIG,
+  resolveConfig,
+} from "./lib/config.js";
+
+// Environment and profile loading
+export {
+  type Profile,
+  type LoadConfigOptions,
+  DEFAULT_PROFILE,
+  CONFIG_ENV_VARS,
+  loadConfig,
+  parseProfiles,
+  createCommandTokenProvider,
+} from "./lib/loader.js";
+
+// Errors
+export {
+  type ErrorContext,
+  type FieldViolation,
+  AdmiralError,
+  NotFoundError,
+  PermissionDeniedError,
+  UnauthenticatedError,
+  ConflictError,
+  ValidationError,
+  RateLimitedError,
+  REQUEST_ID_HEADER,
+  toAdmiralError,
+  decodeViolations,
+  formatFieldPath,
+  createErrorInterceptor,
+} from "./lib/errors.js";
+
+// Request validation
+export { validateMessage, createValidationInterceptor } from "./lib/validate.js";
+
+// Filter DSL
+export {
+  type FilterExpr,
+  type FilterValue,
+  type CompareOperator,
+  type StringPredicate,
+  type FilterFieldType,
+  type FilterFieldSpec,
+  type FilterResource,
+  type FilterBuilder,
+  FILTER_FIELDS,
+  FilterSyntaxError,
+  createFilterBuilder,
+  filterFor,
+  renderFilter,
+  parseFilter,
+  validateFilter,
+} from "./lib/filter.js";
+
+// Pagination
+export {
+  type ListMethod,
+  type PageItem,
+  type PageIterable,
+  type PaginateOptions,
+  type WithListAll,
+  paginate,
+  withListAll,
+} from "./lib/pagination.js";
+
+// Deployment rollouts
+export {
+  type DeploymentEvent,
+  type DeploymentWatchClient,
+  type RevisionSummaryCount,
+  type RevisionSummaryDelta,
+  type WatchDeploymentOptions,
+  type WaitForDeploymentOptions,
+  type WithDeploymentWatch,
+  DEFAULT_WATCH_OPTIONS,
+  DeploymentFailedError,
+  isTerminalDeploymentStatus,
+  watchDeployment,
+  waitForDeployment,
+  withDeploymentWatch,
+} from "./lib/deployment.js";
+export { DeploymentStatus, RevisionStatus } from "../proto/admiral/api/deployment/v1/deployment_pb.js";
+
+// Component graph
+export {
+  type ComponentGraphClient,
+  type ComponentEdge,
+  type ComponentNode,
+  type ComponentGraphProblem,
+  type ComponentGraph,
+  type WithComponentGraph,
+  createComponentGraph,
+  buildComponentGraph,
+  toDot,
+  toMermaid,
+  withComponentGraph,
+} from "./lib/graph.js";
+
+// Effective component configuration
+export {
+  type EffectiveComponentClient,
+  type EnvironmentDiffClient,
+  type OverridableField,
+  type FieldSource,
+  type EffectiveComponent,
+  type ComponentDiff,
+  type EnvironmentDiff,
+  type WithEffectiveComponent,
+  OVERRIDABLE_FIELDS,
+  applyComponentOverride,
+  resolveEffectiveComponent,
+  getEffectiveComponent,
+  diffEnvironments,
+  formatEnvironmentDiff,
+  withEffectiveComponent,
+} from "./lib/override.js";
+
+// Values templates
+export {
+  type TemplateContext,
+  type TemplateExpression,
+  type TemplateProblemSeverity,
+  type TemplateProblem,
+  type TemplateLintOptions,
+  TemplateError,
+  parseTemplate,
+  variableValues,
+  environmentMetadata,
+  renderTemplate,
+  renderValuesTemplate,
+  lintTemplate,
+  lintValuesTemplate,
+} from "./lib/template.js";
+
+// Variable resolution
+export {
+  type VariableResolutionClient,
+  type VariableScope,
+  type ResolveVariablesOptions,
+  type ResolvedVariable,
+  type VariableResolution,
+  type WithVariableResolution,
+  VARIABLE_SCOPES,
+  variableScope,
+  validateVariableValue,
+  createVariableResolution,
+  resolveVariables,
+  withVariableResolution,
+} from "./lib/variables.js";
+
+// Variable files
+export {
+  type VariableImportClient,
+  type VariableFormat,
+  type VariableEntry,
+  type ParseVariablesOptions,
+  type LoadVariablesOptions,
+  type VariableImportScope,
+  type PlanVariableImportOptions,
+  type ImportVariablesOptions,
+  type ExportVariablesOptions,
+  type VariableImportChange,
+  type VariableImportPlan,
+  type WithVariableFiles,
+  VARIABLE_FORMATS,
+  VariableFileError,
+  VariableImportError,
+  isSensitiveKey,
+  inferVariableType,
+  variableFormat,
+  parseVariables,
+  loadVariables,
+  planVariableImport,
+  applyVariableImport,
+  importVariables,
+  formatVariableImport,
+  formatVariables,
+  exportVariables,
+  withVariableFiles,
+} from "./lib/varfile.js";
+
+// Artifact bundles
+export { type ArtifactDownloader, ChecksumMismatchError, verifyChecksum, fetchArtifact } from "./lib/artifact.js";
+
+// Runner agent
+export {
+  type RunnerAgent,
+  type RunnerAgentClient,
+  type RunnerAgentOptions,
+  type JobContext,
+  type JobHandler,
+  type JobOutcome,
+  DEFAULT_RUNNER_AGENT_OPTIONS,
+  createRunnerAgent,
+} from "./lib/runner.js";
+export { JobPhase, JobStatus, JobType } from "../proto/admiral/api/runner/v1/runner_pb.js";
+
+// Terraform state backend
+export {
+  type StateBackendClient,
+  type StateBackendServer,
+  type StateBackendServerOptions,
+  createStateBackendServer,
+} from "./lib/backend.js";
+
+// Terraform state inspection
+export {
+  type StateDiffClient,
+  type AttributePath,
+  type TerraformState,
+  type TerraformResource,
+  type TerraformResourceInstance,
+  type TerraformOutput,
+  type ChangeAction,
+  type AttributeChange,
+  type ResourceChange,
+  type OutputChange,
+  type StateDiff,
+  type DiffStatesOptions,
+  type DiffStateVersionsOptions,
+  type WithStateDiff,
+  SENSITIVE_VALUE,
+  StateFormatError,
+  formatAttributePath,
+  parseTerraformState,
+  maskSensitiveAttributes,
+  diffStates,
+  diffStateVersions,
+  withStateDiff,
+} from "./lib/tfstate.js";
+
+// Cluster agent
+export {
+  type ClusterAgent,
+  type ClusterAgentClient,
+  type ClusterAgentOptions,
+  type ClusterCollectors,
+  type ClusterStatusInit,
+  type WorkloadStatusInit,
+  type WorkloadEventInit,
+  type RevisionContext,
+  type RevisionApplier,
+  type RevisionApplyOutcome,
+  DEFAULT_CLUSTER_AGENT_OPTIONS,
+  createClusterAgent,
+} from "./lib/cluster.js";
+export { WorkloadHealthStatus } from "../proto/admiral/api/cluster/v1/cluster_pb.js";
+
+// Declarative apply
+export {
+  type ManifestKind,
+  type Manifest,
+  type ApplyClient,
+  type PlanAction,
+  type FieldChange,
+  type PlannedChange,
+  type Plan,
+  type PlanOptions,
+  type ApplyOptions,
+  MANIFEST_KINDS,
+  ManifestError,
+  ApplyError,
+  parseManifests,
+  loadManifests,
+  planManifests,
+  applyPlan,
+  applyManifests,
+  formatPlan,
+} from "./lib/apply.js";
+
+// Record and replay
+export {
+  type Cassette,
+  type CassetteInteraction,
+  type CassetteOptions,
+  type RecordedError,
+  type Recorder,
+  type Replayer,
+  CASSETTE_VERSION,
+  createRecorder,
+  createReplayer,
+  loadCassette,
+} from "./lib/cassette.js";
+
+// Redaction
+export { REDACTED, SECRET_FIELDS, redactMessage } from "./lib/redact.js";
+
+// Rate limiting
+export {
+  type RateLimit,
+  type RateLimitConfig,
+  DEFAULT_RATE_LIMIT_CONFIG,
+  createRateLimitInterceptor,
+} from "./lib/ratelimit.js";
+
+// Circuit breaker
+export {
+  type CircuitState,
+  type CircuitBreakerConfig,
+  type CircuitSnapshot,
+  type CircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  CircuitOpenError,
+  createCircuitBreaker,
+} from "./lib/circuit.js";
+
+// Telemetry
+export {
+  type TelemetryAttributes,
+  type TelemetrySpan,
+  type TelemetryTracer,
+  type TelemetryInstrumentOptions,
+  type TelemetryMeter,
+  type TelemetryOptions,
+  createTelemetryInterceptor,
+} from "./lib/telemetry.js";
+
+// Retries
+export { type RetryConfig, DEFAULT_RETRY_CONFIG, createRetryInterceptor } from "./lib/retry.js";
 
 // Logging
-export { type Logger, type LogLevel, noopLogger, createConsoleLogger } from "./lib/logger.js";
+export { type Logger, type LogLevel, noopLogger, createConsoleLogger, createJsonLogger } from "./lib/logger.js";
+export { type RequestLogOptions, type RequestLogEntry, createLoggingInterceptor } from "./lib/logging.js";
 
 // Token utilities
 export {
@@ -19,5 +343,14 @@ export {
   getTokenInfo,
 } from "./lib/auth.js";
 
+// Token providers
+export {
+  type TokenProvider,
+  type TokenProviderFn,
+  type TokenSource,
+  type TokenSourceOptions,
+  createTokenSource,
+} from "./lib/token.js";
+
 // Transport (for advanced use cases)
 export { createTransport } from "./lib/transport.js";
@@ -0,0 +1,292 @@
+import { describe, it, expect } from "vitest";
+import { createClient, createRouterTransport } from "@connectrpc/connect";
+import { create } from "@bufbuild/protobuf";
+import { applyPlan, formatPlan, ManifestError, parseManifests, planManifests, type ApplyClient } from "./apply.js";
+import { SENSITIVE_VALUE } from "./tfstate.js";
+import { createFakeAdmiral } from "../../testing/lib/fake.js";
+import { ApplicationAPI, ApplicationSchema } from "../../proto/admiral/api/application/v1/application_pb.js";
+import {
+  ComponentAPI,
+  ComponentOverrideSchema,
+  ComponentSchema,
+} from "../../proto/admiral/api/component/v1/component_pb.js";
+import { ConnectionAPI, ConnectionSchema } from "../../proto/admiral/api/connection/v1/connection_pb.js";
+import {
+  EnvironmentAPI,
+  EnvironmentSchema,
+  RuntimeType,
+} from "../../proto/admiral/api/environment/v1/environment_pb.js";
+import { SourceAPI, SourceSchema } from "../../proto/admiral/api/source/v1/source_pb.js";
+import { VariableAPI, VariableSchema } from "../../proto/admiral/api/variable/v1/variable_pb.js";
+
+// Helper to create services backed by in-memory resources; `calls` records every write
+function createApplyServer() {
+  let next = 0;
+  const newId = () => `id-${++next}`;
+  const calls: string[] = [];
+  const connections = [
+    create(ConnectionSchema, { id: "conn-1", name: "github", authConfig: { case: "gitToken", value: {} } }),
+  ];
+  const sources = [create(SourceSchema, { id: "src-1", name: "charts", url: "https://charts.test" })];
+  const applications = [create(ApplicationSchema, { id: "app-1", name: "payments", description: "old" })];
+  const environments = [
+    create(EnvironmentSchema, {
+      id: "env-1",
+      applicationId: "app-1",
+      name: "prod",
+      runtimeType: RuntimeType.KUBERNETES,
+    }),
+  ];
+  const components = [create(ComponentSchema, { id: "cmp-1", applicationId: "app-1", name: "db", sourceId: "src-1" })];
+  const overrides = [create(ComponentOverrideSchema, { componentId: "cmp-1", environmentId: "env-1", version: "2" })];
+  const variables = [
+    create(VariableSchema, { id: "var-1", key: "OLD", value: "1", applicationId: "app-1" }),
+    create(VariableSchema, { id: "var-2", key: "GLOBAL", value: "1" }),
+    create(VariableSchema, {
+      id: "var-3",
+      key: "LOG_LEVEL",
+      value: "debug",
+      applicationId: "app-1",
+      environmentId: "env-1",
+    }),
+  ];
+  // Reads a field's value from a filter such as "field['application_id'] = 'app-1'"
+  const filtered = (filter: string, field: string) => new RegExp(`field\\['${field}'\\] = '([^']*)'`).exec(filter)?.[1];
+
+  const transport = createRouterTransport((router) => {
+    router.service(ConnectionAPI, {
+      listConnections: () => ({ connections }),
+      updateConnection(req) {
+        calls.push(`updateConnection ${req.updateMask?.paths.join(",")}`);
+        return { connection: req.connection };
+      },
+    });
+    router.service(SourceAPI, { listSources: () => ({ sources }) });
+    router.service(ApplicationAPI, {
+      listApplications: () => ({ applications }),
+      updateApplication(req) {
+        calls.push(`updateApplication ${req.application?.id} ${req.updateMask?.paths.join(",")}`);
+        return { application: req.application };
+      },
+    });
+    router.service(EnvironmentAPI, { listEnvironments: () => ({ environments }) });
+    router.service(ComponentAPI, {
+      listComponents: (req) => ({
+        components: components.filter((c) => c.applicationId === filtered(req.filter, "application_id")),
+      }),
+      createComponent(req) {
+        const id = newId();
+        calls.push(`createComponent ${req.name} ${req.sourceId} [${req.dependsOn.join(",")}] -> ${id}`);
+        return { component: { id, applicationId: req.applicationId, name: req.name, dependsOn: req.dependsOn } };
+      },
+      listComponentOverrides: (req) => ({ overrides: overrides.filter((o) => o.componentId === req.componentId) }),
+      setComponentOverride(req) {
+        calls.push(`setComponentOverride ${req.componentId}@${req.environmentId} ${req.version ?? ""}`);
+        return {};
+      },
+    });
+    router.service(VariableAPI, {
+      // Like the API: globals, plus the application's and environment's variables when filtered by them
+      listVariables(req) {
+        const applicationId = filtered(req.filter, "application_id");
+        const environmentId = filtered(req.filter, "environment_id");
+        return {
+          variables: variables.filter(
+            (v) =>
+              v.applicationId === undefined ||
+              (v.applicationId === applicationId &&
+                (v.environmentId === undefined || v.environmentId === environmentId)),
+          ),
+        };
+      },
+      createVariable(req) {
+        calls.push(`createVariable ${req.key}=${req.value} ${req.applicationId}`);
+        return { variable: { id: newId(), key: req.key, value: req.value, applicationId: req.applicationId } };
+      },
+      deleteVariable(req) {
+        calls.push(`deleteVariable ${req.variableId}`);
+        return {};
+      },
+    });
+  });
+  const client: ApplyClient = {
+    connection: createClient(ConnectionAPI, transport),
+    source: createClient(SourceAPI, transport),
+    application: createClient(ApplicationAPI, transport),
+    environment: createClient(EnvironmentAPI, transport),
+    component: createClient(ComponentAPI, transport),
+    variable: createClient(VariableAPI, transport),
+  };
+  return { client, calls };
+}
+
+const MANIFESTS = `
+kind: Application
+name: payments
+spec:
+  description: Payments platform
+---
+kind: Environment
+name: prod
+application: payments
+spec:
+  runtimeType: KUBERNETES
+---
+kind: Component
+name: api
+application: payments
+spec:
+  source: charts
+  dependsOn: [db, cache]
+---
+kind: Component
+name: cache
+application: payments
+spec:
+  source: charts
+---
+kind: Component
+name: db
+application: payments
+spec:
+  source: charts
+---
+kind: ComponentOverride
+application: payments
+component: db
+environment: prod
+spec:
+  version: "3"
+---
+kind: Variable
+name: REPLICAS
+application: payments
+spec:
+  value: 3
+`;
+
+describe("parseManifests", () => {
+  it("parses YAML and JSON manifests", () => {
+    expect(parseManifests(MANIFESTS, "payments.yaml").map((m) => `${m.kind} ${m.source}`)).toHaveLength(7);
+    expect(parseManifests('[{"kind": "Application", "name": "payments"}]', "apps.json")).toEqual([
+      { kind: "Application", name: "payments", source: "apps.json#1" },
+    ]);
+  });
+
+  it("rejects malformed manifests", () => {
+    expect(() => parseManifests("kind: Cluster\nname: a")).toThrow(/unknown kind "Cluster"/);
+    expect(() => parseManifests("kind: Environment\nname: prod")).toThrow(/requires application/);
+    expect(() => parseManifests("kind: Application\nname: a\nlabels: {}")).toThrow(/unknown manifest field/);
+  });
+});
+
+describe("planManifests", () => {
+  it("plans creates, masked updates and prunes", async () => {
+    const { client } = createApplyServer();
+
+    const plan = await planManifests(client, parseManifests(MANIFESTS), { prune: true });
+
+    expect(plan.changes.map((c) => `${c.action} ${c.kind} ${c.key}`)).toEqual([
+      "update Application payments",
+      "create Component payments/cache",
+      "create Component payments/api",
+      "update ComponentOverride payments/db@prod",
+      "create Variable payments/REPLICAS",
+      "delete Variable payments/OLD",
+      "delete Variable payments/prod/LOG_LEVEL",
+    ]);
+    expect(plan.unchanged).toBe(2);
+    expect(plan.changes[0]).toMatchObject({
+      updateMask: ["description"],
+      fields: [{ field: "description", before: "old", after: "Payments platform" }],
+    });
+    expect(plan.changes[2]?.fields).toContainEqual({
+      field: "dependsOn",
+      before: undefined,
+      after: ["payments/db", "(known after apply)"],
+    });
+    expect(formatPlan(plan)).toContain(
+      '~ Application payments\n    description: "old" -> "Payments platform"\n+ Component payments/cache',
+    );
+    expect(formatPlan(plan)).toMatch(/Plan: 3 to create, 2 to update, 2 to delete, 2 unchanged\.$/);
+  });
+
+  it("reads variables of every scope of the declared applications", async () => {
+    const { client } = createApplyServer();
+    const manifests = parseManifests(
+      [
+        "kind: Application\nname: payments\nspec: {description: old}",
+        "kind: Variable\nname: LOG_LEVEL\napplication: payments\nenvironment: prod\nspec: {value: debug}",
+        "kind: Variable\nname: GLOBAL\nspec: {value: '1'}",
+      ].join("\n---\n"),
+    );
+
+    const plan = await planManifests(client, manifests, { prune: true });
+
+    expect(plan.changes.map((c) => `${c.action} ${c.kind} ${c.key}`)).toEqual(["delete Variable payments/OLD"]);
+    expect(plan.unchanged).toBe(3);
+  });
+
+  it("treats connection credentials as write-only", async () => {
+    const { client } = createApplyServer();
+    const manifests = parseManifests("kind: Connection\nname: github\nspec:\n  gitToken: { token: s3cret }");
+
+    expect((await planManifests(client, manifests)).changes).toEqual([]);
+
+    const plan = await planManifests(client, manifests, { updateSecrets: true });
+    expect(plan.changes[0]).toMatchObject({
+      updateMask: ["git_token"],
+      fields: [{ field: "gitToken", before: SENSITIVE_VALUE, after: SENSITIVE_VALUE }],
+    });
+  });
+
+  it("rejects unknown references and duplicates", async () => {
+    const { client } = createApplyServer();
+
+    await expect(
+      planManifests(client, parseManifests("kind: Component\nname: api\napplication: payments\nspec: {source: x}")),
+    ).rejects.toThrow(/Source "x" not found/);
+    await expect(
+      planManifests(client, parseManifests("kind: Application\nname: a\n---\nkind: Application\nname: a")),
+    ).rejects.toThrow(ManifestError);
+  });
+});
+
+describe("applyPlan", () => {
+  it("applies changes in dependency order with resolved IDs", async () => {
+    const { client, calls } = createApplyServer();
+    const plan = await planManifests(client, parseManifests(MANIFESTS), { prune: true });
+
+    const applied = await applyPlan(client, plan);
+
+    expect(applied).toHaveLength(7);
+    expect(calls).toEqual([
+      "updateApplication app-1 description",
+      "createComponent cache src-1 [] -> id-1",
+      "createComponent api src-1 [cmp-1,id-1] -> id-2",
+      "setComponentOverride cmp-1@env-1 3",
+      "createVariable REPLICAS=3 app-1",
+      "deleteVariable var-1",
+      "deleteVariable var-3",
+    ]);
+  });
+
+  it("updates a single field of a resource validated by the fake", async () => {
+    const client = createFakeAdmiral().createClient();
+    const { application } = await client.application.createApplication({
+      name: "payments",
+      description: "old",
+      labels: { team: "core" },
+    });
+    const plan = await planManifests(
+      client,
+      parseManifests("kind: Application\nname: payments\nspec:\n  description: Payments platform\n"),
+    );
+
+    await applyPlan(client, plan);
+
+    const { application: updated } = await client.application.getApplication({ applicationId: application!.id });
+    expect(plan.changes.map((c) => c.updateMask)).toEqual([["description"]]);
+    expect(updated).toMatchObject({ name: "payments", description: "Payments platform", labels: { team: "core" } });
+  });
+});
@@ -0,0 +1,1042 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { extname, join } from "node:path";
+import type { Client as ConnectClient } from "@connectrpc/connect";
+import {
+  fromJson,
+  toJson,
+  type DescField,
+  type DescMessage,
+  type JsonObject,
+  type JsonValue,
+} from "@bufbuild/protobuf";
+import {
+  ApplicationSchema,
+  CreateApplicationRequestSchema,
+  type ApplicationAPI,
+} from "../../proto/admiral/api/application/v1/application_pb.js";
+import {
+  ComponentOverrideSchema,
+  ComponentSchema,
+  CreateComponentRequestSchema,
+  SetComponentOverrideRequestSchema,
+  type ComponentAPI,
+} from "../../proto/admiral/api/component/v1/component_pb.js";
+import {
+  ConnectionSchema,
+  CreateConnectionRequestSchema,
+  type ConnectionAPI,
+} from "../../proto/admiral/api/connection/v1/connection_pb.js";
+import {
+  CreateEnvironmentRequestSchema,
+  EnvironmentSchema,
+  type EnvironmentAPI,
+} from "../../proto/admiral/api/environment/v1/environment_pb.js";
+import {
+  CreateSourceRequestSchema,
+  SourceSchema,
+  type SourceAPI,
+} from "../../proto/admiral/api/source/v1/source_pb.js";
+import {
+  CreateVariableRequestSchema,
+  VariableSchema,
+  type VariableAPI,
+} from "../../proto/admiral/api/variable/v1/variable_pb.js";
+import { filterFor, renderFilter } from "./filter.js";
+import { paginate } from "./pagination.js";
+import { SENSITIVE_VALUE } from "./tfstate.js";
+import { parseYAMLDocuments } from "./yaml.js";
+
+/** Resource kinds that can be managed with manifests, in the order they are applied. */
+export const MANIFEST_KINDS = [
+  "Connection",
+  "Source",
+  "Application",
+  "Environment",
+  "Component",
+  "ComponentOverride",
+  "Variable",
+] as const;
+
+/** A resource kind that can be managed with manifests. */
+export type ManifestKind = (typeof MANIFEST_KINDS)[number];
+
+/**
+ * A declared resource.
+ *
+ * `spec` holds the fields of the resource's create request in proto JSON form
+ * (`SetComponentOverrideRequest` for overrides). Enum values may omit their
+ * type prefix, e.g. `KUBERNETES` for `RUNTIME_TYPE_KUBERNETES`. Other resources
+ * are referenced by name instead of ID:
+ *
+ * - `connection` (Source) sets `connectionId`
+ * - `source` (Component, ComponentOverride) sets `sourceId`
+ * - `dependsOn` (Component, ComponentOverride) lists component names of the same application
+ *
+ * @example
+ * ```yaml
+ * kind: Component
+ * name: api
+ * application: payments
+ * spec:
+ *   source: helm-charts
+ *   version: 1.4.0
+ *   dependsOn: [database]
+ * ```
+ */
+export interface Manifest {
+  kind: ManifestKind;
+
+  /** Resource name; the variable key for variables. Not used by overrides. */
+  name?: string;
+
+  /** Application name; required for environments, components and overrides */
+  application?: string;
+
+  /** Environment name; required for overrides, optional for variables */
+  environment?: string;
+
+  /** Component name; required for overrides */
+  component?: string;
+
+  spec?: Record<string, unknown>;
+
+  /** Where the manifest was read from, e.g. "apps/payments.yaml#2" */
+  source?: string;
+}
+
+/** The service RPCs used to plan and apply manifests. `Client` satisfies this. */
+export interface ApplyClient {
+  connection: Pick<
+    ConnectClient<typeof ConnectionAPI>,
+    "listConnections" | "createConnection" | "updateConnection" | "deleteConnection"
+  >;
+  source: Pick<ConnectClient<typeof SourceAPI>, "listSources" | "createSource" | "updateSource" | "deleteSource">;
+  application: Pick<
+    ConnectClient<typeof ApplicationAPI>,
+    "listApplications" | "createApplication" | "updateApplication" | "deleteApplication"
+  >;
+  environment: Pick<
+    ConnectClient<typeof EnvironmentAPI>,
+    "listEnvironments" | "createEnvironment" | "updateEnvironment" | "deleteEnvironment"
+  >;
+  component: Pick<
+    ConnectClient<typeof ComponentAPI>,
+    | "listComponents"
+    | "createComponent"
+    | "updateComponent"
+    | "deleteComponent"
+    | "listComponentOverrides"
+    | "setComponentOverride"
+    | "deleteComponentOverride"
+  >;
+  variable: Pick<
+    ConnectClient<typeof VariableAPI>,
+    "listVariables" | "createVariable" | "updateVariable" | "deleteVariable"
+  >;
+}
+
+/** What applying a change does. */
+export type PlanAction = "create" | "update" | "delete";
+
+/**
+ * A field that is set or changed. Referenced resources are shown by name and
+ * secrets as `SENSITIVE_VALUE`.
+ */
+export interface FieldChange {
+  /** Proto JSON field name, e.g. `valuesTemplate` */
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * One step of a plan.
+ */
+export interface PlannedChange {
+  action: PlanAction;
+  kind: ManifestKind;
+
+  /**
+   * Resource key: the name, prefixed with the application for environments and
+   * components (`payments/prod`), `payments/api@prod` for overrides and
+   * `[application/[environment/]]KEY` for variables.
+   */
+  key: string;
+
+  /** Set or changed fields; empty for deletes */
+  fields: FieldChange[];
+
+  /** Proto field paths sent as the update mask of an update */
+  updateMask: string[];
+
+  /** The declaring manifest; undefined for deletes */
+  manifest?: Manifest;
+
+  /** The live resource in proto JSON form; undefined for creates */
+  live?: JsonObject;
+}
+
+/**
+ * Changes needed to make the live resources match the manifests.
+ */
+export interface Plan {
+  /** Changes in the order they are applied */
+  changes: PlannedChange[];
+
+  /** Number of declared resources that are already up to date */
+  unchanged: number;
+
+  /** IDs of existing resources by "Kind:key", used to resolve references when applying */
+  ids: Map<string, string>;
+}
+
+/**
+ * Options for planning.
+ */
+export interface PlanOptions {
+  /**
+   * Delete resources that are not declared. Only kinds that appear in the
+   * manifests are pruned: environments and components of declared applications,
+   * overrides of declared components, variables of declared applications (and
+   * global variables when a global variable is declared), and all connections,
+   * sources and applications.
+   * @default false
+   */
+  prune?: boolean;
+
+  /**
+   * Write connection credentials and sensitive variable values on every apply.
+   * The API never returns them, so by default they are only written on create or
+   * when the credential type changes.
+   * @default false
+   */
+  updateSecrets?: boolean;
+}
+
+/**
+ * Options for applying a plan.
+ */
+export interface ApplyOptions {
+  /** Called after each change is applied. */
+  onChange?: (change: PlannedChange) => void;
+}
+
+/** Thrown when manifests are malformed or reference unknown resources. */
+export class ManifestError extends Error {
+  override readonly name = "ManifestError";
+}
+
+/** Thrown when a change fails; changes before it have been applied. */
+export class ApplyError extends Error {
+  override readonly name = "ApplyError";
+
+  constructor(
+    readonly change: PlannedChange,
+    readonly applied: PlannedChange[],
+    readonly cause: unknown,
+  ) {
+    super(
+      `failed to ${change.action} ${change.kind} ${change.key}: ${cause instanceof Error ? cause.message : String(cause)}`,
+    );
+  }
+}
+
+/** Placeholder for the ID of a resource that is created by the same apply. */
+const PENDING = "(known after apply)";
+
+interface RefDef {
+  kind: "Connection" | "Source" | "Component";
+  field: string;
+  list?: boolean;
+}
+
+interface LiveResource {
+  key: string;
+  json: JsonObject;
+
+  /** Application name for scoped kinds, component key for overrides */
+  scope?: string;
+}
+
+/**
+ * How each kind is identified, referenced and written.
+ */
+interface KindDef {
+  schema: DescMessage;
+  resource: DescMessage;
+  scopes: { application?: "required" | "optional"; environment?: "required" | "optional"; component?: "required" };
+  named: boolean;
+  refs?: Record<string, RefDef>;
+
+  /** Every field is written, so undeclared fields are reset */
+  replaces?: boolean;
+  create(client: ApplyClient, json: JsonObject): Promise<string>;
+  update(client: ApplyClient, json: JsonObject, paths: string[]): Promise<void>;
+  remove(client: ApplyClient, live: JsonObject): Promise<void>;
+}
+
+const COMPONENT_REFS: Record<string, RefDef> = {
+  source: { kind: "Source", field: "sourceId" },
+  dependsOn: { kind: "Component", field: "dependsOn", list: true },
+};
+
+const KINDS: Record<ManifestKind, KindDef> = {
+  Connection: {
+    schema: CreateConnectionRequestSchema,
+    resource: ConnectionSchema,
+    scopes: {},
+    named: true,
+    async create(client, json) {
+      const res = await client.connection.createConnection(fromJson(CreateConnectionRequestSchema, json));
+      return res.connection?.id ?? "";
+    },
+    async update(client, json, paths) {
+      await client.connection.updateConnection({ connection: fromJson(ConnectionSchema, json), updateMask: { paths } });
+    },
+    async remove(client, live) {
+      await client.connection.deleteConnection({ connectionId: String(live.id) });
+    },
+  },
+  Source: {
+    schema: CreateSourceRequestSchema,
+    resource: SourceSchema,
+    scopes: {},
+    named: true,
+    refs: { connection: { kind: "Connection", field: "connectionId" } },
+    async create(client, json) {
+      const res = await client.source.createSource(fromJson(CreateSourceRequestSchema, json));
+      return res.source?.id ?? "";
+    },
+    async update(client, json, paths) {
+      await client.source.updateSource({ source: fromJson(SourceSchema, json), updateMask: { paths } });
+    },
+    async remove(client, live) {
+      await client.source.deleteSource({ sourceId: String(live.id) });
+    },
+  },
+  Application: {
+    schema: CreateApplicationRequestSchema,
+    resource: ApplicationSchema,
+    scopes: {},
+    named: true,
+    async create(client, json) {
+      const res = await client.application.createApplication(fromJson(CreateApplicationRequestSchema, json));
+      return res.application?.id ?? "";
+    },
+    async update(client, json, paths) {
+      await client.application.updateApplication({
+        application: fromJson(ApplicationSchema, json),
+        updateMask: { paths },
+      });
+    },
+    async remove(client, live) {
+      await client.application.deleteApplication({ applicationId: String(live.id) });
+    },
+  },
+  Environment: {
+    schema: CreateEnvironmentRequestSchema,
+    resource: EnvironmentSchema,
+    scopes: { application: "required" },
+    named: true,
+    async create(client, json) {
+      const res = await client.environment.createEnvironment(fromJson(CreateEnvironmentRequestSchema, json));
+      return res.environment?.id ?? "";
+    },
+    async update(client, json, paths) {
+      await client.environment.updateEnvironment({
+        environment: fromJson(EnvironmentSchema, json),
+        updateMask: { paths },
+      });
+    },
+    async remove(client, live) {
+      await client.environment.deleteEnvironment({ environmentId: String(live.id) });
+    },
+  },
+  Component: {
+    schema: CreateComponentRequestSchema,
+    resource: ComponentSchema,
+    scopes: { application: "required" },
+    named: true,
+    refs: COMPONENT_REFS,
+    async create(client, json) {
+      const res = await client.component.createComponent(fromJson(CreateComponentRequestSchema, json));
+      return res.component?.id ?? "";
+    },
+    async update(client, json, paths) {
+      await client.component.updateComponent({ component: fromJson(ComponentSchema, json), updateMask: { paths } });
+    },
+    async remove(client, live) {
+      await client.component.deleteComponent({ componentId: String(live.id) });
+    },
+  },
+  ComponentOverride: {
+    schema: SetComponentOverrideRequestSchema,
+    resource: ComponentOverrideSchema,
+    scopes: { application: "required", environment: "required", component: "required" },
+    named: false,
+    refs: COMPONENT_REFS,
+    replaces: true,
+    async create(client, json) {
+      await client.component.setComponentOverride(fromJson(SetComponentOverrideRequestSchema, json));
+      return "";
+    },
+    async update(client, json) {
+      await client.component.setComponentOverride(fromJson(SetComponentOverrideRequestSchema, json));
+    },
+    async remove(client, live) {
+      await client.component.deleteComponentOverride({
+        componentId: String(live.componentId),
+        environmentId: String(live.environmentId),
+      });
+    },
+  },
+  Variable: {
+    schema: CreateVariableRequestSchema,
+    resource: VariableSchema,
+    scopes: { application: "optional", environment: "optional" },
+    named: true,
+    async create(client, json) {
+      const res = await client.variable.createVariable(fromJson(CreateVariableRequestSchema, json));
+      return res.variable?.id ?? "";
+    },
+    async update(client, json, paths) {
+      await client.variable.updateVariable({ variable: fromJson(VariableSchema, json), updateMask: { paths } });
+    },
+    async remove(client, live) {
+      await client.variable.deleteVariable({ variableId: String(live.id) });
+    },
+  },
+};
+
+/** Identity fields set from the manifest's name and scope rather than its spec. */
+const IDENTITY_FIELDS = new Set(["name", "key", "application_id", "environment_id", "component_id"]);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(manifest: Manifest): string {
+  const address = `${manifest.kind} ${manifestKey(manifest)}`;
+  return manifest.source ? `${address} (${manifest.source})` : address;
+}
+
+function manifestKey(manifest: Manifest): string {
+  switch (manifest.kind) {
+    case "Environment":
+    case "Component":
+      return `${manifest.application}/${manifest.name}`;
+    case "ComponentOverride":
+      return `${manifest.application}/${manifest.component}@${manifest.environment}`;
+    case "Variable":
+      return [manifest.application, manifest.environment, manifest.name].filter(Boolean).join("/");
+    default:
+      return manifest.name ?? "";
+  }
+}
+
+/**
+ * Checks the shape of a parsed manifest document.
+ */
+function toManifest(doc: unknown, source: string): Manifest {
+  if (!isObject(doc)) {
+    throw new ManifestError(`${source}: manifest must be an object`);
+  }
+  const { kind, spec, ...rest } = doc;
+  if (typeof kind !== "string" || !(MANIFEST_KINDS as readonly string[]).includes(kind)) {
+    throw new ManifestError(
+      `${source}: unknown kind ${JSON.stringify(kind)}, expected one of ${MANIFEST_KINDS.join(", ")}`,
+    );
+  }
+  if (spec !== undefined && spec !== null && !isObject(spec)) {
+    throw new ManifestError(`${source}: spec must be an object`);
+  }
+  const manifest: Manifest = { kind: kind as ManifestKind, source };
+  for (const [key, value] of Object.entries(rest)) {
+    if (key !== "name" && key !== "application" && key !== "environment" && key !== "component") {
+      throw new ManifestError(`${source}: unknown manifest field "${key}"`);
+    }
+    if (typeof value !== "string" || value === "") {
+      throw new ManifestError(`${source}: ${key} must be a non-empty string`);
+    }
+    manifest[key] = value;
+  }
+  if (spec) {
+    manifest.spec = spec;
+  }
+
+  const def = KINDS[manifest.kind];
+  if (def.named !== (manifest.name !== undefined)) {
+    throw new ManifestError(`${source}: ${manifest.kind} ${def.named ? "requires" : "does not take"} a name`);
+  }
+  for (const scope of ["application", "environment", "component"] as const) {
+    const rule = def.scopes[scope];
+    if (rule === "required" && !manifest[scope]) {
+      throw new ManifestError(`${source}: ${manifest.kind} requires ${scope}`);
+    }
+    if (!rule && manifest[scope]) {
+      throw new ManifestError(`${source}: ${manifest.kind} does not take ${scope}`);
+    }
+  }
+  if (manifest.environment && !manifest.application) {
+    throw new ManifestError(`${source}: environment requires application`);
+  }
+  return manifest;
+}
+
+/**
+ * Parses manifests from YAML or JSON text.
+ *
+ * YAML may contain several documents separated by `---`; JSON may be a single
+ * manifest or an array of manifests.
+ *
+ * @param text - File contents
+ * @param source - Name used in error messages, e.g. the file path
+ * @returns The manifests, each with `source` set to "source#n"
+ * @throws ManifestError if a document is not a valid manifest
+ */
+export function parseManifests(text: string, source = "manifest"): Manifest[] {
+  let docs: unknown[];
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (err) {
+      throw new ManifestError(`${source}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    docs = Array.isArray(parsed) ? parsed : [parsed];
+  } else {
+    try {
+      docs = parseYAMLDocuments(text);
+    } catch (err) {
+      throw new ManifestError(`${source}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return docs.map((doc, i) => toManifest(doc, `${source}#${i + 1}`));
+}
+
+const MANIFEST_EXTENSIONS = new Set([".yaml", ".yml", ".json"]);
+
+/**
+ * Reads manifests from files and directories. Directories are searched
+ * recursively for `.yaml`, `.yml` and `.json` files in name order.
+ *
+ * @param paths - Files and directories
+ * @returns The manifests of all files
+ * @throws ManifestError if a file does not contain valid manifests
+ *
+ * @example
+ * ```typescript
+ * const manifests = await loadManifests(["admiral/"]);
+ * const plan = await planManifests(client, manifests, { prune: true });
+ * console.log(formatPlan(plan));
+ * ```
+ */
+export async function loadManifests(paths: string | string[]): Promise<Manifest[]> {
+  const manifests: Manifest[] = [];
+  for (const path of Array.isArray(paths) ? paths : [paths]) {
+    if ((await stat(path)).isDirectory()) {
+      const entries = (await readdir(path, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+      const nested = entries
+        .filter((entry) => entry.isDirectory() || MANIFEST_EXTENSIONS.has(extname(entry.name)))
+        .map((entry) => join(path, entry.name));
+      manifests.push(...(await loadManifests(nested)));
+    } else {
+      manifests.push(...parseManifests(await readFile(path, "utf-8"), path));
+    }
+  }
+  return manifests;
+}
+
+/**
+ * Resources of the tenant in the scopes of the manifests, keyed like manifests.
+ */
+interface LiveState {
+  resources: Record<ManifestKind, Map<string, LiveResource>>;
+  ids: Map<string, string>;
+  names: Map<string, string>;
+}
+
+const JSON_OPTIONS = { alwaysEmitImplicit: true } as const;
+
+async function fetchLive(client: ApplyClient, manifests: Manifest[]): Promise<LiveState> {
+  const resources = Object.fromEntries(MANIFEST_KINDS.map((kind) => [kind, new Map()])) as LiveState["resources"];
+  const ids = new Map<string, string>();
+  const names = new Map<string, string>();
+  const add = (kind: ManifestKind, key: string, json: JsonObject, scope?: string) => {
+    resources[kind].set(key, { key, json, scope });
+    if (typeof json.id === "string") {
+      ids.set(`${kind}:${key}`, json.id);
+      names.set(json.id, key);
+    }
+  };
+
+  const [connections, sources, applications, environments] = await Promise.all([
+    paginate(client.connection.listConnections, {}).collect(),
+    paginate(client.source.listSources, {}).collect(),
+    paginate(client.application.listApplications, {}).collect(),
+    paginate(client.environment.listEnvironments, {}).collect(),
+  ]);
+
+  // Components and scoped variables are only listed with an application filter,
+  // so they are read for the applications in the manifests and their environments
+  const apps = new Set(manifests.map((m) => m.application ?? (m.kind === "Application" ? m.name : undefined)));
+  const scopedApps = applications.filter((app) => apps.has(app.name));
+  const scopedEnvs = environments.filter((env) => scopedApps.some((app) => app.id === env.applicationId));
+  const c = filterFor("component");
+  const v = filterFor("variable");
+  const listVariables = async (applicationId?: string, environmentId?: string) => {
+    const filter = renderFilter(
+      v.and(
+        applicationId === undefined ? v.isNull("application_id") : v.eq("application_id", applicationId),
+        environmentId === undefined ? v.isNull("environment_id") : v.eq("environment_id", environmentId),
+      ),
+    );
+    // The API also returns the broader scopes, which are listed on their own
+    return (await paginate(client.variable.listVariables, { filter }).collect()).filter(
+      (variable) => variable.applicationId === applicationId && variable.environmentId === environmentId,
+    );
+  };
+  const [components, variables] = await Promise.all([
+    Promise.all(
+      scopedApps.map((app) =>
+        paginate(client.component.listComponents, { filter: renderFilter(c.eq("application_id", app.id)) }).collect(),
+      ),
+    ).then((lists) => lists.flat()),
+    Promise.all([
+      listVariables(),
+      ...scopedApps.map((app) => listVariables(app.id)),
+      ...scopedEnvs.map((env) => listVariables(env.applicationId, env.id)),
+    ]).then((lists) => lists.flat()),
+  ]);
+  for (const connection of connections) {
+    add("Connection", connection.name, toJson(ConnectionSchema, connection, JSON_OPTIONS) as JsonObject);
+  }
+  for (const source of sources) {
+    add("Source", source.name, toJson(SourceSchema, source, JSON_OPTIONS) as JsonObject);
+  }
+  const appNames = new Map<string, string>();
+  for (const app of applications) {
+    appNames.set(app.id, app.name);
+    add("Application", app.name, toJson(ApplicationSchema, app, JSON_OPTIONS) as JsonObject);
+  }
+  const envNames = new Map<string, string>();
+  for (const env of environments) {
+    const app = appNames.get(env.applicationId);
+    if (app) {
+      envNames.set(env.id, env.name);
+      add("Environment", `${app}/${env.name}`, toJson(EnvironmentSchema, env, JSON_OPTIONS) as JsonObject, app);
+    }
+  }
+  const componentKeys = new Map<string, string>();
+  for (const component of components) {
+    const app = appNames.get(component.applicationId);
+    if (app) {
+      const key = `${app}/${component.name}`;
+      componentKeys.set(component.id, key);
+      add("Component", key, toJson(ComponentSchema, component, JSON_OPTIONS) as JsonObject, app);
+    }
+  }
+  for (const variable of variables) {
+    const app = variable.applicationId !== undefined ? appNames.get(variable.applicationId) : undefined;
+    const env = variable.environmentId !== undefined ? envNames.get(variable.environmentId) : undefined;
+    if ((variable.applicationId !== undefined && !app) || (variable.environmentId !== undefined && !env)) {
+      continue;
+    }
+    const key = [app, env, variable.key].filter(Boolean).join("/");
+    add("Variable", key, toJson(VariableSchema, variable, JSON_OPTIONS) as JsonObject, app);
+  }
+
+  // Overrides are listed per component, so only for the applications in the manifests
+  if (manifests.some((m) => m.kind === "ComponentOverride")) {
+    const overrides = await Promise.all(
+      components.map((c) => paginate(client.component.listComponentOverrides, { componentId: c.id }).collect()),
+    );
+    for (const override of overrides.flat()) {
+      const component = componentKeys.get(override.componentId);
+      const env = envNames.get(override.environmentId);
+      if (component && env) {
+        add(
+          "ComponentOverride",
+          `${component}@${env}`,
+          toJson(ComponentOverrideSchema, override, JSON_OPTIONS) as JsonObject,
+          component,
+        );
+      }
+    }
+  }
+  return { resources, ids, names };
+}
+
+function findField(schema: DescMessage, key: string): DescField | undefined {
+  return schema.fields.find((f) => f.name === key || f.jsonName === key || f.localName === key);
+}
+
+/**
+ * Expands enum values given without their type prefix, e.g. "KUBERNETES".
+ */
+function expandEnums(schema: DescMessage, json: JsonObject): void {
+  for (const [key, value] of Object.entries(json)) {
+    const field = findField(schema, key);
+    if (field?.fieldKind === "enum" && typeof value === "string") {
+      const prefix = field.enum.sharedPrefix?.toUpperCase() ?? "";
+      const name = `${prefix}${value.toUpperCase()}`;
+      if (!field.enum.values.some((v) => v.name === value) && field.enum.values.some((v) => v.name === name)) {
+        json[key] = name;
+      }
+    } else if (field?.fieldKind === "message" && isObject(value)) {
+      expandEnums(field.message, value as JsonObject);
+    }
+  }
+}
+
+type Resolver = (kind: ManifestKind, key: string, manifest: Manifest) => string;
+
+/**
+ * Builds the create request of a manifest in proto JSON form.
+ *
+ * @returns The request and the JSON names of the declared fields
+ */
+function desiredJson(manifest: Manifest, resolve: Resolver): { json: JsonObject; declared: string[] } {
+  const def = KINDS[manifest.kind];
+  const json: JsonObject = {};
+  const declared: string[] = [];
+  for (const [key, raw] of Object.entries(manifest.spec ?? {})) {
+    const ref = def.refs?.[key];
+    const field = findField(def.schema, ref?.field ?? key);
+    if (!field || IDENTITY_FIELDS.has(field.name)) {
+      throw new ManifestError(`${describe(manifest)}: unknown spec field "${key}"`);
+    }
+    let value = raw as JsonValue;
+    if (ref) {
+      const scoped = (name: unknown) =>
+        resolve(
+          ref.kind,
+          ref.kind === "Component" ? `${manifest.application}/${String(name)}` : String(name),
+          manifest,
+        );
+      value = ref.list ? (Array.isArray(raw) ? raw : [raw]).map(scoped) : scoped(raw);
+    } else if (manifest.kind === "Variable" && field.name === "value" && typeof raw !== "string") {
+      // Variable values are strings; accept YAML numbers, booleans and structures
+      value = isObject(raw) || Array.isArray(raw) ? JSON.stringify(raw) : String(raw);
+    }
+    json[field.jsonName] = value;
+    declared.push(field.jsonName);
+  }
+  if (def.named) {
+    json[manifest.kind === "Variable" ? "key" : "name"] = manifest.name ?? "";
+  }
+  if (manifest.application && findField(def.schema, "application_id")) {
+    json.applicationId = resolve("Application", manifest.application, manifest);
+  }
+  if (manifest.environment) {
+    json.environmentId = resolve("Environment", `${manifest.application}/${manifest.environment}`, manifest);
+  }
+  if (manifest.component) {
+    json.componentId = resolve("Component", `${manifest.application}/${manifest.component}`, manifest);
+  }
+  expandEnums(def.schema, json);
+
+  let normalized: JsonObject;
+  try {
+    normalized = toJson(def.schema, fromJson(def.schema, json), JSON_OPTIONS) as JsonObject;
+  } catch (err) {
+    throw new ManifestError(`${describe(manifest)}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (def.replaces) {
+    const all = def.schema.fields.filter((f) => !IDENTITY_FIELDS.has(f.name)).map((f) => f.jsonName);
+    return { json: normalized, declared: all };
+  }
+  return { json: normalized, declared };
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Credentials are write-only: the API returns them masked or not at all
+function isSecret(kind: ManifestKind, field: DescField, desired: JsonObject, live?: JsonObject): boolean {
+  if (kind === "Connection") {
+    return field.oneof?.name === "auth_config";
+  }
+  if (kind === "Variable") {
+    return field.name === "value" && (desired.sensitive === true || live?.sensitive === true);
+  }
+  return false;
+}
+
+/**
+ * Sorts components so that dependencies declared in the same apply come first.
+ */
+function sortComponents(manifests: Manifest[]): Manifest[] {
+  const byKey = new Map(manifests.map((m) => [manifestKey(m), m]));
+  const sorted: Manifest[] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const visit = (manifest: Manifest, path: string[]) => {
+    const key = manifestKey(manifest);
+    if (state.get(key) === "done") {
+      return;
+    }
+    if (state.get(key) === "visiting") {
+      throw new ManifestError(`component dependency cycle: ${[...path, key].join(" -> ")}`);
+    }
+    state.set(key, "visiting");
+    const dependsOn = manifest.spec?.dependsOn;
+    for (const name of Array.isArray(dependsOn) ? dependsOn : dependsOn ? [dependsOn] : []) {
+      const dependency = byKey.get(`${manifest.application}/${String(name)}`);
+      if (dependency) {
+        visit(dependency, [...path, key]);
+      }
+    }
+    state.set(key, "done");
+    sorted.push(manifest);
+  };
+  for (const manifest of manifests) {
+    visit(manifest, []);
+  }
+  return sorted;
+}
+
+/**
+ * Compares manifests with the live resources and returns the changes needed.
+ *
+ * Only fields declared in a manifest's spec are compared and updated; other
+ * fields keep their live value (overrides are the exception: they are always
+ * replaced as a whole). Updates send a `FieldMask` with only the changed fields.
+ * References to resources that the plan creates show as "(known after apply)".
+ *
+ * @param client - Admiral client
+ * @param manifests - Declared resources
+ * @param options - Pruning and secret handling
+ * @returns The plan; pass it to `applyPlan` to execute it
+ * @throws ManifestError if manifests are invalid, duplicated or reference unknown resources
+ */
+export async function planManifests(
+  client: ApplyClient,
+  manifests: Manifest[],
+  options: PlanOptions = {},
+): Promise<Plan> {
+  const declared = new Map<string, Manifest>();
+  for (const manifest of manifests) {
+    const id = `${manifest.kind}:${manifestKey(manifest)}`;
+    const existing = declared.get(id);
+    if (existing) {
+      throw new ManifestError(`${describe(manifest)}: already declared in ${existing.source ?? "another manifest"}`);
+    }
+    declared.set(id, manifest);
+  }
+
+  const live = await fetchLive(client, manifests);
+  const resolve: Resolver = (kind, key, manifest) => {
+    const id = live.ids.get(`${kind}:${key}`);
+    if (id) {
+      return id;
+    }
+    if (declared.has(`${kind}:${key}`)) {
+      return PENDING;
+    }
+    throw new ManifestError(`${describe(manifest)}: ${kind} "${key}" not found`);
+  };
+  const display = (def: KindDef, jsonName: string, value: unknown): unknown => {
+    const isRef = Object.values(def.refs ?? {}).some((ref) => ref.field === jsonName);
+    if (!isRef) {
+      return value;
+    }
+    const name = (id: unknown) => (typeof id === "string" ? (live.names.get(id) ?? id) : id);
+    return Array.isArray(value) ? value.map(name) : name(value);
+  };
+
+  const changes: PlannedChange[] = [];
+  let unchanged = 0;
+  for (const kind of MANIFEST_KINDS) {
+    const def = KINDS[kind];
+    const ofKind = manifests.filter((m) => m.kind === kind);
+    for (const manifest of kind === "Component" ? sortComponents(ofKind) : ofKind) {
+      const key = manifestKey(manifest);
+      const { json, declared: fields } = desiredJson(manifest, resolve);
+      const current = live.resources[kind].get(key);
+      const changed: FieldChange[] = [];
+      const updateMask: string[] = [];
+      for (const jsonName of fields) {
+        const field = findField(def.schema, jsonName)!;
+        const secret = isSecret(kind, field, json, current?.json);
+        const after: unknown = json[jsonName];
+        const before: unknown = current?.json[jsonName];
+        if (current) {
+          // Dependencies are a set; the API may return them in any order
+          const sorted = (value: unknown) =>
+            def.refs?.dependsOn?.field === jsonName && Array.isArray(value) ? [...value].sort() : value;
+          const differs = secret
+            ? options.updateSecrets || (after !== undefined && before === undefined)
+            : !isEqual(sorted(before), sorted(after));
+          if (!differs) {
+            continue;
+          }
+          updateMask.push(field.name);
+        } else if (after === undefined) {
+          continue;
+        }
+        changed.push({
+          field: jsonName,
+          before: secret && before !== undefined ? SENSITIVE_VALUE : display(def, jsonName, before),
+          after: secret && after !== undefined ? SENSITIVE_VALUE : display(def, jsonName, after),
+        });
+      }
+      if (!current) {
+        changes.push({ action: "create", kind, key, fields: changed, updateMask: [], manifest });
+      } else if (changed.length > 0) {
+        changes.push({ action: "update", kind, key, fields: changed, updateMask, manifest, live: current.json });
+      } else {
+        unchanged++;
+      }
+    }
+  }
+
+  if (options.prune) {
+    const apps = new Set(manifests.filter((m) => m.kind === "Application").map((m) => m.name));
+    const components = new Set(manifests.filter((m) => m.kind === "Component").map(manifestKey));
+    const globalVariables = manifests.some((m) => m.kind === "Variable" && !m.application);
+    const inScope = (kind: ManifestKind, resource: LiveResource): boolean => {
+      switch (kind) {
+        case "Environment":
+        case "Component":
+          return apps.has(resource.scope);
+        case "ComponentOverride":
+          return resource.scope !== undefined && components.has(resource.scope);
+        case "Variable":
+          return resource.scope === undefined ? globalVariables : apps.has(resource.scope);
+        default:
+          return true;
+      }
+    };
+    const kinds = new Set(manifests.map((m) => m.kind));
+    for (const kind of [...MANIFEST_KINDS].reverse()) {
+      if (!kinds.has(kind)) {
+        continue;
+      }
+      for (const resource of live.resources[kind].values()) {
+        if (!declared.has(`${kind}:${resource.key}`) && inScope(kind, resource)) {
+          changes.push({ action: "delete", kind, key: resource.key, fields: [], updateMask: [], live: resource.json });
+        }
+      }
+    }
+  }
+
+  return { changes, unchanged, ids: live.ids };
+}
+
+/**
+ * Executes a plan in order: creates and updates from connections to variables,
+ * then deletes in reverse order.
+ *
+ * @param client - Admiral client
+ * @param plan - Plan from `planManifests`
+ * @param options - Progress callback
+ * @returns The applied changes
+ * @throws ApplyError when a change fails, with the changes applied before it
+ */
+export async function applyPlan(client: ApplyClient, plan: Plan, options: ApplyOptions = {}): Promise<PlannedChange[]> {
+  const ids = new Map(plan.ids);
+  const resolve: Resolver = (kind, key, manifest) => {
+    const id = ids.get(`${kind}:${key}`);
+    if (id === undefined) {
+      throw new ManifestError(`${describe(manifest)}: ${kind} "${key}" not found`);
+    }
+    return id;
+  };
+
+  const applied: PlannedChange[] = [];
+  for (const change of plan.changes) {
+    const def = KINDS[change.kind];
+    try {
+      if (change.action === "delete") {
+        await def.remove(client, change.live ?? {});
+      } else {
+        const { json } = desiredJson(change.manifest!, resolve);
+        if (change.action === "create") {
+          const id = await def.create(client, json);
+          if (id) {
+            ids.set(`${change.kind}:${change.key}`, id);
+          }
+        } else {
+          // Requests are validated as a whole, so start from the live resource
+          const fields = def.replaces ? json : { ...change.live };
+          for (const field of change.fields) {
+            fields[field.field] = json[field.field] ?? null;
+          }
+          await def.update(client, fields, change.updateMask);
+        }
+      }
+    } catch (err) {
+      throw new ApplyError(change, applied, err);
+    }
+    applied.push(change);
+    options.onChange?.(change);
+  }
+  return applied;
+}
+
+/**
+ * Plans and applies manifests in one step.
+ *
+ * @example
+ * ```typescript
+ * import { applyManifests, formatPlan, loadManifests } from "@admiral-io/sdk";
+ *
+ * const { plan } = await applyManifests(client, await loadManifests("admiral/"), {
+ *   prune: true,
+ *   onChange: (change) => console.log(change.action, change.kind, change.key),
+ * });
+ * ```
+ */
+export async function applyManifests(
+  client: ApplyClient,
+  manifests: Manifest[],
+  options: PlanOptions & ApplyOptions = {},
+): Promise<{ plan: Plan; applied: PlannedChange[] }> {
+  const plan = await planManifests(client, manifests, options);
+  const applied = await applyPlan(client, plan, options);
+  return { plan, applied };
+}
+
+const SYMBOLS: Record<PlanAction, string> = { create: "+", update: "~", delete: "-" };
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(unset)" : JSON.stringify(value);
+}
+
+/**
+ * Formats a plan for review, one change per block:
+ *
+ * ```
+ * + Application payments
+ *     description: "Payments platform"
+ * ~ Component payments/api
+ *     version: "1.4.0" -> "1.5.0"
+ * - Variable payments/OLD_FLAG
+ *
+ * Plan: 1 to create, 1 to update, 1 to delete, 3 unchanged.
+ * ```
+ */
+export function formatPlan(plan: Plan): string {
+  const lines: string[] = [];
+  for (const change of plan.changes) {
+    lines.push(`${SYMBOLS[change.action]} ${change.kind} ${change.key}`);
+    for (const field of change.fields) {
+      lines.push(
+        change.action === "create"
+          ? `    ${field.field}: ${formatValue(field.after)}`
+          : `    ${field.field}: ${formatValue(field.before)} -> ${formatValue(field.after)}`,
+      );
+    }
+  }
+  const count = (action: PlanAction) => plan.changes.filter((c) => c.action === action).length;
+  if (lines.length === 0) {
+    lines.push("No changes.");
+  }
+  lines.push(
+    "",
+    `Plan: ${count("create")} to create, ${count("update")} to update, ${count("delete")} to delete, ${plan.unchanged} unchanged.`,
+  );
+  return lines.join("\n");
+}
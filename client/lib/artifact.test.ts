@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "node:crypto";
+import { ChecksumMismatchError, verifyChecksum } from "./artifact.js";
+
+const ARTIFACT = new TextEncoder().encode("main.tf contents");
+const CHECKSUM = createHash("sha256").update(ARTIFACT).digest("hex");
+
+describe("verifyChecksum", () => {
+  it("accepts hex digests with or without a sha256: prefix", () => {
+    expect(() => verifyChecksum(ARTIFACT, CHECKSUM)).not.toThrow();
+    expect(() => verifyChecksum(ARTIFACT, `sha256:${CHECKSUM.toUpperCase()}`)).not.toThrow();
+  });
+
+  it("throws on a mismatch", () => {
+    const err = (() => {
+      try {
+        verifyChecksum(ARTIFACT, "abc");
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(err).toBeInstanceOf(ChecksumMismatchError);
+    expect((err as ChecksumMismatchError).actual).toBe(CHECKSUM);
+  });
+});
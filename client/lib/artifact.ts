@@ -0,0 +1,42 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Downloads an artifact bundle from a signed URL.
+ */
+export type ArtifactDownloader = (url: string, signal: AbortSignal) => Promise<Uint8Array>;
+
+/** Thrown when a downloaded artifact does not match the bundle checksum. */
+export class ChecksumMismatchError extends Error {
+  override readonly name = "ChecksumMismatchError";
+
+  constructor(
+    readonly expected: string,
+    readonly actual: string,
+  ) {
+    super(`artifact checksum mismatch: expected sha256 ${expected}, got ${actual}`);
+  }
+}
+
+/**
+ * Verifies a SHA-256 checksum, given as hex with an optional "sha256:" prefix.
+ *
+ * @throws ChecksumMismatchError if the data does not match
+ */
+export function verifyChecksum(data: Uint8Array, checksum: string): void {
+  const expected = checksum.replace(/^sha256:/i, "").toLowerCase();
+  const actual = createHash("sha256").update(data).digest("hex");
+  if (actual !== expected) {
+    throw new ChecksumMismatchError(expected, actual);
+  }
+}
+
+/**
+ * Default ArtifactDownloader using `fetch`.
+ */
+export const fetchArtifact: ArtifactDownloader = async (url, signal) => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`artifact download failed: HTTP ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
@@ -0,0 +1,123 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createHash } from "node:crypto";
+import { Code, ConnectError, createClient, createRouterTransport } from "@connectrpc/connect";
+import { createStateBackendServer, type StateBackendServer } from "./backend.js";
+import { StateAPI, type PushStateRequest } from "../../proto/admiral/api/state/v1/state_pb.js";
+
+// Helper to create a state client backed by a single in-memory state and lock
+function createStateServer() {
+  let data: Uint8Array = new Uint8Array();
+  let lockId = "";
+  const pushes: PushStateRequest[] = [];
+  const transport = createRouterTransport((router) => {
+    router.service(StateAPI, {
+      getState() {
+        return { data };
+      },
+      pushState(req) {
+        if (pushes.length > 0 && req.serial <= pushes[pushes.length - 1]!.serial) {
+          throw new ConnectError("serial must increase", Code.FailedPrecondition);
+        }
+        pushes.push(req);
+        data = req.data;
+        return {};
+      },
+      lockState(req) {
+        if (lockId) {
+          throw new ConnectError("state is locked", Code.FailedPrecondition);
+        }
+        lockId = req.lockId;
+        return {};
+      },
+      unlockState(req) {
+        if (!lockId) {
+          throw new ConnectError("state is not locked", Code.NotFound);
+        }
+        if (req.lockId !== lockId) {
+          throw new ConnectError("lock id mismatch", Code.FailedPrecondition);
+        }
+        lockId = "";
+        return {};
+      },
+    });
+  });
+  return { client: createClient(StateAPI, transport), pushes };
+}
+
+const STATE = JSON.stringify({ version: 4, serial: 3, lineage: "5d6c9b0e", resources: [] });
+
+let backend: StateBackendServer | undefined;
+
+afterEach(async () => {
+  await backend?.close();
+  backend = undefined;
+});
+
+describe("createStateBackendServer", () => {
+  it("serves and stores state with serial, lineage and md5", async () => {
+    const state = createStateServer();
+    backend = createStateBackendServer({ client: state.client, jobId: "job-1" });
+    const address = await backend.listen();
+
+    expect((await fetch(address)).status).toBe(204);
+
+    const pushed = await fetch(address, {
+      method: "POST",
+      body: STATE,
+      headers: { "Content-MD5": createHash("md5").update(STATE).digest("base64") },
+    });
+    expect(pushed.status).toBe(200);
+    expect(state.pushes[0]).toMatchObject({
+      jobId: "job-1",
+      serial: 3n,
+      lineage: "5d6c9b0e",
+      md5: createHash("md5").update(STATE).digest("hex"),
+    });
+
+    const res = await fetch(address);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe(STATE);
+  });
+
+  it("rejects invalid states and maps push conflicts to 409", async () => {
+    const state = createStateServer();
+    backend = createStateBackendServer({ client: state.client, jobId: "job-1" });
+    const address = await backend.listen();
+
+    expect((await fetch(address, { method: "POST", body: "{}" })).status).toBe(400);
+    expect((await fetch(address, { method: "POST", body: STATE, headers: { "Content-MD5": "AAAA" } })).status).toBe(
+      400,
+    );
+    await fetch(address, { method: "POST", body: STATE });
+    expect((await fetch(address, { method: "POST", body: STATE })).status).toBe(409);
+    expect((await fetch(address, { method: "DELETE" })).status).toBe(405);
+  });
+
+  it("locks and unlocks with Terraform lock info", async () => {
+    const state = createStateServer();
+    backend = createStateBackendServer({ client: state.client, jobId: "job-1" });
+    const address = await backend.listen();
+    const lock = (id: string) => JSON.stringify({ ID: id, Operation: "OperationTypeApply", Who: "runner@host" });
+
+    expect((await fetch(address, { method: "LOCK", body: lock("a") })).status).toBe(200);
+
+    const conflict = await fetch(address, { method: "LOCK", body: lock("b") });
+    expect(conflict.status).toBe(423);
+    expect(await conflict.json()).toMatchObject({ Info: "state is locked" });
+
+    expect((await fetch(address, { method: "UNLOCK", body: lock("b") })).status).toBe(409);
+    expect((await fetch(address, { method: "UNLOCK", body: lock("a") })).status).toBe(200);
+  });
+
+  it("requires basic auth when credentials are set", async () => {
+    const state = createStateServer();
+    const credentials = { username: "terraform", password: "s3cret" };
+    backend = createStateBackendServer({ client: state.client, jobId: "job-1", credentials });
+    const address = await backend.listen();
+    const authorization = "Basic " + Buffer.from("terraform:s3cret").toString("base64");
+
+    expect((await fetch(address)).status).toBe(401);
+    expect((await fetch(address, { headers: { authorization } })).status).toBe(204);
+    expect(backend.backendConfig()).toMatchObject({ address, lock_method: "LOCK", username: "terraform" });
+  });
+});
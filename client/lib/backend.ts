@@ -0,0 +1,327 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Client as ConnectClient } from "@connectrpc/connect";
+import { Code, ConnectError } from "@connectrpc/connect";
+import type { StateAPI } from "../../proto/admiral/api/state/v1/state_pb.js";
+import type { Logger } from "./logger.js";
+import { noopLogger } from "./logger.js";
+
+/** The runner-facing state RPCs used by the backend server. */
+export type StateBackendClient = Pick<
+  ConnectClient<typeof StateAPI>,
+  "getState" | "pushState" | "lockState" | "unlockState"
+>;
+
+/**
+ * Options for the Terraform HTTP backend server.
+ */
+export interface StateBackendServerOptions {
+  /** State service client of the runner, e.g. `client.state` */
+  client: StateBackendClient;
+
+  /** The job whose state is served */
+  jobId: string;
+
+  /**
+   * Interface to listen on.
+   * @default "127.0.0.1"
+   */
+  host?: string;
+
+  /**
+   * Port to listen on. A free port is chosen by default.
+   * @default 0
+   */
+  port?: number;
+
+  /**
+   * Basic auth credentials Terraform must send. Requests are not authenticated when omitted.
+   * `backendConfig()` includes them as `username` and `password`.
+   */
+  credentials?: { username: string; password: string };
+
+  /** Logger for backend requests. */
+  logger?: Logger;
+}
+
+/**
+ * A local Terraform HTTP backend.
+ */
+export interface StateBackendServer {
+  /** The underlying node:http server */
+  readonly server: Server;
+
+  /** Starts listening. Resolves with the state address, e.g. "http://127.0.0.1:41234/state". */
+  listen(): Promise<string>;
+
+  /** Stops the server. */
+  close(): Promise<void>;
+
+  /**
+   * Settings for `terraform init -backend-config=key=value`: address,
+   * lock_address, unlock_address, lock_method, unlock_method and credentials.
+   */
+  backendConfig(): Record<string, string>;
+}
+
+/** Lock information sent by Terraform with LOCK and UNLOCK requests. */
+interface TerraformLockInfo {
+  ID?: string;
+  Operation?: string;
+  Info?: string;
+  Who?: string;
+  Version?: string;
+}
+
+/** Largest state accepted by PushState (64 MiB). */
+const MAX_STATE_BYTES = 64 * 1024 * 1024;
+
+const STATE_PATH = "/state";
+
+/** An HTTP error response. */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly body?: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Maps a StateAPI error to the HTTP status Terraform expects.
+ */
+function httpStatus(code: Code): number {
+  switch (code) {
+    case Code.InvalidArgument:
+      return 400;
+    case Code.Unauthenticated:
+      return 401;
+    case Code.PermissionDenied:
+      return 403;
+    case Code.NotFound:
+      return 404;
+    case Code.FailedPrecondition:
+    case Code.AlreadyExists:
+    case Code.Aborted:
+      return 409;
+    case Code.Unavailable:
+    case Code.ResourceExhausted:
+      return 503;
+    default:
+      return 500;
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_STATE_BYTES) {
+        reject(new HttpError(413, `state exceeds ${MAX_STATE_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function parseJSON<T>(body: Buffer, what: string): T {
+  try {
+    return JSON.parse(body.toString("utf8")) as T;
+  } catch {
+    throw new HttpError(400, `invalid ${what} JSON`);
+  }
+}
+
+/**
+ * Reads the serial and lineage from a Terraform state document.
+ */
+function stateMetadata(body: Buffer): { serial: bigint; lineage: string } {
+  const state = parseJSON<{ serial?: unknown; lineage?: unknown }>(body, "state");
+  if (typeof state.serial !== "number" || !Number.isInteger(state.serial) || typeof state.lineage !== "string") {
+    throw new HttpError(400, "state must contain a numeric serial and a lineage");
+  }
+  return { serial: BigInt(state.serial), lineage: state.lineage };
+}
+
+function isAuthorized(req: IncomingMessage, credentials: { username: string; password: string }): boolean {
+  const header = req.headers.authorization ?? "";
+  if (!header.startsWith("Basic ")) {
+    return false;
+  }
+  const given = Buffer.from(header.slice("Basic ".length), "base64");
+  const expected = Buffer.from(`${credentials.username}:${credentials.password}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Creates a Terraform HTTP backend that stores a job's state through StateAPI.
+ *
+ * The server translates the backend protocol into StateAPI calls:
+ *
+ * - `GET` returns the state (204 when there is none yet) via GetState
+ * - `POST` stores a new version via PushState, reading serial and lineage from the state JSON
+ * - `LOCK` and `UNLOCK` map Terraform's lock info onto LockState and UnlockState
+ *
+ * A LOCK on state locked by another operation fails with 423 Locked; other
+ * conflicts, such as a stale serial or a foreign lock id, fail with 409 Conflict.
+ * DELETE is not supported because runners cannot delete state.
+ *
+ * @param options - State client, job id and listen address
+ * @returns The server; call `listen()` before running Terraform
+ *
+ * @example
+ * ```typescript
+ * import { createStateBackendServer } from "@admiral-io/sdk";
+ *
+ * const backend = createStateBackendServer({ client: client.state, jobId: job.id });
+ * await backend.listen();
+ * const args = Object.entries(backend.backendConfig()).map(([k, v]) => `-backend-config=${k}=${v}`);
+ * await execFile("terraform", ["init", ...args]);
+ * // ... plan / apply ...
+ * await backend.close();
+ * ```
+ */
+export function createStateBackendServer(options: StateBackendServerOptions): StateBackendServer {
+  const { client, jobId, credentials } = options;
+  const host = options.host ?? "127.0.0.1";
+  const logger = options.logger ?? noopLogger;
+  let address: string | undefined;
+
+  async function getState(res: ServerResponse): Promise<void> {
+    const { data } = await client.getState({ jobId });
+    if (data.length === 0) {
+      res.writeHead(204).end();
+      return;
+    }
+    res
+      .writeHead(200, {
+        "Content-Type": "application/json",
+        "Content-MD5": createHash("md5").update(data).digest("base64"),
+      })
+      .end(data);
+  }
+
+  async function pushState(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const data = await readBody(req);
+    const digest = createHash("md5").update(data);
+    const md5 = digest.copy().digest("hex");
+    const contentMD5 = req.headers["content-md5"];
+    if (contentMD5 && contentMD5 !== digest.digest("base64")) {
+      throw new HttpError(400, "Content-MD5 does not match the state");
+    }
+    const { serial, lineage } = stateMetadata(data);
+    await client.pushState({ jobId, data, md5, serial, lineage });
+    res.writeHead(200).end();
+  }
+
+  async function lockState(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const info = parseJSON<TerraformLockInfo>(await readBody(req), "lock info");
+    if (!info.ID) {
+      throw new HttpError(400, "lock info must contain an ID");
+    }
+    try {
+      await client.lockState({
+        jobId,
+        lockId: info.ID,
+        operation: info.Operation ?? "",
+        who: info.Who ?? "",
+        version: info.Version ?? "",
+      });
+    } catch (err) {
+      const connectErr = ConnectError.from(err);
+      if (httpStatus(connectErr.code) === 409) {
+        // Terraform reads the lock info of the holder from the body; the API only reports a message
+        throw new HttpError(423, connectErr.rawMessage, JSON.stringify({ ID: "", Info: connectErr.rawMessage }));
+      }
+      throw err;
+    }
+    res.writeHead(200).end();
+  }
+
+  async function unlockState(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const info = parseJSON<TerraformLockInfo>(await readBody(req), "lock info");
+    if (!info.ID) {
+      throw new HttpError(400, "lock info must contain an ID");
+    }
+    await client.unlockState({ jobId, lockId: info.ID });
+    res.writeHead(200).end();
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (credentials && !isAuthorized(req, credentials)) {
+      throw new HttpError(401, "unauthorized");
+    }
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== STATE_PATH) {
+      throw new HttpError(404, "not found");
+    }
+    switch (req.method) {
+      case "GET":
+        return getState(res);
+      case "POST":
+        return pushState(req, res);
+      case "LOCK":
+        return lockState(req, res);
+      case "UNLOCK":
+        return unlockState(req, res);
+      default:
+        throw new HttpError(405, `${req.method} is not supported`);
+    }
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((err: unknown) => {
+      const httpErr =
+        err instanceof HttpError
+          ? err
+          : new HttpError(httpStatus(ConnectError.from(err).code), ConnectError.from(err).rawMessage);
+      logger.warn(`state backend ${req.method} failed: ${httpErr.message}`, { status: httpErr.status });
+      if (!res.headersSent) {
+        res.writeHead(httpErr.status, { "Content-Type": httpErr.body ? "application/json" : "text/plain" });
+      }
+      res.end(httpErr.body ?? httpErr.message);
+    });
+  });
+
+  return {
+    server,
+    listen() {
+      return new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(options.port ?? 0, host, () => {
+          server.off("error", reject);
+          const { port } = server.address() as AddressInfo;
+          address = `http://${host.includes(":") ? `[${host}]` : host}:${port}${STATE_PATH}`;
+          resolve(address);
+        });
+      });
+    },
+    close() {
+      return new Promise((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+        server.closeAllConnections();
+      });
+    },
+    backendConfig() {
+      if (!address) {
+        throw new Error("state backend server is not listening");
+      }
+      return {
+        address,
+        lock_address: address,
+        unlock_address: address,
+        lock_method: "LOCK",
+        unlock_method: "UNLOCK",
+        ...(credentials && { username: credentials.username, password: credentials.password }),
+      };
+    },
+  };
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Code, ConnectError, createClient as createConnectClient, createRouterTransport } from "@connectrpc/connect";
+import { createRecorder, createReplayer, loadCassette, type Cassette } from "./cassette.js";
+import { createClient } from "../client.js";
+import { NotFoundError } from "./errors.js";
+import { REDACTED } from "./redact.js";
+import { ApplicationAPI } from "../../proto/admiral/api/application/v1/application_pb.js";
+import { RunnerAPI } from "../../proto/admiral/api/runner/v1/runner_pb.js";
+
+const APP_ID = "0d9b6a3e-4f1c-4b8a-9d2e-5c7f1a2b3c4d";
+
+// Helper to record calls against an in-memory server
+function createRecordedServer() {
+  const recorder = createRecorder();
+  const transport = createRouterTransport(
+    (router) => {
+      router.service(ApplicationAPI, {
+        getApplication(req) {
+          if (req.applicationId !== APP_ID) {
+            throw new ConnectError(`application ${req.applicationId} not found`, Code.NotFound, {
+              "x-request-id": "req-1",
+            });
+          }
+          return { application: { id: APP_ID, name: "payments" } };
+        },
+        listApplications(req) {
+          return { applications: [{ id: APP_ID, name: "payments" }], nextPageToken: req.pageToken ? "" : "next" };
+        },
+      });
+      router.service(RunnerAPI, {
+        createRunner(req) {
+          return { runner: { name: req.name }, plainTextToken: "adm_agt_secret" };
+        },
+      });
+    },
+    { transport: { interceptors: [recorder.interceptor] } },
+  );
+  return { recorder, transport };
+}
+
+async function recordSession(): Promise<Cassette> {
+  const { recorder, transport } = createRecordedServer();
+  const apps = createConnectClient(ApplicationAPI, transport);
+  await apps.listApplications({ pageSize: 10 });
+  await apps.listApplications({ pageSize: 10, pageToken: "next" });
+  await apps.getApplication({ applicationId: APP_ID });
+  await apps.getApplication({ applicationId: "1e9b6a3e-4f1c-4b8a-9d2e-5c7f1a2b3c4d" }).catch(() => undefined);
+  await createConnectClient(RunnerAPI, transport).createRunner({ name: "tf" });
+  return recorder.cassette;
+}
+
+describe("createRecorder", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "admiral-cassette-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records requests and responses as proto JSON", async () => {
+    const cassette = await recordSession();
+
+    expect(cassette.interactions).toHaveLength(5);
+    expect(cassette.interactions[0]).toEqual({
+      service: "admiral.api.application.v1.ApplicationAPI",
+      method: "ListApplications",
+      request: { pageSize: 10 },
+      response: { applications: [{ id: APP_ID, name: "payments" }], nextPageToken: "next" },
+    });
+  });
+
+  it("records errors with their code and request id", async () => {
+    const cassette = await recordSession();
+
+    expect(cassette.interactions[3]?.error).toEqual({
+      code: "NotFound",
+      message: "application 1e9b6a3e-4f1c-4b8a-9d2e-5c7f1a2b3c4d not found",
+      requestId: "req-1",
+    });
+  });
+
+  it("redacts secrets", async () => {
+    const cassette = await recordSession();
+
+    expect(cassette.interactions[4]?.response).toEqual({ runner: { name: "tf" }, plainTextToken: REDACTED });
+  });
+
+  it("saves cassettes that load back", async () => {
+    const { recorder, transport } = createRecordedServer();
+    await createConnectClient(ApplicationAPI, transport).getApplication({ applicationId: APP_ID });
+    const path = join(dir, "cassette.json");
+
+    await recorder.save(path);
+
+    expect(JSON.parse(readFileSync(path, "utf-8"))).toEqual(recorder.cassette);
+    expect(await loadCassette(path)).toEqual(recorder.cassette);
+  });
+
+  it("rejects files that are not cassettes", async () => {
+    const { recorder } = createRecordedServer();
+    const path = join(dir, "other.json");
+    recorder.cassette.version = 99;
+    await recorder.save(path);
+
+    await expect(loadCassette(path)).rejects.toThrow("is not a version 1 cassette");
+  });
+});
+
+describe("createReplayer", () => {
+  it("replays responses through the SDK client without a network", async () => {
+    const replayer = createReplayer(await recordSession());
+    const client = createClient({ baseUrl: "http://127.0.0.1:9", interceptors: [replayer.interceptor] });
+
+    const pages = await client.application.listAll({ pageSize: 10 }).collect();
+    const { application } = await client.application.getApplication({ applicationId: APP_ID });
+
+    expect(pages.map((a) => a.name)).toEqual(["payments", "payments"]);
+    expect(application?.name).toBe("payments");
+  });
+
+  it("replays recorded errors", async () => {
+    const replayer = createReplayer(await recordSession());
+    const client = createClient({ baseUrl: "http://127.0.0.1:9", interceptors: [replayer.interceptor] });
+
+    const err = await client.application
+      .getApplication({ applicationId: "1e9b6a3e-4f1c-4b8a-9d2e-5c7f1a2b3c4d" })
+      .catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(NotFoundError);
+    expect((err as NotFoundError).requestId).toBe("req-1");
+  });
+
+  it("matches requests regardless of secrets and key order", async () => {
+    const replayer = createReplayer(await recordSession());
+    const runners = createConnectClient(RunnerAPI, replayer.transport);
+
+    const res = await runners.createRunner({ name: "tf" });
+
+    expect(res.plainTextToken).toBe(REDACTED);
+    expect(replayer.remaining()).toHaveLength(4);
+  });
+
+  it("fails loudly on unmatched calls", async () => {
+    const replayer = createReplayer(await recordSession());
+    const apps = createConnectClient(ApplicationAPI, replayer.transport);
+
+    await expect(apps.listApplications({ pageSize: 20 })).rejects.toMatchObject({
+      code: Code.Unimplemented,
+      rawMessage: expect.stringContaining(
+        'ListApplications with request {"pageSize":20} (2 unplayed for this method; next recorded request: {"pageSize":10})',
+      ),
+    });
+  });
+
+  it("replays each recording once", async () => {
+    const replayer = createReplayer(await recordSession());
+    const apps = createConnectClient(ApplicationAPI, replayer.transport);
+
+    await apps.getApplication({ applicationId: APP_ID });
+
+    await expect(apps.getApplication({ applicationId: APP_ID })).rejects.toMatchObject({
+      code: Code.Unimplemented,
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { Code, ConnectError } from "@connectrpc/connect";
+import type { Interceptor, Transport, UnaryResponse } from "@connectrpc/connect";
+import { create, fromJson, toBinary, toJson } from "@bufbuild/protobuf";
+import type { DescMessage, DescMethodUnary, JsonValue, MessageShape } from "@bufbuild/protobuf";
+import { base64Decode, base64Encode } from "@bufbuild/protobuf/wire";
+import { REQUEST_ID_HEADER } from "./errors.js";
+import { SECRET_FIELDS, redactMessage } from "./redact.js";
+
+/** Version of the cassette format. */
+export const CASSETTE_VERSION = 1;
+
+/**
+ * An error returned by a recorded call.
+ */
+export interface RecordedError {
+  /** Code name, e.g. "NotFound" */
+  code: string;
+  message: string;
+  /** Error details as type URL and base64 binary */
+  details?: { type: string; value: string }[];
+  requestId?: string;
+}
+
+/**
+ * A recorded call: the request and its response or error, in proto JSON.
+ */
+export interface CassetteInteraction {
+  /** Fully-qualified service name, e.g. "admiral.api.deployment.v1.DeploymentAPI" */
+  service: string;
+  /** Method name, e.g. "GetDeployment" */
+  method: string;
+  request: JsonValue;
+  response?: JsonValue;
+  error?: RecordedError;
+}
+
+/**
+ * Recorded API traffic, replayed in order of recording.
+ */
+export interface Cassette {
+  version: number;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Options for recording and replaying.
+ */
+export interface CassetteOptions {
+  /**
+   * Proto names of string fields to redact, in addition to connection
+   * credentials and sensitive variable values.
+   * @default SECRET_FIELDS
+   */
+  secretFields?: readonly string[];
+}
+
+/**
+ * Records the calls of a client.
+ */
+export interface Recorder {
+  /** Interceptor to pass in `ClientConfig.interceptors` */
+  readonly interceptor: Interceptor;
+
+  /** Everything recorded so far */
+  readonly cassette: Cassette;
+
+  /** Writes the cassette to a JSON file. */
+  save(path: string): Promise<void>;
+}
+
+/**
+ * Replays a cassette instead of calling the API.
+ */
+export interface Replayer {
+  /** Interceptor to pass in `ClientConfig.interceptors`; no call reaches the network */
+  readonly interceptor: Interceptor;
+
+  /** Transport serving the cassette, for Connect's `createClient` */
+  readonly transport: Transport;
+
+  /** Interactions that have not been replayed yet */
+  remaining(): CassetteInteraction[];
+}
+
+/**
+ * Serializes a message for the cassette: proto JSON with secrets redacted.
+ */
+function encode<Desc extends DescMessage>(schema: Desc, message: MessageShape<Desc>, secretFields: readonly string[]) {
+  return toJson(schema, redactMessage(schema, message, secretFields));
+}
+
+/**
+ * Normalizes a JSON request so equal requests compare equal regardless of key order.
+ */
+function normalize(value: JsonValue): string {
+  return JSON.stringify(value, (_key, item: JsonValue) =>
+    item !== null && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : item,
+  );
+}
+
+function recordError(reason: unknown): RecordedError {
+  const err = ConnectError.from(reason);
+  const recorded: RecordedError = { code: Code[err.code], message: err.rawMessage };
+  const details = err.details.map((detail) =>
+    "desc" in detail
+      ? { type: detail.desc.typeName, value: base64Encode(toBinary(detail.desc, create(detail.desc, detail.value))) }
+      : { type: detail.type, value: base64Encode(detail.value) },
+  );
+  if (details.length > 0) {
+    recorded.details = details;
+  }
+  const requestId = err.metadata.get(REQUEST_ID_HEADER);
+  if (requestId) {
+    recorded.requestId = requestId;
+  }
+  return recorded;
+}
+
+function replayError(recorded: RecordedError): ConnectError {
+  const code = Code[recorded.code as keyof typeof Code] ?? Code.Unknown;
+  const metadata = recorded.requestId ? { [REQUEST_ID_HEADER]: recorded.requestId } : undefined;
+  const err = new ConnectError(recorded.message, code, metadata);
+  err.details = (recorded.details ?? []).map((detail) => ({ type: detail.type, value: base64Decode(detail.value) }));
+  return err;
+}
+
+/**
+ * Creates a recorder that captures every call of a client as a
+ * request/response pair. Messages are stored in proto JSON with tokens,
+ * connection credentials and sensitive values redacted, so cassettes can be
+ * committed. The interceptor runs closest to the network, so each retry
+ * attempt is recorded on its own; headers are not recorded.
+ *
+ * @param options - Extra fields to redact
+ * @returns The recorder with its interceptor and cassette
+ *
+ * @example
+ * ```typescript
+ * import { createClient, createRecorder } from "@admiral-io/sdk";
+ *
+ * const recorder = createRecorder();
+ * const client = createClient({ authToken: process.env.ADMIRAL_TOKEN, interceptors: [recorder.interceptor] });
+ *
+ * await client.application.listApplications({});
+ * await recorder.save("test/fixtures/list-applications.json");
+ * ```
+ */
+export function createRecorder(options: CassetteOptions = {}): Recorder {
+  const secretFields = options.secretFields ?? SECRET_FIELDS;
+  const cassette: Cassette = { version: CASSETTE_VERSION, interactions: [] };
+
+  const interceptor: Interceptor = (next) => async (req) => {
+    if (req.stream) {
+      return next(req);
+    }
+    const interaction: CassetteInteraction = {
+      service: req.service.typeName,
+      method: req.method.name,
+      request: encode(req.method.input, req.message, secretFields),
+    };
+    try {
+      const res = await next(req);
+      if (!res.stream) {
+        interaction.response = encode(req.method.output, res.message, secretFields);
+      }
+      return res;
+    } catch (err) {
+      interaction.error = recordError(err);
+      throw err;
+    } finally {
+      cassette.interactions.push(interaction);
+    }
+  };
+
+  return {
+    interceptor,
+    cassette,
+    async save(path) {
+      await writeFile(path, JSON.stringify(cassette, null, 2) + "\n", "utf-8");
+    },
+  };
+}
+
+/**
+ * Creates a replayer answering calls from a cassette.
+ *
+ * A call is answered by the first interaction not replayed yet with the same
+ * service, method and request. Requests are compared in proto JSON after
+ * redaction, so default values, key order and secrets do not matter. Repeated
+ * identical calls, such as polls, replay their recordings in order. A call
+ * without a matching interaction fails with an `Unimplemented` error naming
+ * the call; it never reaches the network.
+ *
+ * @param cassette - Recorded traffic, e.g. from `loadCassette()`
+ * @param options - Fields redacted when the cassette was recorded
+ * @returns The replayer with its interceptor and transport
+ *
+ * @example
+ * ```typescript
+ * import { createClient, createReplayer, loadCassette } from "@admiral-io/sdk";
+ *
+ * const replayer = createReplayer(await loadCassette("test/fixtures/list-applications.json"));
+ * const client = createClient({ interceptors: [replayer.interceptor] });
+ *
+ * const { applications } = await client.application.listApplications({});
+ * expect(replayer.remaining()).toEqual([]);
+ * ```
+ */
+export function createReplayer(cassette: Cassette, options: CassetteOptions = {}): Replayer {
+  const secretFields = options.secretFields ?? SECRET_FIELDS;
+  const pending = cassette.interactions.map((interaction) => ({ interaction, key: normalize(interaction.request) }));
+
+  async function play<I extends DescMessage, O extends DescMessage>(
+    method: DescMethodUnary<I, O>,
+    message: MessageShape<I>,
+  ): Promise<UnaryResponse<I, O>> {
+    const service = method.parent.typeName;
+    const request = encode(method.input, message, secretFields);
+    const key = normalize(request);
+    const index = pending.findIndex(
+      ({ interaction, key: recorded }) =>
+        interaction.service === service && interaction.method === method.name && recorded === key,
+    );
+    if (index < 0) {
+      const candidates = pending.filter(
+        ({ interaction }) => interaction.service === service && interaction.method === method.name,
+      );
+      const hint = candidates.length > 0 ? `; next recorded request: ${candidates[0]!.key}` : "";
+      throw new ConnectError(
+        `no recorded interaction for ${service}/${method.name} with request ${key} (${candidates.length} unplayed for this method${hint})`,
+        Code.Unimplemented,
+      );
+    }
+    const { interaction } = pending.splice(index, 1)[0]!;
+    if (interaction.error) {
+      throw replayError(interaction.error);
+    }
+    return {
+      stream: false,
+      service: method.parent,
+      method,
+      header: new Headers(),
+      message: fromJson(method.output, interaction.response ?? {}),
+      trailer: new Headers(),
+    };
+  }
+
+  const unsupported = (method: { parent: { typeName: string }; name: string }) =>
+    new ConnectError(`streaming call ${method.parent.typeName}/${method.name} cannot be replayed`, Code.Unimplemented);
+
+  return {
+    interceptor: () => async (req) => {
+      if (req.stream) {
+        throw unsupported(req.method);
+      }
+      return play(req.method, req.message);
+    },
+    transport: {
+      unary: (method, _signal, _timeoutMs, _header, input) => play(method, create(method.input, input)),
+      stream: async (method) => {
+        throw unsupported(method);
+      },
+    },
+    remaining: () => pending.map(({ interaction }) => interaction),
+  };
+}
+
+/**
+ * Reads a cassette written by `Recorder.save()`.
+ *
+ * @throws Error if the file is not a cassette of a supported version
+ */
+export async function loadCassette(path: string): Promise<Cassette> {
+  const cassette = JSON.parse(await readFile(path, "utf-8")) as Partial<Cassette>;
+  if (cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.interactions)) {
+    throw new Error(`${path} is not a version ${CASSETTE_VERSION} cassette`);
+  }
+  return cassette as Cassette;
+}
@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError, createClient, createRouterTransport } from "@connectrpc/connect";
+import { CircuitOpenError, createCircuitBreaker, type CircuitBreakerConfig } from "./circuit.js";
+import { createInterceptors } from "./transport.js";
+import { createClientWithTransport } from "../client.js";
+import type { Logger } from "./logger.js";
+import { ApplicationAPI } from "../../proto/admiral/api/application/v1/application_pb.js";
+
+const SERVICE = "admiral.api.application.v1.ApplicationAPI";
+
+// Helper to create a client whose getApplication calls fail or stall on demand
+function createTestClient(config: CircuitBreakerConfig, logger?: Logger) {
+  let calls = 0;
+  let code: Code | undefined;
+  let delay = 0;
+
+  const breaker = createCircuitBreaker(config, logger);
+  const transport = createRouterTransport(
+    (router) => {
+      router.service(ApplicationAPI, {
+        async getApplication() {
+          calls++;
+          if (delay > 0) {
+            await new Promise((resolve) => setTimeout(resolve, delay));
+          }
+          if (code !== undefined) {
+            throw new ConnectError("backend down", code);
+          }
+          return {};
+        },
+      });
+    },
+    { transport: { interceptors: [breaker.interceptor] } },
+  );
+  return {
+    client: createClient(ApplicationAPI, transport),
+    breaker,
+    calls: () => calls,
+    fail: (next?: Code) => (code = next),
+    stall: (ms: number) => (delay = ms),
+  };
+}
+
+// Helper to create a logger that records messages by level
+function createTestLogger() {
+  const messages: string[] = [];
+  const record =
+    (level: string) =>
+    (msg: string): void => {
+      messages.push(`${level}: ${msg}`);
+    };
+  const logger: Logger = { debug: record("debug"), info: record("info"), warn: record("warn"), error: record("error") };
+  return { logger, messages };
+}
+
+const settle = <T>(promise: Promise<T>) => promise.catch((err: unknown) => err);
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("createCircuitBreaker", () => {
+  it("opens once the failure rate reaches the threshold", async () => {
+    const t = createTestClient({ minimumCalls: 4, failureRateThreshold: 0.5 });
+
+    await t.client.getApplication({});
+    await t.client.getApplication({});
+    t.fail(Code.Unavailable);
+    await settle(t.client.getApplication({}));
+    expect(t.breaker.snapshot()[SERVICE]?.state).toBe("closed");
+
+    await settle(t.client.getApplication({}));
+    expect(t.breaker.snapshot()[SERVICE]).toMatchObject({ state: "open", calls: 4, failureRate: 0.5 });
+  });
+
+  it("fails fast with CircuitOpenError while open", async () => {
+    const t = createTestClient({ minimumCalls: 2, openDuration: 60000 });
+    t.fail(Code.Unavailable);
+    await settle(t.client.getApplication({}));
+    await settle(t.client.getApplication({}));
+
+    const err = await settle(t.client.getApplication({}));
+
+    expect(err).toBeInstanceOf(CircuitOpenError);
+    expect((err as CircuitOpenError).code).toBe(Code.Unavailable);
+    expect((err as CircuitOpenError).retryAt).toEqual(t.breaker.snapshot()[SERVICE]?.retryAt);
+    expect(t.calls()).toBe(2);
+  });
+
+  it("keeps the defaults of options set to undefined", async () => {
+    const t = createTestClient({ minimumCalls: 2, failureRateThreshold: undefined, openDuration: undefined });
+    t.fail(Code.Unavailable);
+    await settle(t.client.getApplication({}));
+    await settle(t.client.getApplication({}));
+
+    const snapshot = t.breaker.snapshot()[SERVICE]!;
+    expect(snapshot.state).toBe("open");
+    expect(snapshot.retryAt!.getTime() - snapshot.openedAt!.getTime()).toBe(30_000);
+  });
+
+  it("does not count errors outside failureCodes", async () => {
+    const t = createTestClient({ minimumCalls: 2 });
+    t.fail(Code.NotFound);
+
+    await settle(t.client.getApplication({}));
+    await settle(t.client.getApplication({}));
+    await settle(t.client.getApplication({}));
+
+    expect(t.breaker.snapshot()[SERVICE]).toMatchObject({ state: "closed", failureRate: 0 });
+    expect(t.calls()).toBe(3);
+  });
+
+  it("closes after the trial calls succeed", async () => {
+    const t = createTestClient({ minimumCalls: 2, openDuration: 20, halfOpenCalls: 2 });
+    t.fail(Code.Unavailable);
+    await settle(t.client.getApplication({}));
+    await settle(t.client.getApplication({}));
+    await sleep(30);
+    t.fail(undefined);
+
+    await t.client.getApplication({});
+    expect(t.breaker.snapshot()[SERVICE]?.state).toBe("half-open");
+    await t.client.getApplication({});
+
+    expect(t.breaker.snapshot()[SERVICE]).toEqual({ state: "closed", calls: 0, failureRate: 0, slowCallRate: 0 });
+  });
+
+  it("limits half-open trial calls and reopens when one fails", async () => {
+    const t = createTestClient({ minimumCalls: 2, openDuration: 20, halfOpenCalls: 1 });
+    t.fail(Code.Unavailable);
+    await settle(t.client.getApplication({}));
+    await settle(t.client.getApplication({}));
+    await sleep(30);
+    t.stall(10);
+
+    const [trial, rejected] = await Promise.all([
+      settle(t.client.getApplication({})),
+      settle(t.client.getApplication({})),
+    ]);
+
+    expect(trial).not.toBeInstanceOf(CircuitOpenError);
+    expect(rejected).toBeInstanceOf(CircuitOpenError);
+    expect((rejected as CircuitOpenError).message).toContain("half-open and its trial calls are in flight");
+    expect((rejected as CircuitOpenError).retryAt.getTime()).toBeGreaterThan(Date.now() - 1000);
+    expect(t.breaker.snapshot()[SERVICE]?.state).toBe("open");
+    expect(t.calls()).toBe(3);
+  });
+
+  it("opens when too many calls are slow", async () => {
+    const t = createTestClient({ minimumCalls: 2, slowCallThreshold: 5, slowCallRateThreshold: 1 });
+    t.stall(10);
+
+    await t.client.getApplication({});
+    await t.client.getApplication({});
+
+    expect(t.breaker.snapshot()[SERVICE]).toMatchObject({ state: "open", failureRate: 0, slowCallRate: 1 });
+  });
+
+  it("logs state changes", async () => {
+    const { logger, messages } = createTestLogger();
+    const t = createTestClient({ minimumCalls: 2, openDuration: 20, halfOpenCalls: 1 }, logger);
+    t.fail(Code.Unavailable);
+    await settle(t.client.getApplication({}));
+    await settle(t.client.getApplication({}));
+    await sleep(30);
+    t.fail(undefined);
+    await t.client.getApplication({});
+
+    expect(messages).toEqual([
+      `warn: circuit for ${SERVICE} open: 100% of the last 2 calls failed`,
+      `info: circuit for ${SERVICE} is half-open: letting trial calls through`,
+      `info: circuit for ${SERVICE} closed: 1 trial calls succeeded`,
+    ]);
+  });
+
+  it("is reported by client.health()", async () => {
+    const config = { baseUrl: "http://admiral.test", circuitBreaker: { minimumCalls: 1 } };
+    const client = createClientWithTransport(config, (tokens, breaker) =>
+      createRouterTransport(
+        (router) => {
+          router.service(ApplicationAPI, {
+            getApplication() {
+              throw new ConnectError("backend down", Code.Unavailable);
+            },
+          });
+        },
+        { transport: { interceptors: createInterceptors(config, tokens, breaker) } },
+      ),
+    );
+    expect(client.health()).toEqual({});
+
+    await settle(client.application.getApplication({ applicationId: "0d9b6a3e-4f1c-4b8a-9d2e-5c7f1a2b3c4d" }));
+
+    expect(client.health()[SERVICE]).toMatchObject({ state: "open", calls: 1, failureRate: 1 });
+  });
+});
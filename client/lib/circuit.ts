@@ -0,0 +1,304 @@
+import { Code, ConnectError } from "@connectrpc/connect";
+import type { Interceptor } from "@connectrpc/connect";
+import { AdmiralError } from "./errors.js";
+import type { Logger } from "./logger.js";
+import { noopLogger } from "./logger.js";
+
+/** State of a circuit. */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Circuit breaker options. Each service has its own circuit.
+ */
+export interface CircuitBreakerConfig {
+  /**
+   * Fraction of failed calls in the window that opens the circuit.
+   * @default 0.5
+   */
+  failureRateThreshold?: number;
+
+  /**
+   * Calls slower than this many milliseconds count as slow.
+   * @default 10000
+   */
+  slowCallThreshold?: number;
+
+  /**
+   * Fraction of slow calls in the window that opens the circuit.
+   * @default 0.5
+   */
+  slowCallRateThreshold?: number;
+
+  /**
+   * Number of recent calls the rates are computed over.
+   * @default 20
+   */
+  windowSize?: number;
+
+  /**
+   * Calls needed in the window before the circuit may open.
+   * @default 10
+   */
+  minimumCalls?: number;
+
+  /**
+   * Milliseconds the circuit stays open before letting trial calls through.
+   * @default 30000
+   */
+  openDuration?: number;
+
+  /**
+   * Trial calls that must succeed in half-open state to close the circuit.
+   * @default 3
+   */
+  halfOpenCalls?: number;
+
+  /**
+   * Connect codes that count as failures. Other errors, such as NotFound,
+   * mean the service is answering.
+   * @default [Code.Unavailable, Code.DeadlineExceeded, Code.Internal, Code.Unknown]
+   */
+  failureCodes?: Code[];
+}
+
+/** Default circuit breaker values. */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG = {
+  failureRateThreshold: 0.5,
+  slowCallThreshold: 10000,
+  slowCallRateThreshold: 0.5,
+  windowSize: 20,
+  minimumCalls: 10,
+  openDuration: 30000,
+  halfOpenCalls: 3,
+  failureCodes: [Code.Unavailable, Code.DeadlineExceeded, Code.Internal, Code.Unknown],
+} as const;
+
+/**
+ * Health of one service as seen by its circuit.
+ */
+export interface CircuitSnapshot {
+  state: CircuitState;
+  /** Calls in the window */
+  calls: number;
+  /** Fraction of failed calls in the window */
+  failureRate: number;
+  /** Fraction of slow calls in the window */
+  slowCallRate: number;
+  /** When the circuit last opened, while it is open or half-open */
+  openedAt?: Date;
+  /** When an open circuit lets trial calls through */
+  retryAt?: Date;
+}
+
+/**
+ * A set of circuits keyed by fully-qualified service name.
+ */
+export interface CircuitBreaker {
+  /** Interceptor guarding calls */
+  readonly interceptor: Interceptor;
+
+  /** Returns the health of every service called so far. */
+  snapshot(): Record<string, CircuitSnapshot>;
+}
+
+/**
+ * Thrown without calling the API while a service's circuit is open, or
+ * half-open with all its trial calls in flight. Its code is Unavailable.
+ */
+export class CircuitOpenError extends AdmiralError {
+  /** When the circuit lets trial calls through; now while half-open */
+  readonly retryAt: Date;
+
+  constructor(service: string, method: string, retryAt: Date, state: CircuitState = "open") {
+    const message =
+      state === "half-open"
+        ? `circuit for ${service} is half-open and its trial calls are in flight`
+        : `circuit for ${service} is open until ${retryAt.toISOString()}`;
+    super(new ConnectError(message, Code.Unavailable), { service, method });
+    this.retryAt = retryAt;
+  }
+}
+
+interface Outcome {
+  failed: boolean;
+  slow: boolean;
+}
+
+/**
+ * The circuit of one service.
+ */
+class Circuit {
+  state: CircuitState = "closed";
+  openedAt?: number;
+  private window: Outcome[] = [];
+  private trials = 0;
+  private trialSuccesses = 0;
+
+  constructor(
+    private readonly service: string,
+    private readonly config: Required<CircuitBreakerConfig>,
+    private readonly logger: Logger,
+  ) {}
+
+  /** Decides whether a call may proceed, moving an expired open circuit to half-open. */
+  admit(): boolean {
+    if (this.state === "open" && Date.now() >= this.openedAt! + this.config.openDuration) {
+      this.transition("half-open", "letting trial calls through");
+      this.trials = 0;
+      this.trialSuccesses = 0;
+    }
+    if (this.state === "open") {
+      return false;
+    }
+    if (this.state === "half-open") {
+      if (this.trials >= this.config.halfOpenCalls) {
+        return false;
+      }
+      this.trials++;
+    }
+    return true;
+  }
+
+  record(outcome: Outcome): void {
+    if (this.state === "half-open") {
+      if (outcome.failed || outcome.slow) {
+        this.open(`trial call ${outcome.failed ? "failed" : "was slow"}`);
+      } else if (++this.trialSuccesses >= this.config.halfOpenCalls) {
+        this.window = [];
+        this.transition("closed", `${this.trialSuccesses} trial calls succeeded`);
+      }
+      return;
+    }
+    if (this.state === "open") {
+      return;
+    }
+
+    this.window.push(outcome);
+    if (this.window.length > this.config.windowSize) {
+      this.window.shift();
+    }
+    if (this.window.length < this.config.minimumCalls) {
+      return;
+    }
+    const { failureRate, slowCallRate } = this.rates();
+    if (failureRate >= this.config.failureRateThreshold) {
+      this.open(`${Math.round(failureRate * 100)}% of the last ${this.window.length} calls failed`);
+    } else if (slowCallRate >= this.config.slowCallRateThreshold) {
+      this.open(`${Math.round(slowCallRate * 100)}% of the last ${this.window.length} calls were slow`);
+    }
+  }
+
+  /** Releases a trial slot taken by a call that ended without an outcome. */
+  abandon(): void {
+    if (this.state === "half-open") {
+      this.trials--;
+    }
+  }
+
+  /** When a rejected call may be retried: once open, or now while the trial calls run. */
+  retryAt(): Date {
+    if (this.state === "half-open") {
+      return new Date();
+    }
+    return new Date(this.openedAt! + this.config.openDuration);
+  }
+
+  snapshot(): CircuitSnapshot {
+    const snapshot: CircuitSnapshot = { state: this.state, calls: this.window.length, ...this.rates() };
+    if (this.state !== "closed") {
+      snapshot.openedAt = new Date(this.openedAt!);
+    }
+    if (this.state === "open") {
+      snapshot.retryAt = this.retryAt();
+    }
+    return snapshot;
+  }
+
+  private rates(): { failureRate: number; slowCallRate: number } {
+    const calls = this.window.length;
+    if (calls === 0) {
+      return { failureRate: 0, slowCallRate: 0 };
+    }
+    return {
+      failureRate: this.window.filter((o) => o.failed).length / calls,
+      slowCallRate: this.window.filter((o) => o.slow).length / calls,
+    };
+  }
+
+  private open(reason: string): void {
+    this.openedAt = Date.now();
+    this.transition("open", reason);
+  }
+
+  private transition(state: CircuitState, reason: string): void {
+    this.state = state;
+    const message = `circuit for ${this.service} ${state === "half-open" ? "is half-open" : state}: ${reason}`;
+    if (state === "open") {
+      this.logger.warn(message);
+    } else {
+      this.logger.info(message);
+    }
+  }
+}
+
+/**
+ * Creates a circuit breaker with one circuit per service.
+ *
+ * A closed circuit passes calls and tracks the last `windowSize` outcomes.
+ * Once `minimumCalls` are recorded and the failure rate or slow-call rate
+ * reaches its threshold, the circuit opens: calls fail immediately with a
+ * `CircuitOpenError` for `openDuration`. Then it turns half-open and lets
+ * `halfOpenCalls` trial calls through; if all succeed it closes, otherwise
+ * it opens again. State changes are logged, openings at warn level.
+ *
+ * Clients create a breaker when `ClientConfig.circuitBreaker` is set and
+ * report its state through `client.health()`.
+ *
+ * @param config - Thresholds and durations
+ * @param logger - Receives state changes
+ */
+export function createCircuitBreaker(config: CircuitBreakerConfig = {}, logger: Logger = noopLogger): CircuitBreaker {
+  // Keys set to undefined fall back to their defaults
+  const resolved: Required<CircuitBreakerConfig> = {
+    ...DEFAULT_CIRCUIT_BREAKER_CONFIG,
+    ...(Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined)) as CircuitBreakerConfig),
+  } as Required<CircuitBreakerConfig>;
+  const failureCodes = new Set<Code>(resolved.failureCodes);
+  const circuits = new Map<string, Circuit>();
+
+  const circuitFor = (service: string) => {
+    let circuit = circuits.get(service);
+    if (!circuit) {
+      circuit = new Circuit(service, resolved, logger);
+      circuits.set(service, circuit);
+    }
+    return circuit;
+  };
+
+  const interceptor: Interceptor = (next) => async (req) => {
+    const circuit = circuitFor(req.service.typeName);
+    if (!circuit.admit()) {
+      throw new CircuitOpenError(req.service.typeName, req.method.name, circuit.retryAt(), circuit.state);
+    }
+    const started = performance.now();
+    const slow = () => performance.now() - started > resolved.slowCallThreshold;
+    try {
+      const res = await next(req);
+      circuit.record({ failed: false, slow: slow() });
+      return res;
+    } catch (err) {
+      const code = ConnectError.from(err).code;
+      if (code === Code.Canceled) {
+        circuit.abandon();
+      } else {
+        circuit.record({ failed: failureCodes.has(code), slow: slow() });
+      }
+      throw err;
+    }
+  };
+
+  return {
+    interceptor,
+    snapshot: () => Object.fromEntries([...circuits].map(([service, circuit]) => [service, circuit.snapshot()])),
+  };
+}
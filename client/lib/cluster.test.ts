@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "node:crypto";
+import { Code, ConnectError, createClient, createRouterTransport } from "@connectrpc/connect";
+import { createClusterAgent, type ClusterAgentOptions } from "./cluster.js";
+import {
+  ClusterAPI,
+  type ReportClusterStatusRequest,
+  type RevisionResult,
+} from "../../proto/admiral/api/cluster/v1/cluster_pb.js";
+
+const MANIFESTS = new TextEncoder().encode("apiVersion: apps/v1");
+const CHECKSUM = createHash("sha256").update(MANIFESTS).digest("hex");
+
+// Helper to create a cluster client that records reports; `failPushes` pushes are rejected first
+function createClusterServer(options: { nextPushSeconds?: number; failPushes?: number } = {}) {
+  let failures = options.failPushes ?? 0;
+  const pushes: ReportClusterStatusRequest[] = [];
+  const results = new Map<string, RevisionResult>();
+  const transport = createRouterTransport((router) => {
+    router.service(ClusterAPI, {
+      reportClusterStatus(req) {
+        if (failures > 0) {
+          failures--;
+          throw new ConnectError("unavailable", Code.Unavailable);
+        }
+        pushes.push(req);
+        return { ack: true, nextPushSeconds: options.nextPushSeconds ?? 0 };
+      },
+      getRevisionBundle(req) {
+        return {
+          bundle: {
+            artifactUrl: `https://artifacts.test/${req.revisionId}.tar.gz`,
+            artifactChecksum: CHECKSUM,
+            namespace: "payments",
+            componentName: "api",
+          },
+        };
+      },
+      reportRevisionResult(req) {
+        results.set(req.revisionId, req.result!);
+        return { ack: true };
+      },
+    });
+  });
+  return { client: createClient(ClusterAPI, transport), pushes, results };
+}
+
+const BASE: ClusterAgentOptions = { shutdownSignals: [], download: async () => MANIFESTS };
+
+describe("createClusterAgent", () => {
+  it("pushes collected status and honors nextPushSeconds", async () => {
+    const server = createClusterServer({ nextPushSeconds: 15 });
+    const agent = createClusterAgent({
+      ...BASE,
+      client: server.client,
+      collectors: {
+        status: () => ({ k8sVersion: "1.29.2", nodeCount: 3 }),
+        workloads: () => [{ namespace: "payments", name: "api", kind: "Deployment" }],
+      },
+    });
+
+    const delay = await agent.push();
+
+    expect(delay).toBe(15000);
+    expect(server.pushes[0]?.status?.k8sVersion).toBe("1.29.2");
+    expect(server.pushes[0]?.workloads.map((w) => w.name)).toEqual(["api"]);
+    expect(server.pushes[0]?.reportedAt).toBeDefined();
+  });
+
+  it("batches and de-duplicates events across pushes", async () => {
+    const server = createClusterServer();
+    const agent = createClusterAgent({ ...BASE, client: server.client, maxEventsPerPush: 2 });
+
+    agent.recordEvents([
+      { uid: "e1", reason: "BackOff", count: 1 },
+      { uid: "e2", reason: "Pulled", count: 1 },
+      { uid: "e1", reason: "BackOff", count: 2 },
+      { uid: "e3", reason: "Scheduled", count: 1 },
+    ]);
+    await agent.push();
+    agent.recordEvents([{ uid: "e2", reason: "Pulled", count: 1 }]);
+    await agent.push();
+
+    expect(server.pushes.map((p) => p.events.map((e) => `${e.uid}:${e.count}`))).toEqual([["e2:1", "e1:2"], ["e3:1"]]);
+  });
+
+  it("keeps events of a failed push for the next one", async () => {
+    const server = createClusterServer({ failPushes: 1 });
+    const agent = createClusterAgent({ ...BASE, client: server.client });
+
+    agent.recordEvents([{ uid: "e1", reason: "BackOff", count: 1 }]);
+    await expect(agent.push()).rejects.toThrow(/unavailable/);
+    await agent.push();
+
+    expect(server.pushes[0]?.events.map((e) => e.uid)).toEqual(["e1"]);
+  });
+
+  it("runs the push loop until stopped", async () => {
+    const server = createClusterServer();
+    const agent = createClusterAgent({ ...BASE, client: server.client, pushInterval: 1 });
+
+    const running = agent.start();
+    while (server.pushes.length < 2) {
+      await new Promise((resolve) => setTimeout(resolve, 2));
+    }
+    await agent.stop();
+    await running;
+    const count = server.pushes.length;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(server.pushes.length).toBe(count);
+  });
+});
+
+describe("applyRevision", () => {
+  it("applies a verified bundle and reports success", async () => {
+    const server = createClusterServer();
+    const agent = createClusterAgent({
+      ...BASE,
+      client: server.client,
+      async applier({ bundle, artifact }) {
+        expect(bundle.namespace).toBe("payments");
+        expect(artifact).toEqual(MANIFESTS);
+        return { resourcesApplied: 4 };
+      },
+    });
+
+    const result = await agent.applyRevision("rev-1");
+
+    expect(result).toMatchObject({ success: true, resourcesApplied: 4, resourcesFailed: 0 });
+    expect(server.results.get("rev-1")?.success).toBe(true);
+  });
+
+  it("reports failed resources and applier errors", async () => {
+    const server = createClusterServer();
+    let calls = 0;
+    const agent = createClusterAgent({
+      ...BASE,
+      client: server.client,
+      async applier() {
+        if (++calls === 1) {
+          return { resourcesApplied: 3, resourcesFailed: 1 };
+        }
+        throw new Error("admission webhook denied the request");
+      },
+    });
+
+    await agent.applyRevision("rev-1");
+    await agent.applyRevision("rev-2");
+
+    expect(server.results.get("rev-1")).toMatchObject({ success: false, resourcesFailed: 1 });
+    expect(server.results.get("rev-2")).toMatchObject({
+      success: false,
+      errorMessage: "admission webhook denied the request",
+    });
+  });
+
+  it("fails revisions whose bundle checksum does not match", async () => {
+    const server = createClusterServer();
+    const agent = createClusterAgent({
+      ...BASE,
+      client: server.client,
+      download: async () => new TextEncoder().encode("tampered"),
+      applier: async () => ({ resourcesApplied: 1 }),
+    });
+
+    const result = await agent.applyRevision("rev-1");
+
+    expect(result.success).toBe(false);
+    expect(server.results.get("rev-1")?.errorMessage).toMatch(/checksum mismatch/);
+  });
+});
@@ -0,0 +1,378 @@
+import type { Client as ConnectClient } from "@connectrpc/connect";
+import { createClient as createConnectClient } from "@connectrpc/connect";
+import type { MessageInitShape } from "@bufbuild/protobuf";
+import { timestampNow } from "@bufbuild/protobuf/wkt";
+import {
+  ClusterAPI,
+  type ClusterStatusSchema,
+  type RevisionBundle,
+  type RevisionResultSchema,
+  type WorkloadEventSchema,
+  type WorkloadStatusSchema,
+} from "../../proto/admiral/api/cluster/v1/cluster_pb.js";
+import { fetchArtifact, verifyChecksum, type ArtifactDownloader } from "./artifact.js";
+import type { ClientConfig } from "./config.js";
+import { errorMessage } from "./errors.js";
+import type { Logger } from "./logger.js";
+import { noopLogger } from "./logger.js";
+import { sleep } from "./retry.js";
+import { createTransport } from "./transport.js";
+
+/** The agent-facing cluster RPCs used by the agent. */
+export type ClusterAgentClient = Pick<
+  ConnectClient<typeof ClusterAPI>,
+  "reportClusterStatus" | "reportWorkloadStatus" | "getRevisionBundle" | "reportRevisionResult"
+>;
+
+/** Cluster-level telemetry returned by a collector. */
+export type ClusterStatusInit = MessageInitShape<typeof ClusterStatusSchema>;
+
+/** Workload snapshot returned by a collector. */
+export type WorkloadStatusInit = MessageInitShape<typeof WorkloadStatusSchema>;
+
+/** Kubernetes event returned by a collector or passed to `recordEvents()`. */
+export type WorkloadEventInit = MessageInitShape<typeof WorkloadEventSchema>;
+
+/**
+ * Gathers telemetry for each status push. Every collector is optional; a
+ * failing collector is logged and its part of the report left empty.
+ */
+export interface ClusterCollectors {
+  /** Cluster-level metrics */
+  status?: () => ClusterStatusInit | Promise<ClusterStatusInit>;
+  /** Per-workload snapshots */
+  workloads?: () => WorkloadStatusInit[] | Promise<WorkloadStatusInit[]>;
+  /** Kubernetes events observed since the previous call */
+  events?: () => WorkloadEventInit[] | Promise<WorkloadEventInit[]>;
+}
+
+/**
+ * A revision bundle handed to the RevisionApplier.
+ */
+export interface RevisionContext {
+  /** The revision being applied */
+  readonly revisionId: string;
+  /** Namespace, component name and version of the revision */
+  readonly bundle: RevisionBundle;
+  /** The downloaded manifest bundle (tar.gz), verified against `bundle.artifactChecksum` */
+  readonly artifact: Uint8Array;
+  /** Aborted when the agent stops */
+  readonly signal: AbortSignal;
+}
+
+/** Resource counts returned by a RevisionApplier. */
+export interface RevisionApplyOutcome {
+  /** Number of Kubernetes resources applied */
+  resourcesApplied: number;
+  /** Number of Kubernetes resources that failed to apply */
+  resourcesFailed?: number;
+}
+
+/**
+ * Applies a revision's manifests to the cluster. The revision succeeds when
+ * no resource failed; throwing reports it as failed with the error message.
+ */
+export type RevisionApplier = (context: RevisionContext) => Promise<RevisionApplyOutcome>;
+
+/**
+ * Cluster agent options.
+ */
+export interface ClusterAgentOptions {
+  /** Agent token (AGT) of the cluster. Used as `authToken` unless `client` is given. */
+  token?: string;
+
+  /** Client configuration used to connect with `token`. */
+  config?: ClientConfig;
+
+  /** Cluster RPC client to use instead of connecting with `token`. */
+  client?: ClusterAgentClient;
+
+  /** Telemetry collectors for the status push. */
+  collectors?: ClusterCollectors;
+
+  /** Applies revisions passed to `applyRevision()`. */
+  applier?: RevisionApplier;
+
+  /** Cluster id, required for `reportWorkloads()`. */
+  clusterId?: string;
+
+  /**
+   * Delay between status pushes in milliseconds when the server does not
+   * request one with `nextPushSeconds`.
+   * @default 30000
+   */
+  pushInterval?: number;
+
+  /**
+   * Maximum number of events sent with one push. The rest wait for the next push.
+   * @default 500
+   */
+  maxEventsPerPush?: number;
+
+  /**
+   * Process signals that stop the agent. Pass `[]` to handle signals yourself.
+   * @default ["SIGTERM"]
+   */
+  shutdownSignals?: NodeJS.Signals[];
+
+  /** Downloads revision bundles. Uses `fetch` by default. */
+  download?: ArtifactDownloader;
+
+  /** Logger for agent activity. Defaults to `config.logger`. */
+  logger?: Logger;
+}
+
+/**
+ * A running cluster agent.
+ */
+export interface ClusterAgent {
+  /** Starts the status push loop. Resolves once the agent has stopped. */
+  start(): Promise<void>;
+
+  /** Stops the push loop and aborts running revision applies. */
+  stop(): Promise<void>;
+
+  /** Collects and pushes a status report now. Resolves with the server's next push delay in milliseconds. */
+  push(): Promise<number>;
+
+  /** Queues events for the next push. Events are de-duplicated by UID. */
+  recordEvents(events: WorkloadEventInit[]): void;
+
+  /** Sends an incremental workload update between status pushes. */
+  reportWorkloads(workloads: WorkloadStatusInit[]): Promise<void>;
+
+  /**
+   * Fetches a revision bundle, verifies it, applies it with the configured
+   * applier and reports the result. Resolves with the reported result.
+   */
+  applyRevision(revisionId: string): Promise<MessageInitShape<typeof RevisionResultSchema>>;
+}
+
+/** Default cluster agent values. */
+export const DEFAULT_CLUSTER_AGENT_OPTIONS = {
+  pushInterval: 30000,
+  maxEventsPerPush: 500,
+} as const;
+
+// Number of sent events remembered for de-duplication
+const SENT_EVENT_LIMIT = 5000;
+
+function eventKey(event: WorkloadEventInit): string {
+  if (event.uid) {
+    return event.uid;
+  }
+  const { kind = "", namespace = "", name = "" } = event.regarding ?? {};
+  return [kind, namespace, name, event.reason ?? "", event.message ?? ""].join("/");
+}
+
+// Identifies an observation of an event: repeated occurrences bump the count or lastSeen
+function eventVersion(event: WorkloadEventInit): string {
+  const lastSeen = event.lastSeen?.seconds !== undefined ? String(event.lastSeen.seconds) : "";
+  return `${event.count ?? 0}@${lastSeen}`;
+}
+
+/**
+ * Creates an agent that reports cluster telemetry and applies workload revisions.
+ *
+ * The push loop calls the collectors and sends one ReportClusterStatus per
+ * interval, waiting as long as the server asks with `nextPushSeconds`. Events
+ * from the `events` collector and `recordEvents()` are batched until the next
+ * push, and events already sent are dropped unless their count or lastSeen
+ * changed. Events of a failed push are kept for the next one.
+ *
+ * @param options - Agent token, collectors, revision applier and push settings
+ * @returns The agent; call `start()` to run the push loop
+ *
+ * @example
+ * ```typescript
+ * import { createClusterAgent } from "@admiral-io/sdk";
+ *
+ * const agent = createClusterAgent({
+ *   token: process.env.ADMIRAL_AGENT_TOKEN,
+ *   collectors: {
+ *     status: () => collectNodeMetrics(),
+ *     workloads: () => collectWorkloads(),
+ *   },
+ *   applier: ({ bundle, artifact }) => serverSideApply(bundle.namespace, artifact),
+ * });
+ *
+ * informer.on("event", (event) => agent.recordEvents([toWorkloadEvent(event)]));
+ * await agent.start();
+ * ```
+ */
+export function createClusterAgent(options: ClusterAgentOptions = {}): ClusterAgent {
+  const client =
+    options.client ??
+    createConnectClient(
+      ClusterAPI,
+      createTransport({ ...options.config, authToken: options.token ?? options.config?.authToken }),
+    );
+  const logger = options.logger ?? options.config?.logger ?? noopLogger;
+  const collectors = options.collectors ?? {};
+  const pushInterval = options.pushInterval ?? DEFAULT_CLUSTER_AGENT_OPTIONS.pushInterval;
+  const maxEventsPerPush = options.maxEventsPerPush ?? DEFAULT_CLUSTER_AGENT_OPTIONS.maxEventsPerPush;
+  const shutdownSignals = options.shutdownSignals ?? ["SIGTERM"];
+  const download = options.download ?? fetchArtifact;
+
+  // Events waiting for the next push, and the version of each event already sent
+  const pending = new Map<string, WorkloadEventInit>();
+  const sent = new Map<string, string>();
+  const stopping = new AbortController();
+  let started: Promise<void> | undefined;
+
+  function recordEvents(events: WorkloadEventInit[]): void {
+    for (const event of events) {
+      const key = eventKey(event);
+      if (sent.get(key) === eventVersion(event)) {
+        continue;
+      }
+      // Re-insert so the latest observation moves to the end of the batch
+      pending.delete(key);
+      pending.set(key, event);
+    }
+  }
+
+  function markSent(key: string, event: WorkloadEventInit): void {
+    sent.delete(key);
+    sent.set(key, eventVersion(event));
+    if (sent.size > SENT_EVENT_LIMIT) {
+      sent.delete(sent.keys().next().value!);
+    }
+  }
+
+  async function collect<T>(name: string, collector: (() => T | Promise<T>) | undefined): Promise<T | undefined> {
+    if (!collector) {
+      return undefined;
+    }
+    try {
+      return await collector();
+    } catch (err) {
+      logger.warn(`cluster ${name} collector failed: ${errorMessage(err)}`);
+      return undefined;
+    }
+  }
+
+  async function push(): Promise<number> {
+    const [status, workloads, events] = await Promise.all([
+      collect("status", collectors.status),
+      collect("workloads", collectors.workloads),
+      collect("events", collectors.events),
+    ]);
+    if (events) {
+      recordEvents(events);
+    }
+
+    const batch = [...pending].slice(0, maxEventsPerPush);
+    for (const [key] of batch) {
+      pending.delete(key);
+    }
+
+    try {
+      const response = await client.reportClusterStatus(
+        { status, workloads, events: batch.map(([, event]) => event), reportedAt: timestampNow() },
+        { signal: stopping.signal },
+      );
+      for (const [key, event] of batch) {
+        markSent(key, event);
+      }
+      return response.nextPushSeconds > 0 ? response.nextPushSeconds * 1000 : pushInterval;
+    } catch (err) {
+      // Keep the batch, unless a newer observation arrived in the meantime
+      for (const [key, event] of batch) {
+        if (!pending.has(key)) {
+          pending.set(key, event);
+        }
+      }
+      throw err;
+    }
+  }
+
+  async function pushLoop(): Promise<void> {
+    const { signal } = stopping;
+    while (!signal.aborted) {
+      let delay = pushInterval;
+      try {
+        delay = await push();
+      } catch (err) {
+        if (signal.aborted) {
+          return;
+        }
+        logger.warn(`cluster status push failed: ${errorMessage(err)}`);
+      }
+      await sleep(delay, signal).catch(() => {});
+    }
+  }
+
+  async function reportWorkloads(workloads: WorkloadStatusInit[]): Promise<void> {
+    if (!options.clusterId) {
+      throw new Error("clusterId is required to report workloads");
+    }
+    await client.reportWorkloadStatus({ clusterId: options.clusterId, workloads, reportedAt: timestampNow() });
+  }
+
+  async function applyRevision(revisionId: string): Promise<MessageInitShape<typeof RevisionResultSchema>> {
+    let result: MessageInitShape<typeof RevisionResultSchema>;
+    try {
+      if (!options.applier) {
+        throw new Error("no revision applier configured");
+      }
+      const { bundle } = await client.getRevisionBundle({ revisionId }, { signal: stopping.signal });
+      if (!bundle) {
+        throw new Error(`no bundle returned for revision ${revisionId}`);
+      }
+      const artifact = bundle.artifactUrl ? await download(bundle.artifactUrl, stopping.signal) : new Uint8Array();
+      if (bundle.artifactChecksum) {
+        verifyChecksum(artifact, bundle.artifactChecksum);
+      }
+
+      logger.info(`applying revision ${revisionId}`, { component: bundle.componentName, version: bundle.version });
+      const outcome = await options.applier({ revisionId, bundle, artifact, signal: stopping.signal });
+      const resourcesFailed = outcome.resourcesFailed ?? 0;
+      result = {
+        success: resourcesFailed === 0,
+        resourcesApplied: outcome.resourcesApplied,
+        resourcesFailed,
+        errorMessage: resourcesFailed > 0 ? `${resourcesFailed} resource(s) failed to apply` : "",
+      };
+    } catch (err) {
+      logger.error(`revision ${revisionId} failed: ${errorMessage(err)}`);
+      result = { success: false, errorMessage: errorMessage(err) };
+    }
+
+    await client.reportRevisionResult({ revisionId, result });
+    return result;
+  }
+
+  function onSignal(signal: NodeJS.Signals): void {
+    logger.info(`received ${signal}, stopping cluster agent`);
+    stopping.abort();
+  }
+
+  async function run(): Promise<void> {
+    for (const signal of shutdownSignals) {
+      process.once(signal, onSignal);
+    }
+    try {
+      await pushLoop();
+    } finally {
+      for (const signal of shutdownSignals) {
+        process.removeListener(signal, onSignal);
+      }
+    }
+  }
+
+  return {
+    start() {
+      started ??= run();
+      return started;
+    },
+    async stop() {
+      stopping.abort();
+      await started;
+    },
+    push,
+    recordEvents,
+    reportWorkloads,
+    applyRevision,
+  };
+}
@@ -115,6 +115,11 @@ describe("resolveConfig", () => {
     resolved.logger.warn("test");
     resolved.logger.error("test");
   });
+
+  it("disables request validation by default", () => {
+    expect(resolveConfig({}).validateRequests).toBe(false);
+    expect(resolveConfig({ validateRequests: true }).validateRequests).toBe(true);
+  });
 });
 
 describe("DEFAULT_CONFIG", () => {
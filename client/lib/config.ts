@@ -1,5 +1,11 @@
+import type { Interceptor } from "@connectrpc/connect";
+import type { CircuitBreakerConfig } from "./circuit.js";
 import type { Logger } from "./logger.js";
+import type { RequestLogOptions } from "./logging.js";
 import { noopLogger } from "./logger.js";
+import type { RateLimitConfig } from "./ratelimit.js";
+import type { RetryConfig } from "./retry.js";
+import type { TokenProvider, TokenProviderFn } from "./token.js";
 
 /** Authorization header scheme. */
 export type AuthScheme = "bearer" | "token";
@@ -20,6 +26,21 @@ export interface ClientConfig {
    */
   authToken?: string;
 
+  /**
+   * Supplies auth tokens on demand, for tokens that expire while the client
+   * is in use. Consulted before each request; the token is refreshed when it
+   * expires within `tokenRefreshSkew`, and once more if the server responds
+   * with `Unauthenticated`. When `authToken` is also set it is used as the
+   * initial token.
+   */
+  tokenProvider?: TokenProvider | TokenProviderFn;
+
+  /**
+   * Refresh provider tokens this many milliseconds before they expire.
+   * @default 60000
+   */
+  tokenRefreshSkew?: number;
+
   /**
    * Authorization header scheme.
    * - `"bearer"` → `Authorization: Bearer <token>` (default)
@@ -50,6 +71,48 @@ export interface ClientConfig {
    * Use `createConsoleLogger("debug")` to enable output.
    */
   logger?: Logger;
+
+  /**
+   * Log every call through `logger` with its method, duration, status code,
+   * request id and payload sizes. `true` logs successful calls at debug and
+   * failures at warn. Secrets are redacted.
+   * @default false
+   */
+  logRequests?: boolean | RequestLogOptions;
+
+  /**
+   * Retry policy for transient failures. Retries are disabled when omitted.
+   * Only Get* and List* methods are retried unless listed in `retryableMethods`.
+   */
+  retry?: RetryConfig;
+
+  /**
+   * Fail fast while a service keeps failing or timing out, with one circuit
+   * per service. State is reported by `client.health()`. Disabled when omitted.
+   */
+  circuitBreaker?: CircuitBreakerConfig;
+
+  /**
+   * Client-side rate and concurrency limits, globally and per service or
+   * method. Calls over a limit are queued. Disabled when omitted.
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * Check requests against the API's buf.validate rules before sending them.
+   * Invalid requests fail with a ValidationError without reaching the server.
+   * CEL expressions are not checked on the client, so a request that passes
+   * may still be rejected by the server.
+   * @default false
+   */
+  validateRequests?: boolean;
+
+  /**
+   * Additional interceptors, run after the SDK's own in the given order, so
+   * the last one is closest to the network. Each retry attempt passes
+   * through them.
+   */
+  interceptors?: Interceptor[];
 }
 
 /**
@@ -60,12 +123,23 @@ export const DEFAULT_CONFIG = {
   timeout: 30000,
   httpVersion: "2" as const,
   authScheme: "bearer" as AuthScheme,
+  tokenRefreshSkew: 60000,
+  validateRequests: false,
 } as const;
 
+/** Options that have no default and stay optional after resolution. */
+type OptionalConfigKey =
+  "authToken" | "tokenProvider" | "headers" | "logRequests" | "retry" | "circuitBreaker" | "rateLimit" | "interceptors";
+
+/**
+ * Configuration with defaults applied.
+ */
+export type ResolvedConfig = Required<Omit<ClientConfig, OptionalConfigKey>> & Pick<ClientConfig, OptionalConfigKey>;
+
 /**
  * Validates and applies defaults to the configuration.
  */
-export function resolveConfig(config: ClientConfig): Required<Omit<ClientConfig, "authToken" | "headers">> & Pick<ClientConfig, "authToken" | "headers"> {
+export function resolveConfig(config: ClientConfig): ResolvedConfig {
   const baseUrl = config.baseUrl ?? DEFAULT_CONFIG.baseUrl;
 
   // Validate URL format
@@ -78,10 +152,18 @@ export function resolveConfig(config: ClientConfig): Required<Omit<ClientConfig,
   return {
     baseUrl: baseUrl.replace(/\/$/, ""), // Remove trailing slash
     authToken: config.authToken,
+    tokenProvider: config.tokenProvider,
+    tokenRefreshSkew: config.tokenRefreshSkew ?? DEFAULT_CONFIG.tokenRefreshSkew,
     authScheme: config.authScheme ?? DEFAULT_CONFIG.authScheme,
     timeout: config.timeout ?? DEFAULT_CONFIG.timeout,
     httpVersion: config.httpVersion ?? DEFAULT_CONFIG.httpVersion,
     headers: config.headers,
     logger: config.logger ?? noopLogger,
+    logRequests: config.logRequests,
+    retry: config.retry,
+    circuitBreaker: config.circuitBreaker,
+    rateLimit: config.rateLimit,
+    validateRequests: config.validateRequests ?? DEFAULT_CONFIG.validateRequests,
+    interceptors: config.interceptors,
   };
 }
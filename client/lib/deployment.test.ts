@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError, createClient, createRouterTransport } from "@connectrpc/connect";
+import type { MessageInitShape } from "@bufbuild/protobuf";
+import {
+  DeploymentFailedError,
+  waitForDeployment,
+  watchDeployment,
+  withDeploymentWatch,
+  type DeploymentEvent,
+} from "./deployment.js";
+import {
+  DeploymentAPI,
+  DeploymentStatus,
+  RevisionStatus,
+  type DeploymentSchema,
+  type RevisionSchema,
+} from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+
+interface Snapshot {
+  deployment: MessageInitShape<typeof DeploymentSchema>;
+  revisions?: MessageInitShape<typeof RevisionSchema>[];
+}
+
+// Helper to create a deployment client that returns one snapshot per poll,
+// repeating the last one once the script runs out
+function createScriptedClient(snapshots: Snapshot[]) {
+  let polls = 0;
+  const current = () => snapshots[Math.min(polls, snapshots.length) - 1]!;
+  const transport = createRouterTransport((router) => {
+    router.service(DeploymentAPI, {
+      getDeployment() {
+        polls++;
+        return { deployment: current().deployment };
+      },
+      listRevisions() {
+        return { revisions: current().revisions ?? [] };
+      },
+    });
+  });
+  return { client: createClient(DeploymentAPI, transport), polls: () => polls };
+}
+
+const FAST = { pollInterval: 1, maxPollInterval: 5 };
+
+describe("watchDeployment", () => {
+  it("emits status, revision and summary changes until the deployment finishes", async () => {
+    const { client } = createScriptedClient([
+      {
+        deployment: {
+          id: "dep-1",
+          status: DeploymentStatus.RUNNING,
+          revisionSummary: { total: 2, running: 1, pending: 1 },
+        },
+        revisions: [
+          { id: "rev-a", componentName: "db", status: RevisionStatus.APPLYING },
+          { id: "rev-b", componentName: "api", status: RevisionStatus.PENDING },
+        ],
+      },
+      {
+        deployment: {
+          id: "dep-1",
+          status: DeploymentStatus.RUNNING,
+          revisionSummary: { total: 2, running: 1, pending: 1 },
+        },
+        revisions: [
+          { id: "rev-a", componentName: "db", status: RevisionStatus.APPLYING },
+          { id: "rev-b", componentName: "api", status: RevisionStatus.PENDING },
+        ],
+      },
+      {
+        deployment: { id: "dep-1", status: DeploymentStatus.SUCCEEDED, revisionSummary: { total: 2, succeeded: 2 } },
+        revisions: [
+          { id: "rev-a", componentName: "db", status: RevisionStatus.SUCCEEDED },
+          { id: "rev-b", componentName: "api", status: RevisionStatus.SUCCEEDED },
+        ],
+      },
+    ]);
+
+    const events: DeploymentEvent[] = [];
+    for await (const event of watchDeployment(client, "dep-1", FAST)) {
+      events.push(event);
+    }
+
+    const described = events.map((e) => {
+      switch (e.type) {
+        case "status":
+          return ["status", e.previous, e.status];
+        case "revision":
+          return ["revision", e.revision.id, e.previous, e.status];
+        case "summary":
+          return ["summary", e.delta];
+      }
+    });
+    expect(described).toEqual([
+      ["status", undefined, DeploymentStatus.RUNNING],
+      ["revision", "rev-a", undefined, RevisionStatus.APPLYING],
+      ["revision", "rev-b", undefined, RevisionStatus.PENDING],
+      ["summary", { total: 2, running: 1, pending: 1 }],
+      ["status", DeploymentStatus.RUNNING, DeploymentStatus.SUCCEEDED],
+      ["revision", "rev-a", RevisionStatus.APPLYING, RevisionStatus.SUCCEEDED],
+      ["revision", "rev-b", RevisionStatus.PENDING, RevisionStatus.SUCCEEDED],
+      ["summary", { succeeded: 2, running: -1, pending: -1 }],
+    ]);
+  });
+
+  it("fails with DeadlineExceeded after the timeout", async () => {
+    const { client } = createScriptedClient([{ deployment: { id: "dep-1", status: DeploymentStatus.RUNNING } }]);
+
+    const consume = async () => {
+      for await (const _ of watchDeployment(client, "dep-1", { ...FAST, timeout: 20 })) {
+        // drain
+      }
+    };
+
+    const err = await consume().catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(ConnectError);
+    expect((err as ConnectError).code).toBe(Code.DeadlineExceeded);
+  });
+
+  it("stops when the signal aborts", async () => {
+    const { client } = createScriptedClient([{ deployment: { id: "dep-1", status: DeploymentStatus.RUNNING } }]);
+    const controller = new AbortController();
+
+    const consume = async () => {
+      for await (const _ of watchDeployment(client, "dep-1", { ...FAST, signal: controller.signal })) {
+        controller.abort();
+      }
+    };
+
+    const err = await consume().catch((e: unknown) => e);
+    expect((err as ConnectError).code).toBe(Code.Canceled);
+  });
+});
+
+describe("waitForDeployment", () => {
+  it("resolves with the succeeded deployment and reports progress", async () => {
+    const { client, polls } = createScriptedClient([
+      { deployment: { id: "dep-1", status: DeploymentStatus.PENDING } },
+      { deployment: { id: "dep-1", status: DeploymentStatus.SUCCEEDED } },
+    ]);
+    const statuses: DeploymentStatus[] = [];
+
+    const deployment = await waitForDeployment(client, "dep-1", {
+      ...FAST,
+      onEvent: (e) => e.type === "status" && statuses.push(e.status),
+    });
+
+    expect(deployment.status).toBe(DeploymentStatus.SUCCEEDED);
+    expect(statuses).toEqual([DeploymentStatus.PENDING, DeploymentStatus.SUCCEEDED]);
+    expect(polls()).toBe(2);
+  });
+
+  it("throws DeploymentFailedError with the failed revisions", async () => {
+    const { client } = createScriptedClient([
+      {
+        deployment: { id: "dep-1", status: DeploymentStatus.PARTIALLY_FAILED },
+        revisions: [
+          { id: "rev-a", componentName: "db", status: RevisionStatus.SUCCEEDED },
+          { id: "rev-b", componentName: "api", status: RevisionStatus.FAILED, errorMessage: "image pull failed" },
+        ],
+      },
+    ]);
+
+    const err = await waitForDeployment(client, "dep-1", FAST).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(DeploymentFailedError);
+    const failed = err as DeploymentFailedError;
+    expect(failed.status).toBe(DeploymentStatus.PARTIALLY_FAILED);
+    expect(failed.failedRevisions.map((r) => r.id)).toEqual(["rev-b"]);
+    expect(failed.message).toBe("deployment dep-1 finished with status PARTIALLY_FAILED: api: image pull failed");
+  });
+
+  it("is available on the deployment client as waitFor", async () => {
+    const { client } = createScriptedClient([{ deployment: { id: "dep-1", status: DeploymentStatus.CANCELLED } }]);
+
+    const err = await withDeploymentWatch(client)
+      .waitFor("dep-1", FAST)
+      .catch((e: unknown) => e);
+
+    expect((err as DeploymentFailedError).status).toBe(DeploymentStatus.CANCELLED);
+  });
+});
@@ -0,0 +1,336 @@
+import type { CallOptions, Client as ConnectClient } from "@connectrpc/connect";
+import { Code, ConnectError } from "@connectrpc/connect";
+import {
+  DeploymentStatus,
+  RevisionStatus,
+  type DeploymentAPI,
+  type Deployment,
+  type Revision,
+  type RevisionSummary,
+} from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+import { paginate } from "./pagination.js";
+import { sleep } from "./retry.js";
+
+/** The deployment RPCs used to watch a rollout. */
+export type DeploymentWatchClient = Pick<ConnectClient<typeof DeploymentAPI>, "getDeployment" | "listRevisions">;
+
+/** Counters of a RevisionSummary. */
+export type RevisionSummaryCount = "total" | "succeeded" | "failed" | "blocked" | "running" | "cancelled" | "pending";
+
+/** Change of each RevisionSummary counter since the previous poll. Unchanged counters are omitted. */
+export type RevisionSummaryDelta = Partial<Record<RevisionSummaryCount, number>>;
+
+/**
+ * Progress event emitted while watching a deployment.
+ *
+ * - `status`: the deployment moved to a new DeploymentStatus
+ * - `revision`: a component revision moved to a new RevisionStatus
+ * - `summary`: the revision counters changed
+ *
+ * `previous` is undefined for the first observation.
+ */
+export type DeploymentEvent =
+  | { type: "status"; deployment: Deployment; status: DeploymentStatus; previous?: DeploymentStatus }
+  | { type: "revision"; deployment: Deployment; revision: Revision; status: RevisionStatus; previous?: RevisionStatus }
+  | { type: "summary"; deployment: Deployment; summary: RevisionSummary; delta: RevisionSummaryDelta };
+
+/**
+ * Options for watching a deployment.
+ */
+export interface WatchDeploymentOptions {
+  /**
+   * Delay between polls in milliseconds. Polling returns to this interval
+   * whenever something changes.
+   * @default 2000
+   */
+  pollInterval?: number;
+
+  /**
+   * Upper bound for the poll interval in milliseconds.
+   * @default 30000
+   */
+  maxPollInterval?: number;
+
+  /**
+   * Factor applied to the poll interval after each poll without changes.
+   * @default 1.5
+   */
+  backoffMultiplier?: number;
+
+  /** Give up after this many milliseconds with a DeadlineExceeded error. Unbounded when omitted. */
+  timeout?: number;
+
+  /**
+   * Poll the deployment's revisions to emit `revision` events.
+   * @default true
+   */
+  includeRevisions?: boolean;
+
+  /** Stops watching with a Canceled error. */
+  signal?: AbortSignal;
+
+  /** Options passed to every poll request. */
+  callOptions?: CallOptions;
+}
+
+/**
+ * Options for waiting on a deployment.
+ */
+export interface WaitForDeploymentOptions extends WatchDeploymentOptions {
+  /** Called with every progress event. */
+  onEvent?: (event: DeploymentEvent) => void;
+}
+
+/** Default polling values for watching deployments. */
+export const DEFAULT_WATCH_OPTIONS = {
+  pollInterval: 2000,
+  maxPollInterval: 30000,
+  backoffMultiplier: 1.5,
+} as const;
+
+const TERMINAL_STATUSES: ReadonlySet<DeploymentStatus> = new Set([
+  DeploymentStatus.SUCCEEDED,
+  DeploymentStatus.PARTIALLY_FAILED,
+  DeploymentStatus.FAILED,
+  DeploymentStatus.CANCELLED,
+]);
+
+const SUMMARY_COUNTS: readonly RevisionSummaryCount[] = [
+  "total",
+  "succeeded",
+  "failed",
+  "blocked",
+  "running",
+  "cancelled",
+  "pending",
+];
+
+/**
+ * Returns true once a deployment can no longer change.
+ */
+export function isTerminalDeploymentStatus(status: DeploymentStatus): boolean {
+  return TERMINAL_STATUSES.has(status);
+}
+
+/**
+ * Thrown when a waited-for deployment ends FAILED, PARTIALLY_FAILED or CANCELLED.
+ */
+export class DeploymentFailedError extends Error {
+  override readonly name = "DeploymentFailedError";
+  /** Final state of the deployment */
+  readonly deployment: Deployment;
+  /** Revisions that failed or were blocked, as last observed */
+  readonly failedRevisions: Revision[];
+
+  constructor(deployment: Deployment, failedRevisions: Revision[] = []) {
+    const reasons = failedRevisions
+      .filter((r) => r.errorMessage)
+      .map((r) => `${r.componentName}: ${r.errorMessage}`)
+      .join("; ");
+    super(
+      `deployment ${deployment.id} finished with status ${DeploymentStatus[deployment.status]}${reasons ? `: ${reasons}` : ""}`,
+    );
+    this.deployment = deployment;
+    this.failedRevisions = failedRevisions;
+  }
+
+  /** Terminal status of the deployment */
+  get status(): DeploymentStatus {
+    return this.deployment.status;
+  }
+}
+
+function summaryDelta(current: RevisionSummary, previous: RevisionSummary | undefined): RevisionSummaryDelta {
+  const delta: RevisionSummaryDelta = {};
+  for (const key of SUMMARY_COUNTS) {
+    const change = current[key] - (previous?.[key] ?? 0);
+    if (change !== 0) {
+      delta[key] = change;
+    }
+  }
+  return delta;
+}
+
+async function* poll(
+  client: DeploymentWatchClient,
+  deploymentId: string,
+  options: WatchDeploymentOptions,
+): AsyncGenerator<DeploymentEvent> {
+  const {
+    pollInterval = DEFAULT_WATCH_OPTIONS.pollInterval,
+    maxPollInterval = DEFAULT_WATCH_OPTIONS.maxPollInterval,
+    backoffMultiplier = DEFAULT_WATCH_OPTIONS.backoffMultiplier,
+    timeout,
+    includeRevisions = true,
+    signal,
+  } = options;
+
+  // One signal for the caller's cancellation and the overall timeout
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  }
+  signal?.addEventListener("abort", onAbort, { once: true });
+  let timedOut = false;
+  const timeoutId =
+    timeout !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+  const callOptions: CallOptions = { ...options.callOptions, signal: controller.signal };
+
+  let status: DeploymentStatus | undefined;
+  let summary: RevisionSummary | undefined;
+  const revisions = new Map<string, RevisionStatus>();
+  let interval = pollInterval;
+
+  try {
+    for (;;) {
+      if (controller.signal.aborted) {
+        throw ConnectError.from(controller.signal.reason ?? new Error("operation was aborted"), Code.Canceled);
+      }
+      const { deployment } = await client.getDeployment({ deploymentId }, callOptions);
+      if (!deployment) {
+        throw new ConnectError(`deployment ${deploymentId} not found`, Code.NotFound);
+      }
+
+      const events: DeploymentEvent[] = [];
+      if (deployment.status !== status) {
+        events.push({ type: "status", deployment, status: deployment.status, previous: status });
+        status = deployment.status;
+      }
+
+      if (includeRevisions) {
+        for await (const revision of paginate(client.listRevisions, { deploymentId }, { callOptions })) {
+          const previous = revisions.get(revision.id);
+          if (revision.status !== previous) {
+            events.push({ type: "revision", deployment, revision, status: revision.status, previous });
+            revisions.set(revision.id, revision.status);
+          }
+        }
+      }
+
+      if (deployment.revisionSummary) {
+        const delta = summaryDelta(deployment.revisionSummary, summary);
+        if (!summary || Object.keys(delta).length > 0) {
+          events.push({ type: "summary", deployment, summary: deployment.revisionSummary, delta });
+        }
+        summary = deployment.revisionSummary;
+      }
+
+      yield* events;
+
+      if (isTerminalDeploymentStatus(deployment.status)) {
+        return;
+      }
+      interval = events.length > 0 ? pollInterval : Math.min(maxPollInterval, interval * backoffMultiplier);
+      await sleep(interval, controller.signal);
+    }
+  } catch (err) {
+    if (timedOut) {
+      throw new ConnectError(
+        `deployment ${deploymentId} did not finish within ${timeout}ms`,
+        Code.DeadlineExceeded,
+        undefined,
+        undefined,
+        err,
+      );
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Polls a deployment and emits progress events until it reaches a terminal status.
+ *
+ * The poll interval grows by `backoffMultiplier` while nothing changes and
+ * resets once an event is emitted. The last events of the iteration carry the
+ * terminal deployment; failed deployments end the iteration without throwing.
+ *
+ * @param client - Deployment service client, e.g. `client.deployment`
+ * @param deploymentId - Deployment to watch
+ * @param options - Poll interval, backoff, timeout and cancellation
+ *
+ * @example
+ * ```typescript
+ * import { RevisionStatus, watchDeployment } from "@admiral-io/sdk";
+ *
+ * for await (const event of watchDeployment(client.deployment, deploymentId)) {
+ *   if (event.type === "revision") {
+ *     console.log(`${event.revision.componentName}: ${RevisionStatus[event.status]}`);
+ *   }
+ * }
+ * ```
+ */
+export function watchDeployment(
+  client: DeploymentWatchClient,
+  deploymentId: string,
+  options: WatchDeploymentOptions = {},
+): AsyncIterable<DeploymentEvent> {
+  return { [Symbol.asyncIterator]: () => poll(client, deploymentId, options) };
+}
+
+/**
+ * Waits for a deployment to finish.
+ *
+ * @param client - Deployment service client, e.g. `client.deployment`
+ * @param deploymentId - Deployment to wait for
+ * @param options - Watch options plus an `onEvent` progress callback
+ * @returns The deployment once it SUCCEEDED
+ * @throws DeploymentFailedError if it ends FAILED, PARTIALLY_FAILED or CANCELLED
+ */
+export async function waitForDeployment(
+  client: DeploymentWatchClient,
+  deploymentId: string,
+  options: WaitForDeploymentOptions = {},
+): Promise<Deployment> {
+  let deployment: Deployment | undefined;
+  const revisions = new Map<string, Revision>();
+
+  for await (const event of watchDeployment(client, deploymentId, options)) {
+    options.onEvent?.(event);
+    deployment = event.deployment;
+    if (event.type === "revision") {
+      revisions.set(event.revision.id, event.revision);
+    }
+  }
+
+  // The first poll always emits a status event, so the watch ended at a terminal deployment
+  const final = deployment!;
+  if (final.status === DeploymentStatus.SUCCEEDED) {
+    return final;
+  }
+  const failed = [...revisions.values()].filter(
+    (r) => r.status === RevisionStatus.FAILED || r.status === RevisionStatus.BLOCKED,
+  );
+  throw new DeploymentFailedError(final, failed);
+}
+
+/**
+ * A deployment service client extended with `waitFor()` and `watchDeployment()`.
+ */
+export type WithDeploymentWatch<C extends DeploymentWatchClient> = C & {
+  /** Waits for a deployment to finish. See `waitForDeployment`. */
+  waitFor(deploymentId: string, options?: WaitForDeploymentOptions): Promise<Deployment>;
+
+  /** Emits progress events until a deployment finishes. See `watchDeployment`. */
+  watchDeployment(deploymentId: string, options?: WatchDeploymentOptions): AsyncIterable<DeploymentEvent>;
+};
+
+/**
+ * Adds `waitFor()` and `watchDeployment()` to a deployment service client.
+ */
+export function withDeploymentWatch<C extends DeploymentWatchClient>(client: C): WithDeploymentWatch<C> {
+  return Object.assign(client, {
+    waitFor: (deploymentId: string, options?: WaitForDeploymentOptions) =>
+      waitForDeployment(client, deploymentId, options),
+    watchDeployment: (deploymentId: string, options?: WatchDeploymentOptions) =>
+      watchDeployment(client, deploymentId, options),
+  });
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError, createClient, createRouterTransport } from "@connectrpc/connect";
+import {
+  AdmiralError,
+  ConflictError,
+  NotFoundError,
+  RateLimitedError,
+  ValidationError,
+  createErrorInterceptor,
+  toAdmiralError,
+} from "./errors.js";
+import { ViolationsSchema } from "../../proto/buf/validate/validate_pb.js";
+import { DeploymentAPI } from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+
+// Helper to create a deployment client whose getDeployment fails with the given error
+function createFailingClient(err: ConnectError) {
+  const transport = createRouterTransport(
+    (router) => {
+      router.service(DeploymentAPI, {
+        getDeployment() {
+          throw err;
+        },
+      });
+    },
+    { transport: { interceptors: [createErrorInterceptor()] } },
+  );
+  return createClient(DeploymentAPI, transport);
+}
+
+describe("createErrorInterceptor", () => {
+  it("maps NotFound with service, method and request id", async () => {
+    const client = createFailingClient(
+      new ConnectError("deployment not found", Code.NotFound, { "x-request-id": "req-123" }),
+    );
+
+    const err = await client.getDeployment({ deploymentId: "dep-1" }).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(NotFoundError);
+    expect(err).toBeInstanceOf(AdmiralError);
+    expect(err).toBeInstanceOf(ConnectError);
+    const notFound = err as NotFoundError;
+    expect(notFound.code).toBe(Code.NotFound);
+    expect(notFound.rawMessage).toBe("deployment not found");
+    expect(notFound.service).toBe("admiral.api.deployment.v1.DeploymentAPI");
+    expect(notFound.method).toBe("GetDeployment");
+    expect(notFound.procedure).toBe("admiral.api.deployment.v1.DeploymentAPI/GetDeployment");
+    expect(notFound.requestId).toBe("req-123");
+    expect(notFound.retryable).toBe(false);
+  });
+
+  it("decodes buf.validate violations into a ValidationError", async () => {
+    const client = createFailingClient(
+      new ConnectError("validation failed", Code.InvalidArgument, undefined, [
+        {
+          desc: ViolationsSchema,
+          value: {
+            violations: [
+              {
+                field: {
+                  elements: [
+                    { fieldName: "labels", subscript: { case: "stringKey", value: "team" } },
+                  ],
+                },
+                ruleId: "string.min_len",
+                message: "value length must be at least 1 characters",
+              },
+              {
+                field: { elements: [{ fieldName: "deployment_id" }] },
+                ruleId: "string.uuid",
+                message: "value must be a valid UUID",
+              },
+            ],
+          },
+        },
+      ]),
+    );
+
+    const err = await client.getDeployment({}).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(ValidationError);
+    expect((err as ValidationError).violations).toEqual([
+      {
+        field: 'labels["team"]',
+        ruleId: "string.min_len",
+        message: "value length must be at least 1 characters",
+        forKey: false,
+      },
+      { field: "deployment_id", ruleId: "string.uuid", message: "value must be a valid UUID", forKey: false },
+    ]);
+  });
+
+  it("maps ResourceExhausted to a retryable RateLimitedError", async () => {
+    const client = createFailingClient(new ConnectError("slow down", Code.ResourceExhausted, { "retry-after": "3" }));
+
+    const err = await client.getDeployment({}).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(RateLimitedError);
+    expect((err as RateLimitedError).retryable).toBe(true);
+    expect((err as RateLimitedError).retryAfter).toBe(3000);
+  });
+});
+
+describe("toAdmiralError", () => {
+  it("maps conflict codes", () => {
+    expect(toAdmiralError(new ConnectError("exists", Code.AlreadyExists))).toBeInstanceOf(ConflictError);
+    expect(toAdmiralError(new ConnectError("aborted", Code.Aborted))).toBeInstanceOf(ConflictError);
+  });
+
+  it("falls back to the base class", () => {
+    const err = toAdmiralError(new ConnectError("boom", Code.Internal));
+
+    expect(err).toBeInstanceOf(AdmiralError);
+    expect(err).not.toBeInstanceOf(NotFoundError);
+    expect(err.message).toBe("[internal] boom");
+  });
+
+  it("wraps plain errors as Unknown", () => {
+    const err = toAdmiralError(new Error("socket hang up"));
+
+    expect(err.code).toBe(Code.Unknown);
+    expect(ConnectError.from(err)).toBe(err);
+  });
+
+  it("returns AdmiralErrors unchanged", () => {
+    const err = toAdmiralError(new ConnectError("missing", Code.NotFound));
+    expect(toAdmiralError(err)).toBe(err);
+  });
+});
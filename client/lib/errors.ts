@@ -0,0 +1,205 @@
+import { Code, ConnectError } from "@connectrpc/connect";
+import type { Interceptor } from "@connectrpc/connect";
+import { ViolationsSchema, type FieldPath } from "../../proto/buf/validate/validate_pb.js";
+import { DEFAULT_RETRY_CONFIG, parseRetryAfter } from "./retry.js";
+
+/** Header carrying the server-assigned request id. */
+export const REQUEST_ID_HEADER = "x-request-id";
+
+/**
+ * RPC context attached to an AdmiralError.
+ */
+export interface ErrorContext {
+  /** Fully-qualified service name, e.g. "admiral.api.deployment.v1.DeploymentAPI" */
+  service?: string;
+  /** Method name, e.g. "GetDeployment" */
+  method?: string;
+  /** Request id sent with the request, used when the response carries none */
+  requestId?: string;
+}
+
+/**
+ * A single field violation reported by buf.validate.
+ */
+export interface FieldViolation {
+  /** Dotted field path, e.g. "labels[\"team\"]" or "components[0].name" */
+  field: string;
+  /** Identifier of the failed rule, e.g. "string.min_len" */
+  ruleId: string;
+  /** Human-readable description */
+  message: string;
+  /** Whether the violation concerns a map key rather than its value */
+  forKey: boolean;
+}
+
+/**
+ * Base class for errors returned by the Admiral API.
+ *
+ * AdmiralError extends ConnectError, so existing `instanceof ConnectError`
+ * checks, `ConnectError.from()` and `findDetails()` keep working. Its `name`
+ * stays "ConnectError" because Connect identifies errors by name.
+ */
+export class AdmiralError extends ConnectError {
+  /** Fully-qualified service name */
+  readonly service?: string;
+  /** Method name */
+  readonly method?: string;
+  /** Request id, if the server returned one */
+  readonly requestId?: string;
+  /** Whether the failure is transient and the call may be retried */
+  readonly retryable: boolean;
+
+  constructor(err: ConnectError, context: ErrorContext = {}) {
+    super(err.rawMessage, err.code, err.metadata, undefined, err);
+    this.details = err.details;
+    this.service = context.service;
+    this.method = context.method;
+    this.requestId = err.metadata.get(REQUEST_ID_HEADER) ?? context.requestId;
+    this.retryable = (DEFAULT_RETRY_CONFIG.retryableCodes as readonly Code[]).includes(err.code);
+  }
+
+  /** Fully-qualified procedure, e.g. "admiral.api.deployment.v1.DeploymentAPI/GetDeployment" */
+  get procedure(): string | undefined {
+    return this.service && this.method ? `${this.service}/${this.method}` : undefined;
+  }
+
+  // ConnectError matches instances by name, which subclasses share, so use
+  // the prototype chain to tell the subclasses apart.
+  static override [Symbol.hasInstance](v: unknown): boolean {
+    return typeof v === "object" && v !== null && Object.prototype.isPrototypeOf.call(this.prototype, v);
+  }
+}
+
+/** The requested resource does not exist (Code.NotFound). */
+export class NotFoundError extends AdmiralError {}
+
+/** The caller lacks permission for the operation (Code.PermissionDenied). */
+export class PermissionDeniedError extends AdmiralError {}
+
+/** The caller is not authenticated or the token was rejected (Code.Unauthenticated). */
+export class UnauthenticatedError extends AdmiralError {}
+
+/** The resource already exists or was modified concurrently (Code.AlreadyExists, Code.Aborted). */
+export class ConflictError extends AdmiralError {}
+
+/**
+ * The request was rejected as invalid (Code.InvalidArgument, Code.FailedPrecondition).
+ * Field violations are decoded from buf.validate error details when present.
+ */
+export class ValidationError extends AdmiralError {
+  readonly violations: FieldViolation[];
+
+  constructor(err: ConnectError, context: ErrorContext = {}, violations?: FieldViolation[]) {
+    super(err, context);
+    this.violations = violations ?? decodeViolations(err);
+  }
+}
+
+/** The caller was throttled (Code.ResourceExhausted). */
+export class RateLimitedError extends AdmiralError {
+  /** Milliseconds to wait before retrying, from the Retry-After header */
+  readonly retryAfter?: number;
+
+  constructor(err: ConnectError, context: ErrorContext = {}) {
+    super(err, context);
+    this.retryAfter = parseRetryAfter(err.metadata.get("retry-after"));
+  }
+}
+
+/**
+ * Renders a buf.validate field path as a dotted string.
+ */
+export function formatFieldPath(path: FieldPath | undefined): string {
+  if (!path) {
+    return "";
+  }
+  let result = "";
+  for (const element of path.elements) {
+    result += result ? `.${element.fieldName}` : element.fieldName;
+    const { subscript } = element;
+    switch (subscript.case) {
+      case "index":
+      case "intKey":
+      case "uintKey":
+      case "boolKey":
+        result += `[${subscript.value}]`;
+        break;
+      case "stringKey":
+        result += `[${JSON.stringify(subscript.value)}]`;
+        break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Decodes buf.validate violations from the error details.
+ */
+export function decodeViolations(err: ConnectError): FieldViolation[] {
+  return err.findDetails(ViolationsSchema).flatMap((details) =>
+    details.violations.map((violation) => ({
+      field: formatFieldPath(violation.field),
+      ruleId: violation.ruleId,
+      message: violation.message,
+      forKey: violation.forKey,
+    })),
+  );
+}
+
+/**
+ * Returns the message of any thrown value for logging, without the code
+ * prefix ConnectError adds.
+ */
+export function errorMessage(err: unknown): string {
+  if (err instanceof ConnectError) {
+    return err.rawMessage;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Converts any error into the matching AdmiralError subclass.
+ * AdmiralErrors are returned unchanged.
+ */
+export function toAdmiralError(reason: unknown, context: ErrorContext = {}): AdmiralError {
+  if (reason instanceof AdmiralError) {
+    return reason;
+  }
+  const err = ConnectError.from(reason);
+  switch (err.code) {
+    case Code.NotFound:
+      return new NotFoundError(err, context);
+    case Code.PermissionDenied:
+      return new PermissionDeniedError(err, context);
+    case Code.Unauthenticated:
+      return new UnauthenticatedError(err, context);
+    case Code.AlreadyExists:
+    case Code.Aborted:
+      return new ConflictError(err, context);
+    case Code.InvalidArgument:
+    case Code.FailedPrecondition:
+      return new ValidationError(err, context);
+    case Code.ResourceExhausted:
+      return new RateLimitedError(err, context);
+    default:
+      return new AdmiralError(err, context);
+  }
+}
+
+/**
+ * Creates an interceptor that converts failed calls into AdmiralErrors
+ * carrying the service, method and request id.
+ */
+export function createErrorInterceptor(): Interceptor {
+  return (next) => async (req) => {
+    try {
+      return await next(req);
+    } catch (err) {
+      throw toAdmiralError(err, {
+        service: req.service.typeName,
+        method: req.method.name,
+        requestId: req.header.get(REQUEST_ID_HEADER) ?? undefined,
+      });
+    }
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  FILTER_FIELDS,
+  FilterSyntaxError,
+  createFilterBuilder,
+  filterFor,
+  parseFilter,
+  renderFilter,
+  validateFilter,
+} from "./filter.js";
+import { DeploymentStatus } from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+import { VariableType } from "../../proto/admiral/api/variable/v1/variable_pb.js";
+
+describe("filter builder", () => {
+  it("renders comparisons with quoted fields and values", () => {
+    const f = filterFor("application");
+
+    expect(renderFilter(f.eq("name", "inventory-api"))).toBe("field['name'] = 'inventory-api'");
+    expect(renderFilter(f.neq("name", "x"))).toBe("field['name'] != 'x'");
+    expect(renderFilter(f.matches("name", "inv.*"))).toBe("field['name'] ~= 'inv.*'");
+  });
+
+  it("escapes quotes and backslashes", () => {
+    const f = filterFor("application");
+
+    expect(renderFilter(f.eq("name", "it's a \\ test"))).toBe("field['name'] = 'it\\'s a \\\\ test'");
+  });
+
+  it("renders enum values by name", () => {
+    const f = filterFor("deployment");
+
+    expect(renderFilter(f.in("status", [DeploymentStatus.FAILED, DeploymentStatus.PARTIALLY_FAILED]))).toBe(
+      "field['status'] IN ('FAILED', 'PARTIALLY_FAILED')",
+    );
+  });
+
+  it("renders booleans as strings", () => {
+    const f = filterFor("source");
+
+    expect(renderFilter(f.eq("catalog", true))).toBe("field['catalog'] = 'true'");
+  });
+
+  it("renders labels and predicates", () => {
+    const f = filterFor("cluster");
+
+    expect(renderFilter(f.label("region", "us-east-1"))).toBe("field['labels.region'] = 'us-east-1'");
+    expect(renderFilter(f.hasLabel("team"))).toBe("field['labels.team'] EXISTS");
+    expect(renderFilter(f.startsWith("name", "prod-"))).toBe("field['name'] STARTS_WITH 'prod-'");
+    expect(renderFilter(f.isNotNull("name"))).toBe("field['name'] IS NOT NULL");
+  });
+
+  it("parenthesizes OR inside AND and flattens nested operators", () => {
+    const f = filterFor("variable");
+    const expr = f.and(
+      f.eq("application_id", "app-1"),
+      f.or(f.eq("type", VariableType.NUMBER), f.eq("type", VariableType.BOOLEAN)),
+      f.and(f.not(f.eq("sensitive", true))),
+    );
+
+    expect(renderFilter(expr)).toBe(
+      "field['application_id'] = 'app-1' AND (field['type'] = 'NUMBER' OR field['type'] = 'BOOLEAN') AND NOT field['sensitive'] = 'true'",
+    );
+  });
+
+  it("types field names and values", () => {
+    const f = createFilterBuilder(FILTER_FIELDS.deployment);
+
+    // @ts-expect-error unknown field
+    f.eq("name", "x");
+    // @ts-expect-error enum fields take enum values
+    f.eq("status", "FAILED");
+    expect(renderFilter(f.eq("status", DeploymentStatus.RUNNING))).toBe("field['status'] = 'RUNNING'");
+  });
+});
+
+describe("parseFilter", () => {
+  it("parses the documented examples", () => {
+    expect(parseFilter("field['name'] = 'inventory-api' AND field['labels.team'] = 'logistics'")).toEqual({
+      kind: "and",
+      operands: [
+        { kind: "compare", field: "name", op: "=", value: "inventory-api" },
+        { kind: "compare", field: "labels.team", op: "=", value: "logistics" },
+      ],
+    });
+  });
+
+  it("parses predicates", () => {
+    expect(parseFilter("field['status'] in ('A', 'B')")).toEqual({ kind: "in", field: "status", values: ["A", "B"] });
+    expect(parseFilter("field['size'] BETWEEN 1 AND 10")).toEqual({ kind: "between", field: "size", low: 1, high: 10 });
+    expect(parseFilter("field['name'] IS NULL")).toEqual({ kind: "null", field: "name", negated: false });
+    expect(parseFilter("field['key'] ENDS_WITH '_URL'")).toEqual({
+      kind: "string",
+      field: "key",
+      predicate: "ENDS_WITH",
+      value: "_URL",
+    });
+  });
+
+  it("gives AND precedence over OR", () => {
+    const expr = parseFilter("field['a'] = '1' OR field['b'] = '2' AND NOT field['c'] = '3'");
+
+    expect(expr.kind).toBe("or");
+    expect(expr.kind === "or" && expr.operands[1]?.kind).toBe("and");
+  });
+
+  it("round-trips rendered filters", () => {
+    const f = filterFor("connection");
+    const expr = f.and(
+      f.or(f.eq("name", "it's"), f.label("team", "platform")),
+      f.not(f.and(f.eq("name", "a"), f.exists("status"))),
+    );
+
+    expect(parseFilter(renderFilter(expr))).toEqual(expr);
+  });
+
+  it("reports syntax errors with a position", () => {
+    expect(() => parseFilter("field['name'] = ")).toThrow(FilterSyntaxError);
+    expect(() => parseFilter("field['name' = 'x'")).toThrow(/position/);
+    expect(() => parseFilter("field['name'] = 'x' junk")).toThrow("Unexpected");
+    expect(() => parseFilter("field['name'] = 'x")).toThrow("Unterminated string");
+  });
+});
+
+describe("validateFilter", () => {
+  it("accepts valid filters", () => {
+    expect(validateFilter("field['status'] IN ('FAILED', 'CANCELLED')", FILTER_FIELDS.deployment)).toEqual([]);
+    expect(validateFilter("field['labels.team'] = 'x'", FILTER_FIELDS.application)).toEqual([]);
+  });
+
+  it("reports unknown fields and invalid enum values", () => {
+    const errors = validateFilter("field['nme'] = 'x' OR field['status'] = 'DONE'", FILTER_FIELDS.deployment);
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('Unknown field "nme"');
+    expect(errors[1]).toContain("'DONE'");
+  });
+
+  it("reports labels on resources without labels", () => {
+    expect(validateFilter("field['labels.team'] = 'x'", FILTER_FIELDS.deployment)[0]).toContain("labels");
+  });
+
+  it("reports invalid booleans", () => {
+    expect(validateFilter("field['catalog'] = 'yes'", FILTER_FIELDS.source)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,577 @@
+import type { DescEnum } from "@bufbuild/protobuf";
+import type { GenEnum } from "@bufbuild/protobuf/codegenv2";
+import { AccessTokenStatusSchema } from "../../proto/admiral/common/v1/token_pb.js";
+import { ClusterHealthStatusSchema, WorkloadHealthStatusSchema } from "../../proto/admiral/api/cluster/v1/cluster_pb.js";
+import { ComponentCategorySchema } from "../../proto/admiral/api/component/v1/component_pb.js";
+import { ConnectionStatusSchema, ConnectionTypeSchema } from "../../proto/admiral/api/connection/v1/connection_pb.js";
+import { DeploymentStatusSchema, DeploymentTriggerTypeSchema } from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+import { RuntimeTypeSchema } from "../../proto/admiral/api/environment/v1/environment_pb.js";
+import { JobStatusSchema, JobTypeSchema, RunnerHealthStatusSchema, RunnerKindSchema } from "../../proto/admiral/api/runner/v1/runner_pb.js";
+import { SourceTypeSchema } from "../../proto/admiral/api/source/v1/source_pb.js";
+import { VariableTypeSchema } from "../../proto/admiral/api/variable/v1/variable_pb.js";
+
+/** A literal value in a filter expression. */
+export type FilterValue = string | number;
+
+/** Comparison operators. `~=` is a pattern match. */
+export type CompareOperator = "=" | "!=" | "<" | ">" | "<=" | ">=" | "~=";
+
+/** String predicates. */
+export type StringPredicate = "CONTAINS" | "STARTS_WITH" | "ENDS_WITH";
+
+/**
+ * Filter expression AST.
+ */
+export type FilterExpr =
+  | { kind: "compare"; field: string; op: CompareOperator; value: FilterValue }
+  | { kind: "in"; field: string; values: FilterValue[] }
+  | { kind: "between"; field: string; low: FilterValue; high: FilterValue }
+  | { kind: "string"; field: string; predicate: StringPredicate; value: string }
+  | { kind: "null"; field: string; negated: boolean }
+  | { kind: "exists"; field: string }
+  | { kind: "and"; operands: FilterExpr[] }
+  | { kind: "or"; operands: FilterExpr[] }
+  | { kind: "not"; operand: FilterExpr };
+
+/**
+ * Type of a filterable field: a plain scalar, an enum (rendered by value
+ * name), or `"labels"` for label maps addressed as `labels.<key>`.
+ */
+export type FilterFieldType = "string" | "number" | "boolean" | "labels" | DescEnum | GenEnum<number>;
+
+/** Filterable fields of a resource, keyed by their filter name. */
+export type FilterFieldSpec = Record<string, FilterFieldType>;
+
+/** Value type accepted for a field of the given type. */
+type FieldValue<T> =
+  T extends GenEnum<infer E> ? E : T extends "boolean" ? boolean : T extends "number" ? number : string;
+
+/** Fields of a spec that can be compared directly (everything but label maps). */
+type ScalarField<S> = { [K in keyof S]: S[K] extends "labels" ? never : K }[keyof S] & string;
+
+/**
+ * Filterable fields of each List RPC, as documented on the request messages.
+ */
+export const FILTER_FIELDS = {
+  application: { name: "string", labels: "labels" },
+  cluster: { name: "string", health_status: ClusterHealthStatusSchema, labels: "labels" },
+  clusterToken: { name: "string", status: AccessTokenStatusSchema },
+  workload: { namespace: "string", kind: "string", name: "string", health_status: WorkloadHealthStatusSchema },
+  component: {
+    application_id: "string",
+    environment_id: "string",
+    category: ComponentCategorySchema,
+    name: "string",
+  },
+  connection: { name: "string", type: ConnectionTypeSchema, status: ConnectionStatusSchema, labels: "labels" },
+  deployment: {
+    application_id: "string",
+    environment_id: "string",
+    status: DeploymentStatusSchema,
+    trigger_type: DeploymentTriggerTypeSchema,
+  },
+  environment: { application_id: "string", name: "string", runtime_type: RuntimeTypeSchema, labels: "labels" },
+  runner: { name: "string", kind: RunnerKindSchema, health_status: RunnerHealthStatusSchema, labels: "labels" },
+  runnerToken: { name: "string", status: AccessTokenStatusSchema },
+  runnerJob: { status: JobStatusSchema, job_type: JobTypeSchema, deployment_id: "string" },
+  source: { name: "string", type: SourceTypeSchema, catalog: "boolean", labels: "labels" },
+  state: { component_id: "string", environment_id: "string", application_id: "string" },
+  personalAccessToken: { name: "string", status: AccessTokenStatusSchema },
+  variable: {
+    application_id: "string",
+    environment_id: "string",
+    sensitive: "boolean",
+    type: VariableTypeSchema,
+    key: "string",
+  },
+} as const satisfies Record<string, FilterFieldSpec>;
+
+/** Resources with documented filter fields. */
+export type FilterResource = keyof typeof FILTER_FIELDS;
+
+/**
+ * Builds filter expressions with field names and values typed by a field spec.
+ */
+export interface FilterBuilder<S extends FilterFieldSpec> {
+  eq<K extends ScalarField<S>>(field: K, value: FieldValue<S[K]>): FilterExpr;
+  neq<K extends ScalarField<S>>(field: K, value: FieldValue<S[K]>): FilterExpr;
+  lt<K extends ScalarField<S>>(field: K, value: FieldValue<S[K]>): FilterExpr;
+  lte<K extends ScalarField<S>>(field: K, value: FieldValue<S[K]>): FilterExpr;
+  gt<K extends ScalarField<S>>(field: K, value: FieldValue<S[K]>): FilterExpr;
+  gte<K extends ScalarField<S>>(field: K, value: FieldValue<S[K]>): FilterExpr;
+  /** Pattern match (`~=`). */
+  matches<K extends ScalarField<S>>(field: K, pattern: string): FilterExpr;
+  in<K extends ScalarField<S>>(field: K, values: FieldValue<S[K]>[]): FilterExpr;
+  between<K extends ScalarField<S>>(field: K, low: FieldValue<S[K]>, high: FieldValue<S[K]>): FilterExpr;
+  contains<K extends ScalarField<S>>(field: K, value: string): FilterExpr;
+  startsWith<K extends ScalarField<S>>(field: K, value: string): FilterExpr;
+  endsWith<K extends ScalarField<S>>(field: K, value: string): FilterExpr;
+  isNull<K extends ScalarField<S>>(field: K): FilterExpr;
+  isNotNull<K extends ScalarField<S>>(field: K): FilterExpr;
+  exists<K extends ScalarField<S>>(field: K): FilterExpr;
+  /** Matches a label value (`field['labels.<key>'] = value`). */
+  label(key: string, value: string): FilterExpr;
+  /** Matches resources that have the label, whatever its value. */
+  hasLabel(key: string): FilterExpr;
+  and(...operands: FilterExpr[]): FilterExpr;
+  or(...operands: FilterExpr[]): FilterExpr;
+  not(operand: FilterExpr): FilterExpr;
+}
+
+/**
+ * Converts a builder value to a filter literal. Enums are rendered by value
+ * name and booleans as 'true'/'false'.
+ */
+function toLiteral(type: FilterFieldType | undefined, value: unknown): FilterValue {
+  if (typeof value === "boolean") {
+    return String(value);
+  }
+  if (typeof value === "number" && type !== undefined && typeof type === "object") {
+    const enumValue = (type as DescEnum).value[value];
+    if (!enumValue) {
+      throw new Error(`Invalid value ${value} for enum ${type.typeName}`);
+    }
+    return enumValue.localName;
+  }
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new Error(`Unsupported filter value: ${String(value)}`);
+  }
+  return value;
+}
+
+/** Flattens nested operands of the same logical operator. */
+function flatten(kind: "and" | "or", operands: FilterExpr[]): FilterExpr {
+  const flat = operands.flatMap((operand) => (operand.kind === kind ? operand.operands : [operand]));
+  if (flat.length === 1 && flat[0]) {
+    return flat[0];
+  }
+  return { kind, operands: flat };
+}
+
+/**
+ * Creates a filter builder for the given field spec.
+ *
+ * @example
+ * ```typescript
+ * import { createFilterBuilder, FILTER_FIELDS, renderFilter } from "@admiral-io/sdk";
+ *
+ * const f = createFilterBuilder(FILTER_FIELDS.deployment);
+ * const filter = renderFilter(
+ *   f.and(f.eq("application_id", appId), f.in("status", [DeploymentStatus.FAILED, DeploymentStatus.CANCELLED])),
+ * );
+ * // field['application_id'] = '…' AND field['status'] IN ('FAILED', 'CANCELLED')
+ * ```
+ */
+export function createFilterBuilder<S extends FilterFieldSpec>(spec: S): FilterBuilder<S> {
+  const literal = (field: string, value: unknown) => toLiteral(spec[field], value);
+  const compare = (op: CompareOperator) => (field: string, value: unknown): FilterExpr => ({
+    kind: "compare",
+    field,
+    op,
+    value: literal(field, value),
+  });
+  const predicate = (name: StringPredicate) => (field: string, value: string): FilterExpr => ({
+    kind: "string",
+    field,
+    predicate: name,
+    value,
+  });
+
+  const builder = {
+    eq: compare("="),
+    neq: compare("!="),
+    lt: compare("<"),
+    lte: compare("<="),
+    gt: compare(">"),
+    gte: compare(">="),
+    matches: (field: string, pattern: string): FilterExpr => ({ kind: "compare", field, op: "~=", value: pattern }),
+    in: (field: string, values: unknown[]): FilterExpr => ({
+      kind: "in",
+      field,
+      values: values.map((value) => literal(field, value)),
+    }),
+    between: (field: string, low: unknown, high: unknown): FilterExpr => ({
+      kind: "between",
+      field,
+      low: literal(field, low),
+      high: literal(field, high),
+    }),
+    contains: predicate("CONTAINS"),
+    startsWith: predicate("STARTS_WITH"),
+    endsWith: predicate("ENDS_WITH"),
+    isNull: (field: string): FilterExpr => ({ kind: "null", field, negated: false }),
+    isNotNull: (field: string): FilterExpr => ({ kind: "null", field, negated: true }),
+    exists: (field: string): FilterExpr => ({ kind: "exists", field }),
+    label: (key: string, value: string): FilterExpr => ({ kind: "compare", field: `labels.${key}`, op: "=", value }),
+    hasLabel: (key: string): FilterExpr => ({ kind: "exists", field: `labels.${key}` }),
+    and: (...operands: FilterExpr[]) => flatten("and", operands),
+    or: (...operands: FilterExpr[]) => flatten("or", operands),
+    not: (operand: FilterExpr): FilterExpr => ({ kind: "not", operand }),
+  };
+  return builder as unknown as FilterBuilder<S>;
+}
+
+/**
+ * Returns a filter builder for one of the documented resources.
+ */
+export function filterFor<R extends FilterResource>(resource: R): FilterBuilder<(typeof FILTER_FIELDS)[R]> {
+  return createFilterBuilder(FILTER_FIELDS[resource] as (typeof FILTER_FIELDS)[R]);
+}
+
+/** Quotes a string literal, escaping backslashes and single quotes. */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function renderValue(value: FilterValue): string {
+  return typeof value === "number" ? String(value) : quote(value);
+}
+
+function renderField(field: string): string {
+  return `field[${quote(field)}]`;
+}
+
+/** Binding strength, used to decide where parentheses are needed. */
+const PRECEDENCE: Record<FilterExpr["kind"], number> = {
+  or: 1,
+  and: 2,
+  not: 3,
+  compare: 4,
+  in: 4,
+  between: 4,
+  string: 4,
+  null: 4,
+  exists: 4,
+};
+
+/** Renders an operand, parenthesized if it binds more loosely than its parent. */
+function renderOperand(expr: FilterExpr, parent: number): string {
+  const rendered = renderFilter(expr);
+  return PRECEDENCE[expr.kind] < parent ? `(${rendered})` : rendered;
+}
+
+/**
+ * Renders a filter expression as a filter string for List requests.
+ */
+export function renderFilter(expr: FilterExpr): string {
+  switch (expr.kind) {
+    case "compare":
+      return `${renderField(expr.field)} ${expr.op} ${renderValue(expr.value)}`;
+    case "in":
+      return `${renderField(expr.field)} IN (${expr.values.map(renderValue).join(", ")})`;
+    case "between":
+      return `${renderField(expr.field)} BETWEEN ${renderValue(expr.low)} AND ${renderValue(expr.high)}`;
+    case "string":
+      return `${renderField(expr.field)} ${expr.predicate} ${quote(expr.value)}`;
+    case "null":
+      return `${renderField(expr.field)} IS ${expr.negated ? "NOT NULL" : "NULL"}`;
+    case "exists":
+      return `${renderField(expr.field)} EXISTS`;
+    case "and":
+    case "or":
+      return expr.operands
+        .map((operand) => renderOperand(operand, PRECEDENCE[expr.kind]))
+        .join(expr.kind === "and" ? " AND " : " OR ");
+    case "not":
+      return `NOT ${renderOperand(expr.operand, PRECEDENCE.not)}`;
+  }
+}
+
+/**
+ * Error thrown when a filter string cannot be parsed.
+ */
+export class FilterSyntaxError extends Error {
+  /** Offset in the input where parsing failed */
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = "FilterSyntaxError";
+    this.position = position;
+  }
+}
+
+type Token =
+  | { type: "string"; value: string; pos: number }
+  | { type: "number"; value: number; pos: number }
+  | { type: "word"; value: string; pos: number }
+  | { type: "punct"; value: string; pos: number }
+  | { type: "end"; pos: number };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input.charAt(i);
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (ch === "'") {
+      let value = "";
+      i++;
+      while (i < input.length && input.charAt(i) !== "'") {
+        if (input.charAt(i) === "\\" && i + 1 < input.length) {
+          i++;
+        }
+        value += input.charAt(i);
+        i++;
+      }
+      if (i >= input.length) {
+        throw new FilterSyntaxError("Unterminated string", start);
+      }
+      i++;
+      tokens.push({ type: "string", value, pos: start });
+      continue;
+    }
+    const number = /^-?\d+(\.\d+)?/.exec(input.slice(i));
+    if (number) {
+      tokens.push({ type: "number", value: Number(number[0]), pos: start });
+      i += number[0].length;
+      continue;
+    }
+    const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(i));
+    if (word) {
+      tokens.push({ type: "word", value: word[0], pos: start });
+      i += word[0].length;
+      continue;
+    }
+    const punct = /^(!=|<=|>=|~=|[=<>()[\],])/.exec(input.slice(i));
+    if (punct) {
+      tokens.push({ type: "punct", value: punct[0], pos: start });
+      i += punct[0].length;
+      continue;
+    }
+    throw new FilterSyntaxError(`Unexpected character "${ch}"`, start);
+  }
+  tokens.push({ type: "end", pos: input.length });
+  return tokens;
+}
+
+const COMPARE_OPERATORS = new Set<string>(["=", "!=", "<", ">", "<=", ">=", "~="]);
+const STRING_PREDICATES = new Set<string>(["CONTAINS", "STARTS_WITH", "ENDS_WITH"]);
+
+/**
+ * Parses a filter string into an expression AST.
+ *
+ * Grammar (keywords are case-insensitive):
+ * ```
+ * expr      = or
+ * or        = and ("OR" and)*
+ * and       = unary ("AND" unary)*
+ * unary     = "NOT" unary / "(" expr ")" / predicate
+ * predicate = field (op literal / "IN" "(" literal ("," literal)* ")"
+ *           / "BETWEEN" literal "AND" literal / ("CONTAINS" / "STARTS_WITH" / "ENDS_WITH") string
+ *           / "IS" ["NOT"] "NULL" / "EXISTS")
+ * field     = "field" "[" string "]"
+ * ```
+ *
+ * @throws FilterSyntaxError if the input is not a valid filter
+ */
+export function parseFilter(input: string): FilterExpr {
+  const tokens = tokenize(input);
+  let index = 0;
+
+  const peek = (): Token => tokens[index] ?? { type: "end", pos: input.length };
+  const advance = (): Token => {
+    const token = peek();
+    index++;
+    return token;
+  };
+  const isKeyword = (token: Token, keyword: string) =>
+    token.type === "word" && token.value.toUpperCase() === keyword;
+  const isPunct = (token: Token, value: string) => token.type === "punct" && token.value === value;
+  const describe = (token: Token) => (token.type === "end" ? "end of input" : `"${String(token.value)}"`);
+
+  function expectPunct(value: string): void {
+    const token = advance();
+    if (!isPunct(token, value)) {
+      throw new FilterSyntaxError(`Expected "${value}" but found ${describe(token)}`, token.pos);
+    }
+  }
+
+  function expectKeyword(keyword: string): void {
+    const token = advance();
+    if (!isKeyword(token, keyword)) {
+      throw new FilterSyntaxError(`Expected ${keyword} but found ${describe(token)}`, token.pos);
+    }
+  }
+
+  function parseLiteral(): FilterValue {
+    const token = advance();
+    if (token.type === "string" || token.type === "number") {
+      return token.value;
+    }
+    throw new FilterSyntaxError(`Expected a literal but found ${describe(token)}`, token.pos);
+  }
+
+  function parseString(): string {
+    const token = advance();
+    if (token.type !== "string") {
+      throw new FilterSyntaxError(`Expected a string but found ${describe(token)}`, token.pos);
+    }
+    return token.value;
+  }
+
+  function parseField(): string {
+    const token = advance();
+    if (!(token.type === "word" && token.value === "field")) {
+      throw new FilterSyntaxError(`Expected field['name'] but found ${describe(token)}`, token.pos);
+    }
+    expectPunct("[");
+    const name = parseString();
+    expectPunct("]");
+    return name;
+  }
+
+  function parsePredicate(): FilterExpr {
+    const field = parseField();
+    const token = advance();
+
+    if (token.type === "punct" && COMPARE_OPERATORS.has(token.value)) {
+      return { kind: "compare", field, op: token.value as CompareOperator, value: parseLiteral() };
+    }
+    if (token.type === "word") {
+      const keyword = token.value.toUpperCase();
+      if (keyword === "IN") {
+        expectPunct("(");
+        const values = [parseLiteral()];
+        while (isPunct(peek(), ",")) {
+          advance();
+          values.push(parseLiteral());
+        }
+        expectPunct(")");
+        return { kind: "in", field, values };
+      }
+      if (keyword === "BETWEEN") {
+        const low = parseLiteral();
+        expectKeyword("AND");
+        return { kind: "between", field, low, high: parseLiteral() };
+      }
+      if (STRING_PREDICATES.has(keyword)) {
+        return { kind: "string", field, predicate: keyword as StringPredicate, value: parseString() };
+      }
+      if (keyword === "IS") {
+        const negated = isKeyword(peek(), "NOT");
+        if (negated) {
+          advance();
+        }
+        expectKeyword("NULL");
+        return { kind: "null", field, negated };
+      }
+      if (keyword === "EXISTS") {
+        return { kind: "exists", field };
+      }
+    }
+    throw new FilterSyntaxError(`Expected an operator but found ${describe(token)}`, token.pos);
+  }
+
+  function parseUnary(): FilterExpr {
+    if (isKeyword(peek(), "NOT")) {
+      advance();
+      return { kind: "not", operand: parseUnary() };
+    }
+    if (isPunct(peek(), "(")) {
+      advance();
+      const expr = parseOr();
+      expectPunct(")");
+      return expr;
+    }
+    return parsePredicate();
+  }
+
+  function parseAnd(): FilterExpr {
+    const operands = [parseUnary()];
+    while (isKeyword(peek(), "AND")) {
+      advance();
+      operands.push(parseUnary());
+    }
+    return flatten("and", operands);
+  }
+
+  function parseOr(): FilterExpr {
+    const operands = [parseAnd()];
+    while (isKeyword(peek(), "OR")) {
+      advance();
+      operands.push(parseAnd());
+    }
+    return flatten("or", operands);
+  }
+
+  const expr = parseOr();
+  const rest = peek();
+  if (rest.type !== "end") {
+    throw new FilterSyntaxError(`Unexpected ${describe(rest)}`, rest.pos);
+  }
+  return expr;
+}
+
+/** Returns the values a leaf expression compares against. */
+function leafValues(expr: FilterExpr): FilterValue[] {
+  switch (expr.kind) {
+    case "compare":
+      return expr.op === "~=" ? [] : [expr.value];
+    case "in":
+      return expr.values;
+    case "between":
+      return [expr.low, expr.high];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Checks a filter against a field spec: unknown fields, label fields on
+ * resources without labels, and enum or boolean values that don't exist.
+ *
+ * @param filter - Filter string or parsed expression
+ * @param spec - Field spec, e.g. `FILTER_FIELDS.deployment`
+ * @returns List of problems; empty when the filter is valid
+ * @throws FilterSyntaxError if a filter string cannot be parsed
+ */
+export function validateFilter(filter: string | FilterExpr, spec: FilterFieldSpec): string[] {
+  const expr = typeof filter === "string" ? parseFilter(filter) : filter;
+  const errors: string[] = [];
+  const hasLabels = Object.values(spec).includes("labels");
+
+  function visit(node: FilterExpr): void {
+    switch (node.kind) {
+      case "and":
+      case "or":
+        node.operands.forEach(visit);
+        return;
+      case "not":
+        visit(node.operand);
+        return;
+    }
+
+    const { field } = node;
+    if (field.startsWith("labels.")) {
+      if (!hasLabels) {
+        errors.push(`Field "${field}" is not filterable: labels are not supported`);
+      }
+      return;
+    }
+
+    const type = spec[field];
+    if (type === undefined || type === "labels") {
+      errors.push(`Unknown field "${field}"; expected one of: ${Object.keys(spec).join(", ")}`);
+      return;
+    }
+
+    for (const value of leafValues(node)) {
+      if (typeof type === "object") {
+        const names = type.values.map((v) => v.localName).filter((name) => name !== "UNSPECIFIED");
+        if (typeof value !== "string" || !names.includes(value)) {
+          errors.push(`Invalid value ${renderValue(value)} for field "${field}"; expected one of: ${names.join(", ")}`);
+        }
+      } else if (type === "boolean" && value !== "true" && value !== "false") {
+        errors.push(`Invalid value ${renderValue(value)} for field "${field}"; expected 'true' or 'false'`);
+      }
+    }
+  }
+
+  visit(expr);
+  return errors;
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import { createClient, createRouterTransport } from "@connectrpc/connect";
+import { create, type MessageInitShape } from "@bufbuild/protobuf";
+import { buildComponentGraph, createComponentGraph, toDot, toMermaid, type ComponentGraph } from "./graph.js";
+import {
+  ComponentAPI,
+  ComponentOverrideSchema,
+  ComponentSchema,
+  type Component,
+} from "../../proto/admiral/api/component/v1/component_pb.js";
+
+const APP_ID = "0d9b6a3e-4f1c-4b8a-9d2e-5c7f1a2b3c4d";
+const PROD_ID = "7c1e9f3a-2b4d-4e6f-8a0c-1d3e5f7a9b2c";
+
+// Helper to create a component whose ID is its name
+function component(name: string, init: MessageInitShape<typeof ComponentSchema> = {}): Component {
+  return create(ComponentSchema, { id: name, applicationId: APP_ID, name, ...init });
+}
+
+function layerNames(graph: ComponentGraph): string[][] {
+  return graph.layers.map((layer) => layer.map((id) => graph.nodes.get(id)!.component.name));
+}
+
+const components = [
+  component("api", {
+    dependsOn: ["cert-manager"],
+    valuesTemplate: JSON.stringify({ db: "{{ .component.db.endpoint }}", cache: "{{ .component.cache.host }}" }),
+  }),
+  component("db", { valuesTemplate: JSON.stringify({ vpc: "{{ .component.vpc.vpc_id }}" }) }),
+  component("cache", { dependsOn: ["vpc"] }),
+  component("vpc"),
+  component("cert-manager"),
+];
+
+describe("createComponentGraph", () => {
+  it("orders components in layers from depends_on and output references", () => {
+    const graph = createComponentGraph(components);
+
+    expect(graph.problems).toEqual([]);
+    expect(layerNames(graph)).toEqual([["cert-manager", "vpc"], ["cache", "db"], ["api"]]);
+    expect(graph.nodes.get("api")).toMatchObject({ dependsOn: ["cert-manager", "db", "cache"], layer: 2 });
+    expect(graph.nodes.get("vpc")?.dependents).toEqual(["db", "cache"]);
+    expect(graph.edges.filter((e) => e.from === "api")).toEqual([
+      { from: "api", to: "cert-manager", explicit: true, outputs: [] },
+      { from: "api", to: "db", explicit: false, outputs: ["endpoint"] },
+      { from: "api", to: "cache", explicit: false, outputs: ["host"] },
+    ]);
+  });
+
+  it("applies overrides and leaves disabled components out of the layers", () => {
+    const overrides = [
+      create(ComponentOverrideSchema, { componentId: "cert-manager", environmentId: PROD_ID, disabled: true }),
+      create(ComponentOverrideSchema, { componentId: "cache", environmentId: PROD_ID, dependsOn: ["db"] }),
+    ];
+
+    const graph = createComponentGraph(components, overrides);
+
+    expect(layerNames(graph)).toEqual([["vpc"], ["db"], ["cache"], ["api"]]);
+    expect(graph.nodes.get("cert-manager")?.component.disabled).toBe(true);
+    expect(graph.nodes.get("cert-manager")?.layer).toBeUndefined();
+    expect(graph.nodes.get("api")?.dependsOn).toEqual(["db", "cache"]);
+    expect(graph.problems).toEqual([]);
+  });
+
+  it("reports outputs referenced from disabled components", () => {
+    const overrides = [create(ComponentOverrideSchema, { componentId: "db", environmentId: PROD_ID, disabled: true })];
+
+    const graph = createComponentGraph(components, overrides);
+
+    expect(graph.problems).toEqual([
+      {
+        kind: "disabled-dependency",
+        componentId: "api",
+        dependencyId: "db",
+        message: "api references outputs of db, which is disabled",
+      },
+    ]);
+  });
+
+  it("reports dangling depends_on and template references", () => {
+    const graph = createComponentGraph([
+      component("api", { dependsOn: ["gone"], valuesTemplate: '{"q": "{{ .component.queue.url }}"}' }),
+    ]);
+
+    expect(graph.problems.map((p) => p.message)).toEqual([
+      "api depends on gone, which is not a component of the application",
+      "api references outputs of unknown component queue",
+    ]);
+    expect(layerNames(graph)).toEqual([["api"]]);
+  });
+
+  it("detects cycles and leaves their components and dependents unlayered", () => {
+    const graph = createComponentGraph([
+      component("a", { dependsOn: ["b"] }),
+      component("b", { valuesTemplate: '{"x": "{{ .component.c.x }}"}' }),
+      component("c", { dependsOn: ["a"] }),
+      component("d", { dependsOn: ["a"] }),
+      component("e", { dependsOn: ["e"] }),
+      component("f"),
+    ]);
+
+    expect(graph.problems).toEqual([
+      { kind: "cycle", componentIds: ["a", "b", "c"], message: "dependency cycle: a -> b -> c -> a" },
+      { kind: "cycle", componentIds: ["e"], message: "dependency cycle: e -> e" },
+    ]);
+    expect(layerNames(graph)).toEqual([["f"]]);
+  });
+});
+
+describe("buildComponentGraph", () => {
+  it("lists the application's components and the environment's overrides", async () => {
+    const filters: string[] = [];
+    const transport = createRouterTransport((router) => {
+      router.service(ComponentAPI, {
+        listComponents(req) {
+          filters.push(req.filter);
+          return { components };
+        },
+        listComponentOverrides(req) {
+          return {
+            overrides:
+              req.componentId === "cert-manager"
+                ? [
+                    create(ComponentOverrideSchema, {
+                      componentId: req.componentId,
+                      environmentId: PROD_ID,
+                      disabled: true,
+                    }),
+                    create(ComponentOverrideSchema, { componentId: req.componentId, environmentId: APP_ID }),
+                  ]
+                : [],
+          };
+        },
+      });
+    });
+
+    const graph = await buildComponentGraph(createClient(ComponentAPI, transport), APP_ID, PROD_ID);
+
+    expect(filters).toEqual([`field['application_id'] = '${APP_ID}'`]);
+    expect(graph.nodes.get("cert-manager")?.component.disabled).toBe(true);
+    expect(layerNames(graph)).toEqual([["vpc"], ["cache", "db"], ["api"]]);
+  });
+});
+
+describe("toDot and toMermaid", () => {
+  const graph = createComponentGraph([
+    component("api", { dependsOn: ["db"], valuesTemplate: '{"h": "{{ .component.db.host }}"}' }),
+    component("db", { valuesTemplate: '{"v": "{{ .component.vpc.id }}"}' }),
+    component("vpc", { disabled: true }),
+    component("loop", { dependsOn: ["loop"] }),
+  ]);
+
+  it("renders DOT", () => {
+    expect(toDot(graph)).toBe(
+      [
+        "digraph components {",
+        "  rankdir=LR;",
+        "  node [shape=box];",
+        '  "api";',
+        '  "db";',
+        '  "vpc" [style=dashed, color=gray, fontcolor=gray];',
+        '  "loop";',
+        '  "api" -> "db" [label="host"];',
+        '  "db" -> "vpc" [style=dashed, label="id"];',
+        '  "loop" -> "loop" [color=red];',
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  it("renders Mermaid", () => {
+    expect(toMermaid(graph)).toBe(
+      [
+        "flowchart LR",
+        '  c0["api"]',
+        '  c1["db"]',
+        '  c2["vpc"]:::disabled',
+        '  c3["loop"]',
+        '  c0 -- "host" --> c1',
+        '  c1 -. "id" .-> c2',
+        "  c3 --> c3",
+        "  classDef disabled stroke-dasharray: 5 5,color:#999",
+        "  linkStyle 2 stroke:red",
+      ].join("\n"),
+    );
+  });
+});
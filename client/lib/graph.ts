@@ -0,0 +1,389 @@
+import type { Client as ConnectClient } from "@connectrpc/connect";
+import type { Component, ComponentAPI, ComponentOverride } from "../../proto/admiral/api/component/v1/component_pb.js";
+import { filterFor, renderFilter } from "./filter.js";
+import { applyComponentOverride } from "./override.js";
+import { paginate } from "./pagination.js";
+import { componentReferences } from "./template.js";
+
+/** The component RPCs used to build a graph. */
+export type ComponentGraphClient = Pick<
+  ConnectClient<typeof ComponentAPI>,
+  "listComponents" | "listComponentOverrides"
+>;
+
+/**
+ * A dependency of one component on another.
+ */
+export interface ComponentEdge {
+  /** ID of the dependent component */
+  from: string;
+  /** ID of the component it depends on */
+  to: string;
+  /** Listed in `depends_on` */
+  explicit: boolean;
+  /** Outputs referenced by the dependent's values template, empty if none */
+  outputs: string[];
+}
+
+/**
+ * A component in the graph.
+ */
+export interface ComponentNode {
+  /** The component with the environment's override applied */
+  component: Component;
+  /**
+   * IDs of the enabled components deployed before this one: `depends_on`
+   * plus components whose outputs the values template references. This is
+   * what a revision's `dependsOn` and `blockedBy` are computed from.
+   */
+  dependsOn: string[];
+  /** IDs of the enabled components that depend on this one */
+  dependents: string[];
+  /** Index into `layers`, unset for disabled components and components in or behind a cycle */
+  layer?: number;
+}
+
+/**
+ * Something that would make a deployment of the graph fail.
+ */
+export type ComponentGraphProblem =
+  | { kind: "cycle"; componentIds: string[]; message: string }
+  | { kind: "missing-dependency"; componentId: string; dependencyId: string; message: string }
+  | { kind: "unknown-reference"; componentId: string; name: string; message: string }
+  | { kind: "disabled-dependency"; componentId: string; dependencyId: string; message: string };
+
+/**
+ * The dependency graph of an application's components, as resolved for an
+ * environment when one is given.
+ */
+export interface ComponentGraph {
+  /** Nodes by component ID, in the order the components were listed */
+  nodes: Map<string, ComponentNode>;
+  /** Every dependency, including those on disabled components */
+  edges: ComponentEdge[];
+  /**
+   * IDs of the enabled components in deployment order: components in a layer
+   * only depend on components in earlier layers and run in parallel.
+   */
+  layers: string[][];
+  /** Cycles and dangling references, empty if the graph can be deployed */
+  problems: ComponentGraphProblem[];
+}
+
+/**
+ * Finds the strongly connected components with more than one member or a
+ * self-dependency, i.e. the groups of components that depend on each other.
+ */
+function findCycles(nodes: Map<string, ComponentNode>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const groups: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+    for (const dep of nodes.get(id)!.dependsOn) {
+      if (!index.has(dep)) {
+        visit(dep);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(dep)!));
+      } else if (onStack.has(dep)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(dep)!));
+      }
+    }
+    if (lowLink.get(id) === index.get(id)) {
+      const group: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        group.push(member);
+      } while (member !== id);
+      if (group.length > 1 || nodes.get(id)!.dependsOn.includes(id)) {
+        groups.push(group);
+      }
+    }
+  };
+
+  for (const id of nodes.keys()) {
+    if (!index.has(id)) {
+      visit(id);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Returns one cycle through a group of mutually dependent components,
+ * starting and ending at the same component.
+ */
+function cyclePath(nodes: Map<string, ComponentNode>, group: string[]): string[] {
+  const members = new Set(group);
+  const path: string[] = [];
+  let current = group[group.length - 1]!;
+  while (!path.includes(current)) {
+    path.push(current);
+    current = nodes.get(current)!.dependsOn.find((dep) => members.has(dep))!;
+  }
+  return [...path.slice(path.indexOf(current)), current];
+}
+
+/**
+ * Builds the dependency graph of components from their application-level
+ * definitions and, optionally, the overrides of one environment.
+ *
+ * Dependencies come from `depends_on` and from `{{ .component.<name>.<output> }}`
+ * references in values templates. Disabled components are kept as nodes but
+ * get no layer; dependencies on them are dropped like the deployment engine
+ * does, and reported as problems when their outputs are referenced.
+ *
+ * @param components - Components of one application
+ * @param overrides - Overrides of the one environment to resolve for
+ */
+export function createComponentGraph(components: Component[], overrides: ComponentOverride[] = []): ComponentGraph {
+  const overrideOf = new Map(overrides.map((o) => [o.componentId, o]));
+  const resolved = components.map((c) => applyComponentOverride(c, overrideOf.get(c.id)));
+  const byId = new Map(resolved.map((c) => [c.id, c]));
+  const byName = new Map(resolved.map((c) => [c.name, c]));
+  const nameOf = (id: string) => byId.get(id)?.name ?? id;
+
+  const nodes = new Map<string, ComponentNode>(
+    resolved.map((component) => [component.id, { component, dependsOn: [], dependents: [] }]),
+  );
+  const edges: ComponentEdge[] = [];
+  const problems: ComponentGraphProblem[] = [];
+
+  for (const component of resolved) {
+    const outgoing = new Map<string, ComponentEdge>();
+    const edgeTo = (to: string) => {
+      let edge = outgoing.get(to);
+      if (!edge) {
+        edge = { from: component.id, to, explicit: false, outputs: [] };
+        outgoing.set(to, edge);
+      }
+      return edge;
+    };
+
+    for (const id of component.dependsOn) {
+      if (byId.has(id)) {
+        edgeTo(id).explicit = true;
+      } else {
+        problems.push({
+          kind: "missing-dependency",
+          componentId: component.id,
+          dependencyId: id,
+          message: `${component.name} depends on ${id}, which is not a component of the application`,
+        });
+      }
+    }
+    for (const [name, outputs] of componentReferences(component.valuesTemplate)) {
+      const dependency = byName.get(name);
+      if (dependency) {
+        edgeTo(dependency.id).outputs.push(...outputs);
+      } else {
+        problems.push({
+          kind: "unknown-reference",
+          componentId: component.id,
+          name,
+          message: `${component.name} references outputs of unknown component ${name}`,
+        });
+      }
+    }
+    edges.push(...outgoing.values());
+
+    if (component.disabled) {
+      continue;
+    }
+    for (const edge of outgoing.values()) {
+      const dependency = byId.get(edge.to)!;
+      if (!dependency.disabled) {
+        nodes.get(component.id)!.dependsOn.push(edge.to);
+        nodes.get(edge.to)!.dependents.push(component.id);
+      } else if (edge.outputs.length > 0) {
+        problems.push({
+          kind: "disabled-dependency",
+          componentId: component.id,
+          dependencyId: edge.to,
+          message: `${component.name} references outputs of ${dependency.name}, which is disabled`,
+        });
+      }
+    }
+  }
+
+  for (const group of findCycles(nodes)) {
+    const path = cyclePath(nodes, group);
+    problems.push({
+      kind: "cycle",
+      componentIds: path.slice(0, -1),
+      message: `dependency cycle: ${path.map(nameOf).join(" -> ")}`,
+    });
+  }
+
+  // Peel off the components whose dependencies are all deployed, layer by layer
+  const layers: string[][] = [];
+  const remaining = new Map(
+    [...nodes].filter(([, node]) => !node.component.disabled).map(([id, node]) => [id, node.dependsOn.length]),
+  );
+  for (;;) {
+    const layer = [...remaining].filter(([, pending]) => pending === 0).map(([id]) => id);
+    if (layer.length === 0) {
+      break;
+    }
+    layer.sort((a, b) => nameOf(a).localeCompare(nameOf(b)));
+    for (const id of layer) {
+      remaining.delete(id);
+      nodes.get(id)!.layer = layers.length;
+      for (const dependent of nodes.get(id)!.dependents) {
+        remaining.set(dependent, remaining.get(dependent)! - 1);
+      }
+    }
+    layers.push(layer);
+  }
+
+  return { nodes, edges, layers, problems };
+}
+
+/**
+ * Fetches an application's components and builds their dependency graph,
+ * with the overrides of `environmentId` applied when given.
+ *
+ * @param client - Component service client, e.g. `client.component`
+ * @param applicationId - Application whose components to graph
+ * @param environmentId - Environment whose overrides to apply
+ *
+ * @example
+ * ```typescript
+ * const graph = await client.component.buildComponentGraph(appId, prodId);
+ * for (const problem of graph.problems) {
+ *   console.error(problem.message);
+ * }
+ * graph.layers.forEach((layer, i) => {
+ *   console.log(`${i}: ${layer.map((id) => graph.nodes.get(id)!.component.name).join(", ")}`);
+ * });
+ * ```
+ */
+export async function buildComponentGraph(
+  client: ComponentGraphClient,
+  applicationId: string,
+  environmentId?: string,
+): Promise<ComponentGraph> {
+  const f = filterFor("component");
+  const components = await paginate(client.listComponents, {
+    filter: renderFilter(f.eq("application_id", applicationId)),
+  }).collect();
+  if (environmentId === undefined) {
+    return createComponentGraph(components);
+  }
+  const overrides = await Promise.all(
+    components.map((c) => paginate(client.listComponentOverrides, { componentId: c.id }).collect()),
+  );
+  return createComponentGraph(
+    components,
+    overrides.flat().filter((o) => o.environmentId === environmentId),
+  );
+}
+
+/** Edges between members of a cycle, for highlighting. */
+function cycleEdges(graph: ComponentGraph): Set<ComponentEdge> {
+  const cycles = graph.problems.flatMap((p) => (p.kind === "cycle" ? [new Set(p.componentIds)] : []));
+  return new Set(graph.edges.filter((e) => cycles.some((members) => members.has(e.from) && members.has(e.to))));
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Renders a graph in Graphviz DOT. Arrows point from a component to its
+ * dependencies. Dependencies only through output references are dashed and
+ * labelled with the outputs, disabled components are grey and dashed, and
+ * cycles are red.
+ *
+ * @example
+ * ```typescript
+ * await writeFile("components.dot", toDot(graph));
+ * // dot -Tsvg components.dot > components.svg
+ * ```
+ */
+export function toDot(graph: ComponentGraph): string {
+  const name = (id: string) => quoteDot(graph.nodes.get(id)!.component.name);
+  const inCycle = cycleEdges(graph);
+  const lines = ["digraph components {", "  rankdir=LR;", "  node [shape=box];"];
+  for (const [id, node] of graph.nodes) {
+    lines.push(
+      node.component.disabled ? `  ${name(id)} [style=dashed, color=gray, fontcolor=gray];` : `  ${name(id)};`,
+    );
+  }
+  for (const edge of graph.edges) {
+    const attributes: string[] = [];
+    if (!edge.explicit) {
+      attributes.push("style=dashed");
+    }
+    if (edge.outputs.length > 0) {
+      attributes.push(`label=${quoteDot(edge.outputs.join(", "))}`);
+    }
+    if (inCycle.has(edge)) {
+      attributes.push("color=red");
+    }
+    lines.push(
+      `  ${name(edge.from)} -> ${name(edge.to)}${attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""};`,
+    );
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+function quoteMermaid(value: string): string {
+  return `"${value.replace(/"/g, "#quot;")}"`;
+}
+
+/**
+ * Renders a graph as a Mermaid flowchart, e.g. for a Markdown design doc.
+ * Arrows point from a component to its dependencies; dependencies only
+ * through output references are dotted and labelled with the outputs.
+ */
+export function toMermaid(graph: ComponentGraph): string {
+  const ids = new Map([...graph.nodes.keys()].map((id, i) => [id, `c${i}`]));
+  const inCycle = cycleEdges(graph);
+  const lines = ["flowchart LR"];
+  for (const [id, node] of graph.nodes) {
+    lines.push(`  ${ids.get(id)}[${quoteMermaid(node.component.name)}]${node.component.disabled ? ":::disabled" : ""}`);
+  }
+  const highlighted: number[] = [];
+  graph.edges.forEach((edge, i) => {
+    const label = edge.outputs.length > 0 ? quoteMermaid(edge.outputs.join(", ")) : undefined;
+    const arrow = edge.explicit ? (label ? `-- ${label} -->` : "-->") : label ? `-. ${label} .->` : "-.->";
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+    if (inCycle.has(edge)) {
+      highlighted.push(i);
+    }
+  });
+  if ([...graph.nodes.values()].some((n) => n.component.disabled)) {
+    lines.push("  classDef disabled stroke-dasharray: 5 5,color:#999");
+  }
+  if (highlighted.length > 0) {
+    lines.push(`  linkStyle ${highlighted.join(",")} stroke:red`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * A component service client extended with `buildComponentGraph()`.
+ */
+export type WithComponentGraph<C extends ComponentGraphClient> = C & {
+  /** Builds the dependency graph of an application's components. See `buildComponentGraph`. */
+  buildComponentGraph(applicationId: string, environmentId?: string): Promise<ComponentGraph>;
+};
+
+/**
+ * Adds `buildComponentGraph()` to a component service client.
+ */
+export function withComponentGraph<C extends ComponentGraphClient>(client: C): WithComponentGraph<C> {
+  return Object.assign(client, {
+    buildComponentGraph: (applicationId: string, environmentId?: string) =>
+      buildComponentGraph(client, applicationId, environmentId),
+  });
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadConfig, parseProfiles, createCommandTokenProvider } from "./loader.js";
+
+const CONFIG_FILE = `
+# Admiral profiles
+[default]
+base_url = https://default.admiral.io
+auth_scheme = token
+timeout = 10000
+token = default-token-12345
+header.X-Team = platform
+
+[profile staging]
+base_url = https://staging.admiral.io
+token_command = echo staging-token-12345
+`;
+
+describe("parseProfiles", () => {
+  it("parses sections, keys and headers", () => {
+    const profiles = parseProfiles(CONFIG_FILE);
+
+    expect(Object.keys(profiles)).toEqual(["default", "staging"]);
+    expect(profiles.default).toEqual({
+      baseUrl: "https://default.admiral.io",
+      authScheme: "token",
+      timeout: "10000",
+      token: "default-token-12345",
+      headers: { "X-Team": "platform" },
+    });
+    expect(profiles.staging?.tokenCommand).toBe("echo staging-token-12345");
+  });
+
+  it("rejects unknown keys", () => {
+    expect(() => parseProfiles("[default]\nbase_uri = x")).toThrow('unknown key "base_uri"');
+  });
+
+  it("rejects keys outside a section", () => {
+    expect(() => parseProfiles("base_url = x")).toThrow("line 1");
+  });
+});
+
+describe("loadConfig", () => {
+  let dir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "admiral-config-"));
+    configFile = join(dir, "config");
+    writeFileSync(configFile, CONFIG_FILE);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads the default profile", () => {
+    const config = loadConfig({}, { configFile, env: {} });
+
+    expect(config.baseUrl).toBe("https://default.admiral.io");
+    expect(config.authScheme).toBe("token");
+    expect(config.timeout).toBe(10000);
+    expect(config.authToken).toBe("default-token-12345");
+    expect(config.headers).toEqual({ "X-Team": "platform" });
+  });
+
+  it("selects a profile from ADMIRAL_PROFILE", () => {
+    const config = loadConfig({}, { configFile, env: { ADMIRAL_PROFILE: "staging" } });
+
+    expect(config.baseUrl).toBe("https://staging.admiral.io");
+    expect(config.tokenProvider).toBeDefined();
+  });
+
+  it("environment variables override the profile", () => {
+    const config = loadConfig(
+      {},
+      { configFile, env: { ADMIRAL_URL: "https://env.admiral.io", ADMIRAL_TOKEN: "env-token-12345" } },
+    );
+
+    expect(config.baseUrl).toBe("https://env.admiral.io");
+    expect(config.authToken).toBe("env-token-12345");
+    expect(config.authScheme).toBe("token");
+  });
+
+  it("overrides win over environment variables", () => {
+    const config = loadConfig(
+      { baseUrl: "https://override.admiral.io", headers: { "X-Extra": "1" } },
+      { configFile, env: { ADMIRAL_URL: "https://env.admiral.io" } },
+    );
+
+    expect(config.baseUrl).toBe("https://override.admiral.io");
+    expect(config.headers).toEqual({ "X-Team": "platform", "X-Extra": "1" });
+  });
+
+  it("a static token replaces a profile token command", () => {
+    const config = loadConfig({}, { configFile, profile: "staging", env: { ADMIRAL_TOKEN: "env-token-12345" } });
+
+    expect(config.authToken).toBe("env-token-12345");
+    expect(config.tokenProvider).toBeUndefined();
+  });
+
+  it("tolerates a missing config file", () => {
+    const config = loadConfig({}, { configFile: join(dir, "missing"), env: { ADMIRAL_TOKEN: "env-token-12345" } });
+
+    expect(config.authToken).toBe("env-token-12345");
+  });
+
+  it("throws when an explicitly selected profile is missing", () => {
+    expect(() => loadConfig({}, { configFile, profile: "prod", env: {} })).toThrow('Profile "prod" not found');
+  });
+
+  it("validates the merged config", () => {
+    expect(() => loadConfig({}, { configFile, env: { ADMIRAL_URL: "not a url" } })).toThrow("Invalid baseUrl");
+    expect(() => loadConfig({}, { configFile, env: { ADMIRAL_TIMEOUT: "soon" } })).toThrow("Invalid timeout");
+  });
+});
+
+describe("createCommandTokenProvider", () => {
+  it("returns the trimmed command output", async () => {
+    const provider = createCommandTokenProvider("echo '  my-token-12345  '");
+    expect(await provider()).toBe("my-token-12345");
+  });
+
+  it("rejects empty output", async () => {
+    const provider = createCommandTokenProvider("true");
+    await expect(provider()).rejects.toThrow("no output");
+  });
+});
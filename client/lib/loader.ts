@@ -0,0 +1,290 @@
+import { exec } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import type { AuthScheme, ClientConfig } from "./config.js";
+import { resolveConfig } from "./config.js";
+import type { TokenProviderFn } from "./token.js";
+
+const execAsync = promisify(exec);
+
+/** Name of the profile used when none is selected. */
+export const DEFAULT_PROFILE = "default";
+
+/**
+ * Environment variables read by `loadConfig`.
+ */
+export const CONFIG_ENV_VARS = {
+  baseUrl: "ADMIRAL_URL",
+  authToken: "ADMIRAL_TOKEN",
+  authScheme: "ADMIRAL_AUTH_SCHEME",
+  timeout: "ADMIRAL_TIMEOUT",
+  httpVersion: "ADMIRAL_HTTP_VERSION",
+  profile: "ADMIRAL_PROFILE",
+  configFile: "ADMIRAL_CONFIG",
+} as const;
+
+/**
+ * A named profile from the config file.
+ */
+export interface Profile {
+  baseUrl?: string;
+  authScheme?: string;
+  timeout?: string;
+  httpVersion?: string;
+  token?: string;
+  /** Shell command whose trimmed stdout is used as the auth token. */
+  tokenCommand?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Options for loading configuration.
+ */
+export interface LoadConfigOptions {
+  /**
+   * Profile to read from the config file.
+   * @default process.env.ADMIRAL_PROFILE ?? "default"
+   */
+  profile?: string;
+
+  /**
+   * Path to the config file.
+   * @default process.env.ADMIRAL_CONFIG ?? "$XDG_CONFIG_HOME/admiral/config" ?? "~/.config/admiral/config"
+   */
+  configFile?: string;
+
+  /**
+   * Environment to read variables from.
+   * @default process.env
+   */
+  env?: Record<string, string | undefined>;
+}
+
+const PROFILE_KEYS: Record<string, keyof Omit<Profile, "headers">> = {
+  base_url: "baseUrl",
+  auth_scheme: "authScheme",
+  timeout: "timeout",
+  http_version: "httpVersion",
+  token: "token",
+  token_command: "tokenCommand",
+};
+
+/**
+ * Parses an INI-style config file into named profiles.
+ *
+ * ```ini
+ * [default]
+ * base_url = https://api.admiral.io
+ * token_command = vault read -field=token secret/admiral
+ *
+ * [profile staging]
+ * base_url = https://staging.admiral.io
+ * header.X-Team = platform
+ * ```
+ */
+export function parseProfiles(contents: string): Record<string, Profile> {
+  const profiles: Record<string, Profile> = {};
+  let current: Profile | undefined;
+
+  const lines = contents.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = (lines[i] ?? "").trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) {
+      continue;
+    }
+
+    const section = /^\[\s*(?:profile\s+)?([^\]]+?)\s*\]$/.exec(line);
+    if (section?.[1]) {
+      current = profiles[section[1]] ??= {};
+      continue;
+    }
+
+    const eq = line.indexOf("=");
+    if (eq === -1 || !current) {
+      throw new Error(`Invalid config file: unexpected line ${i + 1}: ${line}`);
+    }
+
+    const key = line.slice(0, eq).trim();
+    const value = line.slice(eq + 1).trim().replace(/^"(.*)"$/, "$1");
+
+    if (key.startsWith("header.")) {
+      current.headers = { ...current.headers, [key.slice("header.".length)]: value };
+      continue;
+    }
+
+    const field = PROFILE_KEYS[key];
+    if (!field) {
+      throw new Error(`Invalid config file: unknown key "${key}" on line ${i + 1}`);
+    }
+    current[field] = value;
+  }
+
+  return profiles;
+}
+
+/**
+ * Returns the default config file location.
+ */
+function defaultConfigFile(env: Record<string, string | undefined>): string {
+  const configHome = env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(configHome, "admiral", "config");
+}
+
+/**
+ * Parses a numeric setting, rejecting anything that isn't a positive integer.
+ */
+function parseTimeout(value: string | undefined, source: string): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const timeout = Number(value);
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    throw new Error(`Invalid timeout from ${source}: ${value}`);
+  }
+  return timeout;
+}
+
+function parseAuthScheme(value: string | undefined, source: string): AuthScheme | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const scheme = value.toLowerCase();
+  if (scheme !== "bearer" && scheme !== "token") {
+    throw new Error(`Invalid authScheme from ${source}: ${value}`);
+  }
+  return scheme;
+}
+
+function parseHttpVersion(value: string | undefined, source: string): "1.1" | "2" | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  if (value !== "1.1" && value !== "2") {
+    throw new Error(`Invalid httpVersion from ${source}: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Creates a token provider that runs a shell command and uses its output as the token.
+ */
+export function createCommandTokenProvider(command: string): TokenProviderFn {
+  return async () => {
+    const { stdout } = await execAsync(command);
+    const token = stdout.trim();
+    if (!token) {
+      throw new Error(`Token command produced no output: ${command}`);
+    }
+    return token;
+  };
+}
+
+/**
+ * Converts a profile into client configuration.
+ */
+function profileToConfig(profile: Profile, source: string): ClientConfig {
+  const config: ClientConfig = {
+    baseUrl: profile.baseUrl || undefined,
+    authToken: profile.token || undefined,
+    authScheme: parseAuthScheme(profile.authScheme, source),
+    timeout: parseTimeout(profile.timeout, source),
+    httpVersion: parseHttpVersion(profile.httpVersion, source),
+    headers: profile.headers,
+  };
+  if (profile.tokenCommand) {
+    config.tokenProvider = createCommandTokenProvider(profile.tokenCommand);
+  }
+  return config;
+}
+
+/**
+ * Reads client configuration from environment variables.
+ */
+function envToConfig(env: Record<string, string | undefined>): ClientConfig {
+  const source = "environment";
+  return {
+    baseUrl: env[CONFIG_ENV_VARS.baseUrl] || undefined,
+    authToken: env[CONFIG_ENV_VARS.authToken] || undefined,
+    authScheme: parseAuthScheme(env[CONFIG_ENV_VARS.authScheme], `${source} ${CONFIG_ENV_VARS.authScheme}`),
+    timeout: parseTimeout(env[CONFIG_ENV_VARS.timeout], `${source} ${CONFIG_ENV_VARS.timeout}`),
+    httpVersion: parseHttpVersion(env[CONFIG_ENV_VARS.httpVersion], `${source} ${CONFIG_ENV_VARS.httpVersion}`),
+  };
+}
+
+/**
+ * Merges configs left to right, skipping undefined values. Headers are merged
+ * key by key. A static token from a later layer replaces a token command from
+ * an earlier one, and vice versa.
+ */
+function mergeConfigs(...layers: ClientConfig[]): ClientConfig {
+  const merged: ClientConfig = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer) as [keyof ClientConfig, unknown][]) {
+      if (value === undefined) {
+        continue;
+      }
+      if (key === "headers") {
+        merged.headers = { ...merged.headers, ...(value as Record<string, string>) };
+      } else {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+    if (layer.authToken && !layer.tokenProvider) {
+      delete merged.tokenProvider;
+    } else if (layer.tokenProvider && !layer.authToken) {
+      delete merged.authToken;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Loads client configuration from the profile file, environment variables and
+ * explicit overrides.
+ *
+ * Precedence, highest first:
+ * 1. `overrides`
+ * 2. Environment variables (`ADMIRAL_URL`, `ADMIRAL_TOKEN`, `ADMIRAL_AUTH_SCHEME`,
+ *    `ADMIRAL_TIMEOUT`, `ADMIRAL_HTTP_VERSION`)
+ * 3. The selected profile in the config file
+ * 4. `DEFAULT_CONFIG`
+ *
+ * The profile is selected by `options.profile`, then `ADMIRAL_PROFILE`, then
+ * `"default"`. A missing config file or default profile is not an error; an
+ * explicitly selected profile that doesn't exist is.
+ *
+ * @param overrides - Explicit configuration that wins over all other sources
+ * @param options - Profile, config file and environment selection
+ * @returns Merged configuration, validated with `resolveConfig`
+ *
+ * @example
+ * ```typescript
+ * import { createClient, loadConfig } from "@admiral-io/sdk";
+ *
+ * const client = createClient(loadConfig({ timeout: 60000 }, { profile: "staging" }));
+ * ```
+ */
+export function loadConfig(overrides: ClientConfig = {}, options: LoadConfigOptions = {}): ClientConfig {
+  const env = options.env ?? process.env;
+  const explicitProfile = options.profile ?? (env[CONFIG_ENV_VARS.profile] || undefined);
+  const profileName = explicitProfile ?? DEFAULT_PROFILE;
+  const configFile = options.configFile ?? (env[CONFIG_ENV_VARS.configFile] || defaultConfigFile(env));
+
+  let profileConfig: ClientConfig = {};
+  const profiles = existsSync(configFile) ? parseProfiles(readFileSync(configFile, "utf-8")) : {};
+  const profile = profiles[profileName];
+  if (profile) {
+    profileConfig = profileToConfig(profile, `profile "${profileName}" in ${configFile}`);
+  } else if (explicitProfile) {
+    throw new Error(`Profile "${profileName}" not found in ${configFile}`);
+  }
+
+  const config = mergeConfigs(profileConfig, envToConfig(env), overrides);
+
+  // Validate the merged result
+  resolveConfig(config);
+
+  return config;
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { createJsonLogger } from "./logger.js";
+
+describe("createJsonLogger", () => {
+  it("writes one JSON object per line", () => {
+    const lines: string[] = [];
+    const logger = createJsonLogger("debug", (line) => lines.push(line));
+
+    logger.info("connected", { baseUrl: "https://api.admiral.io", serial: 3n }, "extra", new Error("boom"));
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]?.endsWith("\n")).toBe(true);
+    expect(JSON.parse(lines[0]!)).toEqual({
+      time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      level: "info",
+      msg: "connected",
+      baseUrl: "https://api.admiral.io",
+      serial: "3",
+      error: "boom",
+      args: ["extra"],
+    });
+  });
+
+  it("skips levels below the minimum", () => {
+    const lines: string[] = [];
+    const logger = createJsonLogger("warn", (line) => lines.push(line));
+
+    logger.debug("hidden");
+    logger.info("hidden");
+    logger.warn("shown");
+    logger.error("shown");
+
+    expect(lines.map((line) => JSON.parse(line).level)).toEqual(["warn", "error"]);
+  });
+});
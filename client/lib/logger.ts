@@ -59,3 +59,59 @@ export function createConsoleLogger(minLevel: LogLevel = "debug"): Logger {
     },
   };
 }
+
+/**
+ * Creates a logger that writes one JSON object per line, for log shippers.
+ *
+ * Each line has `time`, `level` and `msg`. Object arguments are merged into
+ * the line, errors are logged as `error`, and other arguments are collected
+ * in `args`. Bigints are written as strings.
+ *
+ * @param minLevel - Minimum level to log (default: "info")
+ * @param write - Receives each line including its newline (default: standard error)
+ * @returns Logger instance
+ *
+ * @example
+ * ```typescript
+ * import { createClient, createJsonLogger } from "@admiral-io/sdk";
+ *
+ * const client = createClient({ logger: createJsonLogger("debug"), logRequests: true });
+ * // {"time":"2026-01-02T03:04:05.000Z","level":"debug","msg":"admiral.api...","service":"...","code":"ok",...}
+ * ```
+ */
+export function createJsonLogger(
+  minLevel: LogLevel = "info",
+  write: (line: string) => void = (line) => process.stderr.write(line),
+): Logger {
+  const minOrder = LOG_LEVEL_ORDER[minLevel];
+
+  function log(level: LogLevel, message: string, args: unknown[]): void {
+    if (LOG_LEVEL_ORDER[level] < minOrder) {
+      return;
+    }
+    const line: Record<string, unknown> = { time: new Date().toISOString(), level, msg: message };
+    const rest: unknown[] = [];
+    for (const arg of args) {
+      if (arg instanceof Error) {
+        line.error = arg.message;
+      } else if (arg !== null && typeof arg === "object" && !Array.isArray(arg)) {
+        Object.assign(line, arg);
+      } else {
+        rest.push(arg);
+      }
+    }
+    if (rest.length > 0) {
+      line.args = rest;
+    }
+    write(
+      JSON.stringify(line, (_key, value: unknown) => (typeof value === "bigint" ? value.toString() : value)) + "\n",
+    );
+  }
+
+  return {
+    debug: (message, ...args) => log("debug", message, args),
+    info: (message, ...args) => log("info", message, args),
+    warn: (message, ...args) => log("warn", message, args),
+    error: (message, ...args) => log("error", message, args),
+  };
+}
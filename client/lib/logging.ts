@@ -0,0 +1,159 @@
+import { ConnectError } from "@connectrpc/connect";
+import type { Interceptor } from "@connectrpc/connect";
+import { codeToString } from "@connectrpc/connect/protocol-connect";
+import { toBinary, toJson } from "@bufbuild/protobuf";
+import type { DescMessage, JsonValue, MessageShape } from "@bufbuild/protobuf";
+import { REQUEST_ID_HEADER } from "./errors.js";
+import type { Logger, LogLevel } from "./logger.js";
+import { noopLogger } from "./logger.js";
+import { REDACTED, SECRET_FIELDS, redactMessage } from "./redact.js";
+
+/**
+ * Request logging options.
+ */
+export interface RequestLogOptions {
+  /**
+   * Level for successful calls.
+   * @default "debug"
+   */
+  level?: LogLevel;
+
+  /**
+   * Level for failed calls.
+   * @default "warn"
+   */
+  errorLevel?: LogLevel;
+
+  /**
+   * Include the request and response messages as proto JSON, with secrets redacted.
+   * @default false
+   */
+  payloads?: boolean;
+
+  /**
+   * Include the request headers, with credentials redacted.
+   * @default false
+   */
+  headers?: boolean;
+
+  /**
+   * Proto names of string fields to redact from payloads, in addition to
+   * connection credentials and sensitive variable values.
+   * @default SECRET_FIELDS
+   */
+  secretFields?: readonly string[];
+}
+
+/**
+ * Fields logged for each call, passed to the logger after the message.
+ */
+export interface RequestLogEntry {
+  /** Fully-qualified service name */
+  service: string;
+  /** Method name */
+  method: string;
+  /** Connect code, "ok" for successful calls */
+  code: string;
+  durationMs: number;
+  /** Request id returned by the server, or the one sent */
+  requestId?: string;
+  /** Size of the binary request message */
+  requestBytes?: number;
+  /** Size of the binary response message */
+  responseBytes?: number;
+  /** Error message of failed calls */
+  error?: string;
+  requestHeaders?: Record<string, string>;
+  request?: JsonValue;
+  response?: JsonValue;
+}
+
+/** Request headers never logged in clear text. */
+const SECRET_HEADERS: ReadonlySet<string> = new Set(["authorization", "cookie", "proxy-authorization"]);
+
+function redactHeaders(headers: Headers): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    redacted[key] = SECRET_HEADERS.has(key.toLowerCase()) ? REDACTED : value;
+  });
+  return redacted;
+}
+
+/**
+ * Creates an interceptor that logs every call with its method, duration,
+ * status code, request id and payload sizes.
+ *
+ * Successful calls are logged at `level`, failed ones at `errorLevel`. The
+ * message reads like `admiral.api.application.v1.ApplicationAPI/GetApplication ok 12ms`
+ * and is followed by a `RequestLogEntry`. Payloads and headers are only
+ * logged when enabled, with tokens, credentials and sensitive values redacted.
+ *
+ * @param options - Levels and optional payload and header logging
+ * @param logger - Logger receiving the entries
+ *
+ * @example
+ * ```typescript
+ * import { createClient, createJsonLogger } from "@admiral-io/sdk";
+ *
+ * const client = createClient({
+ *   authToken: process.env.ADMIRAL_TOKEN,
+ *   logger: createJsonLogger("debug"),
+ *   logRequests: { payloads: true },
+ * });
+ * ```
+ */
+export function createLoggingInterceptor(options: RequestLogOptions = {}, logger: Logger = noopLogger): Interceptor {
+  const { level = "debug", errorLevel = "warn", payloads = false, headers = false } = options;
+  const secretFields = options.secretFields ?? SECRET_FIELDS;
+
+  const encode = <Desc extends DescMessage>(schema: Desc, message: MessageShape<Desc>) =>
+    toJson(schema, redactMessage(schema, message, secretFields));
+
+  return (next) => async (req) => {
+    const entry: RequestLogEntry = {
+      service: req.service.typeName,
+      method: req.method.name,
+      code: "ok",
+      durationMs: 0,
+    };
+    if (!req.stream) {
+      entry.requestBytes = toBinary(req.method.input, req.message).byteLength;
+      if (payloads) {
+        entry.request = encode(req.method.input, req.message);
+      }
+    }
+    if (headers) {
+      entry.requestHeaders = redactHeaders(req.header);
+    }
+
+    const procedure = `${req.service.typeName}/${req.method.name}`;
+    const started = performance.now();
+    const finish = (responseHeader?: Headers) => {
+      entry.durationMs = Math.round(performance.now() - started);
+      const requestId = responseHeader?.get(REQUEST_ID_HEADER) ?? req.header.get(REQUEST_ID_HEADER);
+      if (requestId) {
+        entry.requestId = requestId;
+      }
+    };
+
+    try {
+      const res = await next(req);
+      finish(res.header);
+      if (!res.stream) {
+        entry.responseBytes = toBinary(req.method.output, res.message).byteLength;
+        if (payloads) {
+          entry.response = encode(req.method.output, res.message);
+        }
+      }
+      logger[level](`${procedure} ok ${entry.durationMs}ms`, entry);
+      return res;
+    } catch (err) {
+      const connectErr = ConnectError.from(err);
+      finish(connectErr.metadata);
+      entry.code = codeToString(connectErr.code);
+      entry.error = connectErr.rawMessage;
+      logger[errorLevel](`${procedure} ${entry.code} ${entry.durationMs}ms`, entry);
+      throw err;
+    }
+  };
+}
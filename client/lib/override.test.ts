@@ -0,0 +1,178 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError, createClient, createRouterTransport } from "@connectrpc/connect";
+import { create } from "@bufbuild/protobuf";
+import {
+  applyComponentOverride,
+  diffEnvironments,
+  formatEnvironmentDiff,
+  getEffectiveComponent,
+  resolveEffectiveComponent,
+} from "./override.js";
+import {
+  ComponentAPI,
+  ComponentOverrideSchema,
+  ComponentSchema,
+  type ComponentOverride,
+} from "../../proto/admiral/api/component/v1/component_pb.js";
+import { EnvironmentAPI, EnvironmentSchema } from "../../proto/admiral/api/environment/v1/environment_pb.js";
+
+const APP_ID = "0d9b6a3e-4f1c-4b8a-9d2e-5c7f1a2b3c4d";
+
+const vpc = create(ComponentSchema, { id: "c-vpc", applicationId: APP_ID, name: "vpc", version: "5.0.0" });
+const db = create(ComponentSchema, {
+  id: "c-db",
+  applicationId: APP_ID,
+  name: "db",
+  sourceId: "s-rds",
+  version: "1.4.0",
+  valuesTemplate: JSON.stringify({ instance_class: "db.t3.small", vpc_id: "{{ .component.vpc.vpc_id }}" }),
+  dependsOn: ["c-vpc"],
+  outputs: [{ name: "endpoint", valueTemplate: "{{ .release.name }}" }],
+});
+const environments = ["staging", "prod"].map((name) =>
+  create(EnvironmentSchema, { id: `e-${name}`, applicationId: APP_ID, name }),
+);
+const overrides = [
+  create(ComponentOverrideSchema, {
+    componentId: "c-db",
+    environmentId: "e-prod",
+    version: "1.5.0",
+    valuesTemplate: JSON.stringify({ instance_class: "db.r6g.large", vpc_id: "{{ .component.vpc.vpc_id }}" }),
+  }),
+  create(ComponentOverrideSchema, { componentId: "c-vpc", environmentId: "e-staging", disabled: true, version: "6" }),
+];
+
+function createTestTransport(stored: ComponentOverride[] = overrides) {
+  return createRouterTransport((router) => {
+    router.service(ComponentAPI, {
+      getComponent(req) {
+        return { component: [vpc, db].find((c) => c.id === req.componentId) };
+      },
+      getComponentOverride(req) {
+        const override = stored.find((o) => o.componentId === req.componentId && o.environmentId === req.environmentId);
+        if (!override) {
+          throw new ConnectError("override not found", Code.NotFound);
+        }
+        return { override };
+      },
+      listComponents() {
+        return { components: [vpc, db] };
+      },
+      listComponentOverrides(req) {
+        return { overrides: stored.filter((o) => o.componentId === req.componentId) };
+      },
+    });
+    router.service(EnvironmentAPI, {
+      listEnvironments() {
+        return { environments };
+      },
+    });
+  });
+}
+
+describe("resolveEffectiveComponent", () => {
+  it("records which fields come from the override", () => {
+    const effective = resolveEffectiveComponent(db, "e-prod", overrides[0]);
+
+    expect(effective.component).toMatchObject({ version: "1.5.0", sourceId: "s-rds", hasOverride: true });
+    expect(effective.component.dependsOn).toEqual(["c-vpc"]);
+    expect(effective.sources).toEqual({
+      sourceId: "base",
+      version: "override",
+      valuesTemplate: "override",
+      dependsOn: "base",
+      outputs: "base",
+      disabled: "base",
+    });
+  });
+
+  it("ignores the other fields of a disabled override", () => {
+    const effective = resolveEffectiveComponent(vpc, "e-staging", overrides[1]);
+
+    expect(effective.component).toMatchObject({ version: "5.0.0", disabled: true });
+    expect(effective.sources.version).toBe("base");
+    expect(effective.sources.disabled).toBe("override");
+  });
+
+  it("returns the component unchanged without an override", () => {
+    expect(applyComponentOverride(db, undefined)).toBe(db);
+    expect(resolveEffectiveComponent(db, "e-staging").override).toBeUndefined();
+  });
+});
+
+describe("getEffectiveComponent", () => {
+  it("fetches the component and its override", async () => {
+    const client = createClient(ComponentAPI, createTestTransport());
+
+    const prod = await getEffectiveComponent(client, "c-db", "e-prod");
+    const staging = await getEffectiveComponent(client, "c-db", "e-staging");
+
+    expect(prod.component.version).toBe("1.5.0");
+    expect(prod.override?.environmentId).toBe("e-prod");
+    expect(staging.component.version).toBe("1.4.0");
+    expect(staging.override).toBeUndefined();
+  });
+
+  it("passes on other errors", async () => {
+    const transport = createRouterTransport((router) => {
+      router.service(ComponentAPI, {
+        getComponent: () => ({ component: db }),
+        getComponentOverride() {
+          throw new ConnectError("denied", Code.PermissionDenied);
+        },
+      });
+    });
+
+    await expect(getEffectiveComponent(createClient(ComponentAPI, transport), "c-db", "e-prod")).rejects.toThrow(
+      "denied",
+    );
+  });
+});
+
+describe("diffEnvironments", () => {
+  it("compares every component across the application's environments", async () => {
+    const transport = createTestTransport();
+    const client = {
+      component: createClient(ComponentAPI, transport),
+      environment: createClient(EnvironmentAPI, transport),
+    };
+
+    const diff = await diffEnvironments(client, APP_ID);
+
+    expect(diff.environments.map((e) => e.name)).toEqual(["staging", "prod"]);
+    expect(diff.components.map((c) => [c.base.name, c.differences])).toEqual([
+      ["vpc", ["disabled"]],
+      ["db", ["version", "valuesTemplate"]],
+    ]);
+    expect(diff.components[1]?.environments["e-prod"]?.sources.version).toBe("override");
+  });
+
+  it("formats the differences side by side", async () => {
+    const transport = createTestTransport();
+    const client = {
+      component: createClient(ComponentAPI, transport),
+      environment: createClient(EnvironmentAPI, transport),
+    };
+
+    const diff = await diffEnvironments(client, APP_ID);
+
+    expect(formatEnvironmentDiff(diff)).toBe(
+      [
+        "COMPONENT  FIELD                          staging      prod",
+        "vpc        disabled                       true*        false",
+        "db         version                        1.4.0        1.5.0*",
+        "db         valuesTemplate.instance_class  db.t3.small  db.r6g.large*",
+      ].join("\n"),
+    );
+  });
+
+  it("reports when all environments are the same", async () => {
+    const transport = createTestTransport([]);
+    const client = {
+      component: createClient(ComponentAPI, transport),
+      environment: createClient(EnvironmentAPI, transport),
+    };
+
+    expect(formatEnvironmentDiff(await diffEnvironments(client, APP_ID))).toBe("No differences.");
+  });
+});
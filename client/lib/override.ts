@@ -0,0 +1,327 @@
+import type { Client as ConnectClient } from "@connectrpc/connect";
+import { Code, ConnectError } from "@connectrpc/connect";
+import { create, toJson, type JsonValue } from "@bufbuild/protobuf";
+import {
+  ComponentOutputSchema,
+  ComponentSchema,
+  type Component,
+  type ComponentAPI,
+  type ComponentOverride,
+} from "../../proto/admiral/api/component/v1/component_pb.js";
+import type { Environment, EnvironmentAPI } from "../../proto/admiral/api/environment/v1/environment_pb.js";
+import { filterFor, renderFilter } from "./filter.js";
+import { paginate } from "./pagination.js";
+
+/** The component RPCs used to resolve a component for an environment. */
+export type EffectiveComponentClient = Pick<
+  ConnectClient<typeof ComponentAPI>,
+  "getComponent" | "getComponentOverride"
+>;
+
+/** The service RPCs used to compare the environments of an application. `Client` satisfies this. */
+export interface EnvironmentDiffClient {
+  component: Pick<ConnectClient<typeof ComponentAPI>, "listComponents" | "listComponentOverrides">;
+  environment: Pick<ConnectClient<typeof EnvironmentAPI>, "listEnvironments">;
+}
+
+/** The component fields an override can change. */
+export const OVERRIDABLE_FIELDS = [
+  "sourceId",
+  "version",
+  "valuesTemplate",
+  "dependsOn",
+  "outputs",
+  "disabled",
+] as const;
+
+/** A component field an override can change. */
+export type OverridableField = (typeof OVERRIDABLE_FIELDS)[number];
+
+/** Where an effective value comes from: the component's defaults or the environment's override. */
+export type FieldSource = "base" | "override";
+
+/**
+ * A component as deployed to one environment.
+ */
+export interface EffectiveComponent {
+  /** The component with the override applied */
+  component: Component;
+  /** The application-level component */
+  base: Component;
+  /** The environment's override, if any */
+  override?: ComponentOverride;
+  environmentId: string;
+  /** Where each overridable field's value comes from */
+  sources: Record<OverridableField, FieldSource>;
+}
+
+/**
+ * One component compared across environments.
+ */
+export interface ComponentDiff {
+  /** The application-level component */
+  base: Component;
+  /** The component as deployed to each environment, by environment ID */
+  environments: Record<string, EffectiveComponent>;
+  /** Fields whose effective value is not the same in every environment */
+  differences: OverridableField[];
+}
+
+/**
+ * The components of an application compared across its environments.
+ */
+export interface EnvironmentDiff {
+  /** The application's environments, in the order listed */
+  environments: Environment[];
+  components: ComponentDiff[];
+}
+
+/**
+ * Returns where each field of a component comes from under an override.
+ * Values templates, dependencies and outputs are replaced, never merged.
+ * A disabled override's other fields are ignored.
+ */
+function fieldSources(override: ComponentOverride | undefined): Record<OverridableField, FieldSource> {
+  const active = override && !override.disabled ? override : undefined;
+  const source = (overridden: boolean | undefined): FieldSource => (overridden ? "override" : "base");
+  return {
+    sourceId: source(active?.sourceId !== undefined),
+    version: source(active?.version !== undefined),
+    valuesTemplate: source(active?.valuesTemplate !== undefined),
+    dependsOn: source(active && active.dependsOn.length > 0),
+    outputs: source(active && active.outputs.length > 0),
+    disabled: source(override?.disabled),
+  };
+}
+
+/**
+ * Returns a component with an environment's override applied, like
+ * ListComponents with an `environment_id` does. `depends_on` and `outputs`
+ * are only replaced when the override sets them; a disabled override's
+ * other fields are ignored.
+ */
+export function applyComponentOverride(component: Component, override: ComponentOverride | undefined): Component {
+  if (!override) {
+    return component;
+  }
+  const sources = fieldSources(override);
+  const pick = <F extends Exclude<OverridableField, "disabled">>(field: F) =>
+    (sources[field] === "override" ? override[field] : component[field]) as Component[F];
+  return create(ComponentSchema, {
+    ...component,
+    sourceId: pick("sourceId"),
+    version: pick("version"),
+    valuesTemplate: pick("valuesTemplate"),
+    dependsOn: pick("dependsOn"),
+    outputs: pick("outputs"),
+    disabled: override.disabled,
+    hasOverride: true,
+  });
+}
+
+/**
+ * Resolves a component for an environment, recording where each field comes from.
+ *
+ * @param component - The application-level component
+ * @param environmentId - The environment to resolve for
+ * @param override - The environment's override of the component, if any
+ */
+export function resolveEffectiveComponent(
+  component: Component,
+  environmentId: string,
+  override?: ComponentOverride,
+): EffectiveComponent {
+  return {
+    component: applyComponentOverride(component, override),
+    base: component,
+    ...(override && { override }),
+    environmentId,
+    sources: fieldSources(override),
+  };
+}
+
+/**
+ * Fetches a component and its override for an environment and returns what
+ * the environment deploys.
+ *
+ * @param client - Component service client, e.g. `client.component`
+ * @param componentId - Component to resolve
+ * @param environmentId - Environment to resolve for
+ *
+ * @example
+ * ```typescript
+ * const effective = await client.component.getEffectiveComponent(componentId, prodId);
+ * console.log(effective.component.version, effective.sources.version); // "1.5.0" "override"
+ * ```
+ */
+export async function getEffectiveComponent(
+  client: EffectiveComponentClient,
+  componentId: string,
+  environmentId: string,
+): Promise<EffectiveComponent> {
+  const [{ component }, override] = await Promise.all([
+    client.getComponent({ componentId }),
+    client.getComponentOverride({ componentId, environmentId }).then(
+      (res) => res.override,
+      (err: unknown) => {
+        if (ConnectError.from(err).code === Code.NotFound) {
+          return undefined;
+        }
+        throw err;
+      },
+    ),
+  ]);
+  return resolveEffectiveComponent(component!, environmentId, override);
+}
+
+/** Compares field values, treating messages and lists by content. */
+function sameValue(field: OverridableField, a: Component, b: Component): boolean {
+  return JSON.stringify(fieldValue(field, a)) === JSON.stringify(fieldValue(field, b));
+}
+
+function fieldValue(field: OverridableField, component: Component): JsonValue {
+  return field === "outputs"
+    ? component.outputs.map((output) => toJson(ComponentOutputSchema, output))
+    : (component[field] as JsonValue);
+}
+
+/**
+ * Compares every component of an application across its environments.
+ *
+ * @param client - Client with the component and environment services, e.g. the `Client`
+ * @param applicationId - Application to compare
+ *
+ * @example
+ * ```typescript
+ * const diff = await diffEnvironments(client, applicationId);
+ * console.log(formatEnvironmentDiff(diff));
+ * ```
+ */
+export async function diffEnvironments(client: EnvironmentDiffClient, applicationId: string): Promise<EnvironmentDiff> {
+  const [environments, components] = await Promise.all([
+    paginate(client.environment.listEnvironments, {
+      filter: renderFilter(filterFor("environment").eq("application_id", applicationId)),
+    }).collect(),
+    paginate(client.component.listComponents, {
+      filter: renderFilter(filterFor("component").eq("application_id", applicationId)),
+    }).collect(),
+  ]);
+  const overrides = await Promise.all(
+    components.map((c) => paginate(client.component.listComponentOverrides, { componentId: c.id }).collect()),
+  );
+
+  return {
+    environments,
+    components: components.map((base, i) => {
+      const byEnvironment = new Map(overrides[i]!.map((o) => [o.environmentId, o]));
+      const resolved = environments.map((env) => resolveEffectiveComponent(base, env.id, byEnvironment.get(env.id)));
+      const [first, ...rest] = resolved;
+      return {
+        base,
+        environments: Object.fromEntries(resolved.map((e) => [e.environmentId, e])),
+        differences: OVERRIDABLE_FIELDS.filter(
+          (field) => first !== undefined && rest.some((e) => !sameValue(field, first.component, e.component)),
+        ),
+      };
+    }),
+  };
+}
+
+/**
+ * Returns the rows a field is shown as: one per values key for JSON object
+ * templates, so a replaced template shows which values actually change.
+ */
+function fieldRows(field: OverridableField, component: Component, names: Map<string, string>): Map<string, string> {
+  switch (field) {
+    case "dependsOn":
+      return new Map([[field, component.dependsOn.map((id) => names.get(id) ?? id).join(", ")]]);
+    case "outputs":
+      return new Map([[field, component.outputs.map((o) => o.name).join(", ")]]);
+    case "valuesTemplate": {
+      let values: unknown;
+      try {
+        values = JSON.parse(component.valuesTemplate || "{}");
+      } catch {
+        return new Map([[field, component.valuesTemplate]]);
+      }
+      if (values === null || typeof values !== "object" || Array.isArray(values)) {
+        return new Map([[field, component.valuesTemplate]]);
+      }
+      return new Map(
+        Object.entries(values).map(([key, value]) => [
+          `${field}.${key}`,
+          typeof value === "string" ? value : JSON.stringify(value),
+        ]),
+      );
+    }
+    default:
+      return new Map([[field, String(component[field])]]);
+  }
+}
+
+/**
+ * Formats the differences between environments as a table with a column
+ * per environment. Only components and fields that differ are listed;
+ * overridden values are marked with `*` and missing values shown as `-`.
+ *
+ * @example
+ * ```
+ * COMPONENT  FIELD                          staging      prod
+ * vpc        disabled                       true*        false
+ * db         version                        1.4.0        1.5.0*
+ * db         valuesTemplate.instance_class  db.t3.small  db.r6g.large*
+ * ```
+ */
+export function formatEnvironmentDiff(diff: EnvironmentDiff): string {
+  const names = new Map(diff.components.map((c) => [c.base.id, c.base.name]));
+  const header = ["COMPONENT", "FIELD", ...diff.environments.map((e) => e.name)];
+  const rows: string[][] = [];
+
+  for (const { base, environments, differences } of diff.components) {
+    for (const field of differences) {
+      const cells = diff.environments.map((env) => {
+        const effective = environments[env.id]!;
+        const marker = effective.sources[field] === "override" ? "*" : "";
+        return { marker, rows: fieldRows(field, effective.component, names) };
+      });
+      const keys = [...new Set(cells.flatMap((cell) => [...cell.rows.keys()]))];
+      for (const key of keys) {
+        const values = cells.map((cell) => (cell.rows.has(key) ? `${cell.rows.get(key)}${cell.marker}` : "-"));
+        if (new Set(values.map((v) => v.replace(/\*$/, ""))).size > 1) {
+          rows.push([base.name, key, ...values]);
+        }
+      }
+    }
+  }
+  if (rows.length === 0) {
+    return "No differences.";
+  }
+
+  const widths = header.map((_, i) => Math.max(...[header, ...rows].map((row) => row[i]!.length)));
+  return [header, ...rows]
+    .map((row) =>
+      row
+        .map((cell, i) => cell.padEnd(widths[i]!))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+}
+
+/**
+ * A component service client extended with `getEffectiveComponent()`.
+ */
+export type WithEffectiveComponent<C extends EffectiveComponentClient> = C & {
+  /** Returns a component as deployed to an environment. See `getEffectiveComponent`. */
+  getEffectiveComponent(componentId: string, environmentId: string): Promise<EffectiveComponent>;
+};
+
+/**
+ * Adds `getEffectiveComponent()` to a component service client.
+ */
+export function withEffectiveComponent<C extends EffectiveComponentClient>(client: C): WithEffectiveComponent<C> {
+  return Object.assign(client, {
+    getEffectiveComponent: (componentId: string, environmentId: string) =>
+      getEffectiveComponent(client, componentId, environmentId),
+  });
+}
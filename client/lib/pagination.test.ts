@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError, createClient, createRouterTransport } from "@connectrpc/connect";
+import { paginate, withListAll } from "./pagination.js";
+import { DeploymentAPI } from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+
+// Helper to create a deployment client that serves `total` deployments in pages
+function createPagedClient(total: number) {
+  const requests: { pageSize: number; pageToken: string; filter: string }[] = [];
+  const transport = createRouterTransport((router) => {
+    router.service(DeploymentAPI, {
+      listDeployments(req) {
+        requests.push({ pageSize: req.pageSize, pageToken: req.pageToken, filter: req.filter });
+        const pageSize = req.pageSize || 2;
+        const start = req.pageToken ? Number(req.pageToken) : 0;
+        const end = Math.min(start + pageSize, total);
+        const deployments = [];
+        for (let i = start; i < end; i++) {
+          deployments.push({ id: `dep-${i}` });
+        }
+        return { deployments, nextPageToken: end < total ? String(end) : "" };
+      },
+    });
+  });
+  return { client: createClient(DeploymentAPI, transport), requests };
+}
+
+describe("paginate", () => {
+  it("iterates items across all pages", async () => {
+    const { client, requests } = createPagedClient(5);
+
+    const ids: string[] = [];
+    for await (const deployment of paginate(client.listDeployments, { filter: "x" })) {
+      ids.push(deployment.id);
+    }
+
+    expect(ids).toEqual(["dep-0", "dep-1", "dep-2", "dep-3", "dep-4"]);
+    expect(requests.map((r) => r.pageToken)).toEqual(["", "2", "4"]);
+    expect(requests.every((r) => r.filter === "x")).toBe(true);
+  });
+
+  it("collects items and honors pageSize", async () => {
+    const { client, requests } = createPagedClient(5);
+
+    const items = await paginate(client.listDeployments, {}, { pageSize: 3 }).collect();
+
+    expect(items).toHaveLength(5);
+    expect(requests).toHaveLength(2);
+    expect(requests[0]?.pageSize).toBe(3);
+  });
+
+  it("iterates whole pages", async () => {
+    const { client } = createPagedClient(5);
+
+    const sizes: number[] = [];
+    for await (const page of paginate(client.listDeployments, {}).pages()) {
+      sizes.push(page.length);
+    }
+
+    expect(sizes).toEqual([2, 2, 1]);
+  });
+
+  it("stops at maxItems without fetching further pages", async () => {
+    const { client, requests } = createPagedClient(10);
+
+    const items = await paginate(client.listDeployments, {}, { maxItems: 3 }).collect();
+
+    expect(items.map((d) => d.id)).toEqual(["dep-0", "dep-1", "dep-2"]);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("prefetches the next page", async () => {
+    const { client, requests } = createPagedClient(6);
+
+    const iterator = paginate(client.listDeployments, {}, { prefetch: true })[Symbol.asyncIterator]();
+    await iterator.next();
+    // Give the prefetched request time to reach the handler
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(requests).toHaveLength(2);
+    await iterator.return?.();
+  });
+
+  it("cancels the prefetched page when the consumer stops early", async () => {
+    const { client } = createPagedClient(6);
+    const signals: (AbortSignal | undefined)[] = [];
+    const listDeployments: typeof client.listDeployments = (req, options) => {
+      signals.push(options?.signal);
+      return client.listDeployments(req, options);
+    };
+
+    for await (const deployment of paginate(listDeployments, {}, { prefetch: true })) {
+      expect(deployment.id).toBe("dep-0");
+      break;
+    }
+
+    expect(signals).toHaveLength(2);
+    expect(signals[1]?.aborted).toBe(true);
+  });
+
+  it("stops when the signal aborts", async () => {
+    const { client } = createPagedClient(10);
+    const controller = new AbortController();
+
+    const consume = async () => {
+      for await (const deployment of paginate(client.listDeployments, {}, { signal: controller.signal })) {
+        if (deployment.id === "dep-2") {
+          controller.abort();
+        }
+      }
+    };
+
+    const err = await consume().catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(ConnectError);
+    expect((err as ConnectError).code).toBe(Code.Canceled);
+  });
+});
+
+describe("withListAll", () => {
+  it("adds listAll for the primary List method", async () => {
+    const { client } = createPagedClient(3);
+
+    const items = await withListAll(client, "listDeployments").listAll().collect();
+
+    expect(items.map((d) => d.id)).toEqual(["dep-0", "dep-1", "dep-2"]);
+  });
+});
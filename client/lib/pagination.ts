@@ -0,0 +1,209 @@
+import type { CallOptions } from "@connectrpc/connect";
+import { Code, ConnectError } from "@connectrpc/connect";
+
+/**
+ * A List RPC: takes a request with a page token and returns one page of items.
+ */
+export type ListMethod<Req, Res extends { nextPageToken: string }> = (
+  request: Req,
+  options?: CallOptions,
+) => Promise<Res>;
+
+/**
+ * Item type of a List response, i.e. the element type of its repeated field.
+ */
+export type PageItem<Res> = {
+  [K in keyof Res]-?: K extends `$${string}` ? never : Res[K] extends readonly (infer U)[] ? U : never;
+}[keyof Res];
+
+/**
+ * Pagination options.
+ */
+export interface PaginateOptions {
+  /** Page size to request. Uses the request's pageSize, then the server default. */
+  pageSize?: number;
+
+  /** Stop after yielding this many items. */
+  maxItems?: number;
+
+  /**
+   * Request the next page while the current one is being consumed. The
+   * request is cancelled when the iteration ends before reaching it.
+   * @default false
+   */
+  prefetch?: boolean;
+
+  /** Aborts the iteration and any in-flight page request. */
+  signal?: AbortSignal;
+
+  /** Options passed to every page request. */
+  callOptions?: CallOptions;
+}
+
+/**
+ * Async iterable over the items of every page.
+ */
+export interface PageIterable<T> extends AsyncIterable<T> {
+  /** Iterates whole pages instead of single items. */
+  pages(): AsyncIterable<T[]>;
+
+  /** Reads all remaining items into an array. */
+  collect(): Promise<T[]>;
+}
+
+/**
+ * Returns the items of a List response: the value of its only repeated field.
+ */
+function pageItems<T>(response: object): T[] {
+  for (const [key, value] of Object.entries(response)) {
+    if (!key.startsWith("$") && Array.isArray(value)) {
+      return value as T[];
+    }
+  }
+  return [];
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw ConnectError.from(signal.reason ?? new Error("operation was aborted"), Code.Canceled);
+  }
+}
+
+/**
+ * Iterates every item of a List RPC, following `nextPageToken` until the last page.
+ *
+ * @param method - A List method of a service client, e.g. `client.deployment.listDeployments`
+ * @param request - The first page request; its pageToken is used as the starting point
+ * @param options - Page size, item limit, prefetching and cancellation
+ * @returns Async iterable of items with `pages()` and `collect()` helpers
+ *
+ * @example
+ * ```typescript
+ * import { paginate } from "@admiral-io/sdk";
+ *
+ * for await (const app of paginate(client.application.listApplications, { filter })) {
+ *   console.log(app.name);
+ * }
+ *
+ * const revisions = await paginate(client.deployment.listRevisions, { deploymentId }).collect();
+ * ```
+ */
+export function paginate<Req, Res extends { nextPageToken: string }>(
+  method: ListMethod<Req, Res>,
+  request: Req,
+  options: PaginateOptions = {},
+): PageIterable<PageItem<Res>> {
+  type Item = PageItem<Res>;
+  const { maxItems, prefetch = false, signal } = options;
+  const callerSignal = signal ?? options.callOptions?.signal;
+  const initial = request as Req & { pageSize?: number; pageToken?: string };
+
+  function fetchPage(pageToken: string | undefined, controller: AbortController): Promise<Res> {
+    throwIfAborted(signal);
+    const pageRequest = {
+      ...initial,
+      pageSize: options.pageSize ?? initial.pageSize,
+      pageToken,
+    } as Req;
+    return method(pageRequest, { ...options.callOptions, signal: controller.signal });
+  }
+
+  async function* pages(): AsyncGenerator<Item[]> {
+    // One signal for the caller's cancellation and the end of the iteration,
+    // which cancels a prefetched page the consumer stopped before reading
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(callerSignal?.reason);
+    if (callerSignal?.aborted) {
+      onAbort();
+    }
+    callerSignal?.addEventListener("abort", onAbort, { once: true });
+
+    let yielded = 0;
+    let pending: Promise<Res> | undefined;
+    try {
+      pending = fetchPage(initial.pageToken, controller);
+      while (pending) {
+        const response: Res = await pending;
+        pending = undefined;
+        let items = pageItems<Item>(response);
+
+        if (maxItems !== undefined && yielded + items.length >= maxItems) {
+          items = items.slice(0, maxItems - yielded);
+          if (items.length > 0) {
+            yield items;
+          }
+          return;
+        }
+
+        const next = response.nextPageToken ? response.nextPageToken : undefined;
+        if (next && prefetch) {
+          pending = fetchPage(next, controller);
+          // Avoid an unhandled rejection while the consumer handles this page
+          pending.catch(() => {});
+        }
+
+        yielded += items.length;
+        if (items.length > 0) {
+          yield items;
+        }
+
+        if (next && !pending) {
+          pending = fetchPage(next, controller);
+        }
+      }
+    } finally {
+      callerSignal?.removeEventListener("abort", onAbort);
+      controller.abort();
+      // A prefetched page the consumer stopped before reading ends with Canceled
+      await pending?.catch(() => {});
+    }
+  }
+
+  async function* items(): AsyncGenerator<Item> {
+    for await (const page of pages()) {
+      for (const item of page) {
+        throwIfAborted(signal);
+        yield item;
+      }
+    }
+  }
+
+  return {
+    [Symbol.asyncIterator]: () => items(),
+    pages,
+    async collect() {
+      const result: Item[] = [];
+      for await (const page of pages()) {
+        result.push(...page);
+      }
+      return result;
+    },
+  };
+}
+
+/** Any function shaped like a List RPC. */
+type AnyListMethod = (request: never, options?: CallOptions) => Promise<{ nextPageToken: string }>;
+
+/**
+ * A service client extended with `listAll()` for its primary List RPC.
+ */
+export type WithListAll<C, K extends keyof C> = C & {
+  /**
+   * Iterates every item of the service's primary List RPC.
+   * See `paginate` for the options.
+   */
+  listAll(
+    request?: C[K] extends AnyListMethod ? Parameters<C[K]>[0] : never,
+    options?: PaginateOptions,
+  ): PageIterable<C[K] extends AnyListMethod ? PageItem<Awaited<ReturnType<C[K]>>> : never>;
+};
+
+/**
+ * Adds `listAll()` to a service client, paginating the given List method.
+ */
+export function withListAll<C extends object, K extends keyof C>(client: C, key: K): WithListAll<C, K> {
+  const method = client[key] as ListMethod<unknown, { nextPageToken: string }>;
+  return Object.assign(client, {
+    listAll: (request: unknown = {}, options?: PaginateOptions) => paginate(method, request, options),
+  }) as WithListAll<C, K>;
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError, createClient, createRouterTransport } from "@connectrpc/connect";
+import { createRateLimitInterceptor, type RateLimitConfig } from "./ratelimit.js";
+import type { Logger } from "./logger.js";
+import { ApplicationAPI } from "../../proto/admiral/api/application/v1/application_pb.js";
+
+// Helper to create a client whose getApplication calls wait until released
+function createTestClient(config: RateLimitConfig, logger?: Logger) {
+  let active = 0;
+  let maxActive = 0;
+  const started: number[] = [];
+  const gates: (() => void)[] = [];
+  let blocking = false;
+  let failures = 0;
+
+  const transport = createRouterTransport(
+    (router) => {
+      router.service(ApplicationAPI, {
+        async getApplication() {
+          started.push(performance.now());
+          if (failures > 0) {
+            failures--;
+            throw new ConnectError("slow down", Code.ResourceExhausted);
+          }
+          active++;
+          maxActive = Math.max(maxActive, active);
+          if (blocking) {
+            await new Promise<void>((resolve) => gates.push(resolve));
+          }
+          active--;
+          return {};
+        },
+        listApplications() {
+          started.push(performance.now());
+          return {};
+        },
+      });
+    },
+    { transport: { interceptors: [createRateLimitInterceptor(config, logger)] } },
+  );
+  return {
+    client: createClient(ApplicationAPI, transport),
+    started,
+    maxActive: () => maxActive,
+    block: () => (blocking = true),
+    release: () => gates.splice(0).forEach((open) => open()),
+    failNext: (n: number) => (failures = n),
+  };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe("createRateLimitInterceptor", () => {
+  it("limits calls in flight", async () => {
+    const t = createTestClient({ maxConcurrent: 2 });
+    t.block();
+
+    const calls = Array.from({ length: 5 }, () => t.client.getApplication({}));
+    await tick();
+    expect(t.started).toHaveLength(2);
+
+    while (t.started.length < 5) {
+      t.release();
+      await tick();
+    }
+    t.release();
+    await Promise.all(calls);
+
+    expect(t.maxActive()).toBe(2);
+  });
+
+  it("spaces calls by the token bucket rate", async () => {
+    const t = createTestClient({ requestsPerSecond: 20, burst: 1 });
+
+    await Promise.all(Array.from({ length: 4 }, () => t.client.getApplication({})));
+
+    // One call from the bucket, then one every 50ms
+    expect(t.started[3]! - t.started[0]!).toBeGreaterThanOrEqual(140);
+  });
+
+  it("applies method limits only to their method", async () => {
+    const t = createTestClient({ limits: { getApplication: { maxConcurrent: 1 } } });
+    t.block();
+
+    const gets = [t.client.getApplication({}), t.client.getApplication({})];
+    await t.client.listApplications({});
+    await tick();
+
+    expect(t.started).toHaveLength(2); // one get and the list
+    t.release();
+    await tick();
+    t.release();
+    await Promise.all(gets);
+  });
+
+  it("cancels queued calls when their signal aborts", async () => {
+    const t = createTestClient({ maxConcurrent: 1 });
+    t.block();
+    const first = t.client.getApplication({});
+    const controller = new AbortController();
+    const queued = t.client.getApplication({}, { signal: controller.signal });
+    await tick();
+
+    controller.abort();
+
+    await expect(queued).rejects.toMatchObject({ code: Code.Canceled });
+    t.release();
+    await first;
+    expect(t.started).toHaveLength(1);
+  });
+
+  it("lowers the rate after ResourceExhausted", async () => {
+    const messages: string[] = [];
+    const logger: Logger = { debug: (m) => messages.push(m), info() {}, warn() {}, error() {} };
+    const t = createTestClient({ requestsPerSecond: 40, burst: 1, limits: { getApplication: {} } }, logger);
+    t.failNext(1);
+
+    await expect(t.client.getApplication({})).rejects.toMatchObject({ code: Code.ResourceExhausted });
+    await t.client.getApplication({});
+    await t.client.getApplication({});
+
+    expect(messages).toEqual(["rate limit client lowered to 20 requests/s"]);
+    // Two calls at 20/s after the bucket was emptied
+    expect(t.started[2]! - t.started[0]!).toBeGreaterThanOrEqual(90);
+  });
+});
@@ -0,0 +1,248 @@
+import { Code, ConnectError } from "@connectrpc/connect";
+import type { Interceptor } from "@connectrpc/connect";
+import type { Logger } from "./logger.js";
+import { noopLogger } from "./logger.js";
+
+/**
+ * Limits for a group of calls. Omitted limits are not enforced.
+ */
+export interface RateLimit {
+  /** Sustained calls per second */
+  requestsPerSecond?: number;
+
+  /**
+   * Calls that may start at once before the rate applies (the bucket size).
+   * @default Math.max(1, requestsPerSecond)
+   */
+  burst?: number;
+
+  /** Calls in flight at the same time */
+  maxConcurrent?: number;
+}
+
+/**
+ * Client-side rate limiting. The top-level limits apply to all calls of the
+ * client together.
+ */
+export interface RateLimitConfig extends RateLimit {
+  /**
+   * Additional limits for a service or method, keyed by the fully-qualified
+   * service (`"admiral.api.cluster.v1.ClusterAPI"`), the procedure
+   * (`"admiral.api.cluster.v1.ClusterAPI/ListWorkloads"`) or the client
+   * method name (`"listWorkloads"`), which matches that method on every
+   * service. A call waits for every limit that matches it; each entry is
+   * shared by all calls it matches.
+   */
+  limits?: Record<string, RateLimit>;
+
+  /**
+   * Factor applied to the rate when the server responds with ResourceExhausted.
+   * @default 0.5
+   */
+  backoffFactor?: number;
+
+  /**
+   * Milliseconds without ResourceExhausted after which a lowered rate is
+   * raised again by one step, up to the configured rate.
+   * @default 10000
+   */
+  recoveryInterval?: number;
+}
+
+/** Default rate limit adaptation. */
+export const DEFAULT_RATE_LIMIT_CONFIG = {
+  backoffFactor: 0.5,
+  recoveryInterval: 10000,
+} as const;
+
+// Lowest fraction of the configured rate adaptation goes down to
+const MIN_RATE_FRACTION = 1 / 64;
+
+interface Waiter {
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+  signal: AbortSignal;
+  onAbort: () => void;
+}
+
+/**
+ * A token bucket combined with a semaphore. Calls wait in FIFO order until
+ * both a token and a concurrency slot are free.
+ */
+class Limiter {
+  private readonly burst: number;
+  private tokens: number;
+  private rate: number;
+  private refilledAt = performance.now();
+  private lastThrottled = 0;
+  private inFlight = 0;
+  private readonly queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    readonly name: string,
+    private readonly limit: RateLimit,
+    private readonly backoffFactor: number,
+    private readonly recoveryInterval: number,
+  ) {
+    this.rate = limit.requestsPerSecond ?? Infinity;
+    this.burst = limit.burst ?? Math.max(1, limit.requestsPerSecond ?? 1);
+    this.tokens = this.burst;
+  }
+
+  /** Current rate in calls per second */
+  get currentRate(): number {
+    return this.rate;
+  }
+
+  /**
+   * Waits for a token and a concurrency slot.
+   *
+   * @returns Releases the concurrency slot
+   * @throws ConnectError Canceled if the signal aborts while waiting
+   */
+  async acquire(signal: AbortSignal): Promise<() => void> {
+    if (signal.aborted) {
+      throw ConnectError.from(signal.reason ?? new Error("operation was aborted"), Code.Canceled);
+    }
+    if (this.queue.length > 0 || !this.tryTake()) {
+      await new Promise<void>((resolve, reject) => {
+        const waiter: Waiter = {
+          resolve,
+          reject,
+          signal,
+          onAbort: () => {
+            this.queue.splice(this.queue.indexOf(waiter), 1);
+            reject(ConnectError.from(signal.reason ?? new Error("operation was aborted"), Code.Canceled));
+            this.pump();
+          },
+        };
+        signal.addEventListener("abort", waiter.onAbort, { once: true });
+        this.queue.push(waiter);
+        this.pump();
+      });
+    }
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.inFlight--;
+        this.pump();
+      }
+    };
+  }
+
+  /** Lowers the rate after the server throttled a call. */
+  throttle(): boolean {
+    if (this.limit.requestsPerSecond === undefined) {
+      return false;
+    }
+    const floor = this.limit.requestsPerSecond * MIN_RATE_FRACTION;
+    this.refill();
+    this.rate = Math.max(floor, this.rate * this.backoffFactor);
+    this.tokens = Math.min(this.tokens, 0);
+    this.lastThrottled = performance.now();
+    return true;
+  }
+
+  private refill(): void {
+    const now = performance.now();
+    const configured = this.limit.requestsPerSecond ?? Infinity;
+    if (this.rate < configured && now - this.lastThrottled >= this.recoveryInterval) {
+      this.rate = Math.min(configured, this.rate / this.backoffFactor);
+      this.lastThrottled = now;
+    }
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.refilledAt) / 1000) * this.rate);
+    this.refilledAt = now;
+  }
+
+  private tryTake(): boolean {
+    if (this.limit.maxConcurrent !== undefined && this.inFlight >= this.limit.maxConcurrent) {
+      return false;
+    }
+    if (this.rate !== Infinity) {
+      this.refill();
+      if (this.tokens < 1) {
+        return false;
+      }
+      this.tokens--;
+    }
+    this.inFlight++;
+    return true;
+  }
+
+  /** Starts queued calls while capacity allows, then waits for the next token. */
+  private pump(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    while (this.queue.length > 0 && this.tryTake()) {
+      const waiter = this.queue.shift()!;
+      waiter.signal.removeEventListener("abort", waiter.onAbort);
+      waiter.resolve();
+    }
+    const blockedOnRate = this.limit.maxConcurrent === undefined || this.inFlight < this.limit.maxConcurrent;
+    if (this.queue.length > 0 && blockedOnRate) {
+      const wait = ((1 - this.tokens) / this.rate) * 1000;
+      this.timer = setTimeout(() => this.pump(), Math.max(1, Math.ceil(wait)));
+    }
+  }
+}
+
+/**
+ * Creates an interceptor that limits the rate and concurrency of calls.
+ *
+ * Calls over a limit are queued in order and started as tokens and slots
+ * become free; the call's `AbortSignal` removes it from the queue with a
+ * Canceled error. When the server responds with ResourceExhausted, the rate of
+ * every matching limit is multiplied by `backoffFactor` and recovers step by
+ * step after `recoveryInterval` without throttling.
+ *
+ * @param config - Global limits, per-service and per-method limits and adaptation
+ * @param logger - Receives a debug message when a rate is lowered
+ *
+ * @example
+ * ```typescript
+ * const client = createClient({
+ *   authToken: process.env.ADMIRAL_TOKEN,
+ *   rateLimit: {
+ *     requestsPerSecond: 50,
+ *     maxConcurrent: 10,
+ *     limits: { "admiral.api.cluster.v1.ClusterAPI/ListWorkloads": { requestsPerSecond: 5 } },
+ *   },
+ * });
+ * ```
+ */
+export function createRateLimitInterceptor(config: RateLimitConfig, logger: Logger = noopLogger): Interceptor {
+  const backoffFactor = config.backoffFactor ?? DEFAULT_RATE_LIMIT_CONFIG.backoffFactor;
+  const recoveryInterval = config.recoveryInterval ?? DEFAULT_RATE_LIMIT_CONFIG.recoveryInterval;
+  const create = (name: string, limit: RateLimit) => new Limiter(name, limit, backoffFactor, recoveryInterval);
+
+  const global = create("client", config);
+  const scoped = new Map(Object.entries(config.limits ?? {}).map(([key, limit]) => [key, create(key, limit)]));
+
+  return (next) => async (req) => {
+    const keys = [req.service.typeName, `${req.service.typeName}/${req.method.name}`, req.method.localName];
+    const limiters = [global, ...keys.flatMap((key) => scoped.get(key) ?? [])];
+
+    const releases: (() => void)[] = [];
+    try {
+      for (const limiter of limiters) {
+        releases.push(await limiter.acquire(req.signal));
+      }
+      return await next(req);
+    } catch (err) {
+      if (ConnectError.from(err).code === Code.ResourceExhausted) {
+        for (const limiter of limiters) {
+          if (limiter.throttle()) {
+            logger.debug(`rate limit ${limiter.name} lowered to ${limiter.currentRate} requests/s`);
+          }
+        }
+      }
+      throw err;
+    } finally {
+      for (const release of releases) {
+        release();
+      }
+    }
+  };
+}
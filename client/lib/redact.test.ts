@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import { REDACTED, redactMessage } from "./redact.js";
+import { ConnectionSchema } from "../../proto/admiral/api/connection/v1/connection_pb.js";
+import { CreateRunnerResponseSchema } from "../../proto/admiral/api/runner/v1/runner_pb.js";
+import {
+  ListVariablesResponseSchema,
+  UpdateVariableRequestSchema,
+} from "../../proto/admiral/api/variable/v1/variable_pb.js";
+
+describe("redactMessage", () => {
+  it("redacts issued tokens without changing the original", () => {
+    const response = create(CreateRunnerResponseSchema, {
+      runner: { name: "tf" },
+      plainTextToken: "adm_agt_secret",
+    });
+
+    const redacted = redactMessage(CreateRunnerResponseSchema, response);
+
+    expect(redacted.plainTextToken).toBe(REDACTED);
+    expect(redacted.runner?.name).toBe("tf");
+    expect(response.plainTextToken).toBe("adm_agt_secret");
+  });
+
+  it("redacts every string of a connection's credentials", () => {
+    const connection = create(ConnectionSchema, {
+      name: "github",
+      authConfig: { case: "gitGithubApp", value: { appId: "42", installationId: "7", privateKey: "-----BEGIN" } },
+    });
+
+    const redacted = redactMessage(ConnectionSchema, connection);
+
+    expect(redacted.name).toBe("github");
+    expect(redacted.authConfig).toMatchObject({
+      case: "gitGithubApp",
+      value: { appId: REDACTED, installationId: REDACTED, privateKey: REDACTED },
+    });
+  });
+
+  it("redacts sensitive variable values only", () => {
+    const response = create(ListVariablesResponseSchema, {
+      variables: [
+        { key: "DB_PASSWORD", value: "hunter2", sensitive: true },
+        { key: "LOG_LEVEL", value: "debug" },
+      ],
+    });
+
+    const redacted = redactMessage(ListVariablesResponseSchema, response);
+
+    expect(redacted.variables.map((v) => v.value)).toEqual([REDACTED, "debug"]);
+  });
+
+  it("redacts variable values of masked updates that leave out the sensitive flag", () => {
+    const update = (paths: string[]) =>
+      create(UpdateVariableRequestSchema, {
+        variable: { key: "DB_PASSWORD", value: "hunter3" },
+        updateMask: { paths },
+      });
+
+    expect(redactMessage(UpdateVariableRequestSchema, update(["value"])).variable?.value).toBe(REDACTED);
+    expect(redactMessage(UpdateVariableRequestSchema, update(["value", "sensitive"])).variable?.value).toBe("hunter3");
+    expect(redactMessage(UpdateVariableRequestSchema, update([])).variable?.value).toBe("hunter3");
+  });
+
+  it("keeps empty secrets empty and accepts custom fields", () => {
+    const response = create(CreateRunnerResponseSchema, { runner: { name: "tf", description: "internal" } });
+
+    const redacted = redactMessage(CreateRunnerResponseSchema, response, ["description"]);
+
+    expect(redacted.plainTextToken).toBe("");
+    expect(redacted.runner?.description).toBe(REDACTED);
+  });
+});
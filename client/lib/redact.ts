@@ -0,0 +1,135 @@
+import { clone, ScalarType } from "@bufbuild/protobuf";
+import type { DescField, DescMessage, Message, MessageShape } from "@bufbuild/protobuf";
+
+/** Replacement for redacted values. */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Proto names of string fields holding secrets: issued tokens and the
+ * credentials of connections. Redacted wherever they appear.
+ */
+export const SECRET_FIELDS: readonly string[] = [
+  "plain_text_token",
+  "token",
+  "password",
+  "passphrase",
+  "private_key",
+  "secret_access_key",
+  "client_secret",
+  "service_account_json",
+];
+
+// Oneofs holding credentials; every string inside them is redacted
+const SECRET_ONEOFS: ReadonlySet<string> = new Set(["auth_config"]);
+
+/**
+ * Returns a copy of a message with its secrets replaced by `REDACTED`.
+ *
+ * Redacts the string fields named in `fields`, every string inside a
+ * connection's `auth_config`, and the `value` of messages flagged
+ * `sensitive`, such as sensitive variables. In Update requests whose
+ * `update_mask` leaves out `sensitive`, the flag sent says nothing about the
+ * stored resource, so the `value` is redacted regardless. Empty strings stay
+ * empty so a redacted message still shows which secrets were set.
+ *
+ * @param schema - Descriptor of the message
+ * @param message - Message to redact; it is not modified
+ * @param fields - Proto names of secret string fields
+ * @returns The redacted copy
+ *
+ * @example
+ * ```typescript
+ * const safe = redactMessage(CreateRunnerResponseSchema, response);
+ * console.log(toJsonString(CreateRunnerResponseSchema, safe)); // "plainTextToken": "[REDACTED]"
+ * ```
+ */
+export function redactMessage<Desc extends DescMessage>(
+  schema: Desc,
+  message: MessageShape<Desc>,
+  fields: Iterable<string> = SECRET_FIELDS,
+): MessageShape<Desc> {
+  const copy = clone(schema, message);
+  redactFields(schema, copy, new Set(fields), false);
+  return copy;
+}
+
+/** Reads a field, going through its oneof for oneof members. */
+function getField(message: Record<string, unknown>, field: DescField): unknown {
+  if (!field.oneof) {
+    return message[field.localName];
+  }
+  const oneof = message[field.oneof.localName] as { case?: string; value?: unknown };
+  return oneof.case === field.localName ? oneof.value : undefined;
+}
+
+function setField(message: Record<string, unknown>, field: DescField, value: unknown): void {
+  if (field.oneof) {
+    (message[field.oneof.localName] as { value?: unknown }).value = value;
+  } else {
+    message[field.localName] = value;
+  }
+}
+
+function redactString(value: unknown): unknown {
+  return typeof value === "string" && value !== "" ? REDACTED : value;
+}
+
+/** Whether a message is a masked update that does not set the `sensitive` flag of its resource. */
+function masksOutSensitive(schema: DescMessage, record: Record<string, unknown>): boolean {
+  const mask = schema.fields.some((f) => f.name === "update_mask")
+    ? (record.updateMask as { paths: string[] } | undefined)
+    : undefined;
+  return mask !== undefined && mask.paths.length > 0 && !mask.paths.includes("sensitive");
+}
+
+function redactFields(
+  schema: DescMessage,
+  message: Message,
+  fields: ReadonlySet<string>,
+  inSecret: boolean,
+  assumeSensitive = false,
+): void {
+  const record = message as unknown as Record<string, unknown>;
+  const sensitive = schema.fields.some((f) => f.name === "sensitive") && (assumeSensitive || record.sensitive === true);
+  const maskedUpdate = masksOutSensitive(schema, record);
+
+  for (const field of schema.fields) {
+    const value = getField(record, field);
+    if (value === undefined) {
+      continue;
+    }
+    const nested = inSecret || (field.oneof !== undefined && SECRET_ONEOFS.has(field.oneof.name));
+    const secret = nested || fields.has(field.name) || (sensitive && field.name === "value");
+
+    switch (field.fieldKind) {
+      case "scalar":
+        if (secret && field.scalar === ScalarType.STRING) {
+          setField(record, field, redactString(value));
+        }
+        break;
+      case "message":
+        redactFields(field.message, value as Message, fields, nested, maskedUpdate);
+        break;
+      case "list":
+        if (field.listKind === "message") {
+          for (const item of value as Message[]) {
+            redactFields(field.message, item, fields, nested);
+          }
+        } else if (secret && field.scalar === ScalarType.STRING) {
+          setField(record, field, (value as string[]).map(redactString));
+        }
+        break;
+      case "map": {
+        const entries = value as Record<string, unknown>;
+        for (const [key, item] of Object.entries(entries)) {
+          if (field.mapKind === "message") {
+            redactFields(field.message, item as Message, fields, nested);
+          } else if (secret && field.scalar === ScalarType.STRING) {
+            entries[key] = redactString(item);
+          }
+        }
+        break;
+      }
+    }
+  }
+}
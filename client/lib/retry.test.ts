@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError, createClient, createRouterTransport } from "@connectrpc/connect";
+import { createRetryInterceptor, computeBackoff, parseRetryAfter, type RetryConfig } from "./retry.js";
+import { noopLogger, type Logger } from "./logger.js";
+import { DeploymentAPI } from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+
+// Fast policy so tests don't wait on real backoff
+const fastRetry: RetryConfig = { initialBackoff: 1, maxBackoff: 5, jitter: 0 };
+
+// Helper to create a deployment client whose handlers fail a number of times
+function createFailingClient(failures: number, code: Code, config: RetryConfig = fastRetry) {
+  const calls = { getDeployment: 0, createDeployment: 0 };
+  const transport = createRouterTransport(
+    (router) => {
+      router.service(DeploymentAPI, {
+        getDeployment(req) {
+          calls.getDeployment++;
+          if (calls.getDeployment <= failures) {
+            throw new ConnectError("transient", code);
+          }
+          return { deployment: { id: req.deploymentId } };
+        },
+        createDeployment() {
+          calls.createDeployment++;
+          if (calls.createDeployment <= failures) {
+            throw new ConnectError("transient", code);
+          }
+          return { deployment: { id: "dep-1" } };
+        },
+      });
+    },
+    { transport: { interceptors: [createRetryInterceptor(config)] } },
+  );
+  return { client: createClient(DeploymentAPI, transport), calls };
+}
+
+describe("createRetryInterceptor", () => {
+  it("retries idempotent methods on transient errors", async () => {
+    const { client, calls } = createFailingClient(2, Code.Unavailable);
+
+    const resp = await client.getDeployment({ deploymentId: "dep-1" });
+
+    expect(resp.deployment?.id).toBe("dep-1");
+    expect(calls.getDeployment).toBe(3);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const { client, calls } = createFailingClient(5, Code.Unavailable, { ...fastRetry, maxAttempts: 2 });
+
+    await expect(client.getDeployment({ deploymentId: "dep-1" })).rejects.toThrow("transient");
+    expect(calls.getDeployment).toBe(2);
+  });
+
+  it("does not retry non-retryable codes", async () => {
+    const { client, calls } = createFailingClient(1, Code.NotFound);
+
+    await expect(client.getDeployment({ deploymentId: "dep-1" })).rejects.toThrow();
+    expect(calls.getDeployment).toBe(1);
+  });
+
+  it("does not retry mutations by default", async () => {
+    const { client, calls } = createFailingClient(1, Code.Unavailable);
+
+    await expect(client.createDeployment({})).rejects.toThrow();
+    expect(calls.createDeployment).toBe(1);
+  });
+
+  it("retries mutations in the allow list", async () => {
+    const { client, calls } = createFailingClient(1, Code.Unavailable, {
+      ...fastRetry,
+      retryableMethods: ["createDeployment"],
+    });
+
+    const resp = await client.createDeployment({});
+    expect(resp.deployment?.id).toBe("dep-1");
+    expect(calls.createDeployment).toBe(2);
+  });
+
+  it("accepts fully-qualified method names in the allow list", async () => {
+    const { client, calls } = createFailingClient(1, Code.Unavailable, {
+      ...fastRetry,
+      retryableMethods: ["admiral.api.deployment.v1.DeploymentAPI/CreateDeployment"],
+    });
+
+    await client.createDeployment({});
+    expect(calls.createDeployment).toBe(2);
+  });
+
+  it("honors Retry-After from the server", async () => {
+    let calls = 0;
+    const transport = createRouterTransport(
+      (router) => {
+        router.service(DeploymentAPI, {
+          getDeployment() {
+            calls++;
+            if (calls === 1) {
+              throw new ConnectError("slow down", Code.ResourceExhausted, { "retry-after": "0" });
+            }
+            return {};
+          },
+        });
+      },
+      { transport: { interceptors: [createRetryInterceptor({ initialBackoff: 60000, jitter: 0 })] } },
+    );
+
+    await createClient(DeploymentAPI, transport).getDeployment({});
+    expect(calls).toBe(2);
+  });
+  it("caps Retry-After at maxBackoff", async () => {
+    const delays: unknown[] = [];
+    let calls = 0;
+    const logger: Logger = {
+      ...noopLogger,
+      debug: (_message, ...args) => {
+        delays.push((args[0] as { delay: number }).delay);
+      },
+    };
+    const transport = createRouterTransport(
+      (router) => {
+        router.service(DeploymentAPI, {
+          getDeployment() {
+            if (++calls === 1) {
+              throw new ConnectError("slow down", Code.ResourceExhausted, { "retry-after": "3600" });
+            }
+            return {};
+          },
+        });
+      },
+      { transport: { interceptors: [createRetryInterceptor({ maxBackoff: 5 }, logger)] } },
+    );
+
+    await createClient(DeploymentAPI, transport).getDeployment({});
+    expect(delays).toEqual([5]);
+  });
+});
+
+describe("computeBackoff", () => {
+  it("grows exponentially and caps at maxBackoff", () => {
+    const config: RetryConfig = { initialBackoff: 100, maxBackoff: 1000, jitter: 0 };
+
+    expect(computeBackoff(1, config)).toBe(100);
+    expect(computeBackoff(2, config)).toBe(200);
+    expect(computeBackoff(3, config)).toBe(400);
+    expect(computeBackoff(10, config)).toBe(1000);
+  });
+
+  it("applies jitter within bounds", () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = computeBackoff(1, { initialBackoff: 100, jitter: 0.5 });
+      expect(delay).toBeGreaterThanOrEqual(50);
+      expect(delay).toBeLessThanOrEqual(150);
+    }
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delta seconds", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+  });
+
+  it("parses HTTP dates", () => {
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const delay = parseRetryAfter(date);
+    expect(delay).toBeGreaterThan(3000);
+    expect(delay).toBeLessThanOrEqual(5000);
+  });
+
+  it("returns undefined for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
@@ -0,0 +1,186 @@
+import { Code, ConnectError } from "@connectrpc/connect";
+import type { Interceptor, UnaryRequest } from "@connectrpc/connect";
+import type { Logger } from "./logger.js";
+import { noopLogger } from "./logger.js";
+
+/**
+ * Retry policy options.
+ */
+export interface RetryConfig {
+  /**
+   * Maximum number of attempts, including the first call.
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Backoff before the first retry in milliseconds.
+   * @default 100
+   */
+  initialBackoff?: number;
+
+  /**
+   * Upper bound for the computed backoff and for the wait asked for by a
+   * server `Retry-After` header, in milliseconds.
+   * @default 5000
+   */
+  maxBackoff?: number;
+
+  /**
+   * Factor applied to the backoff after each attempt.
+   * @default 2
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * Random jitter as a fraction of the backoff (0 disables jitter).
+   * A value of 0.2 spreads each delay by ±20%.
+   * @default 0.2
+   */
+  jitter?: number;
+
+  /**
+   * Connect codes that are considered transient.
+   * @default [Code.Unavailable, Code.ResourceExhausted, Code.DeadlineExceeded]
+   */
+  retryableCodes?: Code[];
+
+  /**
+   * Wait for the duration given by a server `Retry-After` header, capped at
+   * `maxBackoff`, instead of the computed backoff.
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Additional methods that may be retried even though they are not
+   * idempotent. Accepts the client method name (`"createDeployment"`) or the
+   * fully-qualified procedure (`"admiral.api.deployment.v1.DeploymentAPI/CreateDeployment"`).
+   * Get* and List* methods are always retried.
+   */
+  retryableMethods?: string[];
+}
+
+/**
+ * Default retry policy values.
+ */
+export const DEFAULT_RETRY_CONFIG = {
+  maxAttempts: 3,
+  initialBackoff: 100,
+  maxBackoff: 5000,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+  retryableCodes: [Code.Unavailable, Code.ResourceExhausted, Code.DeadlineExceeded],
+  respectRetryAfter: true,
+} as const;
+
+/**
+ * Returns true for methods that only read state (Get* and List*).
+ */
+function isIdempotentMethod(name: string): boolean {
+  return name.startsWith("Get") || name.startsWith("List");
+}
+
+/**
+ * Parses a Retry-After header value (delta seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Computes the backoff for the given retry number (1-based) with jitter applied.
+ */
+export function computeBackoff(retry: number, config: RetryConfig = {}): number {
+  const initial = config.initialBackoff ?? DEFAULT_RETRY_CONFIG.initialBackoff;
+  const max = config.maxBackoff ?? DEFAULT_RETRY_CONFIG.maxBackoff;
+  const multiplier = config.backoffMultiplier ?? DEFAULT_RETRY_CONFIG.backoffMultiplier;
+  const jitter = Math.min(Math.max(config.jitter ?? DEFAULT_RETRY_CONFIG.jitter, 0), 1);
+
+  const base = Math.min(max, initial * Math.pow(multiplier, retry - 1));
+  const spread = base * jitter;
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}
+
+/**
+ * Resolves after the given delay, or rejects if the signal aborts first.
+ */
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(ConnectError.from(signal.reason ?? new Error("operation was aborted"), Code.Canceled));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(ConnectError.from(signal.reason ?? new Error("operation was aborted"), Code.Canceled));
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Creates an interceptor that retries transient failures with exponential backoff.
+ *
+ * Only idempotent RPCs (Get* and List*) are retried unless the method is
+ * listed in `retryableMethods`. Streaming calls are never retried.
+ */
+export function createRetryInterceptor(config: RetryConfig = {}, logger: Logger = noopLogger): Interceptor {
+  const maxAttempts = Math.max(1, config.maxAttempts ?? DEFAULT_RETRY_CONFIG.maxAttempts);
+  const retryableCodes = new Set<Code>(config.retryableCodes ?? DEFAULT_RETRY_CONFIG.retryableCodes);
+  const respectRetryAfter = config.respectRetryAfter ?? DEFAULT_RETRY_CONFIG.respectRetryAfter;
+  const maxBackoff = config.maxBackoff ?? DEFAULT_RETRY_CONFIG.maxBackoff;
+  const allowList = new Set(config.retryableMethods ?? []);
+
+  function isRetryable(req: UnaryRequest): boolean {
+    const { method, service } = req;
+    return (
+      isIdempotentMethod(method.name) ||
+      allowList.has(method.localName) ||
+      allowList.has(`${service.typeName}/${method.name}`)
+    );
+  }
+
+  return (next) => async (req) => {
+    if (req.stream || !isRetryable(req)) {
+      return next(req);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await next(req);
+      } catch (err) {
+        const connectErr = ConnectError.from(err);
+        if (attempt >= maxAttempts || !retryableCodes.has(connectErr.code) || req.signal.aborted) {
+          throw err;
+        }
+
+        const retryAfter = respectRetryAfter ? parseRetryAfter(connectErr.metadata.get("retry-after")) : undefined;
+        const delay = retryAfter !== undefined ? Math.min(retryAfter, maxBackoff) : computeBackoff(attempt, config);
+
+        logger.debug(`retrying ${req.service.typeName}/${req.method.name} after ${Code[connectErr.code]}`, {
+          attempt,
+          delay,
+        });
+        await sleep(delay, req.signal);
+      }
+    }
+  };
+}
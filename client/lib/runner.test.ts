@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "node:crypto";
+import { createClient, createRouterTransport } from "@connectrpc/connect";
+import type { MessageInitShape } from "@bufbuild/protobuf";
+import { createRunnerAgent, type RunnerAgentOptions } from "./runner.js";
+import {
+  JobPhase,
+  JobStatus,
+  JobType,
+  RunnerAPI,
+  type JobSchema,
+  type JobResult,
+  type RunnerStatus,
+} from "../../proto/admiral/api/runner/v1/runner_pb.js";
+
+const ARTIFACT = new TextEncoder().encode("main.tf contents");
+const CHECKSUM = createHash("sha256").update(ARTIFACT).digest("hex");
+
+// Helper to create a runner client that hands out the given jobs once each
+function createRunnerServer(jobs: MessageInitShape<typeof JobSchema>[], checksum = CHECKSUM) {
+  const queue = [...jobs];
+  const results = new Map<string, JobResult>();
+  const heartbeats: RunnerStatus[] = [];
+  const transport = createRouterTransport((router) => {
+    router.service(RunnerAPI, {
+      heartbeat(req) {
+        heartbeats.push(req.status!);
+        return { ack: true, nextHeartbeatSeconds: 0 };
+      },
+      claimJob() {
+        return { job: queue.shift() };
+      },
+      getJobBundle() {
+        return { bundle: { artifactUrl: "https://artifacts.test/bundle.tar.gz", artifactChecksum: checksum } };
+      },
+      reportJobResult(req) {
+        results.set(req.jobId, req.result!);
+        return { ack: true };
+      },
+    });
+  });
+  return { client: createClient(RunnerAPI, transport), results, heartbeats };
+}
+
+async function until(condition: () => boolean): Promise<void> {
+  while (!condition()) {
+    await new Promise((resolve) => setTimeout(resolve, 2));
+  }
+}
+
+const BASE: Omit<RunnerAgentOptions, "handler"> = {
+  claimInterval: 2,
+  shutdownSignals: [],
+  download: async () => ARTIFACT,
+};
+
+describe("createRunnerAgent", () => {
+  it("runs claimed jobs and reports their results", async () => {
+    const server = createRunnerServer([{ id: "job-1", jobType: JobType.PLAN }]);
+    const agent = createRunnerAgent({
+      ...BASE,
+      client: server.client,
+      version: "1.2.0",
+      async handler({ job, artifact, setPhase }) {
+        expect(artifact).toEqual(ARTIFACT);
+        setPhase(JobPhase.PLANNING);
+        return { planOutput: `planned ${job.id}` };
+      },
+    });
+
+    const running = agent.start();
+    await until(() => server.results.has("job-1"));
+    await agent.stop();
+    await running;
+
+    const result = server.results.get("job-1")!;
+    expect(result.status).toBe(JobStatus.SUCCEEDED);
+    expect(result.planOutput).toBe("planned job-1");
+    expect(result.duration).toBeDefined();
+    expect(server.heartbeats[0]).toMatchObject({ version: "1.2.0", maxConcurrentJobs: 1 });
+  });
+
+  it("reports a failure when the handler throws", async () => {
+    const server = createRunnerServer([{ id: "job-1", jobType: JobType.APPLY }]);
+    const agent = createRunnerAgent({
+      ...BASE,
+      client: server.client,
+      async handler() {
+        throw new Error("terraform apply exited with code 1");
+      },
+    });
+
+    void agent.start();
+    await until(() => server.results.has("job-1"));
+    await agent.stop();
+
+    expect(server.results.get("job-1")).toMatchObject({
+      status: JobStatus.FAILED,
+      errorMessage: "terraform apply exited with code 1",
+    });
+  });
+
+  it("rejects bundles with a mismatching checksum without running the handler", async () => {
+    const server = createRunnerServer([{ id: "job-1", jobType: JobType.PLAN }], "sha256:" + "0".repeat(64));
+    let called = false;
+    const agent = createRunnerAgent({
+      ...BASE,
+      client: server.client,
+      async handler() {
+        called = true;
+      },
+    });
+
+    void agent.start();
+    await until(() => server.results.has("job-1"));
+    await agent.stop();
+
+    expect(called).toBe(false);
+    expect(server.results.get("job-1")?.status).toBe(JobStatus.FAILED);
+    expect(server.results.get("job-1")?.errorMessage).toMatch(/checksum mismatch/);
+  });
+
+  it("bounds concurrency and waits for running jobs on stop", async () => {
+    const jobs = ["job-1", "job-2", "job-3", "job-4"].map((id) => ({ id, jobType: JobType.PLAN }));
+    const server = createRunnerServer(jobs);
+    let concurrent = 0;
+    let maxConcurrent = 0;
+    const agent = createRunnerAgent({
+      ...BASE,
+      client: server.client,
+      maxConcurrentJobs: 2,
+      async handler() {
+        concurrent++;
+        maxConcurrent = Math.max(maxConcurrent, concurrent);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        concurrent--;
+      },
+    });
+
+    void agent.start();
+    await until(() => agent.activeJobs === 2);
+    const heartbeat = server.heartbeats.length;
+    await agent.stop();
+
+    expect(maxConcurrent).toBe(2);
+    expect(server.results.size).toBe(2);
+    expect(agent.activeJobs).toBe(0);
+    expect(heartbeat).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,392 @@
+import { randomUUID } from "node:crypto";
+import type { Client as ConnectClient } from "@connectrpc/connect";
+import { createClient as createConnectClient } from "@connectrpc/connect";
+import type { MessageInitShape } from "@bufbuild/protobuf";
+import { durationFromMs, timestampFromMs } from "@bufbuild/protobuf/wkt";
+import {
+  JobPhase,
+  JobStatus,
+  JobType,
+  RunnerAPI,
+  type Job,
+  type JobBundle,
+  type JobResultSchema,
+  type RunnerStatusSchema,
+} from "../../proto/admiral/api/runner/v1/runner_pb.js";
+import type { TerraformPlanSummarySchema } from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+import { fetchArtifact, verifyChecksum, type ArtifactDownloader } from "./artifact.js";
+import type { ClientConfig } from "./config.js";
+import { errorMessage } from "./errors.js";
+import type { Logger } from "./logger.js";
+import { noopLogger } from "./logger.js";
+import { sleep } from "./retry.js";
+import { createTransport } from "./transport.js";
+
+/** The runner-facing RPCs used by the agent. */
+export type RunnerAgentClient = Pick<
+  ConnectClient<typeof RunnerAPI>,
+  "heartbeat" | "claimJob" | "getJobBundle" | "reportJobResult"
+>;
+
+/**
+ * A claimed job handed to the JobHandler.
+ */
+export interface JobContext {
+  /** The claimed job */
+  readonly job: Job;
+  /** Variables, provider and backend configuration for the job */
+  readonly bundle: JobBundle;
+  /** The downloaded artifact bundle (tar.gz), verified against `bundle.artifactChecksum` */
+  readonly artifact: Uint8Array;
+  /** Aborted when the agent gives up waiting for the job during shutdown */
+  readonly signal: AbortSignal;
+  /** Records the execution phase reported with the next heartbeat. */
+  setPhase(phase: JobPhase): void;
+}
+
+/**
+ * Outcome returned by a JobHandler. The agent adds the status and duration.
+ */
+export interface JobOutcome {
+  /** (Plan jobs only) Human-readable Terraform plan output */
+  planOutput?: string;
+  /** (Plan jobs only) Resource change counts */
+  planSummary?: MessageInitShape<typeof TerraformPlanSummarySchema>;
+  /** URL of the full execution logs */
+  logsUrl?: string;
+}
+
+/**
+ * Executes a claimed job. Resolving reports the job as SUCCEEDED; throwing
+ * reports it as FAILED with the error message.
+ */
+export type JobHandler = (context: JobContext) => Promise<JobOutcome | void>;
+
+/**
+ * Runner agent options.
+ */
+export interface RunnerAgentOptions {
+  /** Agent token (AGT) of the runner. Used as `authToken` unless `client` is given. */
+  token?: string;
+
+  /** Executes claimed jobs. */
+  handler: JobHandler;
+
+  /** Client configuration used to connect with `token`. */
+  config?: ClientConfig;
+
+  /** Runner RPC client to use instead of connecting with `token`. */
+  client?: RunnerAgentClient;
+
+  /**
+   * Maximum number of jobs executed at the same time.
+   * @default 1
+   */
+  maxConcurrentJobs?: number;
+
+  /**
+   * Delay between claim attempts while no job is available, in milliseconds.
+   * @default 5000
+   */
+  claimInterval?: number;
+
+  /** Runner binary version reported with heartbeats. */
+  version?: string;
+
+  /** Terraform providers available on this runner. */
+  availableProviders?: string[];
+
+  /** Installed tool versions, e.g. `{ terraform: "1.9.0" }`. */
+  toolVersions?: Record<string, string>;
+
+  /** Identifies this process among instances sharing the token. Random per agent by default. */
+  instanceId?: string;
+
+  /**
+   * How long `stop()` waits for running jobs before aborting their signals, in milliseconds.
+   * @default 300000
+   */
+  shutdownTimeout?: number;
+
+  /**
+   * Process signals that trigger a graceful shutdown. Pass `[]` to handle signals yourself.
+   * @default ["SIGTERM"]
+   */
+  shutdownSignals?: NodeJS.Signals[];
+
+  /** Downloads the artifact bundle. Uses `fetch` by default. */
+  download?: ArtifactDownloader;
+
+  /** Logger for agent activity. Defaults to `config.logger`. */
+  logger?: Logger;
+}
+
+/**
+ * A running runner agent.
+ */
+export interface RunnerAgent {
+  /** Random id sent with every heartbeat */
+  readonly instanceId: string;
+
+  /** Number of jobs currently executing */
+  readonly activeJobs: number;
+
+  /** Starts heartbeats and job claiming. Resolves once the agent has stopped. */
+  start(): Promise<void>;
+
+  /** Stops claiming, waits for running jobs to report their results, then stops heartbeats. */
+  stop(): Promise<void>;
+}
+
+/** Default runner agent values. */
+export const DEFAULT_RUNNER_AGENT_OPTIONS = {
+  maxConcurrentJobs: 1,
+  claimInterval: 5000,
+  heartbeatInterval: 30000,
+  shutdownTimeout: 300000,
+} as const;
+
+const JOB_TYPES: ReadonlySet<JobType> = new Set([
+  JobType.PLAN,
+  JobType.APPLY,
+  JobType.DESTROY_PLAN,
+  JobType.DESTROY_APPLY,
+]);
+
+interface ActiveJob {
+  phase: JobPhase;
+  startedAt: number;
+  controller: AbortController;
+}
+
+/**
+ * Creates an agent that executes Terraform jobs for a runner.
+ *
+ * The agent sends heartbeats at the interval requested by the server, claims
+ * jobs while it has free capacity, downloads and verifies each job's artifact
+ * bundle and passes it to the handler. Every claimed job gets a JobResult,
+ * including jobs whose bundle could not be fetched. A SIGTERM stops claiming
+ * and lets running jobs finish.
+ *
+ * @param options - Agent token, job handler, concurrency and runner metadata
+ * @returns The agent; call `start()` to run it
+ *
+ * @example
+ * ```typescript
+ * import { createRunnerAgent, JobPhase } from "@admiral-io/sdk";
+ *
+ * const agent = createRunnerAgent({
+ *   token: process.env.ADMIRAL_AGENT_TOKEN,
+ *   maxConcurrentJobs: 2,
+ *   async handler({ job, bundle, artifact, setPhase }) {
+ *     setPhase(JobPhase.PLANNING);
+ *     const planOutput = await runTerraform(job.jobType, bundle, artifact);
+ *     return { planOutput };
+ *   },
+ * });
+ *
+ * await agent.start();
+ * ```
+ */
+export function createRunnerAgent(options: RunnerAgentOptions): RunnerAgent {
+  const client =
+    options.client ??
+    createConnectClient(
+      RunnerAPI,
+      createTransport({ ...options.config, authToken: options.token ?? options.config?.authToken }),
+    );
+  const logger = options.logger ?? options.config?.logger ?? noopLogger;
+  const instanceId = options.instanceId ?? randomUUID();
+  const maxConcurrentJobs = Math.max(1, options.maxConcurrentJobs ?? DEFAULT_RUNNER_AGENT_OPTIONS.maxConcurrentJobs);
+  const claimInterval = options.claimInterval ?? DEFAULT_RUNNER_AGENT_OPTIONS.claimInterval;
+  const shutdownTimeout = options.shutdownTimeout ?? DEFAULT_RUNNER_AGENT_OPTIONS.shutdownTimeout;
+  const shutdownSignals = options.shutdownSignals ?? ["SIGTERM"];
+  const download = options.download ?? fetchArtifact;
+
+  const active = new Map<string, ActiveJob>();
+  const running = new Set<Promise<void>>();
+  // Aborted by stop(): no new claims
+  const claiming = new AbortController();
+  // Aborted once running jobs are done: no more heartbeats
+  const heartbeating = new AbortController();
+  let started: Promise<void> | undefined;
+  let stopped: Promise<void> | undefined;
+
+  function runnerStatus(): MessageInitShape<typeof RunnerStatusSchema> {
+    return {
+      version: options.version,
+      activeJobs: active.size,
+      maxConcurrentJobs,
+      availableProviders: options.availableProviders,
+      toolVersions: options.toolVersions,
+      activeJobDetails: [...active].map(([jobId, job]) => ({
+        jobId,
+        phase: job.phase,
+        startedAt: timestampFromMs(job.startedAt),
+      })),
+    };
+  }
+
+  async function heartbeatLoop(): Promise<void> {
+    const { signal } = heartbeating;
+    while (!signal.aborted) {
+      let delay: number = DEFAULT_RUNNER_AGENT_OPTIONS.heartbeatInterval;
+      try {
+        const response = await client.heartbeat({ instanceId, status: runnerStatus() }, { signal });
+        if (response.nextHeartbeatSeconds > 0) {
+          delay = response.nextHeartbeatSeconds * 1000;
+        }
+      } catch (err) {
+        if (signal.aborted) {
+          return;
+        }
+        logger.warn(`runner heartbeat failed: ${errorMessage(err)}`);
+      }
+      await sleep(delay, signal).catch(() => {});
+    }
+  }
+
+  async function execute(job: Job): Promise<void> {
+    const state: ActiveJob = { phase: JobPhase.INITIALIZING, startedAt: Date.now(), controller: new AbortController() };
+    active.set(job.id, state);
+    logger.info(`running ${JobType[job.jobType]} job ${job.id}`, { deploymentId: job.deploymentId });
+
+    let result: MessageInitShape<typeof JobResultSchema>;
+    try {
+      if (!JOB_TYPES.has(job.jobType)) {
+        throw new Error(`unsupported job type ${job.jobType}`);
+      }
+      const { bundle } = await client.getJobBundle({ jobId: job.id }, { signal: state.controller.signal });
+      if (!bundle) {
+        throw new Error(`no bundle returned for job ${job.id}`);
+      }
+      const artifact = bundle.artifactUrl
+        ? await download(bundle.artifactUrl, state.controller.signal)
+        : new Uint8Array();
+      if (bundle.artifactChecksum) {
+        verifyChecksum(artifact, bundle.artifactChecksum);
+      }
+
+      const outcome = await options.handler({
+        job,
+        bundle,
+        artifact,
+        signal: state.controller.signal,
+        setPhase: (phase) => {
+          state.phase = phase;
+        },
+      });
+      result = { ...outcome, status: JobStatus.SUCCEEDED };
+    } catch (err) {
+      logger.error(`job ${job.id} failed: ${errorMessage(err)}`);
+      result = { status: JobStatus.FAILED, errorMessage: errorMessage(err) };
+    }
+
+    state.phase = JobPhase.FINALIZING;
+    result.duration = durationFromMs(Date.now() - state.startedAt);
+    try {
+      await client.reportJobResult({ jobId: job.id, result });
+    } catch (err) {
+      logger.error(`reporting result of job ${job.id} failed: ${errorMessage(err)}`);
+    } finally {
+      active.delete(job.id);
+    }
+  }
+
+  /** Resolves when a job finishes or the agent stops claiming. */
+  function waitForSlot(): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        claiming.signal.removeEventListener("abort", done);
+        resolve();
+      };
+      claiming.signal.addEventListener("abort", done, { once: true });
+      void Promise.race(running).then(done);
+    });
+  }
+
+  async function claimLoop(): Promise<void> {
+    const { signal } = claiming;
+    while (!signal.aborted) {
+      if (active.size >= maxConcurrentJobs) {
+        await waitForSlot();
+        continue;
+      }
+
+      let job: Job | undefined;
+      try {
+        ({ job } = await client.claimJob({}, { signal }));
+      } catch (err) {
+        if (signal.aborted) {
+          return;
+        }
+        logger.warn(`claiming job failed: ${errorMessage(err)}`);
+      }
+
+      if (!job) {
+        await sleep(claimInterval, signal).catch(() => {});
+        continue;
+      }
+      const task: Promise<void> = execute(job).finally(() => running.delete(task));
+      running.add(task);
+    }
+  }
+
+  function onSignal(signal: NodeJS.Signals): void {
+    logger.info(`received ${signal}, shutting down runner agent`);
+    void stop();
+  }
+
+  async function run(): Promise<void> {
+    for (const signal of shutdownSignals) {
+      process.once(signal, onSignal);
+    }
+    try {
+      await Promise.all([heartbeatLoop(), claimLoop()]);
+      await stopped;
+    } finally {
+      for (const signal of shutdownSignals) {
+        process.removeListener(signal, onSignal);
+      }
+    }
+  }
+
+  async function drain(): Promise<void> {
+    claiming.abort();
+    const jobs = Promise.all(running);
+    const timeout = new AbortController();
+    const expired = await Promise.race([
+      jobs.then(() => false),
+      sleep(shutdownTimeout, timeout.signal).then(
+        () => true,
+        () => false,
+      ),
+    ]);
+    timeout.abort();
+    if (expired) {
+      logger.warn(`aborting ${active.size} job(s) after shutdown timeout`);
+      for (const job of active.values()) {
+        job.controller.abort();
+      }
+      await jobs;
+    }
+    heartbeating.abort();
+  }
+
+  function stop(): Promise<void> {
+    stopped ??= drain();
+    return stopped;
+  }
+
+  return {
+    instanceId,
+    get activeJobs() {
+      return active.size;
+    },
+    start() {
+      started ??= run();
+      return started;
+    },
+    stop,
+  };
+}
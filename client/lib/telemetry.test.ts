@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError, createClient, createRouterTransport } from "@connectrpc/connect";
+import {
+  createTelemetryInterceptor,
+  type TelemetryAttributes,
+  type TelemetryMeter,
+  type TelemetrySpan,
+  type TelemetryTracer,
+} from "./telemetry.js";
+import { ApplicationAPI } from "../../proto/admiral/api/application/v1/application_pb.js";
+
+const APP_ID = "0d9b6a3e-4f1c-4b8a-9d2e-5c7f1a2b3c4d";
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+interface RecordedSpan {
+  name: string;
+  kind?: number;
+  attributes: TelemetryAttributes;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+// Helper to create a tracer that records its spans
+function createTestTracer(traceId = TRACE_ID) {
+  const spans: RecordedSpan[] = [];
+  const tracer: TelemetryTracer = {
+    startSpan(name, options) {
+      const recorded: RecordedSpan = {
+        name,
+        kind: options?.kind,
+        attributes: { ...options?.attributes },
+        ended: false,
+      };
+      spans.push(recorded);
+      const span: TelemetrySpan = {
+        spanContext: () => ({ traceId, spanId: SPAN_ID, traceFlags: 1, traceState: { serialize: () => "vendor=1" } }),
+        setAttribute: (key, value) => (recorded.attributes[key] = value),
+        setStatus: (status) => (recorded.status = status),
+        end: () => (recorded.ended = true),
+      };
+      return span;
+    },
+  };
+  return { tracer, spans };
+}
+
+// Helper to create a meter that records every measurement by instrument name
+function createTestMeter() {
+  const measurements: { name: string; value: number; attributes?: TelemetryAttributes }[] = [];
+  const instrument = (name: string) => {
+    const add = (value: number, attributes?: TelemetryAttributes) => measurements.push({ name, value, attributes });
+    return { add, record: add };
+  };
+  const meter: TelemetryMeter = {
+    createHistogram: instrument,
+    createCounter: instrument,
+    createUpDownCounter: instrument,
+  };
+  return { meter, measurements };
+}
+
+function createTestClient(options: Parameters<typeof createTelemetryInterceptor>[0]) {
+  const headers: Headers[] = [];
+  const transport = createRouterTransport(
+    (router) => {
+      router.service(ApplicationAPI, {
+        getApplication(req, ctx) {
+          headers.push(ctx.requestHeader);
+          if (req.applicationId !== APP_ID) {
+            throw new ConnectError("application not found", Code.NotFound);
+          }
+          return { application: { id: APP_ID } };
+        },
+      });
+    },
+    { transport: { interceptors: [createTelemetryInterceptor(options)] } },
+  );
+  return { client: createClient(ApplicationAPI, transport), headers };
+}
+
+describe("createTelemetryInterceptor", () => {
+  it("creates a client span per call with RPC attributes", async () => {
+    const { tracer, spans } = createTestTracer();
+    const { client } = createTestClient({ tracer });
+
+    await client.getApplication({ applicationId: APP_ID });
+
+    expect(spans).toEqual([
+      {
+        name: "admiral.api.application.v1.ApplicationAPI/GetApplication",
+        kind: 2,
+        attributes: {
+          "rpc.system": "connect_rpc",
+          "rpc.service": "admiral.api.application.v1.ApplicationAPI",
+          "rpc.method": "GetApplication",
+          "server.address": "in-memory",
+          "server.port": 443,
+        },
+        ended: true,
+      },
+    ]);
+  });
+
+  it("marks failed calls with the error code", async () => {
+    const { tracer, spans } = createTestTracer();
+    const { client } = createTestClient({ tracer });
+
+    await expect(client.getApplication({ applicationId: "missing" })).rejects.toThrow("application not found");
+
+    expect(spans[0]?.attributes["rpc.connect_rpc.error_code"]).toBe("not_found");
+    expect(spans[0]?.status).toEqual({ code: 2, message: "application not found" });
+    expect(spans[0]?.ended).toBe(true);
+  });
+
+  it("propagates the W3C trace context", async () => {
+    const { tracer } = createTestTracer();
+    const { client, headers } = createTestClient({ tracer });
+
+    await client.getApplication({ applicationId: APP_ID });
+
+    expect(headers[0]?.get("traceparent")).toBe(`00-${TRACE_ID}-${SPAN_ID}-01`);
+    expect(headers[0]?.get("tracestate")).toBe("vendor=1");
+  });
+
+  it("does not propagate invalid or disabled trace contexts", async () => {
+    const invalid = createTestClient({ tracer: createTestTracer("0".repeat(32)).tracer });
+    const disabled = createTestClient({ tracer: createTestTracer().tracer, propagate: false });
+
+    await invalid.client.getApplication({ applicationId: APP_ID });
+    await disabled.client.getApplication({ applicationId: APP_ID });
+
+    expect(invalid.headers[0]?.has("traceparent")).toBe(false);
+    expect(disabled.headers[0]?.has("traceparent")).toBe(false);
+  });
+
+  it("records duration, in-flight and error metrics", async () => {
+    const { meter, measurements } = createTestMeter();
+    const { client } = createTestClient({ meter });
+
+    await client.getApplication({ applicationId: APP_ID });
+    await client.getApplication({ applicationId: "missing" }).catch(() => undefined);
+
+    const names = measurements.map((m) => `${m.name}:${m.name === "rpc.client.duration" ? "*" : m.value}`);
+    expect(names).toEqual([
+      "rpc.client.active_requests:1",
+      "rpc.client.duration:*",
+      "rpc.client.active_requests:-1",
+      "rpc.client.active_requests:1",
+      "rpc.client.duration:*",
+      "rpc.client.errors:1",
+      "rpc.client.active_requests:-1",
+    ]);
+    expect(measurements.find((m) => m.name === "rpc.client.errors")?.attributes).toEqual({
+      "rpc.system": "connect_rpc",
+      "rpc.service": "admiral.api.application.v1.ApplicationAPI",
+      "rpc.method": "GetApplication",
+      "rpc.connect_rpc.error_code": "not_found",
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { ConnectError } from "@connectrpc/connect";
+import type { Interceptor } from "@connectrpc/connect";
+import { codeToString } from "@connectrpc/connect/protocol-connect";
+
+/** Attribute values accepted by spans and metrics. */
+export type TelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The parts of an OpenTelemetry span the SDK uses. Spans from
+ * `@opentelemetry/api` satisfy this interface.
+ */
+export interface TelemetrySpan {
+  spanContext(): { traceId: string; spanId: string; traceFlags: number; traceState?: { serialize(): string } };
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * The parts of an OpenTelemetry tracer the SDK uses, e.g. `trace.getTracer("payments")`.
+ * Spans are started in the active context, so calls nest under the caller's span.
+ */
+export interface TelemetryTracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: TelemetryAttributes }): TelemetrySpan;
+}
+
+/** Options of an OpenTelemetry instrument. */
+export interface TelemetryInstrumentOptions {
+  description?: string;
+  unit?: string;
+}
+
+/**
+ * The parts of an OpenTelemetry meter the SDK uses, e.g. `metrics.getMeter("payments")`.
+ */
+export interface TelemetryMeter {
+  createHistogram(
+    name: string,
+    options?: TelemetryInstrumentOptions,
+  ): { record(value: number, attributes?: TelemetryAttributes): void };
+  createCounter(
+    name: string,
+    options?: TelemetryInstrumentOptions,
+  ): { add(value: number, attributes?: TelemetryAttributes): void };
+  createUpDownCounter(
+    name: string,
+    options?: TelemetryInstrumentOptions,
+  ): { add(value: number, attributes?: TelemetryAttributes): void };
+}
+
+/**
+ * Telemetry options. Either may be omitted to record only spans or only metrics.
+ */
+export interface TelemetryOptions {
+  /** Tracer creating a client span per call */
+  tracer?: TelemetryTracer;
+
+  /** Meter recording call metrics */
+  meter?: TelemetryMeter;
+
+  /**
+   * Send the span's W3C `traceparent` and `tracestate` headers with each call.
+   * @default true
+   */
+  propagate?: boolean;
+}
+
+// Values of the OpenTelemetry SpanKind and SpanStatusCode enums
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+const INVALID_TRACE_ID = "0".repeat(32);
+
+/**
+ * Formats a W3C `traceparent` header for a span.
+ */
+function traceparent(span: TelemetrySpan): string | undefined {
+  const { traceId, spanId, traceFlags } = span.spanContext();
+  if (traceId === INVALID_TRACE_ID) {
+    return undefined;
+  }
+  return `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, "0")}`;
+}
+
+/**
+ * Creates an interceptor that traces and measures calls following the
+ * OpenTelemetry RPC semantic conventions.
+ *
+ * Each call gets a client span named `<service>/<Method>`, e.g.
+ * `admiral.api.deployment.v1.DeploymentAPI/GetDeployment`, with the
+ * `rpc.system`, `rpc.service`, `rpc.method`, `server.address` and
+ * `server.port` attributes. Failed calls set the span status to error and
+ * `rpc.connect_rpc.error_code` to the Connect code, e.g. `not_found`.
+ *
+ * Metrics:
+ * - `rpc.client.duration`: histogram of call durations in milliseconds
+ * - `rpc.client.active_requests`: up-down counter of calls in flight
+ * - `rpc.client.errors`: counter of failed calls by `rpc.connect_rpc.error_code`
+ *
+ * The SDK does not depend on `@opentelemetry/api`; pass a tracer and meter
+ * from your own OpenTelemetry setup. Add the interceptor to
+ * `ClientConfig.interceptors` so each retry attempt gets its own span.
+ *
+ * @param options - Tracer, meter and header propagation
+ * @returns Connect interceptor
+ *
+ * @example
+ * ```typescript
+ * import { metrics, trace } from "@opentelemetry/api";
+ * import { createClient, createTelemetryInterceptor } from "@admiral-io/sdk";
+ *
+ * const client = createClient({
+ *   authToken: process.env.ADMIRAL_TOKEN,
+ *   interceptors: [
+ *     createTelemetryInterceptor({ tracer: trace.getTracer("payments"), meter: metrics.getMeter("payments") }),
+ *   ],
+ * });
+ * ```
+ */
+export function createTelemetryInterceptor(options: TelemetryOptions): Interceptor {
+  const { tracer, meter, propagate = true } = options;
+  const duration = meter?.createHistogram("rpc.client.duration", {
+    description: "Duration of Admiral API calls",
+    unit: "ms",
+  });
+  const active = meter?.createUpDownCounter("rpc.client.active_requests", {
+    description: "Admiral API calls in flight",
+    unit: "{request}",
+  });
+  const errors = meter?.createCounter("rpc.client.errors", {
+    description: "Failed Admiral API calls",
+    unit: "{request}",
+  });
+
+  return (next) => async (req) => {
+    const url = new URL(req.url);
+    const attributes: TelemetryAttributes = {
+      "rpc.system": "connect_rpc",
+      "rpc.service": req.service.typeName,
+      "rpc.method": req.method.name,
+    };
+    const span = tracer?.startSpan(`${req.service.typeName}/${req.method.name}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: {
+        ...attributes,
+        "server.address": url.hostname,
+        "server.port": Number(url.port || (url.protocol === "https:" ? 443 : 80)),
+      },
+    });
+    if (span && propagate) {
+      const parent = traceparent(span);
+      if (parent) {
+        req.header.set("traceparent", parent);
+        const state = span.spanContext().traceState?.serialize();
+        if (state) {
+          req.header.set("tracestate", state);
+        }
+      }
+    }
+
+    const started = performance.now();
+    active?.add(1, attributes);
+    try {
+      const res = await next(req);
+      duration?.record(performance.now() - started, attributes);
+      return res;
+    } catch (err) {
+      const connectErr = ConnectError.from(err);
+      const failed = { ...attributes, "rpc.connect_rpc.error_code": codeToString(connectErr.code) };
+      duration?.record(performance.now() - started, failed);
+      errors?.add(1, failed);
+      span?.setAttribute("rpc.connect_rpc.error_code", codeToString(connectErr.code));
+      span?.setStatus({ code: SPAN_STATUS_ERROR, message: connectErr.rawMessage });
+      throw err;
+    } finally {
+      active?.add(-1, attributes);
+      span?.end();
+    }
+  };
+}
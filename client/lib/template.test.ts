@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import {
+  environmentMetadata,
+  lintTemplate,
+  lintValuesTemplate,
+  parseTemplate,
+  renderTemplate,
+  renderValuesTemplate,
+  variableValues,
+  TemplateError,
+  type TemplateContext,
+} from "./template.js";
+import { EnvironmentSchema } from "../../proto/admiral/api/environment/v1/environment_pb.js";
+import { SourceInputSchema } from "../../proto/admiral/api/source/v1/source_pb.js";
+import { VariableSchema, VariableType } from "../../proto/admiral/api/variable/v1/variable_pb.js";
+
+const context: TemplateContext = {
+  var: { RDS_INSTANCE_CLASS: "db.t3.medium", REPLICA_COUNT: 3 },
+  component: { vpc: { vpc_id: "vpc-123", private_subnet_ids: ["subnet-a", "subnet-b"] } },
+  env: { name: "prod", namespace: "payments" },
+  release: { name: "cache" },
+};
+
+describe("parseTemplate", () => {
+  it("finds expressions and their paths", () => {
+    expect(parseTemplate("{{ .release.name }}-redis.{{.env.namespace}}:{{ port | quote }}")).toEqual([
+      { text: "{{ .release.name }}", path: ["release", "name"], start: 0 },
+      { text: "{{.env.namespace}}", path: ["env", "namespace"], start: 26 },
+      { text: "{{ port | quote }}", path: [], start: 45 },
+    ]);
+  });
+});
+
+describe("renderTemplate", () => {
+  it("interpolates references", () => {
+    expect(renderTemplate("{{ .release.name }}-redis-master.{{ .env.namespace }}.svc.cluster.local", context)).toBe(
+      "cache-redis-master.payments.svc.cluster.local",
+    );
+  });
+
+  it("fails on missing values and unsupported expressions", () => {
+    expect(() => renderTemplate("{{ .var.MISSING }}", context)).toThrow("no value for {{ .var.MISSING }}");
+    expect(() => renderTemplate("{{ .env.name.first }}", context)).toThrow(TemplateError);
+    expect(() => renderTemplate("{{ upper .env.name }}", context)).toThrow("unsupported expression");
+  });
+});
+
+describe("renderValuesTemplate", () => {
+  it("keeps the type of single-expression values and interpolates the rest", () => {
+    const template = JSON.stringify({
+      vpc_id: "{{ .component.vpc.vpc_id }}",
+      subnet_ids: "{{ .component.vpc.private_subnet_ids }}",
+      replicas: "{{ .var.REPLICA_COUNT }}",
+      name: "{{ .env.name }}-db",
+      tags: { env: "{{ .env.name }}", owner: "payments" },
+      engine_version: "15.4",
+    });
+
+    expect(renderValuesTemplate(template, context)).toEqual({
+      vpc_id: "vpc-123",
+      subnet_ids: ["subnet-a", "subnet-b"],
+      replicas: 3,
+      name: "prod-db",
+      tags: { env: "prod", owner: "payments" },
+      engine_version: "15.4",
+    });
+  });
+
+  it("reports the key of a failed expression", () => {
+    const template = JSON.stringify({ tags: { team: "{{ .var.TEAM }}" } });
+
+    expect(() => renderValuesTemplate(template, context)).toThrow("tags.team: no value for {{ .var.TEAM }}");
+  });
+
+  it("rejects templates that are not JSON objects", () => {
+    expect(() => renderValuesTemplate("{ vpc_id: 1 }", context)).toThrow("invalid JSON");
+    expect(() => renderValuesTemplate("[]", context)).toThrow("values template must be a JSON object");
+    expect(renderValuesTemplate("", context)).toEqual({});
+  });
+});
+
+describe("variableValues and environmentMetadata", () => {
+  it("converts variables by type", () => {
+    const variables = [
+      create(VariableSchema, { key: "NAME", value: "api", type: VariableType.STRING }),
+      create(VariableSchema, { key: "REPLICAS", value: "3", type: VariableType.NUMBER }),
+      create(VariableSchema, { key: "DEBUG", value: "true", type: VariableType.BOOLEAN }),
+      create(VariableSchema, { key: "ZONES", value: '["a","b"]', type: VariableType.COMPLEX }),
+      create(VariableSchema, { key: "NAME", value: "api-prod" }),
+    ];
+
+    expect(variableValues(variables)).toEqual({ NAME: "api-prod", REPLICAS: 3, DEBUG: true, ZONES: ["a", "b"] });
+  });
+
+  it("includes the Kubernetes namespace", () => {
+    const environment = create(EnvironmentSchema, {
+      id: "env-1",
+      name: "prod",
+      runtimeConfig: { case: "kubernetes", value: { clusterId: "c-1", namespace: "payments" } },
+    });
+
+    expect(environmentMetadata(environment)).toEqual({ id: "env-1", name: "prod", namespace: "payments" });
+  });
+});
+
+describe("lintTemplate", () => {
+  it("flags unknown references", () => {
+    const problems = lintTemplate(
+      "{{ .vars.X }} {{ .var.TYPO }} {{ .env.region }} {{ .component.db }} {{ .component.cache.host }} {{ .component.vpc.id }} {{ len .var.X }}",
+      { variables: ["X"], components: { vpc: ["vpc_id"], db: [] } },
+    );
+
+    expect(problems.map((p) => p.message)).toEqual([
+      "unknown reference {{ .vars.X }}; expected .var, .component, .env or .release",
+      "unknown variable TYPO",
+      "unknown environment metadata region; expected one of: id, name, namespace",
+      "{{ .component.db }} should have 2 names after .component",
+      "unknown component cache",
+      "component vpc has no output id",
+      "unsupported expression {{ len .var.X }}",
+    ]);
+    expect(problems.every((p) => p.severity === "error")).toBe(true);
+  });
+
+  it("warns about components referenced outside dependsOn", () => {
+    expect(lintTemplate("{{ .component.vpc.vpc_id }}", { dependsOn: ["cert-manager"] })).toEqual([
+      {
+        severity: "warning",
+        message: "component vpc is referenced but not in dependsOn",
+        expression: "{{ .component.vpc.vpc_id }}",
+      },
+    ]);
+  });
+});
+
+describe("lintValuesTemplate", () => {
+  const inputs = [
+    create(SourceInputSchema, { name: "vpc_id", type: "string", required: true }),
+    create(SourceInputSchema, { name: "instance_class", type: "string", required: true }),
+    create(SourceInputSchema, { name: "engine_version", type: "string", defaultValue: '"15.4"' }),
+    create(SourceInputSchema, { name: "image", type: "object" }),
+  ];
+
+  it("accepts a valid template", () => {
+    const template = JSON.stringify({
+      vpc_id: "{{ .component.vpc.vpc_id }}",
+      instance_class: "{{ .var.RDS_INSTANCE_CLASS }}",
+      "image.tag": "1.2.3",
+    });
+
+    expect(
+      lintValuesTemplate(template, {
+        inputs,
+        variables: ["RDS_INSTANCE_CLASS"],
+        components: { vpc: ["vpc_id"] },
+        dependsOn: ["vpc"],
+      }),
+    ).toEqual([]);
+  });
+
+  it("flags expressions by key, unknown keys and missing required inputs", () => {
+    const template = JSON.stringify({ vpc_id: "{{ .var.VPC }}", instanceClass: "db.t3.small" });
+
+    expect(lintValuesTemplate(template, { inputs, variables: [] })).toEqual([
+      { severity: "error", message: "unknown variable VPC", key: "vpc_id", expression: "{{ .var.VPC }}" },
+      { severity: "error", message: "instanceClass is not an input of the source", key: "instanceClass" },
+      { severity: "error", message: "required input instance_class has no value", key: "instance_class" },
+    ]);
+  });
+
+  it("flags invalid JSON", () => {
+    expect(lintValuesTemplate('{"vpc_id": "{{ .component.vpc.vpc_id }}",}')).toEqual([
+      { severity: "error", message: expect.stringContaining("invalid JSON") },
+    ]);
+  });
+});
@@ -0,0 +1,349 @@
+import type { JsonObject, JsonValue } from "@bufbuild/protobuf";
+import type { Environment } from "../../proto/admiral/api/environment/v1/environment_pb.js";
+import type { SourceInput } from "../../proto/admiral/api/source/v1/source_pb.js";
+import { VariableType, type Variable } from "../../proto/admiral/api/variable/v1/variable_pb.js";
+
+/**
+ * Values expressions resolve against. Every level is optional; a missing
+ * value fails rendering.
+ */
+export interface TemplateContext {
+  /** Variable values by key, e.g. from `variableValues()` */
+  var?: Record<string, JsonValue>;
+  /** Outputs of upstream components by component name, then output name */
+  component?: Record<string, Record<string, JsonValue>>;
+  /** Environment metadata, e.g. from `environmentMetadata()` */
+  env?: Record<string, JsonValue>;
+  /** Release metadata of the component itself, used by output templates */
+  release?: Record<string, JsonValue>;
+}
+
+/** A `{{ ... }}` expression in a template. */
+export interface TemplateExpression {
+  /** The expression as written, including the braces */
+  text: string;
+  /** Path segments of a supported expression, e.g. `["component", "vpc", "vpc_id"]`; empty otherwise */
+  path: string[];
+  /** Offset of the expression in the template */
+  start: number;
+}
+
+/** Severity of a lint finding. Errors fail the deployment, warnings might not. */
+export type TemplateProblemSeverity = "error" | "warning";
+
+/**
+ * A lint finding.
+ */
+export interface TemplateProblem {
+  severity: TemplateProblemSeverity;
+  message: string;
+  /** Values key the finding is about, for values templates */
+  key?: string;
+  /** Expression the finding is about */
+  expression?: string;
+}
+
+/**
+ * What a template is checked against. Checks whose option is omitted are skipped.
+ */
+export interface TemplateLintOptions {
+  /** Keys of the variables visible to the component */
+  variables?: Iterable<string>;
+
+  /**
+   * Components of the application by name, with their output names. Empty
+   * lists are not checked, as infrastructure outputs are discovered at deploy time.
+   */
+  components?: Record<string, string[]>;
+
+  /** Names of the components in the component's `dependsOn` */
+  dependsOn?: string[];
+
+  /** Inputs of the component's source at its version, from `GetSourceInputs` */
+  inputs?: SourceInput[];
+}
+
+/** Roots of template expressions and how many segments follow them. */
+const ROOTS: Record<string, number> = { var: 1, component: 2, env: 1, release: 1 };
+
+/** Keys of `environmentMetadata()`. */
+const ENV_KEYS = ["id", "name", "namespace"];
+
+const EXPRESSION = /\{\{(.*?)\}\}/gs;
+const PATH = /^\s*((?:\.[A-Za-z0-9_-]+)+)\s*$/;
+
+/**
+ * Thrown when a template cannot be rendered.
+ */
+export class TemplateError extends Error {
+  /** Values key being rendered, for values templates */
+  readonly key?: string;
+  /** Expression that failed */
+  readonly expression?: string;
+
+  constructor(message: string, key?: string, expression?: string) {
+    super(key !== undefined ? `${key}: ${message}` : message);
+    this.name = "TemplateError";
+    this.key = key;
+    this.expression = expression;
+  }
+}
+
+/**
+ * Finds the `{{ ... }}` expressions of a template. Only plain references
+ * like `{{ .var.X }}` get a `path`; pipelines and functions are not supported.
+ */
+export function parseTemplate(template: string): TemplateExpression[] {
+  return [...template.matchAll(EXPRESSION)].map((match) => {
+    const path = PATH.exec(match[1]!)?.[1];
+    return { text: match[0], path: path ? path.slice(1).split(".") : [], start: match.index };
+  });
+}
+
+/**
+ * Returns the outputs a template references, by component name.
+ */
+export function componentReferences(template: string): Map<string, Set<string>> {
+  const references = new Map<string, Set<string>>();
+  for (const { path } of parseTemplate(template)) {
+    const [root, name, output] = path;
+    if (root === "component" && name) {
+      const outputs = references.get(name) ?? new Set<string>();
+      if (output) {
+        outputs.add(output);
+      }
+      references.set(name, outputs);
+    }
+  }
+  return references;
+}
+
+/**
+ * Converts variables to template values: numbers, booleans and complex
+ * values are parsed from their string form. Later variables with the same
+ * key win, so pass them from the broadest scope to the narrowest.
+ */
+export function variableValues(variables: Pick<Variable, "key" | "value" | "type">[]): Record<string, JsonValue> {
+  const values: Record<string, JsonValue> = {};
+  for (const variable of variables) {
+    switch (variable.type) {
+      case VariableType.NUMBER:
+        values[variable.key] = Number(variable.value);
+        break;
+      case VariableType.BOOLEAN:
+        values[variable.key] = variable.value === "true";
+        break;
+      case VariableType.COMPLEX:
+        values[variable.key] = JSON.parse(variable.value) as JsonValue;
+        break;
+      default:
+        values[variable.key] = variable.value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Returns the metadata of an environment available as `.env`: its `id`,
+ * `name` and, for Kubernetes environments with one, `namespace`.
+ */
+export function environmentMetadata(environment: Environment): Record<string, JsonValue> {
+  const metadata: Record<string, JsonValue> = { id: environment.id, name: environment.name };
+  if (environment.runtimeConfig.case === "kubernetes" && environment.runtimeConfig.value.namespace !== undefined) {
+    metadata.namespace = environment.runtimeConfig.value.namespace;
+  }
+  return metadata;
+}
+
+function resolve(expression: TemplateExpression, context: TemplateContext, key?: string): JsonValue {
+  if (expression.path.length === 0) {
+    throw new TemplateError(`unsupported expression ${expression.text}`, key, expression.text);
+  }
+  let value: JsonValue | TemplateContext | undefined = context;
+  for (const segment of expression.path) {
+    value =
+      value !== null && typeof value === "object" && !Array.isArray(value) && Object.hasOwn(value, segment)
+        ? (value as Record<string, JsonValue>)[segment]
+        : undefined;
+    if (value === undefined) {
+      throw new TemplateError(`no value for ${expression.text}`, key, expression.text);
+    }
+  }
+  return value as JsonValue;
+}
+
+function interpolate(template: string, context: TemplateContext, key?: string): string {
+  let rendered = "";
+  let offset = 0;
+  for (const expression of parseTemplate(template)) {
+    const value = resolve(expression, context, key);
+    rendered += template.slice(offset, expression.start) + (typeof value === "string" ? value : JSON.stringify(value));
+    offset = expression.start + expression.text.length;
+  }
+  return rendered + template.slice(offset);
+}
+
+/**
+ * Renders a string template such as a `ComponentOutput.valueTemplate`.
+ * Values that are not strings are inserted as JSON.
+ *
+ * @throws TemplateError if an expression is unsupported or has no value
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return interpolate(template, context);
+}
+
+/**
+ * Renders a `valuesTemplate` into the values passed to the source. String
+ * values made of a single expression take the referenced value as is, so
+ * numbers, lists and objects keep their type; other strings are interpolated.
+ *
+ * @example
+ * ```typescript
+ * const values = renderValuesTemplate(component.valuesTemplate, {
+ *   var: variableValues(variables),
+ *   component: { vpc: { vpc_id: "vpc-123", private_subnet_ids: ["subnet-a", "subnet-b"] } },
+ *   env: environmentMetadata(environment),
+ * });
+ * ```
+ *
+ * @throws TemplateError if the template is not a JSON object, or an expression is unsupported or has no value
+ */
+export function renderValuesTemplate(valuesTemplate: string, context: TemplateContext): JsonObject {
+  const values = parseValues(valuesTemplate);
+  if (typeof values === "string") {
+    throw new TemplateError(values);
+  }
+
+  const render = (value: JsonValue, key: string): JsonValue => {
+    if (typeof value === "string") {
+      const expressions = parseTemplate(value);
+      const only = expressions[0];
+      if (expressions.length === 1 && only!.text === value.trim()) {
+        return resolve(only!, context, key);
+      }
+      return interpolate(value, context, key);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, i) => render(item, `${key}[${i}]`));
+    }
+    if (value !== null && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, render(v, `${key}.${k}`)]));
+    }
+    return value;
+  };
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, render(value, key)]));
+}
+
+/** Parses a values template, returning an error message if it is not a JSON object. */
+function parseValues(valuesTemplate: string): JsonObject | string {
+  let values: unknown;
+  try {
+    values = JSON.parse(valuesTemplate === "" ? "{}" : valuesTemplate);
+  } catch (err) {
+    return `invalid JSON: ${(err as Error).message}`;
+  }
+  if (values === null || typeof values !== "object" || Array.isArray(values)) {
+    return "values template must be a JSON object";
+  }
+  return values as JsonObject;
+}
+
+/**
+ * Checks a string template such as a `ComponentOutput.valueTemplate`:
+ * unsupported expressions, unknown variables, components, outputs and
+ * environment metadata, and components referenced without being in `dependsOn`.
+ *
+ * @param template - Template to check
+ * @param options - Known variables, components, outputs and dependencies
+ * @param key - Values key to report findings under
+ * @returns Findings, empty when the template is valid
+ */
+export function lintTemplate(template: string, options: TemplateLintOptions = {}, key?: string): TemplateProblem[] {
+  const problems: TemplateProblem[] = [];
+  const variables = options.variables ? new Set(options.variables) : undefined;
+  const report = (severity: TemplateProblemSeverity, message: string, expression: string) =>
+    problems.push({ severity, message, key, expression });
+  const error = (message: string, expression: string) => report("error", message, expression);
+
+  for (const expression of parseTemplate(template)) {
+    const { text, path } = expression;
+    const [root, name, output] = path;
+    if (!root) {
+      error(`unsupported expression ${text}`, text);
+    } else if (!(root in ROOTS)) {
+      error(`unknown reference ${text}; expected .var, .component, .env or .release`, text);
+    } else if (path.length !== ROOTS[root]! + 1) {
+      error(`${text} should have ${ROOTS[root]} name${ROOTS[root] === 1 ? "" : "s"} after .${root}`, text);
+    } else if (root === "var" && variables && !variables.has(name!)) {
+      error(`unknown variable ${name}`, text);
+    } else if (root === "env" && !ENV_KEYS.includes(name!)) {
+      error(`unknown environment metadata ${name}; expected one of: ${ENV_KEYS.join(", ")}`, text);
+    } else if (root === "component") {
+      const outputs = options.components?.[name!];
+      if (options.components && !outputs) {
+        error(`unknown component ${name}`, text);
+      } else if (outputs && outputs.length > 0 && !outputs.includes(output!)) {
+        error(`component ${name} has no output ${output}`, text);
+      } else if (options.dependsOn && !options.dependsOn.includes(name!)) {
+        report("warning", `component ${name} is referenced but not in dependsOn`, text);
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Checks a `valuesTemplate`: invalid JSON, every expression as in
+ * `lintTemplate()`, and, when `inputs` are given, keys that are not inputs
+ * of the source and required inputs without a value. Dotted keys such as
+ * `image.tag` are matched by their first segment.
+ *
+ * @example
+ * ```typescript
+ * const { inputs } = await client.source.getSourceInputs({ sourceId: component.sourceId, version: component.version });
+ * for (const problem of lintValuesTemplate(component.valuesTemplate, { inputs, variables: ["IMAGE_TAG"] })) {
+ *   console.log(`${problem.severity}: ${problem.message}`);
+ * }
+ * ```
+ *
+ * @param valuesTemplate - JSON values template to check
+ * @param options - Known variables, components, outputs, dependencies and source inputs
+ * @returns Findings, empty when the template is valid
+ */
+export function lintValuesTemplate(valuesTemplate: string, options: TemplateLintOptions = {}): TemplateProblem[] {
+  const values = parseValues(valuesTemplate);
+  if (typeof values === "string") {
+    return [{ severity: "error", message: values }];
+  }
+
+  const problems: TemplateProblem[] = [];
+  const visit = (value: JsonValue, key: string) => {
+    if (typeof value === "string") {
+      problems.push(...lintTemplate(value, options, key));
+    } else if (Array.isArray(value)) {
+      value.forEach((item, i) => visit(item, `${key}[${i}]`));
+    } else if (value !== null && typeof value === "object") {
+      Object.entries(value).forEach(([k, v]) => visit(v, `${key}.${k}`));
+    }
+  };
+  for (const [key, value] of Object.entries(values)) {
+    visit(value, key);
+  }
+
+  if (options.inputs && options.inputs.length > 0) {
+    const inputs = new Set(options.inputs.map((input) => input.name));
+    const keys = new Set(Object.keys(values).map((key) => (inputs.has(key) ? key : key.split(".")[0]!)));
+    for (const key of Object.keys(values)) {
+      if (!inputs.has(key) && !inputs.has(key.split(".")[0]!)) {
+        problems.push({ severity: "error", message: `${key} is not an input of the source`, key });
+      }
+    }
+    for (const input of options.inputs) {
+      if (input.required && input.defaultValue === undefined && !keys.has(input.name)) {
+        problems.push({ severity: "error", message: `required input ${input.name} has no value`, key: input.name });
+      }
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import { createClient, createRouterTransport } from "@connectrpc/connect";
+import {
+  diffStates,
+  formatAttributePath,
+  parseTerraformState,
+  SENSITIVE_VALUE,
+  StateFormatError,
+  withStateDiff,
+} from "./tfstate.js";
+import { StateAPI } from "../../proto/admiral/api/state/v1/state_pb.js";
+
+const database = (password: string, name: string) => ({
+  mode: "managed",
+  type: "aws_db_instance",
+  name: "main",
+  provider: 'provider["registry.terraform.io/hashicorp/aws"]',
+  instances: [
+    {
+      schema_version: 2,
+      attributes: { id: "db-1", password, tags: { Name: name } },
+      sensitive_attributes: [[{ type: "get_attr", value: "password" }]],
+    },
+  ],
+});
+
+const V11 = {
+  version: 4,
+  terraform_version: "1.9.0",
+  serial: 11,
+  lineage: "5d6c9b0e",
+  outputs: {
+    endpoint: { value: "db-1.internal", type: "string" },
+    db_password: { value: "hunter2", type: "string", sensitive: true },
+  },
+  resources: [
+    database("hunter2", "main"),
+    {
+      module: "module.vpc",
+      mode: "managed",
+      type: "aws_subnet",
+      name: "public",
+      provider: 'provider["registry.terraform.io/hashicorp/aws"]',
+      instances: [
+        { index_key: 0, attributes: { id: "subnet-a" } },
+        { index_key: 1, attributes: { id: "subnet-b" } },
+      ],
+    },
+  ],
+};
+
+const V12 = {
+  ...V11,
+  serial: 12,
+  outputs: {
+    endpoint: { value: "db-1.internal", type: "string" },
+    db_password: { value: "correct-horse", type: "string", sensitive: true },
+    vpc_id: { value: "vpc-1", type: "string" },
+  },
+  resources: [
+    database("correct-horse", "primary"),
+    {
+      ...V11.resources[1],
+      instances: [
+        { index_key: 0, attributes: { id: "subnet-a" } },
+        { index_key: 2, attributes: { id: "subnet-c" } },
+      ],
+    },
+  ],
+};
+
+describe("parseTerraformState", () => {
+  it("parses resources, instances and outputs", () => {
+    const state = parseTerraformState(JSON.stringify(V11));
+
+    expect(state).toMatchObject({ serial: 11, lineage: "5d6c9b0e", terraformVersion: "1.9.0" });
+    expect(state.resources.map((r) => r.address)).toEqual(["aws_db_instance.main", "module.vpc.aws_subnet.public"]);
+    expect(state.resources[1]?.instances.map((i) => i.address)).toEqual([
+      "module.vpc.aws_subnet.public[0]",
+      "module.vpc.aws_subnet.public[1]",
+    ]);
+    expect(state.resources[0]?.instances[0]?.sensitivePaths).toEqual([["password"]]);
+    expect(state.outputs.db_password?.sensitive).toBe(true);
+  });
+
+  it("rejects data that is not a version 4 state", () => {
+    expect(() => parseTerraformState("not json")).toThrow(StateFormatError);
+    expect(() => parseTerraformState(JSON.stringify({ version: 3 }))).toThrow(/version 3/);
+  });
+});
+
+describe("formatAttributePath", () => {
+  it("formats keys and indexes", () => {
+    expect(formatAttributePath(["ingress", 0, "cidr_blocks"])).toBe("ingress[0].cidr_blocks");
+    expect(formatAttributePath(["tags", "kubernetes.io/role"])).toBe('tags["kubernetes.io/role"]');
+  });
+});
+
+describe("diffStates", () => {
+  it("reports added, removed and changed resources and outputs with masking", () => {
+    const diff = diffStates(parseTerraformState(JSON.stringify(V11)), parseTerraformState(JSON.stringify(V12)));
+
+    expect(diff.resources.map((r) => `${r.action} ${r.address}`)).toEqual([
+      "changed aws_db_instance.main",
+      "removed module.vpc.aws_subnet.public[1]",
+      "added module.vpc.aws_subnet.public[2]",
+    ]);
+    expect(diff.resources[0]?.changes).toEqual([
+      { path: "password", before: SENSITIVE_VALUE, after: SENSITIVE_VALUE, sensitive: true },
+      { path: "tags.Name", before: "main", after: "primary", sensitive: false },
+    ]);
+    expect(diff.resources[0]?.after?.password).toBe(SENSITIVE_VALUE);
+    expect(diff.outputs).toEqual([
+      { name: "db_password", action: "changed", before: SENSITIVE_VALUE, after: SENSITIVE_VALUE, sensitive: true },
+      { name: "vpc_id", action: "added", before: undefined, after: "vpc-1", sensitive: false },
+    ]);
+  });
+
+  it("reveals sensitive values on request", () => {
+    const diff = diffStates(parseTerraformState(JSON.stringify(V11)), parseTerraformState(JSON.stringify(V12)), {
+      revealSensitive: true,
+    });
+
+    expect(diff.resources[0]?.changes[0]).toMatchObject({ before: "hunter2", after: "correct-horse", sensitive: true });
+  });
+});
+
+describe("diffStateVersions", () => {
+  it("fetches both versions and diffs them", async () => {
+    const versions = new Map<bigint, object>([
+      [11n, V11],
+      [12n, V12],
+    ]);
+    const transport = createRouterTransport((router) => {
+      router.service(StateAPI, {
+        getStateVersion(req) {
+          return { data: new TextEncoder().encode(JSON.stringify(versions.get(req.serial))) };
+        },
+      });
+    });
+    const client = withStateDiff(createClient(StateAPI, transport));
+
+    const diff = await client.diffStateVersions("state-1", 11, 12);
+
+    expect(diff).toMatchObject({ fromSerial: 11, toSerial: 12 });
+    expect(diff.resources).toHaveLength(3);
+  });
+});
@@ -0,0 +1,555 @@
+import type { CallOptions, Client as ConnectClient } from "@connectrpc/connect";
+import type { StateAPI } from "../../proto/admiral/api/state/v1/state_pb.js";
+
+/** The state RPCs used to diff state versions. */
+export type StateDiffClient = Pick<ConnectClient<typeof StateAPI>, "getStateVersion">;
+
+/** Placeholder shown in place of sensitive values. */
+export const SENSITIVE_VALUE = "(sensitive value)";
+
+/** Path to a value inside resource attributes: object keys and list indexes. */
+export type AttributePath = (string | number)[];
+
+/**
+ * One instance of a resource, e.g. `aws_subnet.public[0]`.
+ */
+export interface TerraformResourceInstance {
+  /** Full instance address, e.g. `module.vpc.aws_subnet.public["a"]` */
+  address: string;
+
+  /** `count` index or `for_each` key; undefined for single-instance resources */
+  indexKey?: string | number;
+
+  /** Provider schema version of the attributes */
+  schemaVersion: number;
+
+  /** Attribute values as stored in the state */
+  attributes: Record<string, unknown>;
+
+  /** Paths of attributes Terraform marked as sensitive */
+  sensitivePaths: AttributePath[];
+
+  /** Addresses of the resources this instance depends on */
+  dependencies: string[];
+
+  /** "tainted" when the instance is scheduled for replacement */
+  status?: string;
+}
+
+/**
+ * A resource block of a Terraform state.
+ */
+export interface TerraformResource {
+  /** Resource address without instance key, e.g. `module.vpc.aws_subnet.public` */
+  address: string;
+  mode: "managed" | "data";
+  type: string;
+  name: string;
+
+  /** Module path, e.g. `module.vpc`; undefined for the root module */
+  module?: string;
+
+  /** Provider configuration address */
+  provider: string;
+  instances: TerraformResourceInstance[];
+}
+
+/**
+ * A root module output.
+ */
+export interface TerraformOutput {
+  value: unknown;
+
+  /** Terraform type constraint, e.g. `"string"` or `["list", "string"]` */
+  type: unknown;
+  sensitive: boolean;
+}
+
+/**
+ * A parsed Terraform state (format version 4).
+ */
+export interface TerraformState {
+  version: number;
+  terraformVersion: string;
+  serial: number;
+  lineage: string;
+  outputs: Record<string, TerraformOutput>;
+  resources: TerraformResource[];
+}
+
+/** Thrown when state data is not a Terraform state in format version 4. */
+export class StateFormatError extends Error {
+  override readonly name = "StateFormatError";
+}
+
+/** How a resource instance or output differs between two states. */
+export type ChangeAction = "added" | "removed" | "changed";
+
+/**
+ * A changed value inside a resource instance.
+ */
+export interface AttributeChange {
+  /** Formatted attribute path, e.g. `tags.Name` or `ingress[0].cidr_blocks` */
+  path: string;
+
+  /** Value before; undefined when the attribute was added */
+  before?: unknown;
+
+  /** Value after; undefined when the attribute was removed */
+  after?: unknown;
+
+  /** Whether the values are masked */
+  sensitive: boolean;
+}
+
+/**
+ * A resource instance that differs between two states.
+ */
+export interface ResourceChange {
+  /** Instance address */
+  address: string;
+  action: ChangeAction;
+  type: string;
+
+  /** Attributes before, masked; undefined when added */
+  before?: Record<string, unknown>;
+
+  /** Attributes after, masked; undefined when removed */
+  after?: Record<string, unknown>;
+
+  /** Changed attributes; empty unless action is "changed" */
+  changes: AttributeChange[];
+}
+
+/**
+ * An output that differs between two states.
+ */
+export interface OutputChange {
+  name: string;
+  action: ChangeAction;
+  before?: unknown;
+  after?: unknown;
+  sensitive: boolean;
+}
+
+/**
+ * Differences between two Terraform states.
+ */
+export interface StateDiff {
+  fromSerial: number;
+  toSerial: number;
+
+  /** Resource instances, sorted by address */
+  resources: ResourceChange[];
+
+  /** Outputs, sorted by name */
+  outputs: OutputChange[];
+}
+
+/**
+ * Options for diffing states.
+ */
+export interface DiffStatesOptions {
+  /**
+   * Show sensitive attributes and outputs instead of masking them.
+   * @default false
+   */
+  revealSensitive?: boolean;
+}
+
+/**
+ * Options for diffing stored state versions.
+ */
+export interface DiffStateVersionsOptions extends DiffStatesOptions {
+  /** Call options for the GetStateVersion requests */
+  callOptions?: CallOptions;
+}
+
+// Raw state v4 JSON as written by Terraform
+interface RawInstance {
+  index_key?: string | number;
+  schema_version?: number;
+  attributes?: Record<string, unknown>;
+  sensitive_attributes?: unknown[];
+  dependencies?: string[];
+  status?: string;
+}
+
+interface RawResource {
+  module?: string;
+  mode: "managed" | "data";
+  type: string;
+  name: string;
+  provider: string;
+  instances?: RawInstance[];
+}
+
+interface RawState {
+  version: number;
+  terraform_version?: string;
+  serial: number;
+  lineage: string;
+  outputs?: Record<string, { value: unknown; type?: unknown; sensitive?: boolean }>;
+  resources?: RawResource[];
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Formats an attribute path, e.g. `["tags", "Name"]` as `tags.Name`.
+ */
+export function formatAttributePath(path: AttributePath): string {
+  return path
+    .map((step, i) => {
+      if (typeof step === "number") {
+        return `[${step}]`;
+      }
+      if (!IDENTIFIER.test(step)) {
+        return `[${JSON.stringify(step)}]`;
+      }
+      return i === 0 ? step : `.${step}`;
+    })
+    .join("");
+}
+
+/**
+ * Converts one entry of `sensitive_attributes`, a list of cty path steps such as
+ * `{"type":"get_attr","value":"password"}` or `{"type":"index","value":{"value":0,"type":"number"}}`.
+ */
+function parseSensitivePath(steps: unknown): AttributePath | undefined {
+  if (!Array.isArray(steps)) {
+    return undefined;
+  }
+  const path: AttributePath = [];
+  for (const step of steps) {
+    if (!isObject(step)) {
+      return undefined;
+    }
+    if (step.type === "get_attr" && typeof step.value === "string") {
+      path.push(step.value);
+    } else if (step.type === "index" && isObject(step.value)) {
+      const key = step.value.value;
+      if (typeof key !== "string" && typeof key !== "number") {
+        return undefined;
+      }
+      path.push(key);
+    } else {
+      return undefined;
+    }
+  }
+  return path;
+}
+
+function instanceAddress(resourceAddress: string, indexKey: string | number | undefined): string {
+  if (indexKey === undefined) {
+    return resourceAddress;
+  }
+  return `${resourceAddress}[${JSON.stringify(indexKey)}]`;
+}
+
+/**
+ * Parses Terraform state JSON (format version 4).
+ *
+ * @param data - State as returned by GetState or GetStateVersion
+ * @returns The typed state
+ * @throws StateFormatError if the data is not a version 4 state
+ *
+ * @example
+ * ```typescript
+ * const { data } = await client.state.getStateVersion({ stateId, serial: 12n });
+ * const state = parseTerraformState(data);
+ * for (const resource of state.resources) {
+ *   console.log(resource.address, resource.instances.length);
+ * }
+ * ```
+ */
+export function parseTerraformState(data: Uint8Array | string): TerraformState {
+  let raw: RawState;
+  try {
+    raw = JSON.parse(typeof data === "string" ? data : new TextDecoder().decode(data)) as RawState;
+  } catch (err) {
+    throw new StateFormatError(`state is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!isObject(raw)) {
+    throw new StateFormatError("state is not a JSON object");
+  }
+  if (raw.version !== 4) {
+    throw new StateFormatError(`unsupported state format version ${String(raw.version)}, expected 4`);
+  }
+
+  const outputs: Record<string, TerraformOutput> = {};
+  for (const [name, output] of Object.entries(raw.outputs ?? {})) {
+    outputs[name] = { value: output.value, type: output.type, sensitive: output.sensitive === true };
+  }
+
+  const resources = (raw.resources ?? []).map((resource): TerraformResource => {
+    const local = `${resource.mode === "data" ? "data." : ""}${resource.type}.${resource.name}`;
+    const address = resource.module ? `${resource.module}.${local}` : local;
+    return {
+      address,
+      mode: resource.mode,
+      type: resource.type,
+      name: resource.name,
+      module: resource.module,
+      provider: resource.provider,
+      instances: (resource.instances ?? []).map((instance) => ({
+        address: instanceAddress(address, instance.index_key),
+        indexKey: instance.index_key,
+        schemaVersion: instance.schema_version ?? 0,
+        attributes: instance.attributes ?? {},
+        sensitivePaths: (instance.sensitive_attributes ?? [])
+          .map(parseSensitivePath)
+          .filter((path): path is AttributePath => path !== undefined),
+        dependencies: instance.dependencies ?? [],
+        status: instance.status,
+      })),
+    };
+  });
+
+  return {
+    version: raw.version,
+    terraformVersion: raw.terraform_version ?? "",
+    serial: raw.serial,
+    lineage: raw.lineage,
+    outputs,
+    resources,
+  };
+}
+
+// A path is sensitive when it lies inside a sensitive path or contains one
+function overlaps(path: AttributePath, sensitivePaths: AttributePath[]): boolean {
+  return sensitivePaths.some((sensitive) => {
+    const n = Math.min(path.length, sensitive.length);
+    for (let i = 0; i < n; i++) {
+      if (path[i] !== sensitive[i]) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
+
+function mask(value: unknown, path: AttributePath, sensitivePaths: AttributePath[]): unknown {
+  if (sensitivePaths.some((sensitive) => sensitive.length <= path.length && overlaps(path, [sensitive]))) {
+    return SENSITIVE_VALUE;
+  }
+  if (!overlaps(path, sensitivePaths)) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => mask(item, [...path, i], sensitivePaths));
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mask(v, [...path, k], sensitivePaths)]));
+  }
+  return value;
+}
+
+/**
+ * Returns a copy of an instance's attributes with sensitive values replaced by `SENSITIVE_VALUE`.
+ */
+export function maskSensitiveAttributes(instance: TerraformResourceInstance): Record<string, unknown> {
+  return mask(instance.attributes, [], instance.sensitivePaths) as Record<string, unknown>;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((k) => k in b && isEqual(a[k], b[k]));
+  }
+  return false;
+}
+
+// Walks both values and records the leaves that differ
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: AttributePath,
+  changes: [AttributePath, unknown, unknown][],
+) {
+  if (isEqual(before, after)) {
+    return;
+  }
+  if (isObject(before) && isObject(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      diffValues(before[key], after[key], [...path, key], changes);
+    }
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      diffValues(before[i], after[i], [...path, i], changes);
+    }
+    return;
+  }
+  changes.push([path, before, after]);
+}
+
+function instancesByAddress(state: TerraformState): Map<string, [TerraformResource, TerraformResourceInstance]> {
+  const instances = new Map<string, [TerraformResource, TerraformResourceInstance]>();
+  for (const resource of state.resources) {
+    for (const instance of resource.instances) {
+      instances.set(instance.address, [resource, instance]);
+    }
+  }
+  return instances;
+}
+
+function byKey<T>(key: (item: T) => string): (a: T, b: T) => number {
+  return (a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0);
+}
+
+/**
+ * Compares two parsed states.
+ *
+ * Resource instances are matched by address. Sensitive attributes and outputs
+ * are replaced by `SENSITIVE_VALUE` unless `revealSensitive` is set; a masked
+ * change is still reported, only its values are hidden.
+ *
+ * @param from - The older state
+ * @param to - The newer state
+ * @param options - Diff options
+ * @returns Added, removed and changed resource instances and outputs
+ */
+export function diffStates(from: TerraformState, to: TerraformState, options: DiffStatesOptions = {}): StateDiff {
+  const reveal = options.revealSensitive ?? false;
+  const attributes = (instance: TerraformResourceInstance) =>
+    reveal ? instance.attributes : maskSensitiveAttributes(instance);
+
+  const resources: ResourceChange[] = [];
+  const before = instancesByAddress(from);
+  const after = instancesByAddress(to);
+  for (const [address, [resource, instance]] of before) {
+    if (!after.has(address)) {
+      resources.push({ address, action: "removed", type: resource.type, before: attributes(instance), changes: [] });
+    }
+  }
+  for (const [address, [resource, instance]] of after) {
+    const previous = before.get(address)?.[1];
+    if (!previous) {
+      resources.push({ address, action: "added", type: resource.type, after: attributes(instance), changes: [] });
+      continue;
+    }
+    const leaves: [AttributePath, unknown, unknown][] = [];
+    diffValues(previous.attributes, instance.attributes, [], leaves);
+    if (leaves.length === 0) {
+      continue;
+    }
+    const sensitivePaths = [...previous.sensitivePaths, ...instance.sensitivePaths];
+    resources.push({
+      address,
+      action: "changed",
+      type: resource.type,
+      before: attributes(previous),
+      after: attributes(instance),
+      changes: leaves.map(([path, was, is]) => {
+        const sensitive = overlaps(path, sensitivePaths);
+        const hide = sensitive && !reveal;
+        return {
+          path: formatAttributePath(path),
+          before: hide && was !== undefined ? SENSITIVE_VALUE : was,
+          after: hide && is !== undefined ? SENSITIVE_VALUE : is,
+          sensitive,
+        };
+      }),
+    });
+  }
+
+  const outputs: OutputChange[] = [];
+  for (const name of new Set([...Object.keys(from.outputs), ...Object.keys(to.outputs)])) {
+    const was = from.outputs[name];
+    const is = to.outputs[name];
+    if (was && is && isEqual(was.value, is.value)) {
+      continue;
+    }
+    const sensitive = (was?.sensitive ?? false) || (is?.sensitive ?? false);
+    const hide = sensitive && !reveal;
+    outputs.push({
+      name,
+      action: !was ? "added" : !is ? "removed" : "changed",
+      before: was && (hide ? SENSITIVE_VALUE : was.value),
+      after: is && (hide ? SENSITIVE_VALUE : is.value),
+      sensitive,
+    });
+  }
+
+  return {
+    fromSerial: from.serial,
+    toSerial: to.serial,
+    resources: resources.sort(byKey((change) => change.address)),
+    outputs: outputs.sort(byKey((change) => change.name)),
+  };
+}
+
+/**
+ * Fetches two stored versions of a state and compares them.
+ *
+ * @param client - State service client
+ * @param stateId - The state record (UUID)
+ * @param fromSerial - Serial of the older version
+ * @param toSerial - Serial of the newer version
+ * @param options - Diff and call options
+ * @returns The differences; see `diffStates`
+ * @throws StateFormatError if a version is not a Terraform v4 state
+ *
+ * @example
+ * ```typescript
+ * const diff = await client.state.diffStateVersions(stateId, 11, 12);
+ * for (const change of diff.resources) {
+ *   console.log(change.action, change.address);
+ *   for (const attr of change.changes) {
+ *     console.log(`  ${attr.path}: ${JSON.stringify(attr.before)} -> ${JSON.stringify(attr.after)}`);
+ *   }
+ * }
+ * ```
+ */
+export async function diffStateVersions(
+  client: StateDiffClient,
+  stateId: string,
+  fromSerial: number | bigint,
+  toSerial: number | bigint,
+  options: DiffStateVersionsOptions = {},
+): Promise<StateDiff> {
+  const [from, to] = await Promise.all(
+    [fromSerial, toSerial].map(async (serial) => {
+      const { data } = await client.getStateVersion({ stateId, serial: BigInt(serial) }, options.callOptions);
+      return parseTerraformState(data);
+    }),
+  );
+  return diffStates(from!, to!, options);
+}
+
+/** A state service client with `diffStateVersions()`. */
+export type WithStateDiff<C extends StateDiffClient> = C & {
+  /** Compares two stored state versions. See `diffStateVersions`. */
+  diffStateVersions(
+    stateId: string,
+    fromSerial: number | bigint,
+    toSerial: number | bigint,
+    options?: DiffStateVersionsOptions,
+  ): Promise<StateDiff>;
+};
+
+/**
+ * Adds `diffStateVersions()` to a state service client.
+ */
+export function withStateDiff<C extends StateDiffClient>(client: C): WithStateDiff<C> {
+  return Object.assign(client, {
+    diffStateVersions: (
+      stateId: string,
+      fromSerial: number | bigint,
+      toSerial: number | bigint,
+      options?: DiffStateVersionsOptions,
+    ) => diffStateVersions(client, stateId, fromSerial, toSerial, options),
+  });
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError } from "@connectrpc/connect";
+import { createTokenSource, type TokenProvider } from "./token.js";
+
+// Helper to create a JWT expiring in the given number of seconds
+function createTestJWT(expiresInSeconds: number, sub = "user-123"): string {
+  const header = btoa(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = btoa(JSON.stringify({ sub, exp: Math.floor(Date.now() / 1000) + expiresInSeconds }));
+  return `${header}.${payload}.test-signature`;
+}
+
+describe("createTokenSource", () => {
+  it("returns the static token without a provider", async () => {
+    const tokens = createTokenSource({ authToken: "static-token-12345" });
+
+    expect(tokens.refreshable).toBe(false);
+    expect(tokens.current()).toBe("static-token-12345");
+    expect(await tokens.getToken()).toBe("static-token-12345");
+  });
+
+  it("fetches a token from a provider function on first use", async () => {
+    const token = createTestJWT(3600);
+    const tokens = createTokenSource({ tokenProvider: async () => token });
+
+    expect(tokens.current()).toBeUndefined();
+    expect(await tokens.getToken()).toBe(token);
+    expect(tokens.current()).toBe(token);
+  });
+
+  it("reuses a token that is not close to expiry", async () => {
+    let calls = 0;
+    const tokens = createTokenSource({
+      tokenProvider: () => {
+        calls++;
+        return createTestJWT(3600);
+      },
+    });
+
+    await tokens.getToken();
+    await tokens.getToken();
+    expect(calls).toBe(1);
+  });
+
+  it("refreshes a token that expires within the skew", async () => {
+    const expiring = createTestJWT(30);
+    const fresh = createTestJWT(3600, "user-456");
+    const tokens = createTokenSource({
+      authToken: expiring,
+      tokenProvider: () => fresh,
+      tokenRefreshSkew: 60000,
+    });
+
+    expect(await tokens.getToken()).toBe(fresh);
+  });
+
+  it("never refreshes opaque tokens proactively", async () => {
+    let calls = 0;
+    const tokens = createTokenSource({
+      authToken: "opaque-token-12345",
+      tokenProvider: () => {
+        calls++;
+        return "another-opaque-token";
+      },
+    });
+
+    expect(await tokens.getToken()).toBe("opaque-token-12345");
+    expect(calls).toBe(0);
+  });
+
+  it("invalidates object providers before refreshing", async () => {
+    const events: string[] = [];
+    const provider: TokenProvider = {
+      getToken() {
+        events.push("get");
+        return createTestJWT(3600);
+      },
+      invalidate() {
+        events.push("invalidate");
+      },
+    };
+    const tokens = createTokenSource({ tokenProvider: provider });
+
+    await tokens.refresh();
+    expect(events).toEqual(["invalidate", "get"]);
+  });
+
+  it("shares a single refresh between concurrent callers", async () => {
+    let calls = 0;
+    const tokens = createTokenSource({
+      tokenProvider: async () => {
+        calls++;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return createTestJWT(3600);
+      },
+    });
+
+    await Promise.all([tokens.getToken(), tokens.getToken(), tokens.getToken()]);
+    expect(calls).toBe(1);
+  });
+
+  it("wraps provider failures as Unauthenticated errors", async () => {
+    const tokens = createTokenSource({
+      tokenProvider: () => {
+        throw new Error("vault unavailable");
+      },
+    });
+
+    const err = await tokens.getToken().catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(ConnectError);
+    expect((err as ConnectError).code).toBe(Code.Unauthenticated);
+    expect((err as ConnectError).message).toContain("vault unavailable");
+  });
+});
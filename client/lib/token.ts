@@ -0,0 +1,131 @@
+import { Code, ConnectError } from "@connectrpc/connect";
+import { parseJWTToken, tokenExpiresIn } from "./auth.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import type { Logger } from "./logger.js";
+import { noopLogger } from "./logger.js";
+
+/**
+ * Supplies auth tokens on demand. Implement `invalidate()` to drop any cached
+ * token when the SDK detects that it expired or was rejected.
+ */
+export interface TokenProvider {
+  getToken(): Promise<string> | string;
+  invalidate?(): void;
+}
+
+/** Function form of a token provider, called whenever a fresh token is needed. */
+export type TokenProviderFn = () => Promise<string> | string;
+
+/**
+ * Holds the active auth token and refreshes it through a token provider.
+ */
+export interface TokenSource {
+  /** Whether the token can be refreshed (a token provider is configured). */
+  readonly refreshable: boolean;
+
+  /** Returns the currently active token without triggering a refresh. */
+  current(): string | undefined;
+
+  /** Returns a usable token, refreshing it first when missing or about to expire. */
+  getToken(): Promise<string | undefined>;
+
+  /** Discards the active token and fetches a new one from the provider. */
+  refresh(): Promise<string | undefined>;
+}
+
+/**
+ * Options for creating a token source.
+ */
+export interface TokenSourceOptions {
+  /** Static token, or the initial token when a provider is also set. */
+  authToken?: string;
+
+  /** Provider consulted for new tokens. */
+  tokenProvider?: TokenProvider | TokenProviderFn;
+
+  /**
+   * Refresh the token when it expires within this many milliseconds.
+   * @default 60000
+   */
+  tokenRefreshSkew?: number;
+
+  /** Logger for refresh events. */
+  logger?: Logger;
+}
+
+/**
+ * Returns true when the token is a JWT that expires within the skew window.
+ * Opaque tokens and tokens without an exp claim never expire proactively.
+ */
+function expiresWithin(token: string, skewMs: number): boolean {
+  const actualToken = token.replace(/^Bearer\s+/i, "");
+  if (!actualToken.includes(".")) {
+    return false;
+  }
+  try {
+    const claims = parseJWTToken(actualToken);
+    return claims.exp !== undefined && tokenExpiresIn(claims) < skewMs;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates a token source from a static token and/or a token provider.
+ */
+export function createTokenSource(options: TokenSourceOptions): TokenSource {
+  const { tokenProvider } = options;
+  const skewMs = options.tokenRefreshSkew ?? DEFAULT_CONFIG.tokenRefreshSkew;
+  const logger = options.logger ?? noopLogger;
+
+  let token = options.authToken || undefined;
+  let pending: Promise<string | undefined> | undefined;
+
+  if (!tokenProvider) {
+    return {
+      refreshable: false,
+      current: () => token,
+      getToken: async () => token,
+      refresh: async () => token,
+    };
+  }
+
+  const provider: TokenProvider = typeof tokenProvider === "function" ? { getToken: tokenProvider } : tokenProvider;
+
+  function refresh(): Promise<string | undefined> {
+    // Share a single in-flight refresh between concurrent requests
+    if (!pending) {
+      pending = (async () => {
+        try {
+          provider.invalidate?.();
+          token = (await provider.getToken()) || undefined;
+          logger.debug("refreshed auth token");
+          return token;
+        } catch (err) {
+          throw new ConnectError(
+            `Token provider failed: ${err instanceof Error ? err.message : String(err)}`,
+            Code.Unauthenticated,
+            undefined,
+            undefined,
+            err,
+          );
+        } finally {
+          pending = undefined;
+        }
+      })();
+    }
+    return pending;
+  }
+
+  return {
+    refreshable: true,
+    current: () => token,
+    async getToken() {
+      if (!token || expiresWithin(token, skewMs)) {
+        return refresh();
+      }
+      return token;
+    },
+    refresh,
+  };
+}
@@ -1,16 +1,46 @@
 import { createConnectTransport } from "@connectrpc/connect-node";
+import { Code, ConnectError } from "@connectrpc/connect";
 import type { Interceptor, Transport } from "@connectrpc/connect";
+import type { CircuitBreaker } from "./circuit.js";
+import { createCircuitBreaker } from "./circuit.js";
 import type { ClientConfig, AuthScheme } from "./config.js";
 import { resolveConfig } from "./config.js";
+import { createErrorInterceptor } from "./errors.js";
+import { createLoggingInterceptor } from "./logging.js";
+import { createRateLimitInterceptor } from "./ratelimit.js";
+import { createRetryInterceptor } from "./retry.js";
+import type { TokenSource } from "./token.js";
+import { createTokenSource } from "./token.js";
+import { createValidationInterceptor } from "./validate.js";
 
 /**
  * Creates an authentication interceptor that adds the Authorization header.
+ * Refreshable tokens are retried once with a fresh token on Unauthenticated.
  */
-function createAuthInterceptor(authToken: string, scheme: AuthScheme): Interceptor {
+function createAuthInterceptor(tokens: TokenSource, scheme: AuthScheme): Interceptor {
   const prefix = scheme === "token" ? "Token" : "Bearer";
   return (next) => async (req) => {
-    req.header.set("Authorization", `${prefix} ${authToken}`);
-    return next(req);
+    const token = await tokens.getToken();
+    if (token) {
+      req.header.set("Authorization", `${prefix} ${token}`);
+    }
+    if (!tokens.refreshable) {
+      return next(req);
+    }
+
+    try {
+      return await next(req);
+    } catch (err) {
+      if (ConnectError.from(err).code !== Code.Unauthenticated) {
+        throw err;
+      }
+      const fresh = await tokens.refresh();
+      if (!fresh || fresh === token) {
+        throw err;
+      }
+      req.header.set("Authorization", `${prefix} ${fresh}`);
+      return next(req);
+    }
   };
 }
 
@@ -48,12 +78,42 @@ function createTimeoutInterceptor(timeoutMs: number): Interceptor {
 }
 
 /**
- * Creates a Connect transport with the provided configuration.
+ * Creates the interceptors a client transport applies, outermost first:
+ * error mapping, validation, circuit breaking, retries, rate limiting, timeout, custom headers, auth, request
+ * logging and the configured `interceptors`.
+ *
+ * @param config - Client configuration
+ * @param tokens - Token source for the auth interceptor
+ * @param breaker - Circuit breaker to share with the caller (created from config when omitted)
  */
-export function createTransport(config: ClientConfig): Transport {
+export function createInterceptors(config: ClientConfig, tokens: TokenSource, breaker?: CircuitBreaker): Interceptor[] {
   const resolved = resolveConfig(config);
   const interceptors: Interceptor[] = [];
 
+  // Add error mapping interceptor outermost so callers see the final failure as an AdmiralError
+  interceptors.push(createErrorInterceptor());
+
+  // Add validation interceptor before retries so invalid requests fail without a network call
+  if (resolved.validateRequests) {
+    interceptors.push(createValidationInterceptor());
+  }
+
+  // Add circuit breaker before retries so an open circuit fails the call once, without retrying
+  if (resolved.circuitBreaker) {
+    interceptors.push((breaker ?? createCircuitBreaker(resolved.circuitBreaker, resolved.logger)).interceptor);
+  }
+
+  // Add retry interceptor first so every attempt gets its own timeout and headers
+  if (resolved.retry) {
+    interceptors.push(createRetryInterceptor(resolved.retry, resolved.logger));
+  }
+
+  // Add rate limit interceptor after retries so every attempt waits its turn; queueing does not count
+  // towards the timeout
+  if (resolved.rateLimit) {
+    interceptors.push(createRateLimitInterceptor(resolved.rateLimit, resolved.logger));
+  }
+
   // Add timeout interceptor
   interceptors.push(createTimeoutInterceptor(resolved.timeout));
 
@@ -62,15 +122,36 @@ export function createTransport(config: ClientConfig): Transport {
     interceptors.push(createHeadersInterceptor(resolved.headers));
   }
 
-  // Add auth interceptor if token provided
+  // Add auth interceptor if a token or token provider is configured
   // Note: Token validation is lazy - use client.validateToken() to check
-  if (resolved.authToken) {
-    interceptors.push(createAuthInterceptor(resolved.authToken, resolved.authScheme));
+  if (resolved.authToken || resolved.tokenProvider) {
+    interceptors.push(createAuthInterceptor(tokens, resolved.authScheme));
   }
 
+  // Add logging interceptor after auth so each attempt is logged as sent, with credentials redacted
+  if (resolved.logRequests) {
+    const options = resolved.logRequests === true ? {} : resolved.logRequests;
+    interceptors.push(createLoggingInterceptor(options, resolved.logger));
+  }
+
+  // Add user interceptors innermost so they see every attempt as sent
+  interceptors.push(...(resolved.interceptors ?? []));
+
+  return interceptors;
+}
+
+/**
+ * Creates a Connect transport with the provided configuration.
+ *
+ * @param config - Client configuration
+ * @param tokens - Token source to share with the caller (created from config when omitted)
+ * @param breaker - Circuit breaker to share with the caller (created from config when omitted)
+ */
+export function createTransport(config: ClientConfig, tokens?: TokenSource, breaker?: CircuitBreaker): Transport {
+  const resolved = resolveConfig(config);
   return createConnectTransport({
     baseUrl: resolved.baseUrl,
     httpVersion: resolved.httpVersion,
-    interceptors,
+    interceptors: createInterceptors(config, tokens ?? createTokenSource(resolved), breaker),
   });
 }
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import { Code, createClient, createRouterTransport } from "@connectrpc/connect";
+import { createValidationInterceptor, validateMessage } from "./validate.js";
+import { ValidationError } from "./errors.js";
+import { CreateApplicationRequestSchema } from "../../proto/admiral/api/application/v1/application_pb.js";
+import { DeploymentAPI, ListDeploymentsRequestSchema } from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+import { CreateVariableRequestSchema } from "../../proto/admiral/api/variable/v1/variable_pb.js";
+
+const APP_ID = "0d9b6a3e-4f1c-4b8a-9d2e-5c7f1a2b3c4d";
+
+describe("validateMessage", () => {
+  it("accepts a valid message", () => {
+    const request = create(CreateApplicationRequestSchema, {
+      name: "billing-api",
+      labels: { team: "payments" },
+    });
+
+    expect(validateMessage(CreateApplicationRequestSchema, request)).toEqual([]);
+  });
+
+  it("reports string length and pattern violations", () => {
+    const request = create(CreateApplicationRequestSchema, { name: "Billing_API", description: "x".repeat(1025) });
+
+    expect(validateMessage(CreateApplicationRequestSchema, request)).toEqual([
+      {
+        field: "name",
+        ruleId: "string.pattern",
+        message: 'value does not match regex pattern "^[a-z]([a-z0-9-]{0,61}[a-z0-9])?$"',
+        forKey: false,
+      },
+      {
+        field: "description",
+        ruleId: "string.max_len",
+        message: "value length must be at most 1024 characters",
+        forKey: false,
+      },
+    ]);
+  });
+
+  it("validates map keys and values", () => {
+    const request = create(CreateApplicationRequestSchema, {
+      name: "billing-api",
+      labels: { "": "x", team: "y".repeat(257) },
+    });
+
+    const violations = validateMessage(CreateApplicationRequestSchema, request);
+
+    expect(violations.map((v) => [v.field, v.ruleId, v.forKey])).toEqual([
+      ['labels[""]', "string.min_len", true],
+      ['labels["team"]', "string.max_len", false],
+    ]);
+  });
+
+  it("checks numeric ranges", () => {
+    const request = create(ListDeploymentsRequestSchema, { pageSize: 500 });
+
+    expect(validateMessage(ListDeploymentsRequestSchema, request)).toEqual([
+      {
+        field: "page_size",
+        ruleId: "int32.gte_lte",
+        message: "value must be greater than or equal to 0 and less than or equal to 100",
+        forKey: false,
+      },
+    ]);
+  });
+
+  it("skips unset optional fields and checks set ones", () => {
+    const unset = create(CreateVariableRequestSchema, { key: "DATABASE_URL", value: "postgres://db" });
+    const invalid = create(CreateVariableRequestSchema, { key: "DATABASE_URL", value: "x", applicationId: "app" });
+    const valid = create(CreateVariableRequestSchema, { key: "DATABASE_URL", value: "x", applicationId: APP_ID });
+
+    expect(validateMessage(CreateVariableRequestSchema, unset)).toEqual([]);
+    expect(validateMessage(CreateVariableRequestSchema, invalid).map((v) => [v.field, v.ruleId])).toEqual([
+      ["application_id", "string.uuid"],
+    ]);
+    expect(validateMessage(CreateVariableRequestSchema, valid)).toEqual([]);
+  });
+});
+
+describe("createValidationInterceptor", () => {
+  function createValidatingClient() {
+    let calls = 0;
+    const transport = createRouterTransport(
+      (router) => {
+        router.service(DeploymentAPI, {
+          getDeployment() {
+            calls++;
+            return {};
+          },
+        });
+      },
+      { transport: { interceptors: [createValidationInterceptor()] } },
+    );
+    return { client: createClient(DeploymentAPI, transport), calls: () => calls };
+  }
+
+  it("rejects invalid requests before they are sent", async () => {
+    const { client, calls } = createValidatingClient();
+
+    const err = await client.getDeployment({ deploymentId: "" }).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(ValidationError);
+    const validation = err as ValidationError;
+    expect(validation.code).toBe(Code.InvalidArgument);
+    expect(validation.method).toBe("GetDeployment");
+    expect(validation.rawMessage).toBe(
+      "invalid GetDeployment request: deployment_id: value is empty, which is not a valid UUID",
+    );
+    expect(validation.violations.map((v) => [v.field, v.ruleId])).toEqual([["deployment_id", "string.uuid_empty"]]);
+    expect(calls()).toBe(0);
+  });
+
+  it("passes valid requests through", async () => {
+    const { client, calls } = createValidatingClient();
+
+    await client.getDeployment({ deploymentId: APP_ID });
+
+    expect(calls()).toBe(1);
+  });
+});
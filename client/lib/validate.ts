@@ -0,0 +1,601 @@
+import { isIPv4, isIPv6 } from "node:net";
+import { Code, ConnectError } from "@connectrpc/connect";
+import type { Interceptor } from "@connectrpc/connect";
+import { create, getOption, hasOption, isFieldSet, ScalarType } from "@bufbuild/protobuf";
+import type { DescEnum, DescField, DescMessage, Message, MessageInitShape } from "@bufbuild/protobuf";
+import {
+  field as fieldRules,
+  message as messageRules,
+  oneof as oneofRules,
+  Ignore,
+  ViolationSchema,
+  ViolationsSchema,
+  type FieldPathElementSchema,
+  type FieldRules,
+  type Violation,
+} from "../../proto/buf/validate/validate_pb.js";
+import { ValidationError, decodeViolations, formatFieldPath, type FieldViolation } from "./errors.js";
+
+type PathElement = MessageInitShape<typeof FieldPathElementSchema>;
+
+/** Element type of a field's values, used to check repeated items and map entries. */
+interface ValueTarget {
+  scalar?: ScalarType;
+  enum?: DescEnum;
+  message?: DescMessage;
+}
+
+/** Rules shared by every numeric rule type, e.g. Int32Rules or DoubleRules. */
+interface NumericRules<T extends number | bigint> {
+  const: T;
+  lessThan: { case: "lt" | "lte"; value: T } | { case: undefined; value?: undefined };
+  greaterThan: { case: "gt" | "gte"; value: T } | { case: undefined; value?: undefined };
+  in: T[];
+  notIn: T[];
+  finite?: boolean;
+}
+
+// FieldDescriptorProto.Type numbers for fields that are not scalars; scalars share ScalarType's numbering.
+const TYPE_MESSAGE = 11;
+const TYPE_ENUM = 14;
+
+// FeatureSet.FieldPresence.IMPLICIT: proto3 scalars, repeated and map fields
+const PRESENCE_IMPLICIT = 2;
+
+const UUID = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+const TUUID = /^[0-9a-fA-F]{32}$/;
+const ULID = /^[0-7][0-9A-HJKMNP-TV-Za-hjkmnp-tv-z]{25}$/;
+const EMAIL =
+  /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+
+const patterns = new Map<string, RegExp>();
+
+/** Compiles and caches a rule pattern. RE2 syntax is close enough to JS for the patterns used by Admiral. */
+function compilePattern(pattern: string): RegExp {
+  let re = patterns.get(pattern);
+  if (!re) {
+    re = new RegExp(pattern, "u");
+    patterns.set(pattern, re);
+  }
+  return re;
+}
+
+function isHostname(value: string): boolean {
+  if (value.length > 253) {
+    return false;
+  }
+  const labels = value.replace(/\.$/, "").split(".");
+  const valid = labels.every((label) => /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/.test(label));
+  // The top-level label must not be all digits, otherwise it is an IP address
+  return valid && !/^[0-9]+$/.test(labels[labels.length - 1] ?? "");
+}
+
+function isURI(value: string, relative: boolean): boolean {
+  try {
+    new URL(value, relative ? "http://relative.invalid" : undefined);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isHostAndPort(value: string): boolean {
+  const match = /^(?:\[([^\]]+)\]|([^:]+)):([0-9]{1,5})$/.exec(value);
+  if (!match || Number(match[3]) > 65535) {
+    return false;
+  }
+  return match[1] !== undefined ? isIPv6(match[1]) : isHostname(match[2]!) || isIPv4(match[2]!);
+}
+
+/**
+ * Well-known string formats: rule id suffix, check and description.
+ * Prefix and prefix-length formats are left to the server.
+ */
+const STRING_FORMATS: Record<string, [id: string, check: (value: string) => boolean, description: string]> = {
+  email: ["email", (v) => EMAIL.test(v), "a valid email address"],
+  hostname: ["hostname", isHostname, "a valid hostname"],
+  ip: ["ip", (v) => isIPv4(v) || isIPv6(v), "a valid IP address"],
+  ipv4: ["ipv4", isIPv4, "a valid IPv4 address"],
+  ipv6: ["ipv6", isIPv6, "a valid IPv6 address"],
+  uri: ["uri", (v) => isURI(v, false), "a valid URI"],
+  uriRef: ["uri_ref", (v) => isURI(v, true), "a valid URI Reference"],
+  address: ["address", (v) => isHostname(v) || isIPv4(v) || isIPv6(v), "a valid hostname, or ip address"],
+  uuid: ["uuid", (v) => UUID.test(v), "a valid UUID"],
+  tuuid: ["tuuid", (v) => TUUID.test(v), "a valid trimmed UUID"],
+  ulid: ["ulid", (v) => ULID.test(v), "a valid ULID"],
+  hostAndPort: ["host_and_port", isHostAndPort, "a valid host (hostname or IP address) and port pair"],
+};
+
+/**
+ * Whether an optional rule is set. Rule messages use explicit presence,
+ * which protobuf-es tracks as own properties.
+ */
+function hasRule(rules: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(rules, key);
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(", ")}]`;
+  }
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Collects violations while walking a message.
+ */
+class Collector {
+  readonly violations: Violation[] = [];
+
+  add(path: PathElement[], ruleId: string, message: string, forKey = false): void {
+    this.violations.push(create(ViolationSchema, { field: { elements: path }, ruleId, message, forKey }));
+  }
+}
+
+function pathElement(field: DescField): PathElement {
+  const element: PathElement = { fieldNumber: field.number, fieldName: field.name };
+  switch (field.fieldKind) {
+    case "scalar":
+      element.fieldType = field.scalar as number;
+      break;
+    case "enum":
+      element.fieldType = TYPE_ENUM;
+      break;
+    case "message":
+      element.fieldType = TYPE_MESSAGE;
+      break;
+    case "list":
+      element.fieldType =
+        field.listKind === "scalar" ? (field.scalar as number) : field.listKind === "enum" ? TYPE_ENUM : TYPE_MESSAGE;
+      break;
+    case "map":
+      element.fieldType = TYPE_MESSAGE;
+      element.keyType = field.mapKey as number;
+      element.valueType =
+        field.mapKind === "scalar" ? (field.scalar as number) : field.mapKind === "enum" ? TYPE_ENUM : TYPE_MESSAGE;
+      break;
+  }
+  return element;
+}
+
+/** Returns the path with the last element subscripted by a list index or map key. */
+function subscriptPath(path: PathElement[], key: string | number, keyType?: ScalarType): PathElement[] {
+  const last = path[path.length - 1]!;
+  let subscript: PathElement["subscript"];
+  if (typeof key === "number") {
+    subscript = { case: "index", value: BigInt(key) };
+  } else if (keyType === ScalarType.STRING) {
+    subscript = { case: "stringKey", value: key };
+  } else if (keyType === ScalarType.BOOL) {
+    subscript = { case: "boolKey", value: key === "true" };
+  } else if (
+    keyType === ScalarType.UINT32 ||
+    keyType === ScalarType.UINT64 ||
+    keyType === ScalarType.FIXED32 ||
+    keyType === ScalarType.FIXED64
+  ) {
+    subscript = { case: "uintKey", value: BigInt(key) };
+  } else {
+    subscript = { case: "intKey", value: BigInt(key) };
+  }
+  return [...path.slice(0, -1), { ...last, subscript }];
+}
+
+/** Converts a map key, which protobuf-es stores as a string, to its scalar value. */
+function mapKeyValue(key: string, keyType: ScalarType): unknown {
+  switch (keyType) {
+    case ScalarType.STRING:
+      return key;
+    case ScalarType.BOOL:
+      return key === "true";
+    case ScalarType.INT64:
+    case ScalarType.UINT64:
+    case ScalarType.SINT64:
+    case ScalarType.FIXED64:
+    case ScalarType.SFIXED64:
+      return BigInt(key);
+    default:
+      return Number(key);
+  }
+}
+
+function isZeroValue(value: unknown): boolean {
+  if (value instanceof Uint8Array) {
+    return value.length === 0;
+  }
+  return value === undefined || value === "" || value === 0 || value === 0n || value === false;
+}
+
+function checkNumeric<T extends number | bigint>(
+  kind: string,
+  rules: NumericRules<T>,
+  value: T,
+  path: PathElement[],
+  out: Collector,
+  forKey: boolean,
+): void {
+  if (hasRule(rules, "const") && value !== rules.const) {
+    out.add(path, `${kind}.const`, `value must equal ${rules.const}`, forKey);
+  }
+  if (rules.in.length > 0 && !rules.in.includes(value)) {
+    out.add(path, `${kind}.in`, `value must be in list ${formatValue(rules.in)}`, forKey);
+  }
+  if (rules.notIn.includes(value)) {
+    out.add(path, `${kind}.not_in`, `value must not be in list ${formatValue(rules.notIn)}`, forKey);
+  }
+  if (rules.finite && typeof value === "number" && !Number.isFinite(value)) {
+    out.add(path, `${kind}.finite`, "value must be finite", forKey);
+  }
+
+  const { lessThan: lt, greaterThan: gt } = rules;
+  const describe = (bound: { case: "lt" | "lte" | "gt" | "gte"; value: T }) => {
+    const relation = bound.case.startsWith("g") ? "greater than" : "less than";
+    return `${relation}${bound.case.endsWith("e") ? " or equal to" : ""} ${bound.value}`;
+  };
+  const aboveLower = gt.case === undefined || (gt.case === "gt" ? value > gt.value : value >= gt.value);
+  const belowUpper = lt.case === undefined || (lt.case === "lt" ? value < lt.value : value <= lt.value);
+
+  if (gt.case !== undefined && lt.case !== undefined) {
+    // An upper bound below the lower bound describes the range outside the two
+    const exclusive = lt.value < gt.value;
+    if (exclusive ? !aboveLower && !belowUpper : !aboveLower || !belowUpper) {
+      out.add(
+        path,
+        `${kind}.${gt.case}_${lt.case}${exclusive ? "_exclusive" : ""}`,
+        `value must be ${describe(gt)} ${exclusive ? "or" : "and"} ${describe(lt)}`,
+        forKey,
+      );
+    }
+  } else if (gt.case !== undefined && !aboveLower) {
+    out.add(path, `${kind}.${gt.case}`, `value must be ${describe(gt)}`, forKey);
+  } else if (lt.case !== undefined && !belowUpper) {
+    out.add(path, `${kind}.${lt.case}`, `value must be ${describe(lt)}`, forKey);
+  }
+}
+
+function checkString(
+  rules: FieldRules["type"] & { case: "string" },
+  value: string,
+  path: PathElement[],
+  out: Collector,
+  forKey: boolean,
+): void {
+  const r = rules.value;
+  const length = [...value].length;
+  const bytes = new TextEncoder().encode(value).length;
+
+  if (hasRule(r, "const") && value !== r.const) {
+    out.add(path, "string.const", `value must equal ${JSON.stringify(r.const)}`, forKey);
+  }
+  if (hasRule(r, "len") && length !== Number(r.len)) {
+    out.add(path, "string.len", `value length must be ${r.len} characters`, forKey);
+  }
+  if (hasRule(r, "minLen") && length < Number(r.minLen)) {
+    out.add(path, "string.min_len", `value length must be at least ${r.minLen} characters`, forKey);
+  }
+  if (hasRule(r, "maxLen") && length > Number(r.maxLen)) {
+    out.add(path, "string.max_len", `value length must be at most ${r.maxLen} characters`, forKey);
+  }
+  if (hasRule(r, "lenBytes") && bytes !== Number(r.lenBytes)) {
+    out.add(path, "string.len_bytes", `value length must be ${r.lenBytes} bytes`, forKey);
+  }
+  if (hasRule(r, "minBytes") && bytes < Number(r.minBytes)) {
+    out.add(path, "string.min_bytes", `value length must be at least ${r.minBytes} bytes`, forKey);
+  }
+  if (hasRule(r, "maxBytes") && bytes > Number(r.maxBytes)) {
+    out.add(path, "string.max_bytes", `value length must be at most ${r.maxBytes} bytes`, forKey);
+  }
+  if (hasRule(r, "pattern") && !compilePattern(r.pattern).test(value)) {
+    out.add(path, "string.pattern", `value does not match regex pattern ${JSON.stringify(r.pattern)}`, forKey);
+  }
+  if (hasRule(r, "prefix") && !value.startsWith(r.prefix)) {
+    out.add(path, "string.prefix", `value does not have prefix ${JSON.stringify(r.prefix)}`, forKey);
+  }
+  if (hasRule(r, "suffix") && !value.endsWith(r.suffix)) {
+    out.add(path, "string.suffix", `value does not have suffix ${JSON.stringify(r.suffix)}`, forKey);
+  }
+  if (hasRule(r, "contains") && !value.includes(r.contains)) {
+    out.add(path, "string.contains", `value does not contain substring ${JSON.stringify(r.contains)}`, forKey);
+  }
+  if (hasRule(r, "notContains") && value.includes(r.notContains)) {
+    out.add(path, "string.not_contains", `value contains substring ${JSON.stringify(r.notContains)}`, forKey);
+  }
+  if (r.in.length > 0 && !r.in.includes(value)) {
+    out.add(path, "string.in", `value must be in list ${formatValue(r.in)}`, forKey);
+  }
+  if (r.notIn.includes(value)) {
+    out.add(path, "string.not_in", `value must not be in list ${formatValue(r.notIn)}`, forKey);
+  }
+
+  const format =
+    r.wellKnown.case !== undefined && r.wellKnown.value === true ? STRING_FORMATS[r.wellKnown.case] : undefined;
+  if (format) {
+    const [id, check, description] = format;
+    if (value === "") {
+      out.add(path, `string.${id}_empty`, `value is empty, which is not ${description}`, forKey);
+    } else if (!check(value)) {
+      out.add(path, `string.${id}`, `value must be ${description}`, forKey);
+    }
+  }
+}
+
+function checkBytes(
+  rules: FieldRules["type"] & { case: "bytes" },
+  value: Uint8Array,
+  path: PathElement[],
+  out: Collector,
+  forKey: boolean,
+): void {
+  const r = rules.value;
+  if (hasRule(r, "len") && value.length !== Number(r.len)) {
+    out.add(path, "bytes.len", `value length must be ${r.len} bytes`, forKey);
+  }
+  if (hasRule(r, "minLen") && value.length < Number(r.minLen)) {
+    out.add(path, "bytes.min_len", `value length must be at least ${r.minLen} bytes`, forKey);
+  }
+  if (hasRule(r, "maxLen") && value.length > Number(r.maxLen)) {
+    out.add(path, "bytes.max_len", `value must be at most ${r.maxLen} bytes`, forKey);
+  }
+}
+
+function checkEnum(
+  rules: FieldRules["type"] & { case: "enum" },
+  value: number,
+  desc: DescEnum | undefined,
+  path: PathElement[],
+  out: Collector,
+  forKey: boolean,
+): void {
+  const r = rules.value;
+  if (hasRule(r, "const") && value !== r.const) {
+    out.add(path, "enum.const", `value must equal ${r.const}`, forKey);
+  }
+  if (r.definedOnly && desc && !desc.values.some((v) => v.number === value)) {
+    out.add(path, "enum.defined_only", "value must be one of the defined enum values", forKey);
+  }
+  if (r.in.length > 0 && !r.in.includes(value)) {
+    out.add(path, "enum.in", `value must be in list ${formatValue(r.in)}`, forKey);
+  }
+  if (r.notIn.includes(value)) {
+    out.add(path, "enum.not_in", `value must not be in list ${formatValue(r.notIn)}`, forKey);
+  }
+}
+
+/**
+ * Applies the type rules of a singular value: a field, a repeated item or a map key or value.
+ * Rules for well-known message types (Any, Duration, Timestamp, FieldMask) are left to the server.
+ */
+function checkValue(
+  rules: FieldRules,
+  value: unknown,
+  target: ValueTarget,
+  path: PathElement[],
+  out: Collector,
+  forKey = false,
+): void {
+  if (rules.ignore === Ignore.ALWAYS || (rules.ignore === Ignore.IF_ZERO_VALUE && isZeroValue(value))) {
+    return;
+  }
+  const { type } = rules;
+  switch (type.case) {
+    case "string":
+      checkString(type, value as string, path, out, forKey);
+      break;
+    case "bytes":
+      checkBytes(type, value as Uint8Array, path, out, forKey);
+      break;
+    case "bool":
+      if (hasRule(type.value, "const") && value !== type.value.const) {
+        out.add(path, "bool.const", `value must equal ${type.value.const}`, forKey);
+      }
+      break;
+    case "enum":
+      checkEnum(type, value as number, target.enum, path, out, forKey);
+      break;
+    case "float":
+    case "double":
+    case "int32":
+    case "int64":
+    case "uint32":
+    case "uint64":
+    case "sint32":
+    case "sint64":
+    case "fixed32":
+    case "fixed64":
+    case "sfixed32":
+    case "sfixed64":
+      checkNumeric(type.case, type.value as NumericRules<number | bigint>, value as number | bigint, path, out, forKey);
+      break;
+  }
+  if (target.message && value !== undefined) {
+    validateFields(target.message, value as Message, path, out);
+  }
+}
+
+function fieldValue(message: Record<string, unknown>, field: DescField): unknown {
+  if (field.oneof) {
+    const oneof = message[field.oneof.localName] as { case?: string; value?: unknown };
+    return oneof.case === field.localName ? oneof.value : undefined;
+  }
+  return message[field.localName];
+}
+
+function validateField(message: Message, field: DescField, parent: PathElement[], out: Collector): void {
+  const rules = hasOption(field, fieldRules) ? getOption(field, fieldRules) : undefined;
+  if (rules?.ignore === Ignore.ALWAYS) {
+    return;
+  }
+  const path = [...parent, pathElement(field)];
+  const value = fieldValue(message as unknown as Record<string, unknown>, field);
+  const populated = isFieldSet(message as never, field);
+
+  if (!populated) {
+    if (rules?.required) {
+      out.add(path, "required", "value is required");
+      return;
+    }
+    // Unset fields with explicit presence, such as messages and oneof members, are not validated
+    if (field.presence !== PRESENCE_IMPLICIT || rules?.ignore === Ignore.IF_ZERO_VALUE) {
+      return;
+    }
+  }
+
+  switch (field.fieldKind) {
+    case "list": {
+      const items = value as unknown[];
+      const repeated = rules?.type.case === "repeated" ? rules.type.value : undefined;
+      if (repeated) {
+        if (hasRule(repeated, "minItems") && items.length < Number(repeated.minItems)) {
+          out.add(path, "repeated.min_items", `value must contain at least ${repeated.minItems} item(s)`);
+        }
+        if (hasRule(repeated, "maxItems") && items.length > Number(repeated.maxItems)) {
+          out.add(path, "repeated.max_items", `value must contain no more than ${repeated.maxItems} item(s)`);
+        }
+        if (repeated.unique && field.listKind === "scalar") {
+          const keys = items.map((item) => (item instanceof Uint8Array ? item.join(",") : item));
+          if (new Set(keys).size !== keys.length) {
+            out.add(path, "repeated.unique", "repeated value must contain unique items");
+          }
+        }
+      }
+      const target: ValueTarget = { scalar: field.scalar, enum: field.enum, message: field.message };
+      items.forEach((item, index) => {
+        const itemPath = subscriptPath(path, index);
+        if (repeated?.items) {
+          checkValue(repeated.items, item, target, itemPath, out);
+        } else if (target.message) {
+          validateFields(target.message, item as Message, itemPath, out);
+        }
+      });
+      break;
+    }
+    case "map": {
+      const entries = Object.entries(value as Record<string, unknown>);
+      const map = rules?.type.case === "map" ? rules.type.value : undefined;
+      if (map) {
+        if (hasRule(map, "minPairs") && entries.length < Number(map.minPairs)) {
+          out.add(path, "map.min_pairs", `map must be at least ${map.minPairs} entries`);
+        }
+        if (hasRule(map, "maxPairs") && entries.length > Number(map.maxPairs)) {
+          out.add(path, "map.max_pairs", `map must be at most ${map.maxPairs} entries`);
+        }
+      }
+      const target: ValueTarget = { scalar: field.scalar, enum: field.enum, message: field.message };
+      for (const [key, entry] of entries) {
+        const entryPath = subscriptPath(path, key, field.mapKey);
+        if (map?.keys) {
+          checkValue(map.keys, mapKeyValue(key, field.mapKey), { scalar: field.mapKey }, entryPath, out, true);
+        }
+        if (map?.values) {
+          checkValue(map.values, entry, target, entryPath, out);
+        } else if (target.message) {
+          validateFields(target.message, entry as Message, entryPath, out);
+        }
+      }
+      break;
+    }
+    case "message":
+      if (rules) {
+        checkValue(rules, value, { message: field.message }, path, out);
+      } else {
+        validateFields(field.message, value as Message, path, out);
+      }
+      break;
+    case "scalar":
+    case "enum":
+      if (rules) {
+        checkValue(rules, value, { scalar: field.scalar, enum: field.enum }, path, out);
+      }
+      break;
+  }
+}
+
+/**
+ * Validates every field of a message, plus its oneof and message-level rules.
+ * CEL expressions are not evaluated client-side.
+ */
+function validateFields(schema: DescMessage, message: Message, path: PathElement[], out: Collector): void {
+  for (const oneof of schema.oneofs) {
+    const rules = hasOption(oneof, oneofRules) ? getOption(oneof, oneofRules) : undefined;
+    const selected = (message as unknown as Record<string, { case?: string }>)[oneof.localName];
+    if (rules?.required && selected?.case === undefined) {
+      out.add([...path, { fieldName: oneof.name }], "required", "exactly one field is required in oneof");
+    }
+  }
+
+  if (hasOption(schema, messageRules)) {
+    for (const rule of getOption(schema, messageRules).oneof) {
+      const fields = rule.fields.map((name) => schema.fields.find((f) => f.name === name));
+      const set = fields.filter((f) => f !== undefined && isFieldSet(message as never, f)).length;
+      if (set > 1) {
+        out.add(path, "message.oneof", `only one of ${rule.fields.join(", ")} can be set`);
+      } else if (rule.required && set === 0) {
+        out.add(path, "message.oneof", `one of ${rule.fields.join(", ")} must be set`);
+      }
+    }
+  }
+
+  for (const field of schema.fields) {
+    validateField(message, field, path, out);
+  }
+}
+
+function collectViolations(schema: DescMessage, message: Message): Violation[] {
+  const out = new Collector();
+  validateFields(schema, message, [], out);
+  return out.violations;
+}
+
+/**
+ * Validates a message against the buf.validate rules declared in its schema.
+ *
+ * Covers the standard field rules (string, bytes, numeric, enum, repeated and
+ * map), `required`, `ignore` and oneof rules. CEL expressions and rules for
+ * well-known message types are not evaluated; the server still enforces them.
+ *
+ * @param schema - Message descriptor, e.g. `CreateApplicationRequestSchema`
+ * @param message - Message to validate
+ * @returns Violations with proto field paths, empty when the message is valid
+ *
+ * @example
+ * ```typescript
+ * import { validateMessage } from "@admiral-io/sdk";
+ *
+ * const violations = validateMessage(GetDeploymentRequestSchema, create(GetDeploymentRequestSchema));
+ * // [{ field: "deployment_id", ruleId: "string.uuid_empty", ... }]
+ * ```
+ */
+export function validateMessage(schema: DescMessage, message: Message): FieldViolation[] {
+  const err = new ConnectError("", Code.InvalidArgument, undefined, [
+    { desc: ViolationsSchema, value: { violations: collectViolations(schema, message) } },
+  ]);
+  return decodeViolations(err);
+}
+
+/**
+ * Creates an interceptor that validates request messages before they are sent.
+ * Invalid requests fail with a ValidationError listing the violated fields,
+ * carrying the same buf.validate details the server would return.
+ *
+ * Only the rules `validateMessage` covers are checked: CEL expressions are
+ * skipped, so a request that passes may still be rejected by the server.
+ *
+ * The `update_mask` of Update requests is not taken into account: the nested
+ * resource is checked as a whole, so send the current resource with the
+ * changed fields applied rather than only the ID and the changed fields.
+ */
+export function createValidationInterceptor(): Interceptor {
+  return (next) => async (req) => {
+    if (!req.stream) {
+      const violations = collectViolations(req.method.input, req.message);
+      if (violations.length > 0) {
+        const fields = violations.map((v) => `${formatFieldPath(v.field)}: ${v.message}`).join("; ");
+        const err = new ConnectError(`invalid ${req.method.name} request: ${fields}`, Code.InvalidArgument, undefined, [
+          { desc: ViolationsSchema, value: { violations } },
+        ]);
+        throw new ValidationError(err, { service: req.service.typeName, method: req.method.name });
+      }
+    }
+    return next(req);
+  };
+}
@@ -0,0 +1,325 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError, createClient, createRouterTransport } from "@connectrpc/connect";
+import { create, type MessageInitShape } from "@bufbuild/protobuf";
+import {
+  formatVariableImport,
+  formatVariables,
+  importVariables,
+  inferVariableType,
+  isSensitiveKey,
+  parseVariables,
+  planVariableImport,
+  variableFormat,
+  exportVariables,
+  VariableFileError,
+  VariableImportError,
+  type VariableEntry,
+} from "./varfile.js";
+import { REDACTED } from "./redact.js";
+import {
+  VariableAPI,
+  VariableSchema,
+  VariableType,
+  type Variable,
+} from "../../proto/admiral/api/variable/v1/variable_pb.js";
+
+const APP_ID = "app-payments";
+const ENV_ID = "env-prod";
+
+const variable = (init: MessageInitShape<typeof VariableSchema>) =>
+  create(VariableSchema, { id: `var-${init.key}`, ...init });
+
+function createTestTransport(stored: Variable[], requests: string[] = [], fail?: string) {
+  return createRouterTransport((router) => {
+    router.service(VariableAPI, {
+      listVariables(req) {
+        requests.push(`listVariables ${req.filter}`);
+        return { variables: stored };
+      },
+      createVariable(req) {
+        if (req.key === fail) {
+          throw new ConnectError("denied", Code.PermissionDenied);
+        }
+        requests.push(
+          `createVariable ${req.key}=${req.value} ${VariableType[req.type]}${req.sensitive ? " sensitive" : ""}`,
+        );
+        return { variable: { id: `var-${req.key}`, key: req.key, value: req.value } };
+      },
+      updateVariable(req) {
+        requests.push(`updateVariable ${req.variable?.id} ${req.updateMask?.paths.join(",")}`);
+        return { variable: req.variable };
+      },
+    });
+  });
+}
+
+describe("parseVariables", () => {
+  it("reads .env files with quotes, comments and inferred types", () => {
+    const text = [
+      "# payments service",
+      "export DB_HOST=db.internal # primary",
+      "DB_PORT = 5432",
+      "ZIP_CODE=02134",
+      "DEBUG=false",
+      `ZONES='["eu-west-1a", "eu-west-1b"]'`,
+      'GREETING="hello\\n\\"world\\""',
+      'TLS_KEY="-----BEGIN KEY-----',
+      "abc",
+      '-----END KEY-----"',
+      "EMPTY=",
+      "",
+    ].join("\n");
+
+    expect(parseVariables(text, "dotenv")).toEqual([
+      { key: "DB_HOST", value: "db.internal", type: VariableType.STRING, sensitive: false },
+      { key: "DB_PORT", value: "5432", type: VariableType.NUMBER, sensitive: false },
+      { key: "ZIP_CODE", value: "02134", type: VariableType.STRING, sensitive: false },
+      { key: "DEBUG", value: "false", type: VariableType.BOOLEAN, sensitive: false },
+      { key: "ZONES", value: '["eu-west-1a", "eu-west-1b"]', type: VariableType.COMPLEX, sensitive: false },
+      { key: "GREETING", value: 'hello\n"world"', type: VariableType.STRING, sensitive: false },
+      {
+        key: "TLS_KEY",
+        value: "-----BEGIN KEY-----\nabc\n-----END KEY-----",
+        type: VariableType.STRING,
+        sensitive: false,
+      },
+      { key: "EMPTY", value: "", type: VariableType.STRING, sensitive: false },
+    ]);
+  });
+
+  it("reports malformed .env files with the line", () => {
+    expect(() => parseVariables("A=1\nB=2\nA=3\n", "dotenv", { source: ".env" })).toThrow(
+      ".env:3: A is already set on line 1",
+    );
+    expect(() => parseVariables('A=1\nB="open\n', "dotenv")).toThrow("dotenv:2: unterminated double-quoted value of B");
+    expect(() => parseVariables("not a variable\n", "dotenv")).toThrow(VariableFileError);
+  });
+
+  it("keeps the types of JSON values", () => {
+    const text = JSON.stringify({ REPLICAS: 3, DEBUG: true, PORT: "8080", TAGS: { team: "payments" } });
+
+    expect(parseVariables(text, "json").map((e) => [e.key, e.value, VariableType[e.type]])).toEqual([
+      ["REPLICAS", "3", "NUMBER"],
+      ["DEBUG", "true", "BOOLEAN"],
+      ["PORT", "8080", "STRING"],
+      ["TAGS", '{"team":"payments"}', "COMPLEX"],
+    ]);
+    expect(() => parseVariables("[]", "json")).toThrow("expected a JSON object of variables");
+    expect(() => parseVariables('{"A": null}', "json")).toThrow("A is null");
+  });
+
+  it("reads literal .tfvars values", () => {
+    const text = [
+      "# Terraform inputs",
+      'region        = "eu-west-1" // default region',
+      "instance_count = 3",
+      "enable_backups = true",
+      "/* multi-line",
+      "   comment */",
+      'azs = ["eu-west-1a",',
+      '  "eu-west-1b",',
+      "]",
+      "tags = {",
+      '  team  = "payments"',
+      '  "cost-center": 42',
+      "}",
+      "user_data = <<-EOT",
+      "    #!/bin/sh",
+      '    echo "$${HOME}"',
+      "  EOT",
+      'db_password = "s3cr3t"',
+    ].join("\n");
+
+    expect(parseVariables(text, "tfvars")).toEqual([
+      { key: "region", value: "eu-west-1", type: VariableType.STRING, sensitive: false },
+      { key: "instance_count", value: "3", type: VariableType.NUMBER, sensitive: false },
+      { key: "enable_backups", value: "true", type: VariableType.BOOLEAN, sensitive: false },
+      { key: "azs", value: '["eu-west-1a","eu-west-1b"]', type: VariableType.COMPLEX, sensitive: false },
+      { key: "tags", value: '{"team":"payments","cost-center":42}', type: VariableType.COMPLEX, sensitive: false },
+      { key: "user_data", value: '#!/bin/sh\necho "${HOME}"\n', type: VariableType.STRING, sensitive: false },
+      { key: "db_password", value: "s3cr3t", type: VariableType.STRING, sensitive: true },
+    ]);
+  });
+
+  it("reads .tfvars string escapes and names the line of invalid ones", () => {
+    const text = ['a = "tab\\there"', 'b = "\\u00e9\\U0001F600\\b\\f\\\\"', 'c = "\\q"'].join("\n");
+
+    expect(() => parseVariables(text, "tfvars")).toThrow("tfvars:3: invalid escape \\q");
+    expect(parseVariables(text.split("\n").slice(0, 2).join("\n"), "tfvars").map((v) => v.value)).toEqual([
+      "tab\there",
+      "\u00e9\u{1F600}\b\f\\",
+    ]);
+    expect(() => parseVariables('a = "\\u12"', "tfvars")).toThrow("tfvars:1: invalid escape \\u12");
+  });
+
+  it("rejects .tfvars expressions", () => {
+    expect(() => parseVariables('name = "${var.prefix}-api"', "tfvars")).toThrow(
+      "tfvars:1: interpolation and template directives are not supported",
+    );
+    expect(() => parseVariables("zones = slice(local.zones, 0, 2)", "tfvars")).toThrow("values must be literals");
+  });
+});
+
+describe("variable heuristics", () => {
+  it("recognizes keys holding secrets", () => {
+    const keys = ["DB_PASSWORD", "githubToken", "STRIPE_API_KEY", "SECRET_KEY_BASE", "AWS_ACCESS_KEY_ID", "SENTRY_DSN"];
+    expect(keys.filter(isSensitiveKey)).toEqual(keys);
+    expect(["TOKENIZER", "PASSWORDLESS_LOGIN", "CACHE_KEY", "LOG_LEVEL"].filter(isSensitiveKey)).toEqual([]);
+  });
+
+  it("infers types and formats", () => {
+    expect(["true", "-1.5e3", "007", '{"a":1}', "[oops", "v1"].map((v) => VariableType[inferVariableType(v)])).toEqual([
+      "BOOLEAN",
+      "NUMBER",
+      "STRING",
+      "COMPLEX",
+      "STRING",
+      "STRING",
+    ]);
+    expect(
+      [".env", ".env.production", "prod.env", "prod.tfvars", "prod.tfvars.json", "vars.yaml"].map(variableFormat),
+    ).toEqual(["dotenv", "dotenv", "dotenv", "tfvars", "json", undefined]);
+  });
+});
+
+describe("planVariableImport", () => {
+  const stored = [
+    variable({ key: "LOG_LEVEL", value: "debug", applicationId: APP_ID, environmentId: ENV_ID }),
+    variable({ key: "PORT", value: "8080", applicationId: APP_ID, environmentId: ENV_ID }),
+    variable({ key: "REPLICAS", value: "2", type: VariableType.NUMBER, applicationId: APP_ID, environmentId: ENV_ID }),
+    variable({ key: "DB_PASSWORD", value: "", sensitive: true, applicationId: APP_ID, environmentId: ENV_ID }),
+    variable({ key: "API_URL", value: "http://old", applicationId: APP_ID }),
+  ];
+  const entries = parseVariables(
+    "LOG_LEVEL=warn\nPORT=8080\nREPLICAS=three\nDB_PASSWORD=rotated\nAPI_URL=https://api\nNEW_FLAG=true\n",
+    "dotenv",
+  );
+
+  it("diffs against the variables of the scope", async () => {
+    const requests: string[] = [];
+    const client = createClient(VariableAPI, createTestTransport(stored, requests));
+
+    const plan = await planVariableImport(client, entries, { applicationId: APP_ID, environmentId: ENV_ID });
+
+    expect(requests).toEqual([
+      `listVariables field['application_id'] = '${APP_ID}' AND field['environment_id'] = '${ENV_ID}'`,
+    ]);
+    expect(plan.changes.map((c) => [c.action, c.key, c.updateMask])).toEqual([
+      ["update", "LOG_LEVEL", ["value"]],
+      ["update", "REPLICAS", ["value", "type"]],
+      ["create", "API_URL", []],
+      ["create", "NEW_FLAG", []],
+    ]);
+    expect(plan.unchanged).toBe(2);
+    expect(plan.changes[1]?.fields).toEqual([
+      { field: "value", before: "2", after: "three" },
+      { field: "type", before: "NUMBER", after: "STRING" },
+    ]);
+  });
+
+  it("writes sensitive values only when asked and never from redacted values", async () => {
+    const client = createClient(VariableAPI, createTestTransport(stored));
+    const scope = { applicationId: APP_ID, environmentId: ENV_ID };
+    const redacted: VariableEntry = { key: "DB_PASSWORD", value: REDACTED, type: VariableType.STRING, sensitive: true };
+
+    const plan = await planVariableImport(client, entries.slice(3, 4), { ...scope, updateSecrets: true });
+
+    expect(plan.changes[0]?.fields).toEqual([
+      { field: "value", before: "(sensitive value)", after: "(sensitive value)" },
+    ]);
+    expect((await planVariableImport(client, [redacted], { ...scope, updateSecrets: true })).unchanged).toBe(1);
+    await expect(planVariableImport(client, [{ ...redacted, key: "NEW_SECRET" }], scope)).rejects.toThrow(
+      "NEW_SECRET: cannot create a variable from a redacted value",
+    );
+  });
+
+  it("formats the plan for review", async () => {
+    const client = createClient(VariableAPI, createTestTransport(stored));
+
+    const plan = await planVariableImport(client, entries, { applicationId: APP_ID, environmentId: ENV_ID });
+
+    expect(formatVariableImport(plan)).toBe(
+      [
+        "~ LOG_LEVEL",
+        '    value: "debug" -> "warn"',
+        "~ REPLICAS",
+        '    value: "2" -> "three"',
+        '    type: "NUMBER" -> "STRING"',
+        "+ API_URL",
+        '    value: "https://api"',
+        '    type: "STRING"',
+        "+ NEW_FLAG",
+        '    value: "true"',
+        '    type: "BOOLEAN"',
+        "",
+        "Import: 2 to create, 2 to update, 2 unchanged.",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("importVariables", () => {
+  it("creates and updates variables unless it is a dry run", async () => {
+    const stored = [variable({ key: "LOG_LEVEL", value: "debug", applicationId: APP_ID })];
+    const entries = parseVariables(JSON.stringify({ LOG_LEVEL: "warn", GITHUB_TOKEN: "ghp_x" }), "json");
+    const requests: string[] = [];
+    const client = createClient(VariableAPI, createTestTransport(stored, requests));
+
+    const dryRun = await importVariables(client, entries, { applicationId: APP_ID, dryRun: true });
+    const { applied } = await importVariables(client, entries, { applicationId: APP_ID });
+
+    expect(dryRun.applied).toEqual([]);
+    expect(applied.map((c) => c.key)).toEqual(["LOG_LEVEL", "GITHUB_TOKEN"]);
+    expect(requests.filter((r) => !r.startsWith("listVariables"))).toEqual([
+      "updateVariable var-LOG_LEVEL value",
+      "createVariable GITHUB_TOKEN=ghp_x STRING sensitive",
+    ]);
+  });
+
+  it("reports the failed change and the ones applied before it", async () => {
+    const entries = parseVariables("A=1\nB=2\nC=3\n", "dotenv");
+    const client = createClient(VariableAPI, createTestTransport([], [], "B"));
+
+    const err: unknown = await importVariables(client, entries).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(VariableImportError);
+    expect((err as VariableImportError).message).toBe("failed to create variable B: [permission_denied] denied");
+    expect((err as VariableImportError).applied.map((c) => c.key)).toEqual(["A"]);
+  });
+});
+
+describe("formatVariables", () => {
+  const entries: VariableEntry[] = [
+    { key: "REGION", value: "eu-west-1", type: VariableType.STRING, sensitive: false },
+    { key: "REPLICAS", value: "3", type: VariableType.NUMBER, sensitive: false },
+    { key: "DEBUG", value: "false", type: VariableType.BOOLEAN, sensitive: false },
+    { key: "TAGS", value: '{"team":"payments","cost center":["a b"]}', type: VariableType.COMPLEX, sensitive: false },
+    { key: "MOTD", value: 'say "hi" to ${USER}\n', type: VariableType.STRING, sensitive: false },
+  ];
+
+  it("writes each format so that it reads back the same", () => {
+    for (const format of ["json", "tfvars"] as const) {
+      expect(parseVariables(formatVariables(entries, format), format)).toEqual(entries);
+    }
+    expect(parseVariables(formatVariables(entries, "dotenv"), "dotenv").map((e) => e.value)).toEqual(
+      entries.map((e) => e.value),
+    );
+    expect(formatVariables(entries, "tfvars")).toContain('TAGS = { team = "payments", "cost center" = ["a b"] }');
+  });
+
+  it("exports the effective variables with sensitive values redacted", async () => {
+    const stored = [
+      variable({ key: "LOG_LEVEL", value: "info" }),
+      variable({ key: "LOG_LEVEL", value: "warn", applicationId: APP_ID }),
+      variable({ key: "DB_PASSWORD", value: "hunter2", sensitive: true, applicationId: APP_ID }),
+    ];
+    const client = createClient(VariableAPI, createTestTransport(stored));
+
+    expect(await exportVariables(client, { applicationId: APP_ID, format: "dotenv" })).toBe(
+      `DB_PASSWORD="${REDACTED}"\nLOG_LEVEL=warn\n`,
+    );
+    expect(await exportVariables(client, { applicationId: APP_ID, format: "json", reveal: true })).toBe(
+      '{\n  "DB_PASSWORD": "hunter2",\n  "LOG_LEVEL": "warn"\n}\n',
+    );
+  });
+});
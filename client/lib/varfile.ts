@@ -0,0 +1,914 @@
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import type { Client as ConnectClient } from "@connectrpc/connect";
+import type { JsonValue } from "@bufbuild/protobuf";
+import { VariableType, type Variable, type VariableAPI } from "../../proto/admiral/api/variable/v1/variable_pb.js";
+import type { FieldChange } from "./apply.js";
+import { filterFor, renderFilter } from "./filter.js";
+import { paginate } from "./pagination.js";
+import { REDACTED } from "./redact.js";
+import { variableValues } from "./template.js";
+import { SENSITIVE_VALUE } from "./tfstate.js";
+import {
+  resolveVariables,
+  validateVariableValue,
+  type ResolveVariablesOptions,
+  type VariableResolutionClient,
+} from "./variables.js";
+
+/** The variable RPCs used to import variables. */
+export type VariableImportClient = Pick<
+  ConnectClient<typeof VariableAPI>,
+  "listVariables" | "createVariable" | "updateVariable"
+>;
+
+/** File format of variables: `.env`, JSON or Terraform `.tfvars`. */
+export type VariableFormat = "dotenv" | "json" | "tfvars";
+
+/** Supported variable file formats. */
+export const VARIABLE_FORMATS: readonly VariableFormat[] = ["dotenv", "json", "tfvars"];
+
+/**
+ * A variable read from or written to a file. `ResolvedVariable` satisfies this.
+ */
+export interface VariableEntry {
+  key: string;
+  /** The value in Admiral's string form, e.g. `3` or `["a","b"]` */
+  value: string;
+  type: VariableType;
+  sensitive: boolean;
+}
+
+/**
+ * Options for `parseVariables()`.
+ */
+export interface ParseVariablesOptions {
+  /** Name of the file for error messages */
+  source?: string;
+
+  /**
+   * Decides which keys hold secrets.
+   * @default isSensitiveKey
+   */
+  sensitive?: (key: string) => boolean;
+}
+
+/**
+ * Options for `loadVariables()`.
+ */
+export interface LoadVariablesOptions extends ParseVariablesOptions {
+  /** Format of the file; inferred from its name when omitted */
+  format?: VariableFormat;
+}
+
+/**
+ * The scope variables are imported into: global when both IDs are omitted,
+ * an application, or an environment of the application.
+ */
+export interface VariableImportScope {
+  applicationId?: string;
+  environmentId?: string;
+}
+
+/**
+ * Options for planning an import.
+ */
+export interface PlanVariableImportOptions extends VariableImportScope {
+  /**
+   * Write the values of existing sensitive variables. The API never returns
+   * them, so by default they are only written on create.
+   * @default false
+   */
+  updateSecrets?: boolean;
+}
+
+/**
+ * Options for importing variables.
+ */
+export interface ImportVariablesOptions extends PlanVariableImportOptions {
+  /** Only plan the import; nothing is written */
+  dryRun?: boolean;
+
+  /** Called after each change is applied. */
+  onChange?: (change: VariableImportChange) => void;
+}
+
+/**
+ * Options for exporting variables.
+ */
+export interface ExportVariablesOptions extends ResolveVariablesOptions {
+  format: VariableFormat;
+}
+
+/**
+ * One variable to create or update.
+ */
+export interface VariableImportChange {
+  action: "create" | "update";
+  key: string;
+  /** The imported variable */
+  entry: VariableEntry;
+  /** Set or changed fields; sensitive values are shown as `SENSITIVE_VALUE` */
+  fields: FieldChange[];
+  /** Proto field paths sent as the update mask of an update */
+  updateMask: string[];
+  /** The variable being updated; undefined for creates */
+  existing?: Variable;
+}
+
+/**
+ * Changes needed to import variables into a scope.
+ */
+export interface VariableImportPlan {
+  scope: VariableImportScope;
+  /** Changes in the order of the imported variables */
+  changes: VariableImportChange[];
+  /** Number of imported variables that are already up to date */
+  unchanged: number;
+}
+
+/** Thrown when a variable file is malformed or holds values that cannot be imported. */
+export class VariableFileError extends Error {
+  override readonly name = "VariableFileError";
+}
+
+/** Thrown when a change fails; changes before it have been applied. */
+export class VariableImportError extends Error {
+  override readonly name = "VariableImportError";
+
+  constructor(
+    readonly change: VariableImportChange,
+    readonly applied: VariableImportChange[],
+    readonly cause: unknown,
+  ) {
+    super(
+      `failed to ${change.action} variable ${change.key}: ${cause instanceof Error ? cause.message : String(cause)}`,
+    );
+  }
+}
+
+// Words and word pairs of keys that usually hold secrets
+const SENSITIVE_KEY_PATTERN =
+  /_(PASSWORD|PASSWD|PASSPHRASE|SECRET|TOKEN|CREDENTIALS?|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|SIGNING_?KEY|ENCRYPTION_?KEY|DSN)_/;
+
+/**
+ * Guesses whether a key holds a secret from the words in it, e.g.
+ * `DB_PASSWORD`, `githubToken` or `STRIPE_API_KEY`.
+ */
+export function isSensitiveKey(key: string): boolean {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean);
+  return SENSITIVE_KEY_PATTERN.test(`_${words.join("_")}_`);
+}
+
+/**
+ * Infers the type of a value read as text: `true` and `false` are booleans,
+ * JSON numbers are numbers, JSON objects and arrays are complex and
+ * everything else is a string. Numbers with leading zeros stay strings.
+ */
+export function inferVariableType(value: string): VariableType {
+  if (value === "true" || value === "false") {
+    return VariableType.BOOLEAN;
+  }
+  if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(value)) {
+    return VariableType.NUMBER;
+  }
+  if (/^\s*[[{]/.test(value) && validateVariableValue(VariableType.COMPLEX, value) === undefined) {
+    return VariableType.COMPLEX;
+  }
+  return VariableType.STRING;
+}
+
+/**
+ * Returns the format of a variable file from its name: `*.tfvars`,
+ * `*.json` (including `*.tfvars.json`), or `.env`, `.env.*` and `*.env`.
+ */
+export function variableFormat(path: string): VariableFormat | undefined {
+  const name = basename(path);
+  if (name.endsWith(".tfvars")) {
+    return "tfvars";
+  }
+  if (name.endsWith(".json")) {
+    return "json";
+  }
+  if (name === ".env" || name.startsWith(".env.") || name.endsWith(".env")) {
+    return "dotenv";
+  }
+  return undefined;
+}
+
+// Escape sequences of double-quoted .env values
+const STRING_ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", '"': '"', "\\": "\\", $: "$" };
+
+// Escape sequences of .tfvars strings besides \uNNNN and \UNNNNNNNN, including JSON's \b and \f
+const TFVARS_ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", '"': '"', "\\": "\\", b: "\b", f: "\f" };
+
+/** Returns the 1-based line of an offset. */
+function lineAt(text: string, pos: number): number {
+  let line = 1;
+  for (let i = 0; i < pos && i < text.length; i++) {
+    if (text[i] === "\n") {
+      line++;
+    }
+  }
+  return line;
+}
+
+/**
+ * Parses a `.env` file: `KEY=value` lines with optional `export`, `#`
+ * comments, and single- or double-quoted values that may span lines.
+ * Double-quoted values support `\n`, `\r`, `\t`, `\"`, `\\` and `\$`.
+ */
+function parseDotenv(text: string, source: string): Map<string, { value: string; line: number }> {
+  const values = new Map<string, { value: string; line: number }>();
+  let pos = 0;
+  const fail = (message: string, at = pos): never => {
+    throw new VariableFileError(`${source}:${lineAt(text, at)}: ${message}`);
+  };
+  const skipBlanks = () => {
+    while (pos < text.length && (text[pos] === " " || text[pos] === "\t" || text[pos] === "\r")) {
+      pos++;
+    }
+  };
+  const skipLine = () => {
+    while (pos < text.length && text[pos] !== "\n") {
+      pos++;
+    }
+  };
+
+  while (pos < text.length) {
+    skipBlanks();
+    if (text[pos] === "\n") {
+      pos++;
+      continue;
+    }
+    if (text[pos] === "#" || pos >= text.length) {
+      skipLine();
+      continue;
+    }
+    const start = pos;
+    const exported = /^export[ \t]+/.exec(text.slice(pos));
+    if (exported) {
+      pos += exported[0].length;
+    }
+    const key = /^[A-Za-z_][A-Za-z0-9_.-]*/.exec(text.slice(pos))?.[0];
+    if (!key) {
+      fail("expected a variable name");
+    }
+    pos += key!.length;
+    skipBlanks();
+    if (text[pos] !== "=") {
+      fail(`expected = after ${key}`);
+    }
+    pos++;
+    skipBlanks();
+
+    let value = "";
+    const quote = text[pos];
+    if (quote === '"' || quote === "'") {
+      const open = pos++;
+      for (;;) {
+        if (pos >= text.length) {
+          fail(`unterminated ${quote === '"' ? "double" : "single"}-quoted value of ${key}`, open);
+        }
+        const c = text[pos++]!;
+        if (c === quote) {
+          break;
+        }
+        if (c === "\\" && quote === '"') {
+          const escaped = text[pos++];
+          value += escaped !== undefined && escaped in STRING_ESCAPES ? STRING_ESCAPES[escaped] : `\\${escaped ?? ""}`;
+        } else {
+          value += c;
+        }
+      }
+      skipBlanks();
+      if (pos < text.length && text[pos] !== "\n" && text[pos] !== "#") {
+        fail(`unexpected text after the value of ${key}`);
+      }
+      skipLine();
+    } else {
+      const end = text.indexOf("\n", pos);
+      const line = text.slice(pos, end === -1 ? text.length : end);
+      pos += line.length;
+      value = line.replace(/(^|[ \t])#.*$/, "").trim();
+    }
+
+    const previous = values.get(key!);
+    if (previous) {
+      fail(`${key} is already set on line ${previous.line}`, start);
+    }
+    values.set(key!, { value, line: lineAt(text, start) });
+  }
+  return values;
+}
+
+/**
+ * Parses the literal values of a Terraform `.tfvars` file: strings, heredocs,
+ * numbers, booleans, null, lists and objects, with `#`, `//` and `/* *\/`
+ * comments. Strings support the HCL escapes `\n`, `\r`, `\t`, `\"`, `\\`,
+ * `\uNNNN` and `\UNNNNNNNN` as well as `\b` and `\f`. Expressions such as
+ * interpolation and function calls are not supported.
+ */
+function parseTfvars(text: string, source: string): Map<string, { value: JsonValue; line: number }> {
+  const values = new Map<string, { value: JsonValue; line: number }>();
+  let pos = 0;
+  const fail = (message: string, at = pos): never => {
+    throw new VariableFileError(`${source}:${lineAt(text, at)}: ${message}`);
+  };
+
+  // Skips whitespace and comments; newlines only inside brackets
+  const skip = (newlines: boolean) => {
+    for (;;) {
+      const c = text[pos];
+      if (c === " " || c === "\t" || c === "\r" || (newlines && c === "\n")) {
+        pos++;
+      } else if (c === "#" || (c === "/" && text[pos + 1] === "/")) {
+        while (pos < text.length && text[pos] !== "\n") {
+          pos++;
+        }
+      } else if (c === "/" && text[pos + 1] === "*") {
+        const end = text.indexOf("*/", pos + 2);
+        if (end === -1) {
+          fail("unterminated comment");
+        }
+        pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+  const identifier = (): string | undefined => {
+    const match = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(text.slice(pos));
+    if (match) {
+      pos += match[0].length;
+    }
+    return match?.[0];
+  };
+
+  const parseString = (): string => {
+    const open = pos++;
+    let value = "";
+    for (;;) {
+      const c = text[pos];
+      if (c === undefined || c === "\n") {
+        fail("unterminated string", open);
+      }
+      pos++;
+      if (c === '"') {
+        return value;
+      }
+      if (c === "\\") {
+        const escaped = text[pos++];
+        if (escaped === "u" || escaped === "U") {
+          const hex = text.slice(pos, pos + (escaped === "u" ? 4 : 8));
+          if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== (escaped === "u" ? 4 : 8) || parseInt(hex, 16) > 0x10ffff) {
+            fail(`invalid escape \\${escaped}${hex}`, pos - 2);
+          }
+          value += String.fromCodePoint(parseInt(hex, 16));
+          pos += hex.length;
+        } else if (escaped !== undefined && escaped in TFVARS_ESCAPES) {
+          value += TFVARS_ESCAPES[escaped];
+        } else {
+          fail(`invalid escape \\${escaped ?? ""}`, pos - 2);
+        }
+      } else if ((c === "$" || c === "%") && text[pos] === c && text[pos + 1] === "{") {
+        value += `${c}{`;
+        pos += 2;
+      } else if ((c === "$" || c === "%") && text[pos] === "{") {
+        fail("interpolation and template directives are not supported in .tfvars values", pos - 1);
+      } else {
+        value += c;
+      }
+    }
+  };
+
+  const parseHeredoc = (): string => {
+    const header = /^<<(-?)([A-Za-z_][A-Za-z0-9_]*)\r?\n/.exec(text.slice(pos));
+    if (!header) {
+      fail("invalid heredoc");
+    }
+    const [matched, indent, marker] = header!;
+    const open = pos;
+    pos += matched.length;
+    const lines: string[] = [];
+    for (;;) {
+      if (pos >= text.length) {
+        fail(`unterminated heredoc ${marker}`, open);
+      }
+      const end = text.indexOf("\n", pos);
+      const line = text.slice(pos, end === -1 ? text.length : end).replace(/\r$/, "");
+      pos = end === -1 ? text.length : end;
+      if (line.trim() === marker) {
+        break;
+      }
+      pos++;
+      lines.push(line);
+    }
+    if (indent) {
+      const margin = Math.min(...lines.filter((l) => l.trim()).map((l) => /^[ \t]*/.exec(l)![0].length));
+      lines.forEach((l, i) => (lines[i] = l.slice(margin)));
+    }
+    const body = lines.length > 0 ? lines.join("\n") + "\n" : "";
+    if (/[$%]\{/.test(body.replace(/([$%])\1\{/g, ""))) {
+      fail("interpolation and template directives are not supported in .tfvars values", open);
+    }
+    return body.replace(/([$%])\1\{/g, "$1{");
+  };
+
+  const parseValue = (): JsonValue => {
+    const c = text[pos];
+    if (c === '"') {
+      return parseString();
+    }
+    if (c === "<" && text[pos + 1] === "<") {
+      return parseHeredoc();
+    }
+    if (c === "[") {
+      pos++;
+      const items: JsonValue[] = [];
+      for (;;) {
+        skip(true);
+        if (text[pos] === "]") {
+          pos++;
+          return items;
+        }
+        items.push(parseValue());
+        skip(true);
+        if (text[pos] === ",") {
+          pos++;
+        } else if (text[pos] !== "]") {
+          fail("expected , or ] in list");
+        }
+      }
+    }
+    if (c === "{") {
+      pos++;
+      const object: Record<string, JsonValue> = {};
+      for (;;) {
+        skip(true);
+        if (text[pos] === "}") {
+          pos++;
+          return object;
+        }
+        const key = text[pos] === '"' ? parseString() : identifier();
+        if (key === undefined) {
+          fail("expected an attribute name in object");
+        }
+        skip(false);
+        if (text[pos] !== "=" && text[pos] !== ":") {
+          fail(`expected = after ${key}`);
+        }
+        pos++;
+        skip(false);
+        object[key!] = parseValue();
+        skip(false);
+        if (text[pos] === ",") {
+          pos++;
+        } else if (text[pos] !== "\n" && text[pos] !== "}") {
+          fail("expected a comma, newline or } in object");
+        }
+      }
+    }
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(text.slice(pos));
+    if (number) {
+      pos += number[0].length;
+      return Number(number[0]);
+    }
+    const start = pos;
+    const word = identifier();
+    if (word === "true" || word === "false") {
+      return word === "true";
+    }
+    if (word === "null") {
+      return null;
+    }
+    return fail("unsupported expression; .tfvars values must be literals", start);
+  };
+
+  for (;;) {
+    skip(true);
+    if (pos >= text.length) {
+      return values;
+    }
+    const start = pos;
+    const key = identifier();
+    if (key === undefined) {
+      fail("expected a variable name");
+    }
+    skip(false);
+    if (text[pos] !== "=") {
+      fail(`expected = after ${key}`);
+    }
+    pos++;
+    skip(false);
+    const value = parseValue();
+    skip(false);
+    if (pos < text.length && text[pos] !== "\n") {
+      fail(`unexpected text after the value of ${key}`);
+    }
+    const previous = values.get(key!);
+    if (previous) {
+      fail(`${key} is already set on line ${previous.line}`, start);
+    }
+    values.set(key!, { value, line: lineAt(text, start) });
+  }
+}
+
+/** Converts a typed value from a JSON or `.tfvars` file to Admiral's string form. */
+function typedEntry(key: string, value: JsonValue, source: string): Omit<VariableEntry, "sensitive"> {
+  switch (typeof value) {
+    case "string":
+      return { key, value, type: VariableType.STRING };
+    case "number":
+      return { key, value: String(value), type: VariableType.NUMBER };
+    case "boolean":
+      return { key, value: String(value), type: VariableType.BOOLEAN };
+    default:
+      if (value === null) {
+        throw new VariableFileError(`${source}: ${key} is null`);
+      }
+      return { key, value: JSON.stringify(value), type: VariableType.COMPLEX };
+  }
+}
+
+/**
+ * Parses variables from the text of a `.env`, JSON or `.tfvars` file.
+ *
+ * Values of `.env` files are typed with `inferVariableType`; JSON and
+ * `.tfvars` values keep their own type, with lists and objects becoming
+ * complex variables. Keys that look like secrets are marked sensitive.
+ *
+ * @param text - Contents of the file
+ * @param format - Format of the text
+ * @param options - File name for errors and sensitive-key check
+ * @throws VariableFileError if the text is malformed or a key is set twice
+ *
+ * @example
+ * ```typescript
+ * const entries = parseVariables('DB_HOST=db.internal\nDB_PORT=5432\nDB_PASSWORD="s3cr3t"\n', "dotenv");
+ * // DB_PORT is a NUMBER, DB_PASSWORD is sensitive
+ * ```
+ */
+export function parseVariables(
+  text: string,
+  format: VariableFormat,
+  options: ParseVariablesOptions = {},
+): VariableEntry[] {
+  const { source = format, sensitive = isSensitiveKey } = options;
+  let entries: Omit<VariableEntry, "sensitive">[];
+  switch (format) {
+    case "dotenv":
+      entries = [...parseDotenv(text, source)].map(([key, { value }]) => ({
+        key,
+        value,
+        type: inferVariableType(value),
+      }));
+      break;
+    case "tfvars":
+      entries = [...parseTfvars(text, source)].map(([key, { value }]) => typedEntry(key, value, source));
+      break;
+    case "json": {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch (err) {
+        throw new VariableFileError(`${source}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new VariableFileError(`${source}: expected a JSON object of variables`);
+      }
+      entries = Object.entries(parsed as Record<string, JsonValue>).map(([key, value]) =>
+        typedEntry(key, value, source),
+      );
+      break;
+    }
+    default:
+      throw new VariableFileError(`${source}: unknown format ${String(format)}`);
+  }
+  return entries.map((entry) => ({ ...entry, sensitive: sensitive(entry.key) }));
+}
+
+/**
+ * Reads variables from a `.env`, JSON or `.tfvars` file. The format is
+ * inferred from the file name unless given.
+ *
+ * @param path - File to read
+ * @param options - Format and sensitive-key check
+ * @throws VariableFileError if the format is unknown or the file is malformed
+ *
+ * @example
+ * ```typescript
+ * const entries = await loadVariables("terraform/prod.tfvars");
+ * const { plan } = await client.variable.importVariables(entries, { applicationId, environmentId, dryRun: true });
+ * console.log(formatVariableImport(plan));
+ * ```
+ */
+export async function loadVariables(path: string, options: LoadVariablesOptions = {}): Promise<VariableEntry[]> {
+  const format = options.format ?? variableFormat(path);
+  if (!format) {
+    throw new VariableFileError(`${path}: unknown variable file format; expected .env, .json or .tfvars`);
+  }
+  return parseVariables(await readFile(path, "utf-8"), format, { ...options, source: options.source ?? path });
+}
+
+function typeName(type: VariableType): string {
+  return VariableType[type] ?? String(type);
+}
+
+/**
+ * Works out the changes needed to import variables into a scope. Existing
+ * variables of the scope with the same key are updated with a mask of the
+ * changed fields; others are created. Variables are never deleted.
+ *
+ * An existing variable keeps its type when the imported value is valid for
+ * it, so re-importing a `.env` file does not turn a `STRING` "3" into a
+ * `NUMBER`. Sensitive variables stay sensitive. Values exported as
+ * `REDACTED` are not written.
+ *
+ * @param client - Variable service client, e.g. `client.variable`
+ * @param entries - Variables to import, e.g. from `loadVariables`
+ * @param options - Scope to import into and whether to write sensitive values
+ * @throws VariableFileError if a key is imported twice, a value does not match its type or a new variable's value is redacted
+ */
+export async function planVariableImport(
+  client: Pick<VariableImportClient, "listVariables">,
+  entries: VariableEntry[],
+  options: PlanVariableImportOptions = {},
+): Promise<VariableImportPlan> {
+  const { applicationId, environmentId } = options;
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    if (seen.has(entry.key)) {
+      throw new VariableFileError(`${entry.key} is imported twice`);
+    }
+    seen.add(entry.key);
+    const error = entry.value === REDACTED ? undefined : validateVariableValue(entry.type, entry.value);
+    if (error) {
+      throw new VariableFileError(`${entry.key}: ${error}`);
+    }
+  }
+
+  const f = filterFor("variable");
+  const filter = renderFilter(
+    f.and(
+      applicationId === undefined ? f.isNull("application_id") : f.eq("application_id", applicationId),
+      environmentId === undefined ? f.isNull("environment_id") : f.eq("environment_id", environmentId),
+    ),
+  );
+  // The API also returns the broader scopes; only variables of this scope are updated
+  const existing = new Map(
+    (await paginate(client.listVariables, { filter }).collect())
+      .filter((v) => v.applicationId === applicationId && v.environmentId === environmentId)
+      .map((v) => [v.key, v]),
+  );
+
+  const changes: VariableImportChange[] = [];
+  let unchanged = 0;
+  for (const entry of entries) {
+    const current = existing.get(entry.key);
+    const redacted = entry.value === REDACTED;
+    if (!current) {
+      if (redacted) {
+        throw new VariableFileError(`${entry.key}: cannot create a variable from a redacted value`);
+      }
+      const fields: FieldChange[] = [
+        { field: "value", after: entry.sensitive ? SENSITIVE_VALUE : entry.value },
+        { field: "type", after: typeName(entry.type) },
+      ];
+      if (entry.sensitive) {
+        fields.push({ field: "sensitive", after: true });
+      }
+      changes.push({ action: "create", key: entry.key, entry, fields, updateMask: [] });
+      continue;
+    }
+
+    const sensitive = entry.sensitive || current.sensitive;
+    const type = redacted || validateVariableValue(current.type, entry.value) === undefined ? current.type : entry.type;
+    const valueChanged =
+      !redacted && (current.sensitive ? options.updateSecrets === true : current.value !== entry.value);
+    const desired: VariableEntry = { key: entry.key, value: redacted ? current.value : entry.value, type, sensitive };
+
+    const fields: FieldChange[] = [];
+    const updateMask: string[] = [];
+    if (valueChanged) {
+      fields.push({
+        field: "value",
+        before: sensitive ? SENSITIVE_VALUE : current.value,
+        after: sensitive ? SENSITIVE_VALUE : entry.value,
+      });
+      updateMask.push("value");
+    }
+    if (type !== current.type) {
+      fields.push({ field: "type", before: typeName(current.type), after: typeName(type) });
+      updateMask.push("type");
+    }
+    if (sensitive !== current.sensitive) {
+      fields.push({ field: "sensitive", before: current.sensitive, after: sensitive });
+      updateMask.push("sensitive");
+    }
+    if (updateMask.length > 0) {
+      changes.push({ action: "update", key: entry.key, entry: desired, fields, updateMask, existing: current });
+    } else {
+      unchanged++;
+    }
+  }
+  return { scope: { applicationId, environmentId }, changes, unchanged };
+}
+
+/**
+ * Executes an import plan in order.
+ *
+ * @param client - Variable service client, e.g. `client.variable`
+ * @param plan - Plan from `planVariableImport`
+ * @param options - Progress callback
+ * @returns The applied changes
+ * @throws VariableImportError when a change fails, with the changes applied before it
+ */
+export async function applyVariableImport(
+  client: VariableImportClient,
+  plan: VariableImportPlan,
+  options: Pick<ImportVariablesOptions, "onChange"> = {},
+): Promise<VariableImportChange[]> {
+  const { applicationId, environmentId } = plan.scope;
+  const applied: VariableImportChange[] = [];
+  for (const change of plan.changes) {
+    const { key, value, type, sensitive } = change.entry;
+    try {
+      if (change.action === "create") {
+        await client.createVariable({ key, value, type, sensitive, applicationId, environmentId });
+      } else {
+        await client.updateVariable({
+          variable: { ...change.existing!, value, type, sensitive },
+          updateMask: { paths: change.updateMask },
+        });
+      }
+    } catch (err) {
+      throw new VariableImportError(change, applied, err);
+    }
+    applied.push(change);
+    options.onChange?.(change);
+  }
+  return applied;
+}
+
+/**
+ * Plans and, unless `dryRun` is set, applies an import in one step.
+ *
+ * @example
+ * ```typescript
+ * import { formatVariableImport, importVariables, loadVariables } from "@admiral-io/sdk";
+ *
+ * const entries = await loadVariables(".env.production");
+ * const { plan } = await importVariables(client.variable, entries, { applicationId, environmentId, dryRun: true });
+ * console.log(formatVariableImport(plan));
+ * ```
+ */
+export async function importVariables(
+  client: VariableImportClient,
+  entries: VariableEntry[],
+  options: ImportVariablesOptions = {},
+): Promise<{ plan: VariableImportPlan; applied: VariableImportChange[] }> {
+  const plan = await planVariableImport(client, entries, options);
+  const applied = options.dryRun ? [] : await applyVariableImport(client, plan, options);
+  return { plan, applied };
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(unset)" : JSON.stringify(value);
+}
+
+/**
+ * Formats an import plan for review, like `formatPlan`:
+ *
+ * ```
+ * + DB_HOST
+ *     value: "db.internal"
+ *     type: "STRING"
+ * ~ DB_PORT
+ *     value: "5433" -> "5432"
+ *
+ * Import: 1 to create, 1 to update, 2 unchanged.
+ * ```
+ */
+export function formatVariableImport(plan: VariableImportPlan): string {
+  const lines: string[] = [];
+  for (const change of plan.changes) {
+    lines.push(`${change.action === "create" ? "+" : "~"} ${change.key}`);
+    for (const field of change.fields) {
+      lines.push(
+        change.action === "create"
+          ? `    ${field.field}: ${formatValue(field.after)}`
+          : `    ${field.field}: ${formatValue(field.before)} -> ${formatValue(field.after)}`,
+      );
+    }
+  }
+  const count = (action: VariableImportChange["action"]) => plan.changes.filter((c) => c.action === action).length;
+  if (lines.length === 0) {
+    lines.push("No changes.");
+  }
+  lines.push("", `Import: ${count("create")} to create, ${count("update")} to update, ${plan.unchanged} unchanged.`);
+  return lines.join("\n");
+}
+
+/** Returns the typed value of a variable; redacted and mistyped values stay strings. */
+function exportValue(variable: VariableEntry): JsonValue {
+  if (variable.value === REDACTED || validateVariableValue(variable.type, variable.value) !== undefined) {
+    return variable.value;
+  }
+  return variableValues([variable])[variable.key]!;
+}
+
+function dotenvValue(value: string): string {
+  if (/^[\w./:@+,-]*$/.test(value)) {
+    return value;
+  }
+  const escapes: Record<string, string> = { "\n": "\\n", "\r": "\\r", "\t": "\\t", '"': '\\"', "\\": "\\\\", $: "\\$" };
+  return `"${value.replace(/[\n\r\t"\\$]/g, (c) => escapes[c]!)}"`;
+}
+
+function tfvarsValue(value: JsonValue): string {
+  if (typeof value === "string") {
+    return JSON.stringify(value).replace(/([$%])\{/g, "$1$1{");
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(tfvarsValue).join(", ")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const attributes = Object.entries(value).map(
+      ([key, item]) => `${/^[A-Za-z_][A-Za-z0-9_-]*$/.test(key) ? key : JSON.stringify(key)} = ${tfvarsValue(item)}`,
+    );
+    return attributes.length > 0 ? `{ ${attributes.join(", ")} }` : "{}";
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Writes variables as a `.env`, JSON or `.tfvars` file. JSON and `.tfvars`
+ * values are typed; values that do not match their type are written as
+ * strings.
+ *
+ * @param variables - Variables to write, e.g. the values of `resolveVariables().variables`
+ * @param format - File format
+ */
+export function formatVariables(variables: Iterable<VariableEntry>, format: VariableFormat): string {
+  const list = [...variables];
+  switch (format) {
+    case "dotenv":
+      return list.map((v) => `${v.key}=${dotenvValue(v.value)}\n`).join("");
+    case "json":
+      return JSON.stringify(Object.fromEntries(list.map((v) => [v.key, exportValue(v)])), null, 2) + "\n";
+    case "tfvars":
+      return list.map((v) => `${v.key} = ${tfvarsValue(exportValue(v))}\n`).join("");
+    default:
+      throw new VariableFileError(`unknown format ${String(format)}`);
+  }
+}
+
+/**
+ * Resolves the variables of an application or environment and writes them
+ * as a `.env`, JSON or `.tfvars` file. Sensitive values are written as
+ * `REDACTED` unless `reveal` is set; importing the file leaves them as they are.
+ *
+ * @param client - Variable service client, e.g. `client.variable`
+ * @param options - Scope, format and whether to reveal sensitive values
+ *
+ * @example
+ * ```typescript
+ * await writeFile("prod.tfvars", await client.variable.exportVariables({ applicationId, environmentId, format: "tfvars" }));
+ * ```
+ */
+export async function exportVariables(
+  client: VariableResolutionClient,
+  options: ExportVariablesOptions,
+): Promise<string> {
+  const { variables } = await resolveVariables(client, options);
+  return formatVariables(variables.values(), options.format);
+}
+
+/**
+ * A variable service client extended with `importVariables()` and `exportVariables()`.
+ */
+export type WithVariableFiles<C extends VariableImportClient> = C & {
+  /** Imports variables into a scope. See `importVariables`. */
+  importVariables(
+    entries: VariableEntry[],
+    options?: ImportVariablesOptions,
+  ): Promise<{ plan: VariableImportPlan; applied: VariableImportChange[] }>;
+  /** Writes the variables of an application or environment as a file. See `exportVariables`. */
+  exportVariables(options: ExportVariablesOptions): Promise<string>;
+};
+
+/**
+ * Adds `importVariables()` and `exportVariables()` to a variable service client.
+ */
+export function withVariableFiles<C extends VariableImportClient>(client: C): WithVariableFiles<C> {
+  return Object.assign(client, {
+    importVariables: (entries: VariableEntry[], options?: ImportVariablesOptions) =>
+      importVariables(client, entries, options),
+    exportVariables: (options: ExportVariablesOptions) => exportVariables(client, options),
+  });
+}
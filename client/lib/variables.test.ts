@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { createClient, createRouterTransport } from "@connectrpc/connect";
+import { create, type MessageInitShape } from "@bufbuild/protobuf";
+import { createVariableResolution, resolveVariables, validateVariableValue } from "./variables.js";
+import { REDACTED } from "./redact.js";
+import { VariableAPI, VariableSchema, VariableType } from "../../proto/admiral/api/variable/v1/variable_pb.js";
+
+const APP_ID = "app-payments";
+const ENV_ID = "env-prod";
+
+const variable = (init: MessageInitShape<typeof VariableSchema>) => create(VariableSchema, { id: init.key, ...init });
+
+const variables = [
+  variable({ key: "LOG_LEVEL", value: "info" }),
+  variable({ key: "REPLICAS", value: "2", type: VariableType.NUMBER }),
+  variable({ key: "LOG_LEVEL", value: "debug", applicationId: APP_ID }),
+  variable({ key: "DB_PASSWORD", value: "hunter2", sensitive: true, applicationId: APP_ID }),
+  variable({ key: "LOG_LEVEL", value: "warn", applicationId: APP_ID, environmentId: ENV_ID }),
+  variable({
+    key: "REPLICAS",
+    value: "three",
+    type: VariableType.NUMBER,
+    applicationId: APP_ID,
+    environmentId: ENV_ID,
+  }),
+  variable({ key: "LOG_LEVEL", value: "error", applicationId: APP_ID, environmentId: "env-staging" }),
+  variable({ key: "LOG_LEVEL", value: "trace", applicationId: "app-other" }),
+];
+
+describe("createVariableResolution", () => {
+  it("lets narrower scopes shadow broader ones", () => {
+    const { layers, variables: resolved } = createVariableResolution(variables, {
+      applicationId: APP_ID,
+      environmentId: ENV_ID,
+    });
+
+    expect([layers.global.length, layers.application.length, layers.environment.length]).toEqual([2, 2, 2]);
+    expect([...resolved.keys()]).toEqual(["DB_PASSWORD", "LOG_LEVEL", "REPLICAS"]);
+    const logLevel = resolved.get("LOG_LEVEL")!;
+    expect(logLevel).toMatchObject({ value: "warn", scope: "environment" });
+    expect(logLevel.shadowed.map((s) => [s.scope, s.variable.value])).toEqual([
+      ["application", "debug"],
+      ["global", "info"],
+    ]);
+  });
+
+  it("resolves the application scope without an environment", () => {
+    const { variables: resolved } = createVariableResolution(variables, { applicationId: APP_ID });
+
+    expect(resolved.get("LOG_LEVEL")).toMatchObject({ value: "debug", scope: "application" });
+    expect(resolved.get("REPLICAS")).toMatchObject({ value: "2", scope: "global" });
+  });
+
+  it("masks sensitive values unless revealed", () => {
+    const masked = createVariableResolution(variables, { applicationId: APP_ID });
+    const revealed = createVariableResolution(variables, { applicationId: APP_ID, reveal: true });
+
+    expect(masked.variables.get("DB_PASSWORD")?.value).toBe(REDACTED);
+    expect(masked.layers.application[1]?.value).toBe(REDACTED);
+    expect(revealed.variables.get("DB_PASSWORD")?.value).toBe("hunter2");
+    expect(variables[3]?.value).toBe("hunter2");
+  });
+
+  it("flags values that do not match their type", () => {
+    const { variables: resolved } = createVariableResolution(variables, {
+      applicationId: APP_ID,
+      environmentId: ENV_ID,
+    });
+
+    expect(resolved.get("REPLICAS")?.error).toBe('"three" is not a number');
+    expect(resolved.get("LOG_LEVEL")?.error).toBeUndefined();
+  });
+
+  it("checks the type of sensitive values only when revealed", () => {
+    const secret = [variable({ key: "PORT", value: "abc", type: VariableType.NUMBER, sensitive: true })];
+
+    expect(createVariableResolution(secret, { applicationId: APP_ID }).variables.get("PORT")?.error).toBeUndefined();
+    expect(createVariableResolution(secret, { applicationId: APP_ID, reveal: true }).variables.get("PORT")?.error).toBe(
+      '"abc" is not a number',
+    );
+  });
+});
+
+describe("validateVariableValue", () => {
+  it("checks numbers, booleans and JSON", () => {
+    expect(validateVariableValue(VariableType.NUMBER, "1.5e3")).toBeUndefined();
+    expect(validateVariableValue(VariableType.NUMBER, "")).toBe('"" is not a number');
+    expect(validateVariableValue(VariableType.BOOLEAN, "false")).toBeUndefined();
+    expect(validateVariableValue(VariableType.BOOLEAN, "yes")).toBe('"yes" is not true or false');
+    expect(validateVariableValue(VariableType.COMPLEX, '{"a": [1]}')).toBeUndefined();
+    expect(validateVariableValue(VariableType.COMPLEX, "{a: 1}")).toContain("invalid JSON");
+    expect(validateVariableValue(VariableType.STRING, "anything")).toBeUndefined();
+  });
+});
+
+describe("resolveVariables", () => {
+  it("lists all scopes with one filtered request", async () => {
+    const filters: string[] = [];
+    const transport = createRouterTransport((router) => {
+      router.service(VariableAPI, {
+        listVariables(req) {
+          filters.push(req.filter);
+          return { variables };
+        },
+      });
+    });
+
+    const resolution = await resolveVariables(createClient(VariableAPI, transport), {
+      applicationId: APP_ID,
+      environmentId: ENV_ID,
+    });
+
+    expect(filters).toEqual([`field['application_id'] = '${APP_ID}' AND field['environment_id'] = '${ENV_ID}'`]);
+    expect(resolution.variables.get("LOG_LEVEL")?.value).toBe("warn");
+  });
+});
@@ -0,0 +1,202 @@
+import type { Client as ConnectClient } from "@connectrpc/connect";
+import { clone } from "@bufbuild/protobuf";
+import {
+  VariableSchema,
+  VariableType,
+  type Variable,
+  type VariableAPI,
+} from "../../proto/admiral/api/variable/v1/variable_pb.js";
+import { filterFor, renderFilter } from "./filter.js";
+import { paginate } from "./pagination.js";
+import { REDACTED } from "./redact.js";
+
+/** The variable RPCs used to resolve variables. */
+export type VariableResolutionClient = Pick<ConnectClient<typeof VariableAPI>, "listVariables">;
+
+/** Level a variable is defined at, from the broadest to the narrowest. */
+export type VariableScope = "global" | "application" | "environment";
+
+/** Variable scopes from the broadest to the narrowest. */
+export const VARIABLE_SCOPES: readonly VariableScope[] = ["global", "application", "environment"];
+
+/**
+ * Options for `resolveVariables()`.
+ */
+export interface ResolveVariablesOptions {
+  /** Application to resolve for */
+  applicationId: string;
+
+  /** Environment to resolve for; only global and application variables apply when omitted */
+  environmentId?: string;
+
+  /**
+   * Return the values of sensitive variables as the API returns them
+   * instead of `REDACTED`. The API itself masks them, so this only helps
+   * with servers or tokens that return them.
+   * @default false
+   */
+  reveal?: boolean;
+}
+
+/**
+ * The value of a variable key for the resolved scope.
+ */
+export interface ResolvedVariable {
+  key: string;
+  /** Value of the winning variable, `REDACTED` if it is sensitive and not revealed */
+  value: string;
+  type: VariableType;
+  sensitive: boolean;
+  /** Scope of the winning variable */
+  scope: VariableScope;
+  /** The winning variable */
+  variable: Variable;
+  /** Variables with the same key it shadows, from the narrowest scope to the broadest */
+  shadowed: { scope: VariableScope; variable: Variable }[];
+  /** Why the value does not match its type; unchecked for sensitive variables */
+  error?: string;
+}
+
+/**
+ * Variables of an application or environment with their precedence worked out.
+ */
+export interface VariableResolution {
+  /** Variables defined at each scope, in the order listed */
+  layers: Record<VariableScope, Variable[]>;
+  /** The effective variables by key, sorted by key */
+  variables: Map<string, ResolvedVariable>;
+}
+
+/** Returns the scope of a variable. */
+export function variableScope(variable: Variable): VariableScope {
+  if (variable.applicationId === undefined) {
+    return "global";
+  }
+  return variable.environmentId === undefined ? "application" : "environment";
+}
+
+/**
+ * Checks a value against a variable type: numbers must be finite decimal
+ * numbers, booleans `true` or `false` and complex values valid JSON.
+ *
+ * @returns Why the value does not match, or undefined if it does
+ */
+export function validateVariableValue(type: VariableType, value: string): string | undefined {
+  switch (type) {
+    case VariableType.NUMBER:
+      return value.trim() === "" || !Number.isFinite(Number(value))
+        ? `${JSON.stringify(value)} is not a number`
+        : undefined;
+    case VariableType.BOOLEAN:
+      return value === "true" || value === "false" ? undefined : `${JSON.stringify(value)} is not true or false`;
+    case VariableType.COMPLEX:
+      try {
+        JSON.parse(value);
+        return undefined;
+      } catch (err) {
+        return `invalid JSON: ${(err as Error).message}`;
+      }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Works out which variables apply to an application or environment:
+ * environment variables shadow application variables, which shadow global
+ * ones. Variables of other applications and environments are ignored.
+ *
+ * @param variables - Variables of all scopes, e.g. from ListVariables
+ * @param options - Scope to resolve for and whether to reveal sensitive values
+ */
+export function createVariableResolution(variables: Variable[], options: ResolveVariablesOptions): VariableResolution {
+  const layers: Record<VariableScope, Variable[]> = { global: [], application: [], environment: [] };
+  for (const listed of variables) {
+    const scope = variableScope(listed);
+    const applies =
+      scope === "global" ||
+      (listed.applicationId === options.applicationId &&
+        (scope === "application" || listed.environmentId === options.environmentId));
+    if (applies) {
+      let variable = listed;
+      if (listed.sensitive && !options.reveal) {
+        variable = clone(VariableSchema, listed);
+        variable.value = REDACTED;
+      }
+      layers[scope].push(variable);
+    }
+  }
+
+  const resolved = new Map<string, ResolvedVariable>();
+  for (const scope of VARIABLE_SCOPES) {
+    for (const variable of layers[scope]) {
+      const previous = resolved.get(variable.key);
+      const entry: ResolvedVariable = {
+        key: variable.key,
+        value: variable.value,
+        type: variable.type,
+        sensitive: variable.sensitive,
+        scope,
+        variable,
+        shadowed: previous ? [{ scope: previous.scope, variable: previous.variable }, ...previous.shadowed] : [],
+      };
+      // Sensitive values are masked, or empty when the API withholds them
+      const hidden = variable.sensitive && (variable.value === REDACTED || variable.value === "");
+      const error = hidden ? undefined : validateVariableValue(variable.type, variable.value);
+      if (error) {
+        entry.error = error;
+      }
+      resolved.set(variable.key, entry);
+    }
+  }
+  const sorted = [...resolved].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return { layers, variables: new Map(sorted) };
+}
+
+/**
+ * Lists the variables of an application or environment at all three scopes
+ * and works out the effective value of each key, what it shadows and
+ * whether it matches its type. Sensitive values are replaced by `REDACTED`
+ * unless `reveal` is set.
+ *
+ * @param client - Variable service client, e.g. `client.variable`
+ * @param options - Application, environment and whether to reveal sensitive values
+ *
+ * @example
+ * ```typescript
+ * const { variables } = await client.variable.resolveVariables({ applicationId, environmentId });
+ * for (const v of variables.values()) {
+ *   const shadows = v.shadowed.map((s) => s.scope).join(", ");
+ *   console.log(`${v.key}=${v.value} (${v.scope}${shadows ? `, shadows ${shadows}` : ""})`);
+ * }
+ * ```
+ */
+export async function resolveVariables(
+  client: VariableResolutionClient,
+  options: ResolveVariablesOptions,
+): Promise<VariableResolution> {
+  const f = filterFor("variable");
+  const scope = [f.eq("application_id", options.applicationId)];
+  if (options.environmentId !== undefined) {
+    scope.push(f.eq("environment_id", options.environmentId));
+  }
+  const variables = await paginate(client.listVariables, { filter: renderFilter(f.and(...scope)) }).collect();
+  return createVariableResolution(variables, options);
+}
+
+/**
+ * A variable service client extended with `resolveVariables()`.
+ */
+export type WithVariableResolution<C extends VariableResolutionClient> = C & {
+  /** Resolves the variables of an application or environment. See `resolveVariables`. */
+  resolveVariables(options: ResolveVariablesOptions): Promise<VariableResolution>;
+};
+
+/**
+ * Adds `resolveVariables()` to a variable service client.
+ */
+export function withVariableResolution<C extends VariableResolutionClient>(client: C): WithVariableResolution<C> {
+  return Object.assign(client, {
+    resolveVariables: (options: ResolveVariablesOptions) => resolveVariables(client, options),
+  });
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { parseYAML, parseYAMLDocuments, stringifyYAML, YAMLSyntaxError } from "./yaml.js";
+
+describe("parseYAMLDocuments", () => {
+  it("parses mappings, sequences and scalars", () => {
+    const text = `
+# application manifest
+kind: Application
+name: payments
+spec:
+  description: "Payments: card and wallet"   # quoted colon
+  replicas: 3
+  enabled: true
+  empty: ~
+  labels: { team: payments, tier: "1" }
+  tags: [a, 'b''c', 2]
+  steps:
+    - name: build
+      args:
+        - --release
+    - plain
+  nested:
+  - x
+  - y
+`;
+    expect(parseYAML(text)).toEqual({
+      kind: "Application",
+      name: "payments",
+      spec: {
+        description: "Payments: card and wallet",
+        replicas: 3,
+        enabled: true,
+        empty: null,
+        labels: { team: "payments", tier: "1" },
+        tags: ["a", "b'c", 2],
+        steps: [{ name: "build", args: ["--release"] }, "plain"],
+        nested: ["x", "y"],
+      },
+    });
+  });
+
+  it("parses block scalars and multiple documents", () => {
+    const text = [
+      "values: |",
+      "  image:",
+      "    tag: {{ .version }}",
+      "",
+      "folded: >-",
+      "  one",
+      "  two",
+      "---",
+      "kind: Variable",
+      "...",
+      "---",
+      "# only a comment",
+    ].join("\n");
+
+    expect(parseYAMLDocuments(text)).toEqual([
+      { values: "image:\n  tag: {{ .version }}\n", folded: "one two" },
+      { kind: "Variable" },
+    ]);
+  });
+
+  it("keeps trailing lines of block scalars with the + indicator", () => {
+    expect(parseYAML("a: |+\n  x\n\nb: |\n  y\n\n")).toEqual({ a: "x\n\n", b: "y\n" });
+    expect(parseYAML("a: |+\n  x\n")).toEqual({ a: "x\n" });
+  });
+
+  it("rejects YAML outside the supported subset", () => {
+    const cases: [string, RegExp][] = [
+      ["base: &base\n  a: 1", /Anchors, aliases and tags/],
+      ["<<: *base", /Anchors, aliases and tags/],
+      ["a: !!str 1", /Anchors, aliases and tags/],
+      ["? a\n: 1", /Complex mapping keys/],
+      ["a: one\n  two", /multi-line plain scalars/],
+      ["- one\n  two", /multi-line plain scalars/],
+      ['a: "one\n  two"', /quoted strings must fit on one line/],
+      ["a: [1,\n  2]", /flow collections must fit on one line/],
+      ["a: [|, b]", /cannot start with "\|"/],
+      ["a: @user", /cannot start with "@"/],
+      ["a: b: c", /Nested mappings must start on a new line/],
+      ["a: |2\n   x", /Unsupported block scalar header/],
+    ];
+    for (const [text, message] of cases) {
+      expect(() => parseYAML(text), text).toThrow(message);
+    }
+  });
+
+  it("reports errors with line numbers", () => {
+    expect(() => parseYAML("a: 1\na: 2")).toThrow(YAMLSyntaxError);
+    expect(() => parseYAML("a: 1\n b: 2")).toThrow(/line 2/);
+    expect(() => parseYAML("a: *ref")).toThrow(/not supported/);
+  });
+});
+
+describe("stringifyYAML", () => {
+  it("round-trips values, quoting ambiguous strings", () => {
+    const value = {
+      name: "payments",
+      version: "1.10",
+      enabled: "true",
+      empty: "",
+      labels: {},
+      list: [{ key: "a: b", n: 1 }, [1, 2], []],
+      script: "echo one\necho two\n",
+      missing: undefined,
+    };
+
+    const text = stringifyYAML(value);
+
+    expect(text).toContain('version: "1.10"');
+    expect(text).not.toContain("missing");
+    expect(parseYAML(text)).toEqual({ ...value, missing: undefined });
+  });
+});
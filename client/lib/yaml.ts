@@ -0,0 +1,580 @@
+/**
+ * Thrown when YAML text cannot be parsed.
+ */
+export class YAMLSyntaxError extends Error {
+  override readonly name = "YAMLSyntaxError";
+
+  constructor(
+    message: string,
+    /** 1-based line number */
+    readonly line: number,
+  ) {
+    super(`${message} (line ${line})`);
+  }
+}
+
+interface Line {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+const NUMBER = /^[-+]?(\d[\d_]*(\.\d*)?([eE][-+]?\d+)?|\.\d+([eE][-+]?\d+)?)$/;
+
+/**
+ * Removes a trailing comment, i.e. a `#` after whitespace outside quotes.
+ */
+function stripComment(text: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === "\\" && quote === '"') {
+        i++;
+      } else if (ch === quote) {
+        quote = undefined;
+      }
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "#" && (i === 0 || text[i - 1] === " " || text[i - 1] === "\t")) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+function plainScalar(text: string): unknown {
+  switch (text) {
+    case "":
+    case "~":
+    case "null":
+    case "Null":
+    case "NULL":
+      return null;
+    case "true":
+    case "True":
+    case "TRUE":
+      return true;
+    case "false":
+    case "False":
+    case "FALSE":
+      return false;
+  }
+  if (NUMBER.test(text)) {
+    return Number(text.replace(/_/g, ""));
+  }
+  if (/^0x[0-9a-fA-F]+$/.test(text)) {
+    return parseInt(text.slice(2), 16);
+  }
+  return text;
+}
+
+/**
+ * Parses flow values (`[a, b]`, `{a: 1}`, quoted and plain scalars) on a single line.
+ */
+class FlowParser {
+  private pos = 0;
+
+  constructor(
+    private readonly text: string,
+    private readonly line: number,
+  ) {}
+
+  parse(): unknown {
+    const value = this.value("");
+    this.skipSpace();
+    if (this.pos < this.text.length) {
+      throw new YAMLSyntaxError(`Unexpected "${this.text.slice(this.pos)}"`, this.line);
+    }
+    return value;
+  }
+
+  private skipSpace(): void {
+    while (this.text[this.pos] === " " || this.text[this.pos] === "\t") {
+      this.pos++;
+    }
+  }
+
+  // `stops` are the characters that end a plain scalar in the current context
+  private value(stops: string): unknown {
+    this.skipSpace();
+    const ch = this.text[this.pos];
+    if (ch === "[") {
+      return this.sequence();
+    }
+    if (ch === "{") {
+      return this.mapping();
+    }
+    if (ch === '"' || ch === "'") {
+      return this.quoted();
+    }
+    if (ch === "&" || ch === "*" || ch === "!") {
+      throw new YAMLSyntaxError("Anchors, aliases and tags are not supported", this.line);
+    }
+    if (ch === "?" && /\s/.test(this.text[this.pos + 1] ?? " ")) {
+      throw new YAMLSyntaxError("Complex mapping keys are not supported", this.line);
+    }
+    if (ch === "@" || ch === "`" || (stops && (ch === "|" || ch === ">"))) {
+      throw new YAMLSyntaxError(`Plain scalars cannot start with "${ch}"; quote the value`, this.line);
+    }
+    const start = this.pos;
+    while (this.pos < this.text.length && !stops.includes(this.text[this.pos]!)) {
+      if (stops && this.text[this.pos] === ":" && /[\s,\]}]/.test(this.text[this.pos + 1] ?? " ")) {
+        break;
+      }
+      this.pos++;
+    }
+    const text = this.text.slice(start, this.pos).trim();
+    if (!stops && /:(\s|$)/.test(text)) {
+      throw new YAMLSyntaxError("Nested mappings must start on a new line", this.line);
+    }
+    return plainScalar(text);
+  }
+
+  quoted(): string {
+    const quote = this.text[this.pos++];
+    let out = "";
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos++]!;
+      if (quote === "'") {
+        if (ch === "'") {
+          if (this.text[this.pos] === "'") {
+            out += "'";
+            this.pos++;
+            continue;
+          }
+          return out;
+        }
+        out += ch;
+      } else if (ch === '"') {
+        return out;
+      } else if (ch === "\\") {
+        out += this.escape();
+      } else {
+        out += ch;
+      }
+    }
+    throw new YAMLSyntaxError("Unterminated string; quoted strings must fit on one line", this.line);
+  }
+
+  private escape(): string {
+    const ch = this.text[this.pos++];
+    switch (ch) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      case "0":
+        return "\0";
+      case "x":
+      case "u":
+      case "U": {
+        const length = ch === "x" ? 2 : ch === "u" ? 4 : 8;
+        const hex = this.text.slice(this.pos, this.pos + length);
+        if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) {
+          throw new YAMLSyntaxError(`Invalid escape \\${ch}${hex}`, this.line);
+        }
+        this.pos += length;
+        return String.fromCodePoint(parseInt(hex, 16));
+      }
+      case '"':
+      case "\\":
+      case "/":
+      case " ":
+        return ch;
+      default:
+        throw new YAMLSyntaxError(`Invalid escape \\${ch ?? ""}`, this.line);
+    }
+  }
+
+  private expect(ch: string): void {
+    this.skipSpace();
+    if (this.pos >= this.text.length) {
+      throw new YAMLSyntaxError(`Expected "${ch}"; flow collections must fit on one line`, this.line);
+    }
+    if (this.text[this.pos] !== ch) {
+      throw new YAMLSyntaxError(`Expected "${ch}"`, this.line);
+    }
+    this.pos++;
+  }
+
+  private sequence(): unknown[] {
+    this.pos++;
+    const items: unknown[] = [];
+    this.skipSpace();
+    while (this.text[this.pos] !== "]") {
+      items.push(this.value(",]"));
+      this.skipSpace();
+      if (this.text[this.pos] !== ",") {
+        break;
+      }
+      this.pos++;
+      this.skipSpace();
+    }
+    this.expect("]");
+    return items;
+  }
+
+  private mapping(): Record<string, unknown> {
+    this.pos++;
+    const map: Record<string, unknown> = {};
+    this.skipSpace();
+    while (this.text[this.pos] !== "}") {
+      const key = this.value(",}:");
+      this.expect(":");
+      map[String(key)] = this.value(",}");
+      this.skipSpace();
+      if (this.text[this.pos] !== ",") {
+        break;
+      }
+      this.pos++;
+      this.skipSpace();
+    }
+    this.expect("}");
+    return map;
+  }
+}
+
+/**
+ * Finds the `:` separating a mapping key from its value, or -1 if the line is not a mapping entry.
+ */
+function keySeparator(text: string): number {
+  if (text.startsWith("[") || text.startsWith("{")) {
+    return -1;
+  }
+  let i = 0;
+  const quote = text[0];
+  if (quote === '"' || quote === "'") {
+    for (i = 1; i < text.length && text[i] !== quote; i++) {
+      if (text[i] === "\\" && quote === '"') {
+        i++;
+      }
+    }
+  }
+  for (; i < text.length; i++) {
+    if (text[i] === ":" && (i + 1 === text.length || text[i + 1] === " " || text[i + 1] === "\t")) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+class BlockParser {
+  private index = 0;
+  private readonly lines: Line[];
+
+  constructor(
+    private readonly raw: string[],
+    firstLine: number,
+  ) {
+    this.lines = raw.map((text, i) => ({
+      indent: text.length - text.trimStart().length,
+      text: stripComment(text.trim()),
+      number: firstLine + i,
+    }));
+  }
+
+  parse(): unknown {
+    const value = this.node(0);
+    const rest = this.peek();
+    if (rest) {
+      throw new YAMLSyntaxError(`Unexpected "${rest.text}"`, rest.number);
+    }
+    return value;
+  }
+
+  private peek(): Line | undefined {
+    while (this.index < this.lines.length && this.lines[this.index]!.text === "") {
+      this.index++;
+    }
+    return this.lines[this.index];
+  }
+
+  private node(minIndent: number): unknown {
+    const line = this.peek();
+    if (!line || line.indent < minIndent) {
+      return null;
+    }
+    if (this.raw[this.index]!.startsWith("\t")) {
+      throw new YAMLSyntaxError("Tabs are not allowed for indentation", line.number);
+    }
+    if (line.text === "-" || line.text.startsWith("- ")) {
+      return this.sequence(line.indent);
+    }
+    if (keySeparator(line.text) !== -1) {
+      return this.mapping(line.indent);
+    }
+    this.index++;
+    return this.inline(line.text, line);
+  }
+
+  private inline(text: string, line: Line): unknown {
+    if (text.startsWith("|") || text.startsWith(">")) {
+      return this.blockScalar(text, line);
+    }
+    return new FlowParser(text, line.number).parse();
+  }
+
+  private sequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      if (line.text !== "-" && !line.text.startsWith("- ")) {
+        break;
+      }
+      const rest = line.text.slice(1).trimStart();
+      if (rest === "") {
+        this.index++;
+        items.push(this.node(indent + 1));
+      } else if (rest === "-" || rest.startsWith("- ") || keySeparator(rest) !== -1) {
+        // "- key: value" and "- - item" start a collection indented to the rest of the line
+        line.indent += line.text.length - rest.length;
+        line.text = rest;
+        items.push(this.node(line.indent));
+      } else {
+        this.index++;
+        items.push(this.inline(rest, line));
+        this.endOfValue(line);
+      }
+    }
+    return items;
+  }
+
+  private mapping(indent: number): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      const sep = keySeparator(line.text);
+      if (sep === -1) {
+        throw new YAMLSyntaxError(`Expected a mapping entry but found "${line.text}"`, line.number);
+      }
+      const rawKey = line.text.slice(0, sep).trim();
+      const key = String(new FlowParser(rawKey, line.number).parse());
+      if (Object.hasOwn(map, key)) {
+        throw new YAMLSyntaxError(`Duplicate key "${key}"`, line.number);
+      }
+      const rest = line.text.slice(sep + 1).trim();
+      this.index++;
+      if (rest !== "") {
+        map[key] = this.inline(rest, line);
+        this.endOfValue(line);
+        continue;
+      }
+      const next = this.peek();
+      if (next && next.indent === indent && (next.text === "-" || next.text.startsWith("- "))) {
+        map[key] = this.sequence(indent);
+      } else {
+        map[key] = this.node(indent + 1);
+      }
+    }
+    return map;
+  }
+
+  // A value given on its line may not continue on more indented lines
+  private endOfValue(line: Line): void {
+    const next = this.peek();
+    if (next && next.indent > line.indent) {
+      throw new YAMLSyntaxError("Unexpected indentation; multi-line plain scalars are not supported", next.number);
+    }
+  }
+
+  // Literal (|) and folded (>) block scalars with optional chomping indicator
+  private blockScalar(header: string, line: Line): string {
+    const match = /^([|>])([-+]?)$/.exec(header);
+    if (!match) {
+      throw new YAMLSyntaxError(`Unsupported block scalar header "${header}"`, line.number);
+    }
+    const [, style, chomp] = match;
+    const body: string[] = [];
+    let indent: number | undefined;
+    while (this.index < this.raw.length) {
+      const text = this.raw[this.index]!;
+      const current = text.length - text.trimStart().length;
+      if (text.trim() !== "") {
+        indent ??= current;
+        if (current < indent || current <= line.indent) {
+          break;
+        }
+      }
+      body.push(indent === undefined ? "" : text.slice(indent));
+      this.index++;
+    }
+    const trailing: string[] = [];
+    while (body.length > 0 && body[body.length - 1]!.trim() === "") {
+      body.pop();
+      trailing.push("\n");
+    }
+    let value =
+      style === "|"
+        ? body.join("\n")
+        : body.reduce(
+            (out, part, i) => (i === 0 ? part : out + (part === "" || body[i - 1] === "" ? "\n" : " ") + part),
+            "",
+          );
+    if (chomp === "+") {
+      value += "\n" + trailing.join("");
+    } else if (chomp !== "-" && value !== "") {
+      value += "\n";
+    }
+    return value;
+  }
+}
+
+/**
+ * Parses a YAML stream into its documents.
+ *
+ * Supports the subset used by configuration files:
+ * - block mappings and sequences indented with spaces
+ * - flow collections (`[a, b]`, `{a: 1}`) on a single line
+ * - plain, single-quoted and double-quoted scalars on a single line
+ * - literal (`|`) and folded (`>`) block scalars with an optional chomping
+ *   indicator (`-` or `+`) but no indentation indicator
+ * - comments, `---` and `...` document markers and `%` directives
+ *
+ * Anything else is rejected with a YAMLSyntaxError rather than read
+ * differently from a full YAML parser: anchors, aliases, merge keys, tags,
+ * complex (`?`) keys, multi-line plain and quoted scalars, multi-line flow
+ * collections and plain scalars starting with a reserved indicator.
+ *
+ * @param text - YAML text
+ * @returns One value per document; empty documents are skipped
+ * @throws YAMLSyntaxError if the text is not valid YAML or uses unsupported features
+ */
+export function parseYAMLDocuments(text: string): unknown[] {
+  const documents: unknown[] = [];
+  // The final line break ends the last line rather than starting an empty one
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .replace(/\r?\n$/, "")
+    .split(/\r?\n/);
+  let start = 0;
+  const flush = (end: number) => {
+    const chunk = lines.slice(start, end);
+    if (chunk.some((line) => stripComment(line.trim()) !== "")) {
+      documents.push(new BlockParser(chunk, start + 1).parse());
+    }
+  };
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    if (/^---(\s|$)/.test(line) || /^\.\.\.(\s|$)/.test(line)) {
+      flush(i);
+      start = i + 1;
+      const inline = stripComment(line.slice(3).trim());
+      if (line.startsWith("---") && inline !== "") {
+        lines[i] = inline;
+        start = i;
+      }
+    } else if (/^%/.test(line) && i === start) {
+      start = i + 1;
+    }
+  }
+  flush(lines.length);
+  return documents;
+}
+
+/**
+ * Parses a single YAML document.
+ *
+ * @throws YAMLSyntaxError if the text is not valid YAML or contains more than one document
+ */
+export function parseYAML(text: string): unknown {
+  const documents = parseYAMLDocuments(text);
+  if (documents.length > 1) {
+    throw new YAMLSyntaxError("Expected a single document", 1);
+  }
+  return documents[0] ?? null;
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "null";
+  }
+  if (typeof value === "number" || typeof value === "boolean" || typeof value === "bigint") {
+    return String(value);
+  }
+  const text = String(value);
+  if (
+    text === "" ||
+    text !== text.trim() ||
+    plainScalar(text) !== text ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /: |\s#|[\n\r\t]/.test(text) ||
+    text.endsWith(":")
+  ) {
+    return JSON.stringify(text);
+  }
+  return text;
+}
+
+function formatKey(key: string): string {
+  const formatted = formatScalar(key);
+  return formatted === key ? key : JSON.stringify(key);
+}
+
+function isMultiline(value: unknown): value is string {
+  return typeof value === "string" && value.includes("\n") && !/[\r\t]/.test(value) && value.trim() !== "";
+}
+
+function blockLines(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return [`${indent}[]`];
+    }
+    return value.flatMap((item) => {
+      const nested = blockLines(item, indent + "  ");
+      if (isComplex(item)) {
+        return [`${indent}- ${nested[0]!.trimStart()}`, ...nested.slice(1)];
+      }
+      return [`${indent}- ${inlineValue(item, indent + "  ").join("\n")}`];
+    });
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) {
+      return [`${indent}{}`];
+    }
+    return entries.flatMap(([key, item]) => {
+      if (isComplex(item)) {
+        return [`${indent}${formatKey(key)}:`, ...blockLines(item, indent + "  ")];
+      }
+      return [`${indent}${formatKey(key)}: ${inlineValue(item, indent + "  ").join("\n")}`];
+    });
+  }
+  return [`${indent}${formatScalar(value)}`];
+}
+
+// Scalars, empty collections and literal block strings that follow "key: " or "- "
+function inlineValue(value: unknown, indent: string): string[] {
+  if (isMultiline(value)) {
+    const chomp = value.endsWith("\n") ? "" : "-";
+    const body = value.endsWith("\n") ? value.slice(0, -1) : value;
+    return [`|${chomp}`, ...body.split("\n").map((line) => (line === "" ? "" : indent + line))];
+  }
+  if (Array.isArray(value)) {
+    return ["[]"];
+  }
+  if (typeof value === "object" && value !== null) {
+    return ["{}"];
+  }
+  return [formatScalar(value)];
+}
+
+function isComplex(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return typeof value === "object" && value !== null && Object.values(value).some((v) => v !== undefined);
+}
+
+/**
+ * Formats a JSON-compatible value as a block-style YAML document.
+ *
+ * Strings that would read back as another type are quoted; multi-line strings
+ * use literal block scalars. `undefined` object properties are omitted.
+ *
+ * @param value - The value to format
+ * @returns YAML text ending with a newline
+ */
+export function stringifyYAML(value: unknown): string {
+  return blockLines(value, "").join("\n") + "\n";
+}
@@ -0,0 +1,20 @@
+// In-memory server
+export {
+  type FakeAdmiral,
+  type FakeAdmiralOptions,
+  type SourceVersionInit,
+  type JobInit,
+  createFakeAdmiral,
+} from "./lib/fake.js";
+
+// Scripted rollouts
+export { type DeploymentStep, type RevisionUpdate } from "./lib/deployments.js";
+
+// Store
+export {
+  type FakeStore,
+  type StoredToken,
+  type StoredState,
+  type StoredSourceVersion,
+  type ReportedStatus,
+} from "./lib/store.js";
@@ -0,0 +1,408 @@
+import { Code, ConnectError, type HandlerContext, type ServiceImpl } from "@connectrpc/connect";
+import { create } from "@bufbuild/protobuf";
+import { FILTER_FIELDS } from "../../client/lib/filter.js";
+import { AccessTokenSchema, BindingType, TokenType } from "../../proto/admiral/common/v1/token_pb.js";
+import {
+  ClusterAPI,
+  ClusterHealthStatus,
+  ClusterSchema,
+  ClusterStatusSchema,
+  WorkloadSchema,
+  type ClusterStatus,
+  type WorkloadStatus,
+} from "../../proto/admiral/api/cluster/v1/cluster_pb.js";
+import { RevisionStatus, type Revision } from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+import {
+  JobBundleSchema,
+  JobSchema,
+  JobStatus,
+  JobType,
+  RunnerAPI,
+  RunnerHealthStatus,
+  RunnerSchema,
+  RunnerStatusSchema,
+  type Job,
+} from "../../proto/admiral/api/runner/v1/runner_pb.js";
+import { refreshDeployment, revisionsOf, updateRevision } from "./deployments.js";
+import { applyUpdate, fieldReader, listPage } from "./query.js";
+import {
+  authenticateAgent,
+  created,
+  ensureUnique,
+  issueToken,
+  mustGet,
+  required,
+  revokeToken,
+  tokensFor,
+  type FakeContext,
+} from "./store.js";
+
+/** Seconds agents are told to wait before their next status report. */
+const REPORT_INTERVAL_SECONDS = 30;
+
+function deleteTokens(ctx: FakeContext, bindingType: BindingType, bindingId: string): void {
+  for (const token of tokensFor(ctx, bindingType, bindingId)) {
+    ctx.store.tokens.delete(token.id);
+  }
+}
+
+/** Health of a cluster as derived from its last status report. */
+function clusterHealth(status: ClusterStatus): ClusterHealthStatus {
+  if (status.workloadsError > 0) {
+    return ClusterHealthStatus.ERROR;
+  }
+  if (status.workloadsDegraded > 0 || status.nodesReady < status.nodeCount) {
+    return ClusterHealthStatus.DEGRADED;
+  }
+  return ClusterHealthStatus.HEALTHY;
+}
+
+/** Marks a revision as being worked on and updates its deployment. */
+function startRevision(ctx: FakeContext, revision: Revision, status: RevisionStatus): void {
+  if (revision.status === RevisionStatus.PENDING || revision.status === RevisionStatus.QUEUED) {
+    updateRevision(ctx, revision, { status });
+    refreshDeployment(ctx, mustGet(ctx.store.deployments, "deployment", revision.deploymentId));
+  }
+}
+
+/** Records the outcome of a revision and updates its deployment. */
+function finishRevision(ctx: FakeContext, revision: Revision, success: boolean, errorMessage: string): void {
+  updateRevision(ctx, revision, {
+    status: success ? RevisionStatus.SUCCEEDED : RevisionStatus.FAILED,
+    errorMessage: success ? "" : errorMessage,
+  });
+  refreshDeployment(ctx, mustGet(ctx.store.deployments, "deployment", revision.deploymentId));
+}
+
+export function clusterService(ctx: FakeContext): ServiceImpl<typeof ClusterAPI> {
+  const { store } = ctx;
+  const upsertWorkloads = (clusterId: string, workloads: WorkloadStatus[]) => {
+    const existing = [...store.workloads.values()].filter((w) => w.clusterId === clusterId);
+    for (const { $typeName: _, ...status } of workloads) {
+      const id =
+        existing.find((w) => w.namespace === status.namespace && w.kind === status.kind && w.name === status.name)
+          ?.id ?? ctx.newId();
+      store.workloads.set(id, create(WorkloadSchema, { ...status, id, clusterId, lastUpdatedAt: ctx.timestamp() }));
+    }
+  };
+  const mustGetRevision = (revisionId: string, handler: HandlerContext) => {
+    const clusterId = authenticateAgent(ctx, handler, BindingType.CLUSTER);
+    const revision = mustGet(store.revisions, "revision", revisionId);
+    const deployment = mustGet(store.deployments, "deployment", revision.deploymentId);
+    const environment = mustGet(store.environments, "environment", deployment.environmentId);
+    if (environment.runtimeConfig.value?.clusterId !== clusterId) {
+      throw new ConnectError(`revision ${revisionId} is not deployed to this cluster`, Code.PermissionDenied);
+    }
+    return { revision, environment };
+  };
+  return {
+    createCluster(req) {
+      ensureUnique(store.clusters.values(), "cluster", req.name);
+      const cluster = create(ClusterSchema, {
+        ...created(ctx),
+        name: req.name,
+        description: req.description,
+        labels: req.labels,
+        healthStatus: ClusterHealthStatus.PENDING,
+      });
+      store.clusters.set(cluster.id, cluster);
+      const { plainTextToken } = issueToken(ctx, {
+        name: "default",
+        tokenType: TokenType.AGT,
+        bindingType: BindingType.CLUSTER,
+        bindingId: cluster.id,
+      });
+      return { cluster, plainTextToken };
+    },
+    getCluster(req) {
+      return { cluster: mustGet(store.clusters, "cluster", req.clusterId) };
+    },
+    getClusterStatus(req) {
+      const cluster = mustGet(store.clusters, "cluster", req.clusterId);
+      const reported = store.clusterStatus.get(cluster.id);
+      return { healthStatus: cluster.healthStatus, status: reported?.status, reportedAt: reported?.reportedAt };
+    },
+    listClusters(req) {
+      const page = listPage(store.clusters.values(), req, FILTER_FIELDS.cluster, fieldReader(ClusterSchema));
+      return { clusters: page.items, nextPageToken: page.nextPageToken };
+    },
+    updateCluster(req) {
+      const patch = required(req.cluster, "cluster");
+      const current = mustGet(store.clusters, "cluster", patch.id);
+      const cluster = applyUpdate(ClusterSchema, current, patch, req.updateMask, {
+        outputOnly: ["cluster_uid", "health_status"],
+      });
+      ensureUnique(store.clusters.values(), "cluster", cluster.name, cluster.id);
+      Object.assign(cluster, { updatedBy: ctx.user.id, updatedAt: ctx.timestamp() });
+      store.clusters.set(cluster.id, cluster);
+      return { cluster };
+    },
+    deleteCluster(req) {
+      mustGet(store.clusters, "cluster", req.clusterId);
+      const environment = [...store.environments.values()].find(
+        (e) => e.runtimeConfig.value?.clusterId === req.clusterId,
+      );
+      if (environment) {
+        throw new ConnectError(
+          `cluster ${req.clusterId} is used by environment ${environment.name}`,
+          Code.FailedPrecondition,
+        );
+      }
+      deleteTokens(ctx, BindingType.CLUSTER, req.clusterId);
+      for (const workload of [...store.workloads.values()].filter((w) => w.clusterId === req.clusterId)) {
+        store.workloads.delete(workload.id);
+      }
+      store.clusterStatus.delete(req.clusterId);
+      store.clusters.delete(req.clusterId);
+      return {};
+    },
+    createClusterToken(req) {
+      mustGet(store.clusters, "cluster", req.clusterId);
+      return issueToken(ctx, {
+        name: req.name,
+        tokenType: TokenType.AGT,
+        bindingType: BindingType.CLUSTER,
+        bindingId: req.clusterId,
+        expiresAt: req.expiresAt,
+      });
+    },
+    listClusterTokens(req) {
+      mustGet(store.clusters, "cluster", req.clusterId);
+      const tokens = tokensFor(ctx, BindingType.CLUSTER, req.clusterId);
+      const page = listPage(tokens, req, FILTER_FIELDS.clusterToken, fieldReader(AccessTokenSchema));
+      return { accessTokens: page.items, nextPageToken: page.nextPageToken };
+    },
+    getClusterToken(req) {
+      mustGet(store.clusters, "cluster", req.clusterId);
+      const accessToken = tokensFor(ctx, BindingType.CLUSTER, req.clusterId).find((t) => t.id === req.tokenId);
+      if (!accessToken) {
+        throw new ConnectError(`token ${req.tokenId} not found`, Code.NotFound);
+      }
+      return { accessToken };
+    },
+    revokeClusterToken(req) {
+      mustGet(store.clusters, "cluster", req.clusterId);
+      return { accessToken: revokeToken(ctx, BindingType.CLUSTER, req.clusterId, req.tokenId) };
+    },
+    reportClusterStatus(req, handler) {
+      const clusterId = authenticateAgent(ctx, handler, BindingType.CLUSTER);
+      const cluster = mustGet(store.clusters, "cluster", clusterId);
+      const status = req.status ?? create(ClusterStatusSchema);
+      store.clusterStatus.set(clusterId, { status, reportedAt: req.reportedAt ?? ctx.timestamp() });
+      cluster.healthStatus = clusterHealth(status);
+      upsertWorkloads(clusterId, req.workloads);
+      return { ack: true, nextPushSeconds: REPORT_INTERVAL_SECONDS };
+    },
+    listWorkloads(req) {
+      mustGet(store.clusters, "cluster", req.clusterId);
+      const workloads = [...store.workloads.values()].filter((w) => w.clusterId === req.clusterId);
+      const page = listPage(workloads, req, FILTER_FIELDS.workload, fieldReader(WorkloadSchema));
+      return { workloads: page.items, nextPageToken: page.nextPageToken };
+    },
+    reportWorkloadStatus(req, handler) {
+      const clusterId = authenticateAgent(ctx, handler, BindingType.CLUSTER);
+      if (req.clusterId !== clusterId) {
+        throw new ConnectError(`token is not valid for cluster ${req.clusterId}`, Code.PermissionDenied);
+      }
+      upsertWorkloads(clusterId, req.workloads);
+      return { ack: true };
+    },
+    getRevisionBundle(req, handler) {
+      const { revision, environment } = mustGetRevision(req.revisionId, handler);
+      startRevision(ctx, revision, RevisionStatus.APPLYING);
+      const namespace =
+        environment.runtimeConfig.case === "kubernetes" ? environment.runtimeConfig.value.namespace : undefined;
+      return {
+        bundle: {
+          artifactUrl: revision.artifactUrl,
+          artifactChecksum: revision.artifactChecksum,
+          namespace: namespace ?? environment.name,
+          componentName: revision.componentName,
+          version: revision.version,
+        },
+      };
+    },
+    reportRevisionResult(req, handler) {
+      const { revision } = mustGetRevision(req.revisionId, handler);
+      finishRevision(ctx, revision, req.result?.success ?? false, req.result?.errorMessage ?? "");
+      return { ack: true };
+    },
+  };
+}
+
+/** Revision status while a runner works on a job of the given type. */
+function jobRevisionStatus(jobType: JobType): RevisionStatus {
+  return jobType === JobType.PLAN || jobType === JobType.DESTROY_PLAN
+    ? RevisionStatus.PLANNING
+    : RevisionStatus.APPLYING;
+}
+
+export function runnerService(ctx: FakeContext): ServiceImpl<typeof RunnerAPI> {
+  const { store } = ctx;
+  // A job can run once the revisions of the components it depends on have succeeded
+  const isReady = (job: Job): boolean => {
+    const revision = store.revisions.get(job.revisionId);
+    if (!revision) {
+      return true;
+    }
+    const succeeded = new Set(
+      revisionsOf(ctx, revision.deploymentId)
+        .filter((r) => r.status === RevisionStatus.SUCCEEDED)
+        .map((r) => r.componentId),
+    );
+    return revision.dependsOn.every((id) => succeeded.has(id));
+  };
+  return {
+    createRunner(req) {
+      ensureUnique(store.runners.values(), "runner", req.name);
+      const runner = create(RunnerSchema, {
+        ...created(ctx),
+        name: req.name,
+        description: req.description,
+        kind: req.kind,
+        labels: req.labels,
+        healthStatus: RunnerHealthStatus.PENDING,
+      });
+      store.runners.set(runner.id, runner);
+      const { plainTextToken } = issueToken(ctx, {
+        name: "default",
+        tokenType: TokenType.AGT,
+        bindingType: BindingType.RUNNER,
+        bindingId: runner.id,
+      });
+      return { runner, plainTextToken };
+    },
+    getRunner(req) {
+      return { runner: mustGet(store.runners, "runner", req.runnerId) };
+    },
+    listRunners(req) {
+      const page = listPage(store.runners.values(), req, FILTER_FIELDS.runner, fieldReader(RunnerSchema));
+      return { runners: page.items, nextPageToken: page.nextPageToken };
+    },
+    updateRunner(req) {
+      const patch = required(req.runner, "runner");
+      const current = mustGet(store.runners, "runner", patch.id);
+      const runner = applyUpdate(RunnerSchema, current, patch, req.updateMask, {
+        outputOnly: ["health_status"],
+        immutable: ["kind"],
+      });
+      ensureUnique(store.runners.values(), "runner", runner.name, runner.id);
+      Object.assign(runner, { updatedBy: ctx.user.id, updatedAt: ctx.timestamp() });
+      store.runners.set(runner.id, runner);
+      return { runner };
+    },
+    deleteRunner(req) {
+      mustGet(store.runners, "runner", req.runnerId);
+      const environment = [...store.environments.values()].find((e) => e.infrastructure?.runnerId === req.runnerId);
+      if (environment) {
+        throw new ConnectError(
+          `runner ${req.runnerId} is used by environment ${environment.name}`,
+          Code.FailedPrecondition,
+        );
+      }
+      deleteTokens(ctx, BindingType.RUNNER, req.runnerId);
+      store.runnerStatus.delete(req.runnerId);
+      store.runners.delete(req.runnerId);
+      return {};
+    },
+    getRunnerStatus(req) {
+      const runner = mustGet(store.runners, "runner", req.runnerId);
+      const reported = store.runnerStatus.get(runner.id);
+      return { healthStatus: runner.healthStatus, status: reported?.status, reportedAt: reported?.reportedAt };
+    },
+    createRunnerToken(req) {
+      mustGet(store.runners, "runner", req.runnerId);
+      return issueToken(ctx, {
+        name: req.name,
+        tokenType: TokenType.AGT,
+        bindingType: BindingType.RUNNER,
+        bindingId: req.runnerId,
+        expiresAt: req.expiresAt,
+      });
+    },
+    listRunnerTokens(req) {
+      mustGet(store.runners, "runner", req.runnerId);
+      const tokens = tokensFor(ctx, BindingType.RUNNER, req.runnerId);
+      const page = listPage(tokens, req, FILTER_FIELDS.runnerToken, fieldReader(AccessTokenSchema));
+      return { accessTokens: page.items, nextPageToken: page.nextPageToken };
+    },
+    getRunnerToken(req) {
+      mustGet(store.runners, "runner", req.runnerId);
+      const accessToken = tokensFor(ctx, BindingType.RUNNER, req.runnerId).find((t) => t.id === req.tokenId);
+      if (!accessToken) {
+        throw new ConnectError(`token ${req.tokenId} not found`, Code.NotFound);
+      }
+      return { accessToken };
+    },
+    revokeRunnerToken(req) {
+      mustGet(store.runners, "runner", req.runnerId);
+      return { accessToken: revokeToken(ctx, BindingType.RUNNER, req.runnerId, req.tokenId) };
+    },
+    heartbeat(req, handler) {
+      const runnerId = authenticateAgent(ctx, handler, BindingType.RUNNER);
+      const runner = mustGet(store.runners, "runner", runnerId);
+      store.runnerStatus.set(runnerId, {
+        status: req.status ?? create(RunnerStatusSchema),
+        reportedAt: ctx.timestamp(),
+      });
+      runner.healthStatus = RunnerHealthStatus.HEALTHY;
+      return { ack: true, nextHeartbeatSeconds: REPORT_INTERVAL_SECONDS };
+    },
+    claimJob(_req, handler) {
+      const runnerId = authenticateAgent(ctx, handler, BindingType.RUNNER);
+      const job = [...store.jobs.values()].find(
+        (j) => j.runnerId === runnerId && j.status === JobStatus.PENDING && isReady(j),
+      );
+      if (!job) {
+        return {};
+      }
+      Object.assign(job, { status: JobStatus.ASSIGNED, startedAt: ctx.timestamp() });
+      const revision = store.revisions.get(job.revisionId);
+      if (revision) {
+        startRevision(ctx, revision, jobRevisionStatus(job.jobType));
+      }
+      return { job };
+    },
+    getJobBundle(req, handler) {
+      const job = runnerJob(ctx, req.jobId, handler);
+      if (job.status === JobStatus.ASSIGNED) {
+        job.status = JobStatus.RUNNING;
+      }
+      return { bundle: store.jobBundles.get(job.id) ?? create(JobBundleSchema) };
+    },
+    reportJobResult(req, handler) {
+      const job = runnerJob(ctx, req.jobId, handler);
+      const result = required(req.result, "result");
+      Object.assign(job, { status: result.status, completedAt: ctx.timestamp() });
+      const revision = store.revisions.get(job.revisionId);
+      if (revision) {
+        Object.assign(revision, { planOutput: result.planOutput, planSummary: result.planSummary });
+        if (result.status === JobStatus.CANCELLED) {
+          updateRevision(ctx, revision, { status: RevisionStatus.CANCELLED });
+          refreshDeployment(ctx, mustGet(store.deployments, "deployment", revision.deploymentId));
+        } else {
+          finishRevision(ctx, revision, result.status === JobStatus.SUCCEEDED, result.errorMessage);
+        }
+      }
+      return { ack: true };
+    },
+    listRunnerJobs(req) {
+      mustGet(store.runners, "runner", req.runnerId);
+      const jobs = [...store.jobs.values()].filter((j) => j.runnerId === req.runnerId);
+      const page = listPage(jobs, req, FILTER_FIELDS.runnerJob, fieldReader(JobSchema));
+      return { jobs: page.items, nextPageToken: page.nextPageToken };
+    },
+  };
+}
+
+/**
+ * Returns the job a runner is calling about, for the state RPCs.
+ */
+export function runnerJob(ctx: FakeContext, jobId: string, handler: HandlerContext): Job {
+  const runnerId = authenticateAgent(ctx, handler, BindingType.RUNNER);
+  const job = ctx.store.jobs.get(jobId);
+  if (!job || job.runnerId !== runnerId) {
+    throw new ConnectError(`job ${jobId} not found`, Code.NotFound);
+  }
+  return job;
+}
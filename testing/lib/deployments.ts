@@ -0,0 +1,378 @@
+import { Code, ConnectError, type ServiceImpl } from "@connectrpc/connect";
+import { create } from "@bufbuild/protobuf";
+import { FILTER_FIELDS } from "../../client/lib/filter.js";
+import { isTerminalDeploymentStatus } from "../../client/lib/deployment.js";
+import { ComponentCategory } from "../../proto/admiral/api/component/v1/component_pb.js";
+import {
+  DeploymentAPI,
+  DeploymentSchema,
+  DeploymentStatus,
+  DeploymentTriggerType,
+  RevisionCategory,
+  RevisionSchema,
+  RevisionStatus,
+  RevisionSummarySchema,
+  type Deployment,
+  type Revision,
+  type RevisionSummary,
+} from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+import {
+  JobBundleSchema,
+  JobSchema,
+  JobStatus,
+  JobType,
+  type Job,
+} from "../../proto/admiral/api/runner/v1/runner_pb.js";
+import { fieldReader, listPage } from "./query.js";
+import { resolveComponent } from "./resources.js";
+import { mustGet, type FakeContext } from "./store.js";
+
+/** Revision fields a script can change. */
+export type RevisionUpdate = Partial<
+  Pick<
+    Revision,
+    "status" | "errorMessage" | "planOutput" | "planSummary" | "artifactUrl" | "artifactChecksum" | "resolvedValues"
+  >
+>;
+
+/**
+ * One step of a scripted rollout.
+ */
+export interface DeploymentStep {
+  /**
+   * Status of the deployment after the step. When omitted it follows the
+   * revisions: RUNNING once any has started, then SUCCEEDED, PARTIALLY_FAILED,
+   * FAILED or CANCELLED once all have finished.
+   */
+  status?: DeploymentStatus;
+
+  /**
+   * Revision changes keyed by component name; `"*"` applies to every
+   * revision. A status alone can be given instead of an update.
+   */
+  revisions?: Record<string, RevisionStatus | RevisionUpdate>;
+}
+
+/**
+ * Scripted rollouts waiting to be played back, one step per GetDeployment.
+ */
+export interface DeploymentScripts {
+  /** Scripts for deployments that don't exist yet, claimed in creation order */
+  upcoming: DeploymentStep[][];
+  /** Remaining steps by deployment ID */
+  active: Map<string, DeploymentStep[]>;
+}
+
+const STARTED_STATUSES: ReadonlySet<RevisionStatus> = new Set([
+  RevisionStatus.QUEUED,
+  RevisionStatus.PLANNING,
+  RevisionStatus.APPLYING,
+]);
+
+const FINISHED_STATUSES: ReadonlySet<RevisionStatus> = new Set([
+  RevisionStatus.SUCCEEDED,
+  RevisionStatus.FAILED,
+  RevisionStatus.BLOCKED,
+  RevisionStatus.CANCELLED,
+]);
+
+/** Returns the revisions of a deployment in creation order. */
+export function revisionsOf(ctx: FakeContext, deploymentId: string): Revision[] {
+  return [...ctx.store.revisions.values()].filter((r) => r.deploymentId === deploymentId);
+}
+
+function summarize(revisions: Revision[]): RevisionSummary {
+  const count = (...statuses: RevisionStatus[]) => revisions.filter((r) => statuses.includes(r.status)).length;
+  return create(RevisionSummarySchema, {
+    total: revisions.length,
+    succeeded: count(RevisionStatus.SUCCEEDED),
+    failed: count(RevisionStatus.FAILED),
+    blocked: count(RevisionStatus.BLOCKED),
+    running: count(RevisionStatus.PLANNING, RevisionStatus.APPLYING),
+    cancelled: count(RevisionStatus.CANCELLED),
+    pending: count(RevisionStatus.PENDING, RevisionStatus.QUEUED),
+  });
+}
+
+/** Derives a deployment's status from its revisions. */
+function deriveStatus(revisions: Revision[], current: DeploymentStatus): DeploymentStatus {
+  if (current === DeploymentStatus.CANCELLED || revisions.length === 0) {
+    return current;
+  }
+  if (revisions.every((r) => FINISHED_STATUSES.has(r.status))) {
+    const succeeded = revisions.filter((r) => r.status === RevisionStatus.SUCCEEDED).length;
+    if (succeeded === revisions.length) {
+      return DeploymentStatus.SUCCEEDED;
+    }
+    if (revisions.every((r) => r.status === RevisionStatus.CANCELLED)) {
+      return DeploymentStatus.CANCELLED;
+    }
+    return succeeded > 0 ? DeploymentStatus.PARTIALLY_FAILED : DeploymentStatus.FAILED;
+  }
+  return revisions.some((r) => r.status !== RevisionStatus.PENDING) ? DeploymentStatus.RUNNING : current;
+}
+
+/**
+ * Changes a revision, stamping when it started and finished.
+ */
+export function updateRevision(ctx: FakeContext, revision: Revision, update: RevisionUpdate): void {
+  Object.assign(revision, update);
+  if (update.status === undefined) {
+    return;
+  }
+  if ((STARTED_STATUSES.has(update.status) || FINISHED_STATUSES.has(update.status)) && !revision.startedAt) {
+    revision.startedAt = ctx.timestamp();
+  }
+  if (FINISHED_STATUSES.has(update.status)) {
+    revision.completedAt ??= ctx.timestamp();
+  }
+  if (update.status !== RevisionStatus.BLOCKED) {
+    revision.blockedBy = [];
+  }
+}
+
+/**
+ * Brings a deployment up to date with its revisions: pending revisions that
+ * depend on a failed or blocked component become BLOCKED, the summary is
+ * recounted and, unless `status` is given, the status is derived.
+ */
+export function refreshDeployment(ctx: FakeContext, deployment: Deployment, status?: DeploymentStatus): void {
+  const revisions = revisionsOf(ctx, deployment.id);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const broken = new Set(
+      revisions
+        .filter((r) => r.status === RevisionStatus.FAILED || r.status === RevisionStatus.BLOCKED)
+        .map((r) => r.componentId),
+    );
+    for (const revision of revisions) {
+      const blockedBy = revision.dependsOn.filter((id) => broken.has(id));
+      if (revision.status === RevisionStatus.PENDING && blockedBy.length > 0) {
+        updateRevision(ctx, revision, { status: RevisionStatus.BLOCKED });
+        revision.blockedBy = blockedBy;
+        changed = true;
+      }
+    }
+  }
+
+  deployment.revisionSummary = summarize(revisions);
+  deployment.status = status ?? deriveStatus(revisions, deployment.status);
+  if (!isTerminalDeploymentStatus(deployment.status)) {
+    deployment.completedAt = undefined;
+    return;
+  }
+  deployment.completedAt ??= ctx.timestamp();
+  if (deployment.status === DeploymentStatus.SUCCEEDED) {
+    const environment = ctx.store.environments.get(deployment.environmentId);
+    if (environment) {
+      environment.lastDeployedAt = deployment.completedAt;
+    }
+  }
+}
+
+/**
+ * Applies one scripted step to a deployment.
+ */
+export function applyStep(ctx: FakeContext, deployment: Deployment, step: DeploymentStep): void {
+  const revisions = revisionsOf(ctx, deployment.id);
+  for (const [name, change] of Object.entries(step.revisions ?? {})) {
+    const targets = name === "*" ? revisions : revisions.filter((r) => r.componentName === name);
+    if (targets.length === 0) {
+      throw new Error(`deployment ${deployment.id} has no revision for component "${name}"`);
+    }
+    for (const revision of targets) {
+      updateRevision(ctx, revision, typeof change === "number" ? { status: change } : change);
+    }
+  }
+  refreshDeployment(ctx, deployment, step.status);
+}
+
+/**
+ * Queues the runner job for an infrastructure revision, when the environment
+ * has a runner.
+ */
+export function enqueueRevisionJob(ctx: FakeContext, deployment: Deployment, revision: Revision): Job | undefined {
+  const runnerId = ctx.store.environments.get(deployment.environmentId)?.infrastructure?.runnerId;
+  if (revision.category !== RevisionCategory.INFRASTRUCTURE || !runnerId) {
+    return undefined;
+  }
+  const job = create(JobSchema, {
+    id: ctx.newId(),
+    runnerId,
+    revisionId: revision.id,
+    deploymentId: deployment.id,
+    jobType: deployment.destroy ? JobType.DESTROY_APPLY : JobType.APPLY,
+    status: JobStatus.PENDING,
+    createdAt: ctx.timestamp(),
+  });
+  ctx.store.jobs.set(job.id, job);
+  ctx.store.jobBundles.set(
+    job.id,
+    create(JobBundleSchema, {
+      artifactUrl: revision.artifactUrl,
+      artifactChecksum: revision.artifactChecksum,
+      variables: variablesFor(ctx, deployment.applicationId, deployment.environmentId),
+    }),
+  );
+  return job;
+}
+
+/** Variables visible to an environment; environment values shadow application and global ones. */
+function variablesFor(ctx: FakeContext, applicationId: string, environmentId: string): Record<string, string> {
+  const rank = (v: { applicationId?: string; environmentId?: string }) =>
+    v.environmentId !== undefined ? 2 : v.applicationId !== undefined ? 1 : 0;
+  const visible = [...ctx.store.variables.values()]
+    .filter(
+      (v) =>
+        (v.applicationId === undefined || v.applicationId === applicationId) &&
+        (v.environmentId === undefined || v.environmentId === environmentId),
+    )
+    .sort((a, b) => rank(a) - rank(b));
+  return Object.fromEntries(visible.map((v) => [v.key, v.value]));
+}
+
+export function deploymentService(ctx: FakeContext, scripts: DeploymentScripts): ServiceImpl<typeof DeploymentAPI> {
+  const { store } = ctx;
+  const mustGetRevision = (deploymentId: string, revisionId: string) => {
+    const revision = store.revisions.get(revisionId);
+    if (!revision || revision.deploymentId !== deploymentId) {
+      throw new ConnectError(`revision ${revisionId} not found in deployment ${deploymentId}`, Code.NotFound);
+    }
+    return revision;
+  };
+  return {
+    createDeployment(req) {
+      const application = mustGet(store.applications, "application", req.applicationId);
+      const environment = mustGet(store.environments, "environment", req.environmentId);
+      if (environment.applicationId !== application.id) {
+        throw new ConnectError(
+          `environment ${environment.id} does not belong to application ${application.id}`,
+          Code.InvalidArgument,
+        );
+      }
+
+      const deployment = create(DeploymentSchema, {
+        id: ctx.newId(),
+        applicationId: application.id,
+        environmentId: environment.id,
+        status: DeploymentStatus.QUEUED,
+        triggerType: req.destroy ? DeploymentTriggerType.DESTROY : DeploymentTriggerType.MANUAL,
+        triggeredBy: ctx.user.id,
+        message: req.message,
+        destroy: req.destroy,
+        createdAt: ctx.timestamp(),
+      });
+      store.deployments.set(deployment.id, deployment);
+
+      // One revision per enabled component, as resolved for the environment
+      const components = [...store.components.values()]
+        .filter((c) => c.applicationId === application.id)
+        .map((c) => resolveComponent(ctx, c, environment.id))
+        .filter((c) => !c.disabled);
+      const enabled = new Set(components.map((c) => c.id));
+      for (const component of components) {
+        const revision = create(RevisionSchema, {
+          id: ctx.newId(),
+          deploymentId: deployment.id,
+          componentId: component.id,
+          componentName: component.name,
+          category:
+            component.category === ComponentCategory.INFRASTRUCTURE
+              ? RevisionCategory.INFRASTRUCTURE
+              : RevisionCategory.WORKLOAD,
+          status: RevisionStatus.PENDING,
+          sourceId: component.sourceId,
+          version: component.version,
+          resolvedValues: component.valuesTemplate,
+          dependsOn: component.dependsOn.filter((id) => enabled.has(id)),
+          createdAt: ctx.timestamp(),
+        });
+        store.revisions.set(revision.id, revision);
+        enqueueRevisionJob(ctx, deployment, revision);
+      }
+      deployment.revisionSummary = summarize(revisionsOf(ctx, deployment.id));
+
+      const script = scripts.upcoming.shift();
+      if (script) {
+        scripts.active.set(deployment.id, script);
+      }
+      return { deployment };
+    },
+    getDeployment(req) {
+      const deployment = mustGet(store.deployments, "deployment", req.deploymentId);
+      // Each poll plays back the next scripted step
+      const step = scripts.active.get(deployment.id)?.shift();
+      if (step) {
+        applyStep(ctx, deployment, step);
+      }
+      return { deployment };
+    },
+    listDeployments(req) {
+      const page = listPage(store.deployments.values(), req, FILTER_FIELDS.deployment, fieldReader(DeploymentSchema));
+      return { deployments: page.items, nextPageToken: page.nextPageToken };
+    },
+    cancelDeployment(req) {
+      const deployment = mustGet(store.deployments, "deployment", req.deploymentId);
+      if (isTerminalDeploymentStatus(deployment.status)) {
+        throw new ConnectError(
+          `deployment ${deployment.id} already finished with status ${DeploymentStatus[deployment.status]}`,
+          Code.FailedPrecondition,
+        );
+      }
+      for (const revision of revisionsOf(ctx, deployment.id)) {
+        if (!FINISHED_STATUSES.has(revision.status)) {
+          updateRevision(ctx, revision, { status: RevisionStatus.CANCELLED, errorMessage: req.reason });
+        }
+      }
+      for (const job of store.jobs.values()) {
+        if (job.deploymentId === deployment.id && job.status === JobStatus.PENDING) {
+          job.status = JobStatus.CANCELLED;
+        }
+      }
+      scripts.active.delete(deployment.id);
+      refreshDeployment(ctx, deployment, DeploymentStatus.CANCELLED);
+      return { deployment };
+    },
+    getRevision(req) {
+      mustGet(store.deployments, "deployment", req.deploymentId);
+      return { revision: mustGetRevision(req.deploymentId, req.revisionId) };
+    },
+    listRevisions(req) {
+      mustGet(store.deployments, "deployment", req.deploymentId);
+      const page = listPage(revisionsOf(ctx, req.deploymentId), req, {}, () => undefined);
+      return { revisions: page.items, nextPageToken: page.nextPageToken };
+    },
+    retryRevision(req) {
+      const deployment = mustGet(store.deployments, "deployment", req.deploymentId);
+      const revision = mustGetRevision(req.deploymentId, req.revisionId);
+      if (revision.status !== RevisionStatus.FAILED) {
+        throw new ConnectError(
+          `revision ${revision.id} has status ${RevisionStatus[revision.status]}; only FAILED revisions can be retried`,
+          Code.FailedPrecondition,
+        );
+      }
+      Object.assign(revision, {
+        status: RevisionStatus.PENDING,
+        errorMessage: "",
+        retryCount: revision.retryCount + 1,
+        startedAt: undefined,
+        completedAt: undefined,
+      });
+      // Revisions it blocked can run again too
+      for (const other of revisionsOf(ctx, deployment.id)) {
+        if (other.status === RevisionStatus.BLOCKED) {
+          Object.assign(other, {
+            status: RevisionStatus.PENDING,
+            blockedBy: [],
+            startedAt: undefined,
+            completedAt: undefined,
+          });
+        }
+      }
+      enqueueRevisionJob(ctx, deployment, revision);
+      refreshDeployment(ctx, deployment, DeploymentStatus.RUNNING);
+      return { revision };
+    },
+  };
+}
@@ -0,0 +1,237 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError, createClient as createConnectClient } from "@connectrpc/connect";
+import { createFakeAdmiral } from "./fake.js";
+import { paginate } from "../../client/lib/pagination.js";
+import { DeploymentFailedError } from "../../client/lib/deployment.js";
+import { ApplicationAPI } from "../../proto/admiral/api/application/v1/application_pb.js";
+import { DeploymentStatus, RevisionStatus } from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+import { RuntimeType } from "../../proto/admiral/api/environment/v1/environment_pb.js";
+import { JobStatus, RunnerKind } from "../../proto/admiral/api/runner/v1/runner_pb.js";
+import { SourceType } from "../../proto/admiral/api/source/v1/source_pb.js";
+
+const fast = { pollInterval: 1, maxPollInterval: 1 };
+
+// Helper to create an application with one environment and one component per name
+async function seed(fake = createFakeAdmiral(), names = ["api"]) {
+  const client = fake.createClient();
+  const { application } = await client.application.createApplication({ name: "payments" });
+  const { environment } = await client.environment.createEnvironment({
+    applicationId: application!.id,
+    name: "staging",
+    runtimeType: RuntimeType.KUBERNETES,
+  });
+  const { source } = await client.source.createSource({
+    name: "charts",
+    type: SourceType.HELM_REPOSITORY,
+    url: "https://charts.example.com",
+  });
+  for (const name of names) {
+    await client.component.createComponent({
+      applicationId: application!.id,
+      name,
+      sourceId: source!.id,
+      version: "1.0.0",
+    });
+  }
+  return { fake, client, application: application!, environment: environment!, source: source! };
+}
+
+describe("createFakeAdmiral", () => {
+  it("creates resources with server-set fields", async () => {
+    const fake = createFakeAdmiral({ now: () => new Date("2026-01-02T03:04:05Z") });
+    const { application } = await fake.createClient().application.createApplication({ name: "payments" });
+
+    expect(application!.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(application!.tenantId).toBe(fake.user.tenantId);
+    expect(application!.createdBy).toBe(fake.user.id);
+    expect(application!.createdAt?.seconds).toBe(BigInt(Date.parse("2026-01-02T03:04:05Z") / 1000));
+    expect(fake.store.applications.get(application!.id)).toEqual(application);
+  });
+
+  it("fails with AlreadyExists and NotFound like the API", async () => {
+    const { client } = await seed();
+
+    await expect(client.application.createApplication({ name: "payments" })).rejects.toMatchObject({
+      code: Code.AlreadyExists,
+    });
+    await expect(
+      client.application.getApplication({ applicationId: "00000000-0000-4000-8000-000000000000" }),
+    ).rejects.toMatchObject({ code: Code.NotFound });
+  });
+
+  it("validates requests unless disabled", async () => {
+    const fake = createFakeAdmiral();
+    const raw = createConnectClient(ApplicationAPI, fake.transport);
+    await expect(raw.getApplication({ applicationId: "not-a-uuid" })).rejects.toMatchObject({
+      code: Code.InvalidArgument,
+    });
+
+    const lenient = createConnectClient(ApplicationAPI, createFakeAdmiral({ validateRequests: false }).transport);
+    await expect(lenient.getApplication({ applicationId: "not-a-uuid" })).rejects.toMatchObject({
+      code: Code.NotFound,
+    });
+  });
+
+  it("pages list results with opaque tokens", async () => {
+    const fake = createFakeAdmiral();
+    const client = fake.createClient();
+    for (let i = 0; i < 7; i++) {
+      await client.application.createApplication({ name: `app-${i}` });
+    }
+
+    const first = await client.application.listApplications({ pageSize: 3 });
+    expect(first.applications.map((a) => a.name)).toEqual(["app-0", "app-1", "app-2"]);
+    expect(first.nextPageToken).not.toBe("");
+
+    const all = await paginate(client.application.listApplications, {}, { pageSize: 3 }).collect();
+    expect(all.map((a) => a.name)).toEqual(["app-0", "app-1", "app-2", "app-3", "app-4", "app-5", "app-6"]);
+
+    await expect(client.application.listApplications({ pageToken: "garbage" })).rejects.toMatchObject({
+      code: Code.InvalidArgument,
+    });
+  });
+
+  it("filters on fields, labels and enums", async () => {
+    const fake = createFakeAdmiral();
+    const client = fake.createClient();
+    await client.runner.createRunner({ name: "tf-eu", kind: RunnerKind.TERRAFORM, labels: { region: "eu" } });
+    await client.runner.createRunner({ name: "tf-us", kind: RunnerKind.TERRAFORM, labels: { region: "us" } });
+    await client.runner.createRunner({ name: "wf-eu", kind: RunnerKind.WORKFLOW, labels: { region: "eu" } });
+
+    const names = async (filter: string) =>
+      (await client.runner.listRunners({ filter })).runners.map((r) => r.name).sort();
+
+    expect(await names("field['kind'] = 'TERRAFORM'")).toEqual(["tf-eu", "tf-us"]);
+    expect(await names("field['labels.region'] = 'eu'")).toEqual(["tf-eu", "wf-eu"]);
+    expect(await names("field['kind'] = 'TERRAFORM' AND field['labels.region'] = 'eu'")).toEqual(["tf-eu"]);
+    await expect(names("field['nope'] = 'x'")).rejects.toMatchObject({ code: Code.InvalidArgument });
+  });
+
+  it("lists global variables unless filtered by application or environment, like the API", async () => {
+    const { client, application, environment } = await seed();
+    const { application: other } = await client.application.createApplication({ name: "billing" });
+    await client.variable.createVariable({ key: "LOG_LEVEL", value: "info" });
+    await client.variable.createVariable({ key: "LOG_LEVEL", value: "debug", applicationId: application.id });
+    await client.variable.createVariable({
+      key: "LOG_LEVEL",
+      value: "warn",
+      applicationId: application.id,
+      environmentId: environment.id,
+    });
+    await client.variable.createVariable({ key: "LOG_LEVEL", value: "trace", applicationId: other!.id });
+
+    const values = async (filter: string) =>
+      (await client.variable.listVariables({ filter })).variables.map((v) => v.value).sort();
+
+    expect(await values("")).toEqual(["info"]);
+    expect(await values("field['key'] = 'LOG_LEVEL'")).toEqual(["info"]);
+    expect(await values(`field['application_id'] = '${application.id}'`)).toEqual(["debug", "info"]);
+    expect(await values(`field['environment_id'] = '${environment.id}'`)).toEqual(["debug", "info", "warn"]);
+    const resolved = await client.variable.resolveVariables({
+      applicationId: application.id,
+      environmentId: environment.id,
+    });
+    expect(resolved.variables.get("LOG_LEVEL")?.value).toBe("warn");
+  });
+
+  it("updates only the fields in the mask", async () => {
+    const { client, application } = await seed();
+
+    const { application: updated } = await client.application.updateApplication({
+      application: { ...application, name: "renamed", description: "ignored", labels: { team: "core" } },
+      updateMask: { paths: ["name", "labels"] },
+    });
+
+    expect(updated!.name).toBe("renamed");
+    expect(updated!.description).toBe(application.description);
+    expect(updated!.labels).toEqual({ team: "core" });
+    await expect(
+      client.application.updateApplication({
+        application,
+        updateMask: { paths: ["unknown"] },
+      }),
+    ).rejects.toMatchObject({ code: Code.InvalidArgument });
+  });
+
+  it("validates the whole resource of masked updates", async () => {
+    const { client, application } = await seed();
+
+    await expect(
+      client.application.updateApplication({
+        application: { id: application.id, description: "Payments platform" },
+        updateMask: { paths: ["description"] },
+      }),
+    ).rejects.toMatchObject({ code: Code.InvalidArgument });
+
+    const { application: updated } = await client.application.updateApplication({
+      application: { ...application, description: "Payments platform" },
+      updateMask: { paths: ["description"] },
+    });
+    expect(updated).toMatchObject({ name: "payments", description: "Payments platform" });
+  });
+
+  it("plays back scripted rollouts one poll at a time", async () => {
+    const { fake, client, application, environment } = await seed(undefined, ["api", "worker"]);
+    fake.scriptDeployment([
+      { revisions: { "*": RevisionStatus.APPLYING } },
+      { revisions: { api: RevisionStatus.SUCCEEDED } },
+      { revisions: { worker: RevisionStatus.SUCCEEDED } },
+    ]);
+
+    const { deployment } = await client.deployment.createDeployment({
+      applicationId: application.id,
+      environmentId: environment.id,
+    });
+    expect(deployment!.status).toBe(DeploymentStatus.QUEUED);
+    expect(deployment!.revisionSummary?.total).toBe(2);
+
+    const statuses: DeploymentStatus[] = [];
+    const done = await client.deployment.waitFor(deployment!.id, {
+      ...fast,
+      onEvent: (e) => e.type === "status" && statuses.push(e.deployment.status),
+    });
+
+    expect(done.status).toBe(DeploymentStatus.SUCCEEDED);
+    expect(statuses).toEqual([DeploymentStatus.RUNNING, DeploymentStatus.SUCCEEDED]);
+    expect(fake.store.environments.get(environment.id)!.lastDeployedAt).toBeDefined();
+  });
+
+  it("reports scripted failures to waitFor", async () => {
+    const { fake, client, application, environment } = await seed();
+    fake.scriptDeployment([
+      { revisions: { api: { status: RevisionStatus.FAILED, errorMessage: "image pull failed" } } },
+    ]);
+    const { deployment } = await client.deployment.createDeployment({
+      applicationId: application.id,
+      environmentId: environment.id,
+    });
+
+    const error = await client.deployment.waitFor(deployment!.id, fast).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(DeploymentFailedError);
+    expect((error as DeploymentFailedError).failedRevisions[0]?.errorMessage).toBe("image pull failed");
+  });
+
+  it("authenticates runners by their issued token", async () => {
+    const fake = createFakeAdmiral();
+    const { runner, plainTextToken } = await fake
+      .createClient()
+      .runner.createRunner({ name: "tf", kind: RunnerKind.TERRAFORM });
+    const job = fake.enqueueJob(runner!.id, { bundle: { variables: { region: "eu" } } });
+
+    const anonymous = fake.createClient({ authToken: "adm_agt_wrong" });
+    await expect(anonymous.runner.claimJob({})).rejects.toMatchObject({ code: Code.Unauthenticated });
+
+    const agent = fake.createClient({ authToken: plainTextToken }).runner;
+    expect((await agent.claimJob({})).job?.id).toBe(job.id);
+    expect((await agent.getJobBundle({ jobId: job.id })).bundle?.variables).toEqual({ region: "eu" });
+    await agent.reportJobResult({ jobId: job.id, result: { status: JobStatus.SUCCEEDED } });
+
+    expect(fake.store.jobs.get(job.id)!.status).toBe(JobStatus.SUCCEEDED);
+    expect((await agent.claimJob({})).job).toBeUndefined();
+  });
+
+  it("rejects scripts for unknown deployments", () => {
+    const fake = createFakeAdmiral();
+    expect(() => fake.scriptDeployment([], "00000000-0000-4000-8000-000000000000")).toThrow(ConnectError);
+  });
+});
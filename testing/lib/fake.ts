@@ -0,0 +1,267 @@
+import { randomUUID } from "node:crypto";
+import { createRouterTransport, type ConnectRouter, type Transport } from "@connectrpc/connect";
+import { create, type MessageInitShape } from "@bufbuild/protobuf";
+import { timestampFromDate } from "@bufbuild/protobuf/wkt";
+import { createClientWithTransport, type Client } from "../../client/client.js";
+import type { ClientConfig } from "../../client/lib/config.js";
+import { createInterceptors } from "../../client/lib/transport.js";
+import { createValidationInterceptor } from "../../client/lib/validate.js";
+import { ApplicationAPI } from "../../proto/admiral/api/application/v1/application_pb.js";
+import { ClusterAPI } from "../../proto/admiral/api/cluster/v1/cluster_pb.js";
+import { ComponentAPI } from "../../proto/admiral/api/component/v1/component_pb.js";
+import { ConnectionAPI } from "../../proto/admiral/api/connection/v1/connection_pb.js";
+import { DeploymentAPI, type Deployment } from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+import { EnvironmentAPI } from "../../proto/admiral/api/environment/v1/environment_pb.js";
+import { HealthcheckAPI } from "../../proto/admiral/api/healthcheck/v1/healthcheck_pb.js";
+import {
+  JobBundleSchema,
+  JobSchema,
+  JobStatus,
+  JobType,
+  RunnerAPI,
+  type Job,
+} from "../../proto/admiral/api/runner/v1/runner_pb.js";
+import {
+  SourceAPI,
+  SourceInputSchema,
+  SourceOutputSchema,
+  SourceVersionSchema,
+  type SourceVersion,
+} from "../../proto/admiral/api/source/v1/source_pb.js";
+import { StateAPI } from "../../proto/admiral/api/state/v1/state_pb.js";
+import { UserAPI, UserSchema, type User } from "../../proto/admiral/api/user/v1/user_pb.js";
+import { VariableAPI } from "../../proto/admiral/api/variable/v1/variable_pb.js";
+import { clusterService, runnerService } from "./agents.js";
+import { applyStep, deploymentService, type DeploymentScripts, type DeploymentStep } from "./deployments.js";
+import {
+  applicationService,
+  componentService,
+  connectionService,
+  environmentService,
+  healthcheckService,
+  sourceService,
+  userService,
+  variableService,
+} from "./resources.js";
+import { stateService } from "./states.js";
+import { createContext, createStore, mustGet, type FakeStore } from "./store.js";
+
+/**
+ * Options for the in-memory Admiral server.
+ */
+export interface FakeAdmiralOptions {
+  /**
+   * Clock used for every timestamp the server sets.
+   * @default () => new Date()
+   */
+  now?: () => Date;
+
+  /**
+   * Generates resource IDs. The API's validation rules expect UUIDs.
+   * @default crypto.randomUUID
+   */
+  newId?: () => string;
+
+  /** The user every call acts as. Its ID and tenant are generated when omitted. */
+  user?: MessageInitShape<typeof UserSchema>;
+
+  /**
+   * Reject requests that break the API's buf.validate rules with
+   * InvalidArgument, like the server does, except for CEL expressions, which
+   * are not checked. The resource of an Update request
+   * is checked as a whole whatever its mask, so it must be the full, valid
+   * resource with the changes applied.
+   * @default true
+   */
+  validateRequests?: boolean;
+}
+
+/** A source version to publish, with the module's inputs and outputs. */
+export interface SourceVersionInit {
+  version: string;
+  description?: string;
+  /** @default now */
+  publishedAt?: Date;
+  inputs?: MessageInitShape<typeof SourceInputSchema>[];
+  outputs?: MessageInitShape<typeof SourceOutputSchema>[];
+}
+
+/** A runner job to queue outside of a deployment. */
+export interface JobInit {
+  /** @default JobType.APPLY */
+  jobType?: JobType;
+  deploymentId?: string;
+  revisionId?: string;
+  /** Bundle returned by GetJobBundle */
+  bundle?: MessageInitShape<typeof JobBundleSchema>;
+}
+
+/**
+ * An in-memory Admiral API.
+ */
+export interface FakeAdmiral {
+  /** Everything the server holds; tests may read and seed it directly. */
+  readonly store: FakeStore;
+
+  /** The user every call acts as */
+  readonly user: User;
+
+  /** Transport to the fake server, for Connect's `createClient`. */
+  readonly transport: Transport;
+
+  /** Registers the services on a Connect router, e.g. to serve them over HTTP. */
+  routes(router: ConnectRouter): void;
+
+  /**
+   * Creates an Admiral client connected to the fake. The client applies its
+   * usual interceptors (auth, retries, validation, error mapping) from
+   * `config`; `baseUrl` defaults to `http://admiral.test`.
+   */
+  createClient(config?: ClientConfig): Client;
+
+  /**
+   * Scripts a rollout: every GetDeployment plays back the next step before
+   * responding, so watchers see the transitions one poll at a time. Without
+   * `deploymentId` the script applies to the next deployment created.
+   */
+  scriptDeployment(steps: DeploymentStep[], deploymentId?: string): void;
+
+  /** Applies one step to a deployment right away. */
+  advanceDeployment(deploymentId: string, step: DeploymentStep): Deployment;
+
+  /** Publishes a version of a source, newest first in ListSourceVersions. */
+  addSourceVersion(sourceId: string, init: SourceVersionInit): SourceVersion;
+
+  /** Queues a job for a runner to claim. */
+  enqueueJob(runnerId: string, init?: JobInit): Job;
+}
+
+/**
+ * Creates an in-memory implementation of the twelve Admiral services.
+ *
+ * Resources get UUIDs and server-set fields (tenant, creator, timestamps)
+ * like on the real API. List RPCs page with opaque tokens and evaluate
+ * `filter` on the documented fields of each resource; updates honour the
+ * FieldMask. Deployments create a PENDING revision per enabled component and
+ * stay QUEUED until a script, the store or an agent moves them on. Agent RPCs
+ * authenticate with the tokens issued by CreateCluster, CreateRunner and the
+ * token RPCs.
+ *
+ * @param options - Clock, ID generator, user and request validation
+ * @returns The fake server with its transport and store
+ *
+ * @example
+ * ```typescript
+ * import { DeploymentStatus, RevisionStatus } from "@admiral-io/sdk";
+ * import { createFakeAdmiral } from "@admiral-io/sdk/testing";
+ *
+ * const fake = createFakeAdmiral();
+ * const client = fake.createClient();
+ *
+ * const { application } = await client.application.createApplication({ name: "payments" });
+ * // ... environments and components ...
+ *
+ * fake.scriptDeployment([
+ *   { revisions: { api: RevisionStatus.APPLYING } },
+ *   { revisions: { api: { status: RevisionStatus.FAILED, errorMessage: "image pull failed" } } },
+ * ]);
+ * const { deployment } = await client.deployment.createDeployment({ applicationId, environmentId });
+ * await client.deployment.waitFor(deployment!.id); // throws DeploymentFailedError
+ * ```
+ */
+export function createFakeAdmiral(options: FakeAdmiralOptions = {}): FakeAdmiral {
+  const now = options.now ?? (() => new Date());
+  const newId = options.newId ?? randomUUID;
+  const store = createStore();
+  const user = create(UserSchema, {
+    id: newId(),
+    tenantId: newId(),
+    email: "developer@example.com",
+    createdAt: timestampFromDate(now()),
+    updatedAt: timestampFromDate(now()),
+    ...options.user,
+  });
+  const ctx = createContext(store, user, now, newId);
+  const scripts: DeploymentScripts = { upcoming: [], active: new Map() };
+
+  const routes = (router: ConnectRouter) => {
+    router.service(ApplicationAPI, applicationService(ctx));
+    router.service(ClusterAPI, clusterService(ctx));
+    router.service(ComponentAPI, componentService(ctx));
+    router.service(ConnectionAPI, connectionService(ctx));
+    router.service(DeploymentAPI, deploymentService(ctx, scripts));
+    router.service(EnvironmentAPI, environmentService(ctx));
+    router.service(HealthcheckAPI, healthcheckService());
+    router.service(RunnerAPI, runnerService(ctx));
+    router.service(SourceAPI, sourceService(ctx));
+    router.service(StateAPI, stateService(ctx));
+    router.service(UserAPI, userService(ctx));
+    router.service(VariableAPI, variableService(ctx));
+  };
+  const router = { interceptors: options.validateRequests === false ? [] : [createValidationInterceptor()] };
+
+  return {
+    store,
+    user,
+    transport: createRouterTransport(routes, { router }),
+    routes,
+
+    createClient(config = {}) {
+      const resolved = { baseUrl: "http://admiral.test", ...config };
+      return createClientWithTransport(resolved, (tokens, breaker) =>
+        createRouterTransport(routes, {
+          router,
+          transport: { interceptors: createInterceptors(resolved, tokens, breaker) },
+        }),
+      );
+    },
+
+    scriptDeployment(steps, deploymentId) {
+      if (deploymentId === undefined) {
+        scripts.upcoming.push([...steps]);
+        return;
+      }
+      mustGet(store.deployments, "deployment", deploymentId);
+      scripts.active.set(deploymentId, [...steps]);
+    },
+
+    advanceDeployment(deploymentId, step) {
+      const deployment = mustGet(store.deployments, "deployment", deploymentId);
+      applyStep(ctx, deployment, step);
+      return deployment;
+    },
+
+    addSourceVersion(sourceId, init) {
+      mustGet(store.sources, "source", sourceId);
+      const version = create(SourceVersionSchema, {
+        version: init.version,
+        description: init.description,
+        publishedAt: timestampFromDate(init.publishedAt ?? now()),
+      });
+      const versions = store.sourceVersions.get(sourceId) ?? [];
+      versions.unshift({
+        version,
+        inputs: (init.inputs ?? []).map((input) => create(SourceInputSchema, input)),
+        outputs: (init.outputs ?? []).map((output) => create(SourceOutputSchema, output)),
+      });
+      store.sourceVersions.set(sourceId, versions);
+      return version;
+    },
+
+    enqueueJob(runnerId, init = {}) {
+      mustGet(store.runners, "runner", runnerId);
+      const job = create(JobSchema, {
+        id: newId(),
+        runnerId,
+        revisionId: init.revisionId,
+        deploymentId: init.deploymentId,
+        jobType: init.jobType ?? JobType.APPLY,
+        status: JobStatus.PENDING,
+        createdAt: timestampFromDate(now()),
+      });
+      store.jobs.set(job.id, job);
+      store.jobBundles.set(job.id, create(JobBundleSchema, init.bundle));
+      return job;
+    },
+  };
+}
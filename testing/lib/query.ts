@@ -0,0 +1,302 @@
+import { Code, ConnectError } from "@connectrpc/connect";
+import { create, isFieldSet, type DescField, type DescMessage, type Message } from "@bufbuild/protobuf";
+import type { FieldMask } from "@bufbuild/protobuf/wkt";
+import {
+  FilterSyntaxError,
+  parseFilter,
+  validateFilter,
+  type FilterExpr,
+  type FilterFieldSpec,
+  type FilterValue,
+  type StringPredicate,
+} from "../../client/lib/filter.js";
+
+/** Page size used when a List request doesn't set one. */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/** Largest page size the API accepts. */
+export const MAX_PAGE_SIZE = 100;
+
+/** Fields every resource sets itself, ignored when they appear in an update. */
+export const SERVER_FIELDS = ["id", "tenant_id", "created_by", "updated_by", "created_at", "updated_at"];
+
+/**
+ * Reads a filter field from an item. Returns `undefined` for unset fields,
+ * which `IS NULL` matches.
+ */
+export type FieldReader<T> = (item: T, field: string) => unknown;
+
+/**
+ * Returns one page of items. Page tokens are opaque offsets into the list;
+ * callers must keep the item order stable between pages.
+ */
+export function pageOf<T>(items: T[], pageSize: number, pageToken: string): { items: T[]; nextPageToken: string } {
+  if (pageSize < 0) {
+    throw new ConnectError("page_size must not be negative", Code.InvalidArgument);
+  }
+  const size = Math.min(pageSize || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  let offset = 0;
+  if (pageToken) {
+    const match = /^offset:(\d+)$/.exec(Buffer.from(pageToken, "base64url").toString("utf8"));
+    if (!match) {
+      throw new ConnectError("invalid page_token", Code.InvalidArgument);
+    }
+    offset = Number(match[1]);
+  }
+  const end = offset + size;
+  return {
+    items: items.slice(offset, end),
+    nextPageToken: end < items.length ? Buffer.from(`offset:${end}`).toString("base64url") : "",
+  };
+}
+
+/**
+ * Creates a reader that looks fields up by their proto name. Enums read as
+ * their short value name and `labels.<key>` reads a label.
+ */
+export function fieldReader<T extends Message>(schema: DescMessage): FieldReader<T> {
+  return (item, name) => {
+    const record = item as unknown as Record<string, unknown>;
+    if (name.startsWith("labels.")) {
+      return (record.labels as Record<string, string> | undefined)?.[name.slice("labels.".length)];
+    }
+    const field = schema.fields.find((f) => f.name === name);
+    if (!field) {
+      return undefined;
+    }
+    const value = record[field.localName];
+    if (field.fieldKind === "enum" && typeof value === "number") {
+      return field.enum.values.find((v) => v.number === value)?.localName ?? value;
+    }
+    return value;
+  };
+}
+
+/**
+ * Applies a List filter. Filters are checked against the resource's
+ * documented fields like the server does, so typos fail with InvalidArgument
+ * instead of matching nothing.
+ */
+export function filterItems<T>(items: T[], filter: string, spec: FilterFieldSpec, read: FieldReader<T>): T[] {
+  if (filter.trim() === "") {
+    return items;
+  }
+  let expr: FilterExpr;
+  try {
+    expr = parseFilter(filter);
+  } catch (err) {
+    if (err instanceof FilterSyntaxError) {
+      throw new ConnectError(`invalid filter: ${err.message}`, Code.InvalidArgument);
+    }
+    throw err;
+  }
+  const problems = validateFilter(expr, spec);
+  if (problems.length > 0) {
+    throw new ConnectError(`invalid filter: ${problems.join("; ")}`, Code.InvalidArgument);
+  }
+  return items.filter((item) => evaluate(expr, (field) => read(item, field)));
+}
+
+/**
+ * Filters and pages the items of a List request.
+ */
+export function listPage<T>(
+  items: Iterable<T>,
+  req: { filter?: string; pageSize: number; pageToken: string },
+  spec: FilterFieldSpec,
+  read: FieldReader<T>,
+): { items: T[]; nextPageToken: string } {
+  return pageOf(filterItems([...items], req.filter ?? "", spec, read), req.pageSize, req.pageToken);
+}
+
+/**
+ * Returns the value a filter requires a field to equal, when the filter is
+ * such a comparison or an AND that includes one. Used for filters that change
+ * what a List returns, such as ListComponents with an `environment_id`.
+ */
+export function requiredValue(filter: string, field: string): string | undefined {
+  if (filter.trim() === "") {
+    return undefined;
+  }
+  let expr: FilterExpr;
+  try {
+    expr = parseFilter(filter);
+  } catch {
+    return undefined;
+  }
+  for (const operand of expr.kind === "and" ? expr.operands : [expr]) {
+    if (operand.kind === "compare" && operand.op === "=" && operand.field === field) {
+      return String(operand.value);
+    }
+  }
+  return undefined;
+}
+
+function isNull(value: unknown): boolean {
+  return value === undefined || value === "";
+}
+
+/** Orders a field value against a literal: numerically for numbers, otherwise as strings. */
+function compare(value: unknown, literal: FilterValue): number {
+  if (typeof value === "number" || typeof value === "bigint") {
+    return Number(value) - Number(literal);
+  }
+  const a = String(value);
+  const b = String(literal);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function matchString(text: string, predicate: StringPredicate, value: string): boolean {
+  switch (predicate) {
+    case "CONTAINS":
+      return text.includes(value);
+    case "STARTS_WITH":
+      return text.startsWith(value);
+    case "ENDS_WITH":
+      return text.endsWith(value);
+  }
+}
+
+function evaluate(expr: FilterExpr, read: (field: string) => unknown): boolean {
+  switch (expr.kind) {
+    case "and":
+      return expr.operands.every((operand) => evaluate(operand, read));
+    case "or":
+      return expr.operands.some((operand) => evaluate(operand, read));
+    case "not":
+      return !evaluate(expr.operand, read);
+    case "exists":
+      return read(expr.field) !== undefined;
+    case "null":
+      return isNull(read(expr.field)) !== expr.negated;
+  }
+
+  const value = read(expr.field);
+  if (value === undefined) {
+    return false;
+  }
+  switch (expr.kind) {
+    case "in":
+      return expr.values.some((literal) => compare(value, literal) === 0);
+    case "between":
+      return compare(value, expr.low) >= 0 && compare(value, expr.high) <= 0;
+    case "string":
+      return matchString(String(value), expr.predicate, expr.value);
+  }
+
+  const order = compare(value, expr.value);
+  switch (expr.op) {
+    case "=":
+      return order === 0;
+    case "!=":
+      return order !== 0;
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    case "~=":
+      return new RegExp(String(expr.value)).test(String(value));
+  }
+}
+
+/**
+ * Rules for applying an update to a resource.
+ */
+export interface UpdateRules {
+  /** Proto names of output-only fields; updates to them are ignored. */
+  outputOnly?: string[];
+  /** Proto names of fields that can't change after creation. */
+  immutable?: string[];
+}
+
+/** Copies one field, including the case of a oneof member. */
+function copyField(field: DescField, target: Record<string, unknown>, source: Record<string, unknown>): void {
+  if (field.oneof) {
+    const from = source[field.oneof.localName] as { case?: string; value?: unknown };
+    const to = target[field.oneof.localName] as { case?: string; value?: unknown };
+    if (from.case === field.localName) {
+      target[field.oneof.localName] = { case: from.case, value: structuredClone(from.value) };
+    } else if (to.case === field.localName) {
+      target[field.oneof.localName] = { case: undefined };
+    }
+    return;
+  }
+  const value = source[field.localName];
+  if (value === undefined) {
+    delete target[field.localName];
+  } else {
+    target[field.localName] = structuredClone(value);
+  }
+}
+
+/** Reads a field, including oneof members, for comparison. */
+function fieldValue(field: DescField, message: Record<string, unknown>): unknown {
+  if (field.oneof) {
+    const oneof = message[field.oneof.localName] as { case?: string; value?: unknown };
+    return oneof.case === field.localName ? oneof.value : undefined;
+  }
+  return message[field.localName];
+}
+
+/**
+ * Applies an update following AIP-134: mask paths (proto names, nested
+ * message fields joined by dots) are copied from `patch` to a copy of
+ * `current`. An empty mask updates every field set in `patch`. Output-only
+ * fields are ignored; unknown paths and changes to immutable fields fail with
+ * InvalidArgument.
+ *
+ * @returns The updated copy; `current` is left unchanged
+ */
+export function applyUpdate<T extends Message>(
+  schema: DescMessage,
+  current: T,
+  patch: T,
+  mask: FieldMask | undefined,
+  rules: UpdateRules = {},
+): T {
+  const ignored = new Set([...SERVER_FIELDS, ...(rules.outputOnly ?? [])]);
+  const immutable = new Set(rules.immutable ?? []);
+  const paths =
+    mask && mask.paths.length > 0
+      ? mask.paths
+      : schema.fields.filter((f) => !ignored.has(f.name) && isFieldSet(patch, f)).map((f) => f.name);
+
+  const updated = structuredClone(current);
+  for (const path of paths) {
+    const names = path.split(".");
+    if (ignored.has(names[0]!)) {
+      continue;
+    }
+    let target = updated as unknown as Record<string, unknown>;
+    let source = patch as unknown as Record<string, unknown>;
+    let desc = schema;
+    for (const [i, name] of names.entries()) {
+      const field = desc.fields.find((f) => f.name === name);
+      if (!field) {
+        throw new ConnectError(`invalid update_mask: unknown field "${path}"`, Code.InvalidArgument);
+      }
+      if (i === names.length - 1) {
+        if (
+          immutable.has(path) &&
+          JSON.stringify(fieldValue(field, target)) !== JSON.stringify(fieldValue(field, source))
+        ) {
+          throw new ConnectError(`field "${path}" cannot be changed`, Code.InvalidArgument);
+        }
+        copyField(field, target, source);
+        break;
+      }
+      if (field.fieldKind !== "message" || field.oneof) {
+        throw new ConnectError(`invalid update_mask: "${path}" is not a message field`, Code.InvalidArgument);
+      }
+      target[field.localName] ??= create(field.message);
+      target = target[field.localName] as Record<string, unknown>;
+      source = (source[field.localName] ?? create(field.message)) as Record<string, unknown>;
+      desc = field.message;
+    }
+  }
+  return updated;
+}
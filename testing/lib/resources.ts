@@ -0,0 +1,624 @@
+import { Code, ConnectError, type ServiceImpl } from "@connectrpc/connect";
+import { create } from "@bufbuild/protobuf";
+import { FILTER_FIELDS } from "../../client/lib/filter.js";
+import { AccessTokenSchema, BindingType, TokenType } from "../../proto/admiral/common/v1/token_pb.js";
+import { ApplicationAPI, ApplicationSchema } from "../../proto/admiral/api/application/v1/application_pb.js";
+import {
+  ComponentAPI,
+  ComponentCategory,
+  ComponentOverrideSchema,
+  ComponentSchema,
+  type Component,
+} from "../../proto/admiral/api/component/v1/component_pb.js";
+import {
+  ConnectionAPI,
+  ConnectionSchema,
+  ConnectionStatus,
+} from "../../proto/admiral/api/connection/v1/connection_pb.js";
+import { EnvironmentAPI, EnvironmentSchema } from "../../proto/admiral/api/environment/v1/environment_pb.js";
+import { HealthcheckAPI } from "../../proto/admiral/api/healthcheck/v1/healthcheck_pb.js";
+import { SourceAPI, SourceSchema, SourceType } from "../../proto/admiral/api/source/v1/source_pb.js";
+import { UserAPI } from "../../proto/admiral/api/user/v1/user_pb.js";
+import {
+  VariableAPI,
+  VariableSchema,
+  VariableType,
+  type Variable,
+} from "../../proto/admiral/api/variable/v1/variable_pb.js";
+import { applyUpdate, fieldReader, listPage, requiredValue, type FieldReader } from "./query.js";
+import {
+  created,
+  ensureUnique,
+  issueToken,
+  mustGet,
+  required,
+  revokeToken,
+  tokensFor,
+  type FakeContext,
+  type StoredSourceVersion,
+} from "./store.js";
+
+/** Source types deployed by runners; everything else is applied by cluster agents. */
+const INFRASTRUCTURE_SOURCES = new Set([SourceType.TERRAFORM_REGISTRY, SourceType.TERRAFORM_GIT]);
+
+/** Deletes the map entries matching a predicate. */
+function deleteWhere<T>(map: Map<string, T>, predicate: (item: T) => boolean): void {
+  for (const [key, item] of map) {
+    if (predicate(item)) {
+      map.delete(key);
+    }
+  }
+}
+
+/** Category of components built from a source. */
+export function categoryOf(ctx: FakeContext, sourceId: string): ComponentCategory {
+  const source = mustGet(ctx.store.sources, "source", sourceId);
+  return INFRASTRUCTURE_SOURCES.has(source.type) ? ComponentCategory.INFRASTRUCTURE : ComponentCategory.WORKLOAD;
+}
+
+/** Checks that depends_on references other components of the application. */
+function checkDependencies(ctx: FakeContext, applicationId: string, componentId: string, dependsOn: string[]): void {
+  for (const id of dependsOn) {
+    const dependency = ctx.store.components.get(id);
+    if (!dependency || dependency.applicationId !== applicationId || id === componentId) {
+      throw new ConnectError(
+        `depends_on: ${id} is not another component of application ${applicationId}`,
+        Code.InvalidArgument,
+      );
+    }
+  }
+}
+
+/**
+ * Returns a component as resolved for an environment: the override's fields
+ * replace the component's and `has_override` is set.
+ */
+export function resolveComponent(ctx: FakeContext, component: Component, environmentId: string): Component {
+  const override = ctx.store.overrides.get(`${component.id}/${environmentId}`);
+  if (!override) {
+    return component;
+  }
+  return create(ComponentSchema, {
+    ...component,
+    sourceId: override.sourceId ?? component.sourceId,
+    version: override.version ?? component.version,
+    valuesTemplate: override.valuesTemplate ?? component.valuesTemplate,
+    dependsOn: override.dependsOn.length > 0 ? override.dependsOn : component.dependsOn,
+    outputs: override.outputs.length > 0 ? override.outputs : component.outputs,
+    disabled: override.disabled,
+    hasOverride: true,
+  });
+}
+
+export function applicationService(ctx: FakeContext): ServiceImpl<typeof ApplicationAPI> {
+  const { store } = ctx;
+  return {
+    createApplication(req) {
+      ensureUnique(store.applications.values(), "application", req.name);
+      const application = create(ApplicationSchema, {
+        ...created(ctx),
+        name: req.name,
+        description: req.description ?? "",
+        labels: req.labels,
+      });
+      store.applications.set(application.id, application);
+      return { application };
+    },
+    getApplication(req) {
+      return { application: mustGet(store.applications, "application", req.applicationId) };
+    },
+    listApplications(req) {
+      const page = listPage(
+        store.applications.values(),
+        req,
+        FILTER_FIELDS.application,
+        fieldReader(ApplicationSchema),
+      );
+      return { applications: page.items, nextPageToken: page.nextPageToken };
+    },
+    updateApplication(req) {
+      const patch = required(req.application, "application");
+      const current = mustGet(store.applications, "application", patch.id);
+      const application = applyUpdate(ApplicationSchema, current, patch, req.updateMask);
+      ensureUnique(store.applications.values(), "application", application.name, application.id);
+      Object.assign(application, { updatedBy: ctx.user.id, updatedAt: ctx.timestamp() });
+      store.applications.set(application.id, application);
+      return { application };
+    },
+    deleteApplication(req) {
+      mustGet(store.applications, "application", req.applicationId);
+      // Environments, components and variables of the application go with it
+      const components = new Set(
+        [...store.components.values()].filter((c) => c.applicationId === req.applicationId).map((c) => c.id),
+      );
+      deleteWhere(store.overrides, (o) => components.has(o.componentId));
+      deleteWhere(store.components, (c) => components.has(c.id));
+      deleteWhere(store.environments, (e) => e.applicationId === req.applicationId);
+      deleteWhere(store.variables, (v) => v.applicationId === req.applicationId);
+      store.applications.delete(req.applicationId);
+      return {};
+    },
+  };
+}
+
+export function environmentService(ctx: FakeContext): ServiceImpl<typeof EnvironmentAPI> {
+  const { store } = ctx;
+  const checkReferences = (env: {
+    runtimeConfig: { value?: { clusterId: string } };
+    infrastructure?: { runnerId: string };
+  }) => {
+    const clusterId = env.runtimeConfig.value?.clusterId;
+    if (clusterId) {
+      mustGet(store.clusters, "cluster", clusterId);
+    }
+    if (env.infrastructure?.runnerId) {
+      mustGet(store.runners, "runner", env.infrastructure.runnerId);
+    }
+  };
+  return {
+    createEnvironment(req) {
+      mustGet(store.applications, "application", req.applicationId);
+      const siblings = [...store.environments.values()].filter((e) => e.applicationId === req.applicationId);
+      ensureUnique(siblings, "environment", req.name);
+      checkReferences(req);
+      const environment = create(EnvironmentSchema, {
+        ...created(ctx),
+        applicationId: req.applicationId,
+        name: req.name,
+        description: req.description,
+        runtimeType: req.runtimeType,
+        runtimeConfig: req.runtimeConfig,
+        labels: req.labels,
+        infrastructure: req.infrastructure,
+      });
+      store.environments.set(environment.id, environment);
+      return { environment };
+    },
+    getEnvironment(req) {
+      return { environment: mustGet(store.environments, "environment", req.environmentId) };
+    },
+    listEnvironments(req) {
+      const page = listPage(
+        store.environments.values(),
+        req,
+        FILTER_FIELDS.environment,
+        fieldReader(EnvironmentSchema),
+      );
+      return { environments: page.items, nextPageToken: page.nextPageToken };
+    },
+    updateEnvironment(req) {
+      const patch = required(req.environment, "environment");
+      const current = mustGet(store.environments, "environment", patch.id);
+      const environment = applyUpdate(EnvironmentSchema, current, patch, req.updateMask, {
+        outputOnly: ["has_pending_changes", "last_deployed_at"],
+        immutable: ["application_id"],
+      });
+      const siblings = [...store.environments.values()].filter((e) => e.applicationId === environment.applicationId);
+      ensureUnique(siblings, "environment", environment.name, environment.id);
+      checkReferences(environment);
+      Object.assign(environment, { updatedBy: ctx.user.id, updatedAt: ctx.timestamp() });
+      store.environments.set(environment.id, environment);
+      return { environment };
+    },
+    deleteEnvironment(req) {
+      mustGet(store.environments, "environment", req.environmentId);
+      deleteWhere(store.overrides, (o) => o.environmentId === req.environmentId);
+      deleteWhere(store.variables, (v) => v.environmentId === req.environmentId);
+      store.environments.delete(req.environmentId);
+      return {};
+    },
+  };
+}
+
+export function componentService(ctx: FakeContext): ServiceImpl<typeof ComponentAPI> {
+  const { store } = ctx;
+  const read = fieldReader<Component>(ComponentSchema);
+  return {
+    createComponent(req) {
+      mustGet(store.applications, "application", req.applicationId);
+      const siblings = [...store.components.values()].filter((c) => c.applicationId === req.applicationId);
+      ensureUnique(siblings, "component", req.name);
+      checkDependencies(ctx, req.applicationId, "", req.dependsOn);
+      const component = create(ComponentSchema, {
+        ...created(ctx),
+        applicationId: req.applicationId,
+        name: req.name,
+        description: req.description,
+        category: categoryOf(ctx, req.sourceId),
+        sourceId: req.sourceId,
+        version: req.version,
+        valuesTemplate: req.valuesTemplate,
+        dependsOn: req.dependsOn,
+        outputs: req.outputs,
+      });
+      store.components.set(component.id, component);
+      return { component };
+    },
+    getComponent(req) {
+      return { component: mustGet(store.components, "component", req.componentId) };
+    },
+    listComponents(req) {
+      // With an environment_id the components of its application are returned as resolved for it
+      const environmentId = requiredValue(req.filter, "environment_id");
+      const environment = environmentId ? store.environments.get(environmentId) : undefined;
+      const components = environment
+        ? [...store.components.values()].map((c) =>
+            c.applicationId === environment.applicationId ? resolveComponent(ctx, c, environment.id) : c,
+          )
+        : store.components.values();
+      const reader: FieldReader<Component> = (component, field) =>
+        field === "environment_id"
+          ? component.applicationId === environment?.applicationId
+            ? environment.id
+            : undefined
+          : read(component, field);
+      const page = listPage(components, req, FILTER_FIELDS.component, reader);
+      return { components: page.items, nextPageToken: page.nextPageToken };
+    },
+    updateComponent(req) {
+      const patch = required(req.component, "component");
+      const current = mustGet(store.components, "component", patch.id);
+      const component = applyUpdate(ComponentSchema, current, patch, req.updateMask, {
+        outputOnly: ["category", "has_override"],
+        immutable: ["application_id"],
+      });
+      const siblings = [...store.components.values()].filter((c) => c.applicationId === component.applicationId);
+      ensureUnique(siblings, "component", component.name, component.id);
+      checkDependencies(ctx, component.applicationId, component.id, component.dependsOn);
+      Object.assign(component, {
+        category: categoryOf(ctx, component.sourceId),
+        updatedBy: ctx.user.id,
+        updatedAt: ctx.timestamp(),
+      });
+      store.components.set(component.id, component);
+      return { component };
+    },
+    deleteComponent(req) {
+      mustGet(store.components, "component", req.componentId);
+      const dependent = [...store.components.values()].find((c) => c.dependsOn.includes(req.componentId));
+      if (dependent) {
+        throw new ConnectError(
+          `component ${req.componentId} is a dependency of ${dependent.name}`,
+          Code.FailedPrecondition,
+        );
+      }
+      deleteWhere(store.overrides, (o) => o.componentId === req.componentId);
+      store.components.delete(req.componentId);
+      return {};
+    },
+    setComponentOverride(req) {
+      const component = mustGet(store.components, "component", req.componentId);
+      const environment = mustGet(store.environments, "environment", req.environmentId);
+      if (environment.applicationId !== component.applicationId) {
+        throw new ConnectError(
+          `environment ${environment.id} does not belong to application ${component.applicationId}`,
+          Code.InvalidArgument,
+        );
+      }
+      if (req.sourceId !== undefined) {
+        mustGet(store.sources, "source", req.sourceId);
+      }
+      checkDependencies(ctx, component.applicationId, component.id, req.dependsOn);
+      const key = `${component.id}/${environment.id}`;
+      const now = ctx.timestamp();
+      const existing = store.overrides.get(key);
+      const override = create(ComponentOverrideSchema, {
+        componentId: component.id,
+        environmentId: environment.id,
+        disabled: req.disabled,
+        sourceId: req.sourceId,
+        version: req.version,
+        valuesTemplate: req.valuesTemplate,
+        dependsOn: req.dependsOn,
+        outputs: req.outputs,
+        createdBy: existing?.createdBy ?? ctx.user.id,
+        updatedBy: ctx.user.id,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+      store.overrides.set(key, override);
+      return { override };
+    },
+    getComponentOverride(req) {
+      const key = `${req.componentId}/${req.environmentId}`;
+      return { override: mustGet(store.overrides, "override for component", key) };
+    },
+    listComponentOverrides(req) {
+      mustGet(store.components, "component", req.componentId);
+      const overrides = [...store.overrides.values()].filter((o) => o.componentId === req.componentId);
+      const page = listPage(overrides, req, {}, () => undefined);
+      return { overrides: page.items, nextPageToken: page.nextPageToken };
+    },
+    deleteComponentOverride(req) {
+      const key = `${req.componentId}/${req.environmentId}`;
+      mustGet(store.overrides, "override for component", key);
+      store.overrides.delete(key);
+      return {};
+    },
+  };
+}
+
+export function connectionService(ctx: FakeContext): ServiceImpl<typeof ConnectionAPI> {
+  const { store } = ctx;
+  return {
+    createConnection(req) {
+      ensureUnique(store.connections.values(), "connection", req.name);
+      const connection = create(ConnectionSchema, {
+        ...created(ctx),
+        name: req.name,
+        description: req.description,
+        type: req.type,
+        authConfig: req.authConfig,
+        status: ConnectionStatus.UNTESTED,
+        labels: req.labels,
+      });
+      store.connections.set(connection.id, connection);
+      return { connection };
+    },
+    getConnection(req) {
+      return { connection: mustGet(store.connections, "connection", req.connectionId) };
+    },
+    listConnections(req) {
+      const page = listPage(store.connections.values(), req, FILTER_FIELDS.connection, fieldReader(ConnectionSchema));
+      return { connections: page.items, nextPageToken: page.nextPageToken };
+    },
+    updateConnection(req) {
+      const patch = required(req.connection, "connection");
+      const current = mustGet(store.connections, "connection", patch.id);
+      const connection = applyUpdate(ConnectionSchema, current, patch, req.updateMask, {
+        outputOnly: ["status", "status_message", "last_tested_at"],
+        immutable: ["type"],
+      });
+      ensureUnique(store.connections.values(), "connection", connection.name, connection.id);
+      Object.assign(connection, { updatedBy: ctx.user.id, updatedAt: ctx.timestamp() });
+      store.connections.set(connection.id, connection);
+      return { connection };
+    },
+    deleteConnection(req) {
+      mustGet(store.connections, "connection", req.connectionId);
+      const source = [...store.sources.values()].find((s) => s.connectionId === req.connectionId);
+      if (source) {
+        throw new ConnectError(
+          `connection ${req.connectionId} is used by source ${source.name}`,
+          Code.FailedPrecondition,
+        );
+      }
+      store.connections.delete(req.connectionId);
+      return {};
+    },
+    testConnection(req) {
+      const connection = mustGet(store.connections, "connection", req.connectionId);
+      // Tests succeed unless the connection was put into ERROR through the store
+      const success = connection.status !== ConnectionStatus.ERROR;
+      Object.assign(connection, {
+        status: success ? ConnectionStatus.ACTIVE : ConnectionStatus.ERROR,
+        lastTestedAt: ctx.timestamp(),
+      });
+      return { connection, success, message: success ? "connection succeeded" : connection.statusMessage };
+    },
+  };
+}
+
+export function sourceService(ctx: FakeContext): ServiceImpl<typeof SourceAPI> {
+  const { store } = ctx;
+  const findVersion = (sourceId: string, version: string): StoredSourceVersion => {
+    mustGet(store.sources, "source", sourceId);
+    const found = store.sourceVersions.get(sourceId)?.find((v) => v.version.version === version);
+    if (!found) {
+      throw new ConnectError(`version ${version} of source ${sourceId} not found`, Code.NotFound);
+    }
+    return found;
+  };
+  return {
+    createSource(req) {
+      ensureUnique(store.sources.values(), "source", req.name);
+      if (req.connectionId !== undefined) {
+        mustGet(store.connections, "connection", req.connectionId);
+      }
+      const source = create(SourceSchema, {
+        ...created(ctx),
+        name: req.name,
+        description: req.description,
+        type: req.type,
+        url: req.url,
+        connectionId: req.connectionId,
+        catalog: req.catalog,
+        sourceConfig: req.sourceConfig,
+        labels: req.labels,
+      });
+      store.sources.set(source.id, source);
+      return { source };
+    },
+    getSource(req) {
+      return { source: mustGet(store.sources, "source", req.sourceId) };
+    },
+    listSources(req) {
+      const page = listPage(store.sources.values(), req, FILTER_FIELDS.source, fieldReader(SourceSchema));
+      return { sources: page.items, nextPageToken: page.nextPageToken };
+    },
+    updateSource(req) {
+      const patch = required(req.source, "source");
+      const current = mustGet(store.sources, "source", patch.id);
+      const source = applyUpdate(SourceSchema, current, patch, req.updateMask, {
+        outputOnly: ["last_synced_at"],
+        immutable: ["type"],
+      });
+      ensureUnique(store.sources.values(), "source", source.name, source.id);
+      if (source.connectionId !== undefined) {
+        mustGet(store.connections, "connection", source.connectionId);
+      }
+      Object.assign(source, { updatedBy: ctx.user.id, updatedAt: ctx.timestamp() });
+      store.sources.set(source.id, source);
+      return { source };
+    },
+    deleteSource(req) {
+      mustGet(store.sources, "source", req.sourceId);
+      const component = [...store.components.values()].find((c) => c.sourceId === req.sourceId);
+      if (component) {
+        throw new ConnectError(
+          `source ${req.sourceId} is used by component ${component.name}`,
+          Code.FailedPrecondition,
+        );
+      }
+      store.sourceVersions.delete(req.sourceId);
+      store.sources.delete(req.sourceId);
+      return {};
+    },
+    listSourceVersions(req) {
+      mustGet(store.sources, "source", req.sourceId);
+      const versions = (store.sourceVersions.get(req.sourceId) ?? []).map((v) => v.version);
+      const page = listPage(versions, req, {}, () => undefined);
+      return { versions: page.items, nextPageToken: page.nextPageToken };
+    },
+    getSourceInputs(req) {
+      const found = findVersion(req.sourceId, req.version);
+      return { inputs: found.inputs, resolvedVersion: found.version.version };
+    },
+    getSourceOutputs(req) {
+      const found = findVersion(req.sourceId, req.version);
+      return { outputs: found.outputs, resolvedVersion: found.version.version };
+    },
+    syncSource(req) {
+      const source = mustGet(store.sources, "source", req.sourceId);
+      source.lastSyncedAt = ctx.timestamp();
+      return { source };
+    },
+  };
+}
+
+export function variableService(ctx: FakeContext): ServiceImpl<typeof VariableAPI> {
+  const { store } = ctx;
+  const checkScope = (
+    key: string,
+    applicationId: string | undefined,
+    environmentId: string | undefined,
+    id?: string,
+  ) => {
+    if (applicationId !== undefined) {
+      mustGet(store.applications, "application", applicationId);
+    }
+    if (environmentId !== undefined) {
+      const environment = mustGet(store.environments, "environment", environmentId);
+      if (applicationId !== undefined && environment.applicationId !== applicationId) {
+        throw new ConnectError(
+          `environment ${environmentId} does not belong to application ${applicationId}`,
+          Code.InvalidArgument,
+        );
+      }
+    }
+    for (const variable of store.variables.values()) {
+      if (
+        variable.key === key &&
+        variable.id !== id &&
+        variable.applicationId === applicationId &&
+        variable.environmentId === environmentId
+      ) {
+        throw new ConnectError(`variable "${key}" already exists in this scope`, Code.AlreadyExists);
+      }
+    }
+  };
+  return {
+    createVariable(req) {
+      checkScope(req.key, req.applicationId, req.environmentId);
+      const variable = create(VariableSchema, {
+        ...created(ctx),
+        key: req.key,
+        value: req.value,
+        sensitive: req.sensitive,
+        type: req.type === VariableType.UNSPECIFIED ? VariableType.STRING : req.type,
+        description: req.description,
+        applicationId: req.applicationId,
+        environmentId: req.environmentId,
+      });
+      store.variables.set(variable.id, variable);
+      return { variable };
+    },
+    getVariable(req) {
+      return { variable: mustGet(store.variables, "variable", req.variableId) };
+    },
+    listVariables(req) {
+      // Like the API: global variables only, plus application variables when filtered by
+      // application_id, plus environment variables when filtered by environment_id too
+      const applicationId = requiredValue(req.filter, "application_id");
+      const environmentId = requiredValue(req.filter, "environment_id");
+      const levels = [...store.variables.values()].filter((variable) =>
+        variable.applicationId === undefined
+          ? true
+          : variable.environmentId === undefined
+            ? applicationId !== undefined || environmentId !== undefined
+            : environmentId !== undefined,
+      );
+      const base = fieldReader<Variable>(VariableSchema);
+      const reader: FieldReader<Variable> = (variable, field) => {
+        if (field === "application_id" && variable.applicationId === undefined) {
+          return applicationId;
+        }
+        if (field === "environment_id" && variable.environmentId === undefined && environmentId !== undefined) {
+          const environment = store.environments.get(environmentId);
+          const inScope = variable.applicationId === undefined || variable.applicationId === environment?.applicationId;
+          return inScope ? environmentId : undefined;
+        }
+        return base(variable, field);
+      };
+      const page = listPage(levels, req, FILTER_FIELDS.variable, reader);
+      return { variables: page.items, nextPageToken: page.nextPageToken };
+    },
+    updateVariable(req) {
+      const patch = required(req.variable, "variable");
+      const current = mustGet(store.variables, "variable", patch.id);
+      const variable = applyUpdate(VariableSchema, current, patch, req.updateMask, {
+        immutable: ["application_id", "environment_id"],
+      });
+      checkScope(variable.key, variable.applicationId, variable.environmentId, variable.id);
+      Object.assign(variable, { updatedBy: ctx.user.id, updatedAt: ctx.timestamp() });
+      store.variables.set(variable.id, variable);
+      return { variable };
+    },
+    deleteVariable(req) {
+      mustGet(store.variables, "variable", req.variableId);
+      store.variables.delete(req.variableId);
+      return {};
+    },
+  };
+}
+
+export function userService(ctx: FakeContext): ServiceImpl<typeof UserAPI> {
+  const tokens = () => tokensFor(ctx, BindingType.USER, ctx.user.id);
+  return {
+    getUser() {
+      return { user: ctx.user };
+    },
+    createPersonalAccessToken(req) {
+      return issueToken(ctx, {
+        name: req.name,
+        tokenType: TokenType.PAT,
+        bindingType: BindingType.USER,
+        bindingId: ctx.user.id,
+        scopes: req.scopes,
+        expiresAt: req.expiresAt,
+      });
+    },
+    listPersonalAccessTokens(req) {
+      const page = listPage(tokens(), req, FILTER_FIELDS.personalAccessToken, fieldReader(AccessTokenSchema));
+      return { accessTokens: page.items, nextPageToken: page.nextPageToken };
+    },
+    getPersonalAccessToken(req) {
+      const accessToken = tokens().find((t) => t.id === req.tokenId);
+      if (!accessToken) {
+        throw new ConnectError(`token ${req.tokenId} not found`, Code.NotFound);
+      }
+      return { accessToken };
+    },
+    revokePersonalAccessToken(req) {
+      return { accessToken: revokeToken(ctx, BindingType.USER, ctx.user.id, req.tokenId) };
+    },
+  };
+}
+
+export function healthcheckService(): ServiceImpl<typeof HealthcheckAPI> {
+  return {
+    healthcheck() {
+      return {};
+    },
+  };
+}
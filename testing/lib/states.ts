@@ -0,0 +1,166 @@
+import { createHash } from "node:crypto";
+import { Code, ConnectError, type HandlerContext, type ServiceImpl } from "@connectrpc/connect";
+import { create } from "@bufbuild/protobuf";
+import { FILTER_FIELDS } from "../../client/lib/filter.js";
+import {
+  StateAPI,
+  StateLockSchema,
+  StateSchema,
+  StateSummarySchema,
+  StateVersionSchema,
+  type StateSummary,
+} from "../../proto/admiral/api/state/v1/state_pb.js";
+import { runnerJob } from "./agents.js";
+import { fieldReader, listPage, type FieldReader } from "./query.js";
+import { mustGet, type FakeContext, type StoredState } from "./store.js";
+
+function summarize(stored: StoredState): StateSummary {
+  const { state } = stored;
+  return create(StateSummarySchema, {
+    id: state.id,
+    componentId: state.componentId,
+    environmentId: state.environmentId,
+    serial: state.serial,
+    md5: state.md5,
+    lineage: state.lineage,
+    sizeBytes: BigInt(state.data.length),
+    lock: state.lock,
+    createdAt: state.createdAt,
+    updatedAt: state.updatedAt,
+  });
+}
+
+export function stateService(ctx: FakeContext): ServiceImpl<typeof StateAPI> {
+  const { store } = ctx;
+
+  // A job works on the state of its revision's component in the deployment's environment
+  const stateOf = (jobId: string, handler: HandlerContext, createMissing: boolean): StoredState | undefined => {
+    const job = runnerJob(ctx, jobId, handler);
+    const revision = store.revisions.get(job.revisionId);
+    const deployment = store.deployments.get(job.deploymentId);
+    const componentId = revision?.componentId ?? "";
+    const environmentId = deployment?.environmentId ?? "";
+    const existing = [...store.states.values()].find(
+      (s) => s.state.componentId === componentId && s.state.environmentId === environmentId,
+    );
+    if (existing || !createMissing) {
+      return existing;
+    }
+    const now = ctx.timestamp();
+    const stored: StoredState = {
+      state: create(StateSchema, { id: ctx.newId(), componentId, environmentId, createdAt: now, updatedAt: now }),
+      versions: [],
+    };
+    store.states.set(stored.state.id, stored);
+    return stored;
+  };
+  const summaryReader = fieldReader<StateSummary>(StateSummarySchema);
+  const read: FieldReader<StateSummary> = (summary, field) =>
+    field === "application_id"
+      ? store.components.get(summary.componentId)?.applicationId
+      : summaryReader(summary, field);
+
+  return {
+    getState(req, handler) {
+      return { data: stateOf(req.jobId, handler, false)?.state.data ?? new Uint8Array() };
+    },
+    pushState(req, handler) {
+      const stored = stateOf(req.jobId, handler, true)!;
+      const { state } = stored;
+      const md5 = createHash("md5").update(req.data).digest("hex");
+      if (req.md5 && req.md5 !== md5) {
+        throw new ConnectError(`md5 ${req.md5} does not match the state data (${md5})`, Code.InvalidArgument);
+      }
+      if (state.lineage && req.lineage !== state.lineage) {
+        throw new ConnectError(
+          `lineage ${req.lineage} does not match the state's ${state.lineage}`,
+          Code.FailedPrecondition,
+        );
+      }
+      if (stored.versions.length > 0 && req.serial <= state.serial) {
+        throw new ConnectError(`serial ${req.serial} is not newer than ${state.serial}`, Code.FailedPrecondition);
+      }
+      const now = ctx.timestamp();
+      Object.assign(state, { data: req.data, md5, serial: req.serial, lineage: req.lineage, updatedAt: now });
+      stored.versions.push({
+        version: create(StateVersionSchema, {
+          serial: req.serial,
+          md5,
+          lineage: req.lineage,
+          sizeBytes: BigInt(req.data.length),
+          jobId: req.jobId,
+          createdAt: now,
+        }),
+        data: req.data,
+      });
+      return {};
+    },
+    lockState(req, handler) {
+      const { state } = stateOf(req.jobId, handler, true)!;
+      if (state.lock && state.lock.lockId !== req.lockId) {
+        throw new ConnectError(
+          `state is locked by ${state.lock.who || "another operation"} (${state.lock.operation})`,
+          Code.FailedPrecondition,
+        );
+      }
+      state.lock = create(StateLockSchema, {
+        lockId: req.lockId,
+        operation: req.operation,
+        who: req.who,
+        version: req.version,
+        acquiredAt: state.lock?.acquiredAt ?? ctx.timestamp(),
+      });
+      return {};
+    },
+    unlockState(req, handler) {
+      const stored = stateOf(req.jobId, handler, false);
+      const lock = stored?.state.lock;
+      if (lock && lock.lockId !== req.lockId) {
+        throw new ConnectError(`state is locked with a different lock id`, Code.FailedPrecondition);
+      }
+      if (stored) {
+        stored.state.lock = undefined;
+      }
+      return {};
+    },
+    getCurrentState(req) {
+      return { state: mustGet(store.states, "state", req.stateId).state };
+    },
+    listStates(req) {
+      const summaries = [...store.states.values()].map(summarize);
+      const page = listPage(summaries, req, FILTER_FIELDS.state, read);
+      return { states: page.items, nextPageToken: page.nextPageToken };
+    },
+    listStateVersions(req) {
+      const stored = mustGet(store.states, "state", req.stateId);
+      // Newest first
+      const versions = stored.versions.map((v) => v.version).reverse();
+      const page = listPage(versions, req, {}, () => undefined);
+      return { versions: page.items, nextPageToken: page.nextPageToken };
+    },
+    getStateVersion(req) {
+      const stored = mustGet(store.states, "state", req.stateId);
+      const found = stored.versions.find((v) => v.version.serial === req.serial);
+      if (!found) {
+        throw new ConnectError(`version ${req.serial} of state ${req.stateId} not found`, Code.NotFound);
+      }
+      return { version: found.version, data: found.data };
+    },
+    forceUnlockState(req) {
+      const { state } = mustGet(store.states, "state", req.stateId);
+      if (!state.lock) {
+        throw new ConnectError(`state ${req.stateId} is not locked`, Code.FailedPrecondition);
+      }
+      state.lock = undefined;
+      return {};
+    },
+    deleteState(req) {
+      const { state } = mustGet(store.states, "state", req.stateId);
+      if (state.lock) {
+        throw new ConnectError(`state ${req.stateId} is locked`, Code.FailedPrecondition);
+      }
+      store.states.delete(req.stateId);
+      return {};
+    },
+  };
+}
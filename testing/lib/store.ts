@@ -0,0 +1,253 @@
+import { randomBytes } from "node:crypto";
+import { Code, ConnectError, type HandlerContext } from "@connectrpc/connect";
+import { create } from "@bufbuild/protobuf";
+import { timestampFromDate, type Timestamp } from "@bufbuild/protobuf/wkt";
+import {
+  AccessTokenSchema,
+  AccessTokenStatus,
+  BindingType,
+  TokenType,
+  type AccessToken,
+} from "../../proto/admiral/common/v1/token_pb.js";
+import type { Application } from "../../proto/admiral/api/application/v1/application_pb.js";
+import type { Cluster, ClusterStatus, Workload } from "../../proto/admiral/api/cluster/v1/cluster_pb.js";
+import type { Component, ComponentOverride } from "../../proto/admiral/api/component/v1/component_pb.js";
+import type { Connection } from "../../proto/admiral/api/connection/v1/connection_pb.js";
+import type { Deployment, Revision } from "../../proto/admiral/api/deployment/v1/deployment_pb.js";
+import type { Environment } from "../../proto/admiral/api/environment/v1/environment_pb.js";
+import type { Job, JobBundle, Runner, RunnerStatus } from "../../proto/admiral/api/runner/v1/runner_pb.js";
+import type { Source, SourceInput, SourceOutput, SourceVersion } from "../../proto/admiral/api/source/v1/source_pb.js";
+import type { State, StateVersion } from "../../proto/admiral/api/state/v1/state_pb.js";
+import type { User } from "../../proto/admiral/api/user/v1/user_pb.js";
+import type { Variable } from "../../proto/admiral/api/variable/v1/variable_pb.js";
+
+/** An issued token and its secret. */
+export interface StoredToken {
+  accessToken: AccessToken;
+  plainTextToken: string;
+}
+
+/** Last status reported by an agent. */
+export interface ReportedStatus<S> {
+  status: S;
+  reportedAt: Timestamp;
+}
+
+/** A published source version with its module inputs and outputs. */
+export interface StoredSourceVersion {
+  version: SourceVersion;
+  inputs: SourceInput[];
+  outputs: SourceOutput[];
+}
+
+/** A Terraform state with every pushed version. */
+export interface StoredState {
+  state: State;
+  versions: { version: StateVersion; data: Uint8Array }[];
+}
+
+/**
+ * Everything the fake server holds, keyed by resource ID unless noted.
+ * Maps keep insertion order, which is the order List RPCs return.
+ */
+export interface FakeStore {
+  applications: Map<string, Application>;
+  environments: Map<string, Environment>;
+  components: Map<string, Component>;
+  /** Keyed by `<componentId>/<environmentId>` */
+  overrides: Map<string, ComponentOverride>;
+  connections: Map<string, Connection>;
+  sources: Map<string, Source>;
+  /** Keyed by source ID */
+  sourceVersions: Map<string, StoredSourceVersion[]>;
+  variables: Map<string, Variable>;
+  deployments: Map<string, Deployment>;
+  revisions: Map<string, Revision>;
+  clusters: Map<string, Cluster>;
+  /** Keyed by cluster ID */
+  clusterStatus: Map<string, ReportedStatus<ClusterStatus>>;
+  workloads: Map<string, Workload>;
+  runners: Map<string, Runner>;
+  /** Keyed by runner ID */
+  runnerStatus: Map<string, ReportedStatus<RunnerStatus>>;
+  jobs: Map<string, Job>;
+  /** Keyed by job ID */
+  jobBundles: Map<string, JobBundle>;
+  /** Personal access tokens and agent tokens */
+  tokens: Map<string, StoredToken>;
+  states: Map<string, StoredState>;
+}
+
+/** Creates an empty store. */
+export function createStore(): FakeStore {
+  return {
+    applications: new Map(),
+    environments: new Map(),
+    components: new Map(),
+    overrides: new Map(),
+    connections: new Map(),
+    sources: new Map(),
+    sourceVersions: new Map(),
+    variables: new Map(),
+    deployments: new Map(),
+    revisions: new Map(),
+    clusters: new Map(),
+    clusterStatus: new Map(),
+    workloads: new Map(),
+    runners: new Map(),
+    runnerStatus: new Map(),
+    jobs: new Map(),
+    jobBundles: new Map(),
+    tokens: new Map(),
+    states: new Map(),
+  };
+}
+
+/**
+ * Shared state and helpers of the service implementations.
+ */
+export interface FakeContext {
+  readonly store: FakeStore;
+  /** The user every API call acts as */
+  readonly user: User;
+  now(): Date;
+  newId(): string;
+  timestamp(): Timestamp;
+}
+
+export function createContext(store: FakeStore, user: User, now: () => Date, newId: () => string): FakeContext {
+  return { store, user, now, newId, timestamp: () => timestampFromDate(now()) };
+}
+
+/**
+ * Returns a resource or fails with NotFound, phrased like the API.
+ */
+export function mustGet<T>(map: Map<string, T>, kind: string, id: string): T {
+  const item = map.get(id);
+  if (!item) {
+    throw new ConnectError(`${kind} ${id} not found`, Code.NotFound);
+  }
+  return item;
+}
+
+/** Returns a required message field of a request, failing with InvalidArgument when it is missing. */
+export function required<T>(value: T | undefined, name: string): T {
+  if (value === undefined) {
+    throw new ConnectError(`${name} is required`, Code.InvalidArgument);
+  }
+  return value;
+}
+
+/**
+ * Fails with AlreadyExists when another item in scope already has the name.
+ */
+export function ensureUnique<T extends { id: string; name: string }>(
+  items: Iterable<T>,
+  kind: string,
+  name: string,
+  except?: string,
+): void {
+  for (const item of items) {
+    if (item.name === name && item.id !== except) {
+      throw new ConnectError(`${kind} "${name}" already exists`, Code.AlreadyExists);
+    }
+  }
+}
+
+/** Fields the server sets on every created resource. */
+export function created(ctx: FakeContext): {
+  id: string;
+  tenantId: string;
+  createdBy: string;
+  updatedBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+} {
+  const now = ctx.timestamp();
+  return {
+    id: ctx.newId(),
+    tenantId: ctx.user.tenantId,
+    createdBy: ctx.user.id,
+    updatedBy: ctx.user.id,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Issues a token. Plain-text tokens follow the API's `adm_<type>_<secret>` form.
+ */
+export function issueToken(
+  ctx: FakeContext,
+  init: {
+    name: string;
+    tokenType: TokenType;
+    bindingType: BindingType;
+    bindingId: string;
+    scopes?: string[];
+    expiresAt?: Timestamp;
+  },
+): StoredToken {
+  const accessToken = create(AccessTokenSchema, {
+    id: ctx.newId(),
+    tenantId: ctx.user.tenantId,
+    name: init.name,
+    tokenType: init.tokenType,
+    scopes: init.scopes ?? [],
+    status: AccessTokenStatus.ACTIVE,
+    bindingType: init.bindingType,
+    bindingId: init.bindingId,
+    createdBy: ctx.user.id,
+    expiresAt: init.expiresAt,
+    createdAt: ctx.timestamp(),
+  });
+  const prefix = init.tokenType === TokenType.PAT ? "pat" : "agt";
+  const stored = { accessToken, plainTextToken: `adm_${prefix}_${randomBytes(24).toString("base64url")}` };
+  ctx.store.tokens.set(accessToken.id, stored);
+  return stored;
+}
+
+/** Returns the tokens bound to a resource. */
+export function tokensFor(ctx: FakeContext, bindingType: BindingType, bindingId: string): AccessToken[] {
+  return [...ctx.store.tokens.values()]
+    .map((t) => t.accessToken)
+    .filter((t) => t.bindingType === bindingType && t.bindingId === bindingId);
+}
+
+/** Revokes a token bound to a resource, failing with NotFound when it belongs elsewhere. */
+export function revokeToken(
+  ctx: FakeContext,
+  bindingType: BindingType,
+  bindingId: string,
+  tokenId: string,
+): AccessToken {
+  const token = ctx.store.tokens.get(tokenId)?.accessToken;
+  if (!token || token.bindingType !== bindingType || token.bindingId !== bindingId) {
+    throw new ConnectError(`token ${tokenId} not found`, Code.NotFound);
+  }
+  if (token.status !== AccessTokenStatus.REVOKED) {
+    token.status = AccessTokenStatus.REVOKED;
+    token.revokedAt = ctx.timestamp();
+  }
+  return token;
+}
+
+/**
+ * Identifies the agent calling an agent-facing RPC by its bearer token.
+ *
+ * @returns ID of the cluster or runner the token is bound to
+ * @throws ConnectError Unauthenticated for missing, unknown, revoked or expired tokens
+ */
+export function authenticateAgent(ctx: FakeContext, handler: HandlerContext, bindingType: BindingType): string {
+  const header = handler.requestHeader.get("authorization") ?? "";
+  const secret = header.replace(/^(Bearer|Token) /, "");
+  const token = [...ctx.store.tokens.values()].find((t) => secret !== "" && t.plainTextToken === secret)?.accessToken;
+  if (!token || token.bindingType !== bindingType || token.status === AccessTokenStatus.REVOKED) {
+    throw new ConnectError("invalid agent token", Code.Unauthenticated);
+  }
+  if (token.expiresAt && Number(token.expiresAt.seconds) * 1000 < ctx.now().getTime()) {
+    throw new ConnectError("agent token expired", Code.Unauthenticated);
+  }
+  token.lastUsedAt = ctx.timestamp();
+  return token.bindingId;
+}